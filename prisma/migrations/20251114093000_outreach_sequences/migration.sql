@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "previousJobId" TEXT,
+ADD COLUMN     "sequenceId" TEXT,
+ADD COLUMN     "sequenceStep" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."OutreachSequence" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "manualCampaignId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OutreachSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."OutreachSequenceStep" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "stepNumber" INTEGER NOT NULL,
+    "delayHours" INTEGER NOT NULL DEFAULT 72,
+    "subjectTemplate" TEXT,
+    "bodyTemplate" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OutreachSequenceStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OutreachSequence_userId_idx" ON "public"."OutreachSequence"("userId");
+
+-- CreateIndex
+CREATE INDEX "OutreachSequence_campaignId_idx" ON "public"."OutreachSequence"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "OutreachSequence_manualCampaignId_idx" ON "public"."OutreachSequence"("manualCampaignId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OutreachSequenceStep_sequenceId_stepNumber_key" ON "public"."OutreachSequenceStep"("sequenceId", "stepNumber");
+
+-- CreateIndex
+CREATE INDEX "EmailSendJob_sequenceId_idx" ON "public"."EmailSendJob"("sequenceId");
+
+-- AddForeignKey
+ALTER TABLE "public"."EmailSendJob" ADD CONSTRAINT "EmailSendJob_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "public"."OutreachSequence"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OutreachSequence" ADD CONSTRAINT "OutreachSequence_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OutreachSequence" ADD CONSTRAINT "OutreachSequence_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "public"."Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OutreachSequenceStep" ADD CONSTRAINT "OutreachSequenceStep_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "public"."OutreachSequence"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."EmailReply" ADD COLUMN     "rfcMessageId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "gmailMessageId" TEXT,
+ADD COLUMN     "gmailThreadId" TEXT,
+ADD COLUMN     "inReplyTo" TEXT,
+ADD COLUMN     "references" TEXT,
+ADD COLUMN     "rfcMessageId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EmailSendJob_gmailThreadId_idx" ON "public"."EmailSendJob"("gmailThreadId");
+
+-- CreateIndex
+CREATE INDEX "EmailSendJob_rfcMessageId_idx" ON "public"."EmailSendJob"("rfcMessageId");
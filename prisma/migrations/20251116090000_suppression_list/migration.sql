@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."SuppressionType" AS ENUM ('EMAIL', 'DOMAIN');
+
+-- CreateTable
+CREATE TABLE "public"."SuppressionEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "type" "public"."SuppressionType" NOT NULL,
+    "value" TEXT NOT NULL,
+    "reason" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SuppressionEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SuppressionEntry_value_idx" ON "public"."SuppressionEntry"("value");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SuppressionEntry_userId_type_value_key" ON "public"."SuppressionEntry"("userId", "type", "value");
+
+-- CreateIndex
+-- Postgres treats NULLs as distinct, so org-wide entries need their own uniqueness guard.
+CREATE UNIQUE INDEX "SuppressionEntry_org_type_value_key" ON "public"."SuppressionEntry"("type", "value") WHERE "userId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "public"."SuppressionEntry" ADD CONSTRAINT "SuppressionEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "cancelledByReplyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."SuppressionEntry" ADD COLUMN     "replyId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EmailSendJob_cancelledByReplyId_idx" ON "public"."EmailSendJob"("cancelledByReplyId");
+
+-- CreateIndex
+CREATE INDEX "SuppressionEntry_replyId_idx" ON "public"."SuppressionEntry"("replyId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SuppressionEntry" ADD CONSTRAINT "SuppressionEntry_replyId_fkey" FOREIGN KEY ("replyId") REFERENCES "public"."EmailReply"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "public"."AlertEventType" AS ENUM ('REPLY_RECEIVED', 'EMAIL_SENT', 'EMAIL_FAILED', 'LEAD_FETCH_SUCCEEDED', 'LEAD_FETCH_FAILED');
+
+-- CreateEnum
+CREATE TYPE "public"."AlertAction" AS ENUM ('PAUSE_CAMPAIGN', 'FORWARD_REPLY', 'SEND_DIGEST');
+
+-- CreateTable
+CREATE TABLE "public"."AlertRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "event" "public"."AlertEventType",
+    "action" "public"."AlertAction" NOT NULL,
+    "disposition" "public"."ReplyDisposition",
+    "campaignId" TEXT,
+    "threshold" INTEGER NOT NULL DEFAULT 1,
+    "windowHours" INTEGER NOT NULL DEFAULT 24,
+    "recipient" TEXT,
+    "digestHour" INTEGER,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastFiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AlertRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."AlertEventLog" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "event" "public"."AlertEventType" NOT NULL,
+    "campaignId" TEXT,
+    "disposition" "public"."ReplyDisposition",
+    "referenceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AlertEventLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."AlertRuleFiring" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "event" "public"."AlertEventType",
+    "action" "public"."AlertAction" NOT NULL,
+    "status" TEXT NOT NULL,
+    "detail" TEXT,
+    "campaignId" TEXT,
+    "referenceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AlertRuleFiring_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AlertRule_userId_event_idx" ON "public"."AlertRule"("userId", "event");
+
+-- CreateIndex
+CREATE INDEX "AlertEventLog_userId_event_createdAt_idx" ON "public"."AlertEventLog"("userId", "event", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AlertRuleFiring_ruleId_createdAt_idx" ON "public"."AlertRuleFiring"("ruleId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AlertRuleFiring_userId_createdAt_idx" ON "public"."AlertRuleFiring"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."AlertRule" ADD CONSTRAINT "AlertRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AlertEventLog" ADD CONSTRAINT "AlertEventLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AlertRuleFiring" ADD CONSTRAINT "AlertRuleFiring_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "public"."AlertRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "public"."BookingStatus" AS ENUM ('SCHEDULED', 'CONFIRMED', 'COMPLETED', 'NO_SHOW', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."Booking" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "leadId" TEXT,
+    "campaignId" TEXT,
+    "replyId" TEXT,
+    "manualCampaignId" TEXT,
+    "manualCampaignName" TEXT,
+    "leadName" TEXT NOT NULL,
+    "leadEmail" TEXT NOT NULL,
+    "company" TEXT,
+    "meetingType" TEXT NOT NULL DEFAULT 'Intro Call',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "meetingLink" TEXT,
+    "notes" TEXT,
+    "status" "public"."BookingStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Booking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Booking_userId_startsAt_idx" ON "public"."Booking"("userId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "Booking_campaignId_idx" ON "public"."Booking"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "Booking_replyId_idx" ON "public"."Booking"("replyId");
+
+-- CreateIndex
+CREATE INDEX "Booking_leadId_idx" ON "public"."Booking"("leadId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Booking" ADD CONSTRAINT "Booking_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Booking" ADD CONSTRAINT "Booking_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "public"."Lead"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Booking" ADD CONSTRAINT "Booking_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "public"."Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Booking" ADD CONSTRAINT "Booking_replyId_fkey" FOREIGN KEY ("replyId") REFERENCES "public"."EmailReply"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "calendarFeedToken" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Booking" ADD COLUMN     "icsSequence" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "inviteSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendarFeedToken_key" ON "public"."users"("calendarFeedToken");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."GmailAccount" ADD COLUMN     "watchExpiresAt" TIMESTAMP(3);
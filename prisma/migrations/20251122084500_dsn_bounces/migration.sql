@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "public"."EmailSendStatus" ADD VALUE 'BOUNCED' BEFORE 'FAILED';
+
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "bounceType" TEXT,
+ADD COLUMN     "bounceStatus" TEXT,
+ADD COLUMN     "bounceDiagnostic" TEXT,
+ADD COLUMN     "bouncedAt" TIMESTAMP(3);
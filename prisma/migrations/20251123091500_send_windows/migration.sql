@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "public"."Lead" ADD COLUMN     "timeZone" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "leadTimeZone" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."SendWindow" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "manualCampaignId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "days" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[],
+    "startMinute" INTEGER NOT NULL DEFAULT 540,
+    "endMinute" INTEGER NOT NULL DEFAULT 1020,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SendWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SendWindow_userId_idx" ON "public"."SendWindow"("userId");
+
+-- CreateIndex
+CREATE INDEX "SendWindow_campaignId_idx" ON "public"."SendWindow"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "SendWindow_manualCampaignId_idx" ON "public"."SendWindow"("manualCampaignId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SendWindow" ADD CONSTRAINT "SendWindow_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SendWindow" ADD CONSTRAINT "SendWindow_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "public"."Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."GmailAccount" ADD COLUMN     "dailySendCap" INTEGER NOT NULL DEFAULT 200,
+ADD COLUMN     "warmupEnabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "warmupIncreasePercent" INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN     "warmupStartVolume" INTEGER NOT NULL DEFAULT 20,
+ADD COLUMN     "warmupStartedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
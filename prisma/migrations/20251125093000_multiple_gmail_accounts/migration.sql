@@ -0,0 +1,22 @@
+-- DropIndex
+DROP INDEX "public"."GmailAccount_userId_key";
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "mailboxRotation" TEXT NOT NULL DEFAULT 'round_robin';
+
+-- AlterTable
+ALTER TABLE "public"."GmailAccount" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."EmailReply" ADD COLUMN     "gmailAccountId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "GmailAccount_userId_idx" ON "public"."GmailAccount"("userId");
+
+-- CreateIndex
+CREATE INDEX "EmailReply_gmailAccountId_idx" ON "public"."EmailReply"("gmailAccountId");
+
+-- AddForeignKey
+ALTER TABLE "public"."EmailReply" ADD CONSTRAINT "EmailReply_gmailAccountId_fkey" FOREIGN KEY ("gmailAccountId") REFERENCES "public"."GmailAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."GmailAccount" ADD COLUMN     "transport" TEXT NOT NULL DEFAULT 'gmail',
+ADD COLUMN     "smtpHost" TEXT,
+ADD COLUMN     "smtpPort" INTEGER,
+ADD COLUMN     "smtpSecurity" TEXT,
+ADD COLUMN     "smtpUsername" TEXT,
+ADD COLUMN     "smtpPassword" TEXT;
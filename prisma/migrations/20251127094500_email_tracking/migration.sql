@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "trackOpens" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "trackClicks" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "openCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "clickCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "firstOpenedAt" TIMESTAMP(3),
+ADD COLUMN     "firstClickedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."EmailTrackingEvent" (
+    "id" TEXT NOT NULL,
+    "emailSendJobId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "url" TEXT,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailTrackingEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."TrackingSetting" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "manualCampaignId" TEXT,
+    "trackOpens" BOOLEAN NOT NULL DEFAULT true,
+    "trackClicks" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TrackingSetting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailTrackingEvent_emailSendJobId_idx" ON "public"."EmailTrackingEvent"("emailSendJobId");
+
+-- CreateIndex
+CREATE INDEX "EmailTrackingEvent_createdAt_idx" ON "public"."EmailTrackingEvent"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "TrackingSetting_userId_idx" ON "public"."TrackingSetting"("userId");
+
+-- CreateIndex
+CREATE INDEX "TrackingSetting_campaignId_idx" ON "public"."TrackingSetting"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "TrackingSetting_manualCampaignId_idx" ON "public"."TrackingSetting"("manualCampaignId");
+
+-- AddForeignKey
+ALTER TABLE "public"."EmailTrackingEvent" ADD CONSTRAINT "EmailTrackingEvent_emailSendJobId_fkey" FOREIGN KEY ("emailSendJobId") REFERENCES "public"."EmailSendJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TrackingSetting" ADD CONSTRAINT "TrackingSetting_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TrackingSetting" ADD CONSTRAINT "TrackingSetting_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "public"."Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
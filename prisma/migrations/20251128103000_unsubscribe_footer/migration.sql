@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "unsubscribeFooter" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."VariantExperiment" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "manualCampaignId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "metric" TEXT NOT NULL DEFAULT 'reply',
+    "autoPromote" BOOLEAN NOT NULL DEFAULT false,
+    "minSampleSize" INTEGER NOT NULL DEFAULT 50,
+    "winnerVariantId" TEXT,
+    "promotedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VariantExperiment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."EmailVariant" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "subjectTemplate" TEXT NOT NULL,
+    "bodyTemplate" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailSendJob_variantId_idx" ON "public"."EmailSendJob"("variantId");
+
+-- CreateIndex
+CREATE INDEX "VariantExperiment_userId_idx" ON "public"."VariantExperiment"("userId");
+
+-- CreateIndex
+CREATE INDEX "VariantExperiment_campaignId_idx" ON "public"."VariantExperiment"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "VariantExperiment_manualCampaignId_idx" ON "public"."VariantExperiment"("manualCampaignId");
+
+-- CreateIndex
+CREATE INDEX "EmailVariant_experimentId_idx" ON "public"."EmailVariant"("experimentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."EmailSendJob" ADD CONSTRAINT "EmailSendJob_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."EmailVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."VariantExperiment" ADD CONSTRAINT "VariantExperiment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."VariantExperiment" ADD CONSTRAINT "VariantExperiment_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "public"."Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EmailVariant" ADD CONSTRAINT "EmailVariant_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "public"."VariantExperiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "public"."DeliverabilitySetting" (
+    "id" TEXT NOT NULL DEFAULT 'global',
+    "blockThreshold" INTEGER,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeliverabilitySetting_pkey" PRIMARY KEY ("id")
+);
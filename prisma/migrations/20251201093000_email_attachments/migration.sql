@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "attachments" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."EmailAttachment" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "data" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailAttachment_userId_idx" ON "public"."EmailAttachment"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."EmailAttachment" ADD CONSTRAINT "EmailAttachment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
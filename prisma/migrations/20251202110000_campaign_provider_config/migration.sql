@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Campaign" ADD COLUMN     "providerConfig" JSONB;
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "public"."Campaign" ADD COLUMN     "skipContactedWithinDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."Lead" ADD COLUMN     "contactId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Contact" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "lastContactedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Contact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Contact_userId_lastContactedAt_idx" ON "public"."Contact"("userId", "lastContactedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contact_userId_email_key" ON "public"."Contact"("userId", "email");
+
+-- CreateIndex
+CREATE INDEX "Lead_contactId_idx" ON "public"."Lead"("contactId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Lead" ADD CONSTRAINT "Lead_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "public"."Contact"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Contact" ADD CONSTRAINT "Contact_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill contacts from existing leads and sent emails. Mirrors normalizeContactEmail: lower-cased,
+-- trimmed and without a +tag; locked placeholder addresses are skipped.
+INSERT INTO "public"."Contact" ("id", "userId", "email", "lastContactedAt", "updatedAt")
+SELECT gen_random_uuid()::text, "userId", "email", MAX("sentAt"), CURRENT_TIMESTAMP
+FROM (
+    SELECT "userId", regexp_replace(lower(btrim("email")), '\+[^@]*@', '@') AS "email", NULL::TIMESTAMP(3) AS "sentAt"
+    FROM "public"."Lead"
+    UNION ALL
+    SELECT "userId", regexp_replace(lower(btrim("leadEmail")), '\+[^@]*@', '@'), "sentAt"
+    FROM "public"."EmailSendJob"
+    WHERE "status" IN ('SENT', 'BOUNCED')
+) AS "addresses"
+WHERE "email" ~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' AND "email" NOT LIKE '%@locked.%'
+GROUP BY "userId", "email";
+
+UPDATE "public"."Lead" AS "lead"
+SET "contactId" = "contact"."id"
+FROM "public"."Contact" AS "contact"
+WHERE "contact"."userId" = "lead"."userId"
+  AND "contact"."email" = regexp_replace(lower(btrim("lead"."email")), '\+[^@]*@', '@');
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "public"."EmailVerificationStatus" AS ENUM ('UNVERIFIED', 'VALID', 'RISKY', 'INVALID');
+
+-- AlterTable
+ALTER TABLE "public"."Lead" ADD COLUMN     "emailVerificationStatus" "public"."EmailVerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+ADD COLUMN     "emailVerificationReasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Campaign" ADD COLUMN     "excludeRiskyEmails" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Lead_campaignId_emailVerificationStatus_idx" ON "public"."Lead"("campaignId", "emailVerificationStatus");
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "public"."Campaign" ADD COLUMN     "refreshSchedule" TEXT,
+ADD COLUMN     "nextRefreshAt" TIMESTAMP(3),
+ADD COLUMN     "lastRefreshedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."CampaignJob" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'full';
+
+-- AlterTable
+ALTER TABLE "public"."Lead" ADD COLUMN     "campaignJobId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."CampaignSearchCursor" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "searchMode" TEXT NOT NULL,
+    "page" INTEGER NOT NULL DEFAULT 1,
+    "cursor" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CampaignSearchCursor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CampaignSearchCursor_campaignId_searchMode_key" ON "public"."CampaignSearchCursor"("campaignId", "searchMode");
+
+-- CreateIndex
+CREATE INDEX "Campaign_nextRefreshAt_idx" ON "public"."Campaign"("nextRefreshAt");
+
+-- CreateIndex
+CREATE INDEX "Lead_campaignJobId_idx" ON "public"."Lead"("campaignJobId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CampaignSearchCursor" ADD CONSTRAINT "CampaignSearchCursor_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "public"."Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Lead" ADD CONSTRAINT "Lead_campaignJobId_fkey" FOREIGN KEY ("campaignJobId") REFERENCES "public"."CampaignJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
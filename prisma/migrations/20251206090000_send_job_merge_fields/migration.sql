@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."EmailSendJob" ADD COLUMN     "mergeFields" JSONB;
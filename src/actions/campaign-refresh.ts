@@ -0,0 +1,87 @@
+'use server'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import {
+  enqueueCampaignRefresh,
+  getCampaignRefreshSummary,
+  getNextRefreshAt,
+  isRefreshSchedule,
+} from '@/lib/leads/refresh'
+import type { CampaignRefreshSummary, RefreshSchedule } from '@/types/campaign-refresh'
+
+const findOwnedCampaign = async (campaignId: string, userId: string) =>
+  prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+    select: { id: true, userId: true, isActive: true },
+  })
+
+export async function getCampaignRefreshAction(campaignId: string): Promise<CampaignRefreshSummary | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return null
+  }
+  const campaign = await findOwnedCampaign(campaignId, user.userId)
+  return campaign ? getCampaignRefreshSummary(campaign.id) : null
+}
+
+/**
+ * Sets how often the campaign refreshes on its own, or turns scheduled refreshes off with
+ * null. The first scheduled run is one interval from now.
+ */
+export async function saveRefreshScheduleAction(input: {
+  campaignId: string
+  schedule: RefreshSchedule | null
+}): Promise<CampaignRefreshSummary | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to schedule refreshes.')
+  }
+  if (input.schedule !== null && !isRefreshSchedule(input.schedule)) {
+    throw new Error('Choose a daily, weekly or monthly refresh.')
+  }
+
+  const campaign = await findOwnedCampaign(input.campaignId, user.userId)
+  if (!campaign) {
+    throw new Error('Campaign not found.')
+  }
+
+  await prisma.campaign.update({
+    where: { id: campaign.id },
+    data: {
+      refreshSchedule: input.schedule,
+      nextRefreshAt: input.schedule ? getNextRefreshAt(input.schedule) : null,
+    },
+  })
+
+  revalidatePath(`/dashboard/leads/${campaign.id}`)
+  return getCampaignRefreshSummary(campaign.id)
+}
+
+/** Queues a refresh run now, fetching only people not already in the campaign. */
+export async function runCampaignRefreshAction(campaignId: string): Promise<CampaignRefreshSummary | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to refresh a campaign.')
+  }
+
+  const campaign = await findOwnedCampaign(campaignId, user.userId)
+  if (!campaign) {
+    throw new Error('Campaign not found.')
+  }
+  if (!campaign.isActive) {
+    throw new Error('Resume the campaign before refreshing it.')
+  }
+
+  const jobId = await enqueueCampaignRefresh(campaign)
+  if (!jobId) {
+    throw new Error('A lead pull is already running for this campaign.')
+  }
+
+  revalidateTag(`user-campaigns:${user.userId}`)
+  revalidateTag('campaign-detail')
+  revalidatePath(`/dashboard/leads/${campaign.id}`)
+  return getCampaignRefreshSummary(campaign.id)
+}
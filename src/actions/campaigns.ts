@@ -7,6 +7,7 @@ import { unstable_cache } from 'next/cache'
 
 import { getApiClient } from '@/lib/http-client'
 import { prisma } from '@/lib/prisma'
+import type { LeadProviderId, RestLeadProviderConfig } from '@/types/lead-provider'
 
 type LatestJobSnapshot = {
   id: string
@@ -26,6 +27,7 @@ export type CampaignDetailMetrics = {
   leadsWithoutEmail: number
   suppressedLeads: number
   invalidLeads: number
+  riskyLeads: number
   readyForOutreach: number
   leadsProcessed: number
   leadsWritten: number
@@ -43,6 +45,7 @@ export type CampaignDetail = {
     searchMode: string
     includeDomains?: string | null
     excludeDomains?: string | null
+    excludeRiskyEmails: boolean
     isActive: boolean
     createdAt: string
     updatedAt: string
@@ -66,6 +69,10 @@ export type CreateCampaignPayload = {
   googleSheetId: string
   includeDomains?: string
   excludeDomains?: string
+  source: LeadProviderId
+  providerConfig?: RestLeadProviderConfig
+  skipContactedWithinDays?: number | null
+  excludeRiskyEmails?: boolean
 }
 
 /**
@@ -111,6 +118,7 @@ const fetchCampaignDetail = async (campaignId: string, userId: string): Promise<
       searchMode: true,
       includeDomains: true,
       excludeDomains: true,
+      excludeRiskyEmails: true,
       isActive: true,
       createdAt: true,
       updatedAt: true,
@@ -157,16 +165,18 @@ const fetchCampaignDetail = async (campaignId: string, userId: string): Promise<
       }
     : null
 
-  const [totalLeads, leadsWithoutEmail, suppressedLeads, invalidLeads, readyForOutreach] = await Promise.all([
+  const [totalLeads, leadsWithoutEmail, suppressedLeads, invalidLeads, riskyLeads, readyForOutreach] = await Promise.all([
     prisma.lead.count({ where: { campaignId } }),
     prisma.lead.count({ where: { campaignId, email: '' } }),
     prisma.lead.count({ where: { campaignId, isSuppressed: true } }),
     prisma.lead.count({ where: { campaignId, isValid: false } }),
+    prisma.lead.count({ where: { campaignId, emailVerificationStatus: 'RISKY' } }),
     prisma.lead.count({
       where: {
         campaignId,
         isSuppressed: false,
         isValid: true,
+        emailVerificationStatus: { notIn: campaign.excludeRiskyEmails ? ['INVALID', 'RISKY'] : ['INVALID'] },
         NOT: { email: '' },
       },
     }),
@@ -178,6 +188,7 @@ const fetchCampaignDetail = async (campaignId: string, userId: string): Promise<
     leadsWithEmail: totalLeads - leadsWithoutEmail,
     suppressedLeads,
     invalidLeads,
+    riskyLeads,
     readyForOutreach,
     leadsProcessed: latestJob?.leadsProcessed ?? 0,
     leadsWritten: latestJob?.leadsWritten ?? 0,
@@ -194,6 +205,7 @@ const fetchCampaignDetail = async (campaignId: string, userId: string): Promise<
       searchMode: campaign.searchMode,
       includeDomains: campaign.includeDomains,
       excludeDomains: campaign.excludeDomains,
+      excludeRiskyEmails: campaign.excludeRiskyEmails,
       isActive: campaign.isActive,
       createdAt: campaign.createdAt.toISOString(),
       updatedAt: campaign.updatedAt.toISOString(),
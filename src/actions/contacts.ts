@@ -0,0 +1,197 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { findLatestRefreshJob } from '@/lib/leads/refresh'
+import type { CampaignLeadListItem, LeadHistory } from '@/types/contact'
+import type { EmailVerificationReason } from '@/types/email-verification'
+
+const CAMPAIGN_LEAD_LIMIT = 50
+const HISTORY_LIMIT = 100
+
+/** Most recent leads of a campaign, with how many of the user's campaigns each person is in. */
+export async function getCampaignLeadsAction(campaignId: string): Promise<CampaignLeadListItem[]> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to view leads')
+  }
+
+  const [leads, latestRefresh] = await Promise.all([
+    prisma.lead.findMany({
+      where: { campaignId, userId: user.userId },
+      orderBy: { createdAt: 'desc' },
+      take: CAMPAIGN_LEAD_LIMIT,
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        company: true,
+        jobTitle: true,
+        isValid: true,
+        isSuppressed: true,
+        emailVerificationStatus: true,
+        createdAt: true,
+        contactId: true,
+        campaignJobId: true,
+        contact: { select: { lastContactedAt: true } },
+      },
+    }),
+    findLatestRefreshJob(campaignId),
+  ])
+
+  const contactIds = Array.from(new Set(leads.map((lead) => lead.contactId).filter((id): id is string => Boolean(id))))
+  const campaignCounts = contactIds.length
+    ? await prisma.lead.groupBy({
+        by: ['contactId'],
+        where: { userId: user.userId, contactId: { in: contactIds } },
+        _count: { _all: true },
+      })
+    : []
+  const countByContact = new Map(campaignCounts.map((entry) => [entry.contactId, entry._count._all]))
+
+  return leads.map((lead) => ({
+    id: lead.id,
+    email: lead.email,
+    name: [lead.firstName, lead.lastName].filter(Boolean).join(' ') || null,
+    company: lead.company,
+    jobTitle: lead.jobTitle,
+    isValid: lead.isValid,
+    isSuppressed: lead.isSuppressed,
+    emailVerificationStatus: lead.emailVerificationStatus,
+    lastContactedAt: lead.contact?.lastContactedAt?.toISOString() ?? null,
+    campaignCount: lead.contactId ? countByContact.get(lead.contactId) ?? 1 : 1,
+    isNew: Boolean(latestRefresh && lead.campaignJobId === latestRefresh.id),
+    createdAt: lead.createdAt.toISOString(),
+  }))
+}
+
+/**
+ * Everything the user has on record for the person behind a lead: their lead records in other
+ * campaigns, every email sent to them and every reply they sent back.
+ */
+export async function getLeadHistoryAction(leadId: string): Promise<LeadHistory | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to view lead history')
+  }
+
+  const lead = await prisma.lead.findFirst({
+    where: { id: leadId, userId: user.userId },
+    include: {
+      campaign: { select: { name: true } },
+      contact: true,
+    },
+  })
+  if (!lead) {
+    return null
+  }
+
+  const relatedLeads = lead.contactId
+    ? await prisma.lead.findMany({
+        where: { userId: user.userId, contactId: lead.contactId },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, email: true, campaignId: true, source: true, createdAt: true, campaign: { select: { name: true } } },
+      })
+    : [{ id: lead.id, email: lead.email, campaignId: lead.campaignId, source: lead.source, createdAt: lead.createdAt, campaign: lead.campaign }]
+
+  // Send jobs and replies store the address as typed, so match every variant seen for this person.
+  const addresses = Array.from(new Set([
+    ...relatedLeads.map((related) => related.email),
+    ...(lead.contact ? [lead.contact.email] : []),
+  ]))
+  const relatedLeadIds = relatedLeads.map((related) => related.id)
+
+  const [emails, replies] = await Promise.all([
+    prisma.emailSendJob.findMany({
+      where: { userId: user.userId, leadEmail: { in: addresses, mode: 'insensitive' } },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_LIMIT,
+      select: {
+        id: true,
+        subject: true,
+        status: true,
+        sequenceStep: true,
+        sentAt: true,
+        createdAt: true,
+        openCount: true,
+        clickCount: true,
+        manualCampaignName: true,
+        campaign: { select: { name: true } },
+      },
+    }),
+    prisma.emailReply.findMany({
+      where: {
+        userId: user.userId,
+        OR: [{ leadId: { in: relatedLeadIds } }, { leadEmail: { in: addresses, mode: 'insensitive' } }],
+      },
+      orderBy: { receivedAt: 'desc' },
+      take: HISTORY_LIMIT,
+      select: {
+        id: true,
+        subject: true,
+        snippet: true,
+        disposition: true,
+        receivedAt: true,
+        campaign: { select: { name: true } },
+      },
+    }),
+  ])
+
+  return {
+    lead: {
+      id: lead.id,
+      email: lead.email,
+      firstName: lead.firstName,
+      lastName: lead.lastName,
+      company: lead.company,
+      jobTitle: lead.jobTitle,
+      website: lead.website,
+      linkedinUrl: lead.linkedinUrl,
+      location: lead.location,
+      summary: lead.summary,
+      source: lead.source,
+      isValid: lead.isValid,
+      isSuppressed: lead.isSuppressed,
+      emailVerificationStatus: lead.emailVerificationStatus,
+      emailVerificationReasons: lead.emailVerificationReasons as EmailVerificationReason[],
+      emailVerifiedAt: lead.emailVerifiedAt?.toISOString() ?? null,
+      campaignId: lead.campaignId,
+      campaignName: lead.campaign.name,
+      createdAt: lead.createdAt.toISOString(),
+    },
+    contact: lead.contact
+      ? {
+          id: lead.contact.id,
+          email: lead.contact.email,
+          lastContactedAt: lead.contact.lastContactedAt?.toISOString() ?? null,
+        }
+      : null,
+    leads: relatedLeads.map((related) => ({
+      id: related.id,
+      campaignId: related.campaignId,
+      campaignName: related.campaign.name,
+      source: related.source,
+      createdAt: related.createdAt.toISOString(),
+    })),
+    emails: emails.map((email) => ({
+      id: email.id,
+      subject: email.subject,
+      status: email.status,
+      campaignName: email.campaign?.name ?? email.manualCampaignName ?? null,
+      sequenceStep: email.sequenceStep,
+      sentAt: email.sentAt?.toISOString() ?? null,
+      createdAt: email.createdAt.toISOString(),
+      openCount: email.openCount,
+      clickCount: email.clickCount,
+    })),
+    replies: replies.map((reply) => ({
+      id: reply.id,
+      subject: reply.subject,
+      snippet: reply.snippet,
+      disposition: reply.disposition,
+      campaignName: reply.campaign?.name ?? null,
+      receivedAt: reply.receivedAt.toISOString(),
+    })),
+  }
+}
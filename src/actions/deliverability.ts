@@ -0,0 +1,37 @@
+'use server'
+
+import { getCurrentUser } from '@/lib/auth'
+import { getDeliverabilitySettings, saveDeliverabilitySettings } from '@/lib/email/deliverability-settings'
+import type { DeliverabilitySettings } from '@/types/deliverability'
+
+/**
+ * The org-wide blocking threshold, so the outreach wizard can warn before a send is refused.
+ */
+export async function getDeliverabilitySettingsAction(): Promise<DeliverabilitySettings | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return null
+  }
+  return getDeliverabilitySettings()
+}
+
+/**
+ * Sets the minimum deliverability score an email needs to be queued. Admins only; pass null
+ * to show warnings without blocking anything.
+ */
+export async function saveDeliverabilitySettingsAction(input: DeliverabilitySettings): Promise<DeliverabilitySettings> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage deliverability settings.')
+  }
+  if (user.role !== 'admin') {
+    throw new Error('Admin access required to change the blocking threshold.')
+  }
+
+  const threshold = input.blockThreshold === null ? null : Math.round(Number(input.blockThreshold))
+  if (threshold !== null && (!Number.isFinite(threshold) || threshold < 1 || threshold > 100)) {
+    throw new Error('The blocking threshold must be between 1 and 100.')
+  }
+
+  return saveDeliverabilitySettings({ blockThreshold: threshold }, user.userId)
+}
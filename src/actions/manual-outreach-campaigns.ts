@@ -13,6 +13,7 @@ export type ManualOutreachCampaignMetrics = {
   queued: number
   pending: number
   sending: number
+  bounced: number
   failed: number
   cancelled: number
   drafts: number
@@ -33,7 +34,7 @@ export type ManualOutreachCampaignDetail = {
   emails: OutreachedJob[]
 }
 
-const EMAIL_STATUSES: EmailSendStatus[] = ['PENDING', 'QUEUED', 'SENDING', 'SENT', 'FAILED', 'CANCELLED']
+const EMAIL_STATUSES: EmailSendStatus[] = ['PENDING', 'QUEUED', 'SENDING', 'SENT', 'BOUNCED', 'FAILED', 'CANCELLED']
 
 const mapDraftStatusToJobStatus = (status: DraftStatus | undefined): string => {
   switch (status) {
@@ -111,6 +112,8 @@ const fetchManualOutreachCampaignDetail = async (
       status: job.status,
       sheetRowRef: job.sheetRowRef ?? null,
       sentAt: job.sentAt ? job.sentAt.toISOString() : null,
+      scheduledAt: job.scheduledAt ? job.scheduledAt.toISOString() : null,
+      leadTimeZone: job.leadTimeZone,
       createdAt: job.createdAt.toISOString(),
       manualCampaignId: job.manualCampaignId,
       manualCampaignName: job.manualCampaignName,
@@ -182,6 +185,7 @@ const fetchManualOutreachCampaignDetail = async (
     queued: counts.QUEUED,
     pending: counts.PENDING,
     sending: counts.SENDING,
+    bounced: counts.BOUNCED,
     failed: counts.FAILED,
     cancelled: counts.CANCELLED,
     drafts: draftRows.length,
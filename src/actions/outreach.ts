@@ -29,10 +29,12 @@ type SendJobPayload = {
   lastName?: string
   company?: string
   summary?: string
+  fields?: Record<string, string>
   sheetRowRef?: string
   manualCampaignId?: string
   manualCampaignName?: string
   manualCampaignSource?: string | null
+  attachmentIds?: string[]
 }
 
 export async function sendBulkEmailsAction(payload: { jobs: SendJobPayload[] }) {
@@ -0,0 +1,220 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { isValidTimeZone, resolveSendSchedule, type SendWindowRule } from '@/lib/email/send-windows'
+import type { ScheduledSendPreview, SendWindow, SendWindowTarget } from '@/types/send-window'
+
+const MINUTES_PER_DAY = 24 * 60
+const MAX_PREVIEW_EMAILS = 50
+
+type SendWindowRecord = {
+  id: string
+  campaignId: string | null
+  manualCampaignId: string | null
+  isActive: boolean
+  days: number[]
+  startMinute: number
+  endMinute: number
+  timeZone: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const mapSendWindow = (window: SendWindowRecord): SendWindow => ({
+  id: window.id,
+  campaignId: window.campaignId,
+  manualCampaignId: window.manualCampaignId,
+  isActive: window.isActive,
+  days: window.days,
+  startMinute: window.startMinute,
+  endMinute: window.endMinute,
+  timeZone: window.timeZone,
+  createdAt: window.createdAt.toISOString(),
+  updatedAt: window.updatedAt.toISOString(),
+})
+
+const targetWhere = (target: SendWindowTarget) =>
+  target.campaignId ? { campaignId: target.campaignId } : { manualCampaignId: target.manualCampaignId }
+
+const revalidateTarget = (target: SendWindowTarget) => {
+  if (target.campaignId) {
+    revalidatePath(`/dashboard/leads/${target.campaignId}`)
+  } else {
+    revalidatePath(`/dashboard/outreach/${target.manualCampaignId}`)
+  }
+}
+
+const normalizeRule = (input: SendWindowRule): SendWindowRule => {
+  const days = Array.from(new Set(input.days.map((day) => Math.round(Number(day))))).sort((a, b) => a - b)
+  const startMinute = Math.round(Number(input.startMinute))
+  const endMinute = Math.round(Number(input.endMinute))
+  const timeZone = input.timeZone.trim()
+
+  if (days.length === 0 || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error('Pick at least one sending day.')
+  }
+  if (
+    !Number.isFinite(startMinute) ||
+    !Number.isFinite(endMinute) ||
+    startMinute < 0 ||
+    endMinute > MINUTES_PER_DAY ||
+    endMinute <= startMinute
+  ) {
+    throw new Error('The window must end after it starts on the same day.')
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error('Enter a valid fallback time zone, for example America/New_York.')
+  }
+
+  return { days, startMinute, endMinute, timeZone }
+}
+
+/**
+ * Returns the send window attached to an Apollo or manual outreach campaign, if any.
+ */
+export async function getSendWindowForCampaignAction(target: SendWindowTarget): Promise<SendWindow | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return null
+  }
+
+  const window = await prisma.sendWindow.findFirst({
+    where: { userId: user.userId, ...targetWhere(target) },
+    orderBy: { updatedAt: 'desc' },
+  })
+
+  return window ? mapSendWindow(window) : null
+}
+
+/**
+ * Picks a handful of recipients to preview the window against: the campaign's leads for
+ * Apollo campaigns, or the latest queued and sent recipients for manual outreach.
+ */
+export async function getSendPreviewRecipientsAction(target: SendWindowTarget, limit = 8): Promise<string[]> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return []
+  }
+
+  if (target.campaignId) {
+    const leads = await prisma.lead.findMany({
+      where: { userId: user.userId, campaignId: target.campaignId, isValid: true, isSuppressed: false },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { email: true },
+    })
+    return leads.map((lead) => lead.email)
+  }
+
+  const jobs = await prisma.emailSendJob.findMany({
+    where: { userId: user.userId, manualCampaignId: target.manualCampaignId },
+    orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+    take: limit * 4,
+    select: { leadEmail: true },
+  })
+  return Array.from(new Set(jobs.map((job) => job.leadEmail.toLowerCase()))).slice(0, limit)
+}
+
+type SaveSendWindowInput = SendWindowRule & {
+  target: SendWindowTarget
+  isActive: boolean
+}
+
+/**
+ * Creates or updates the campaign's send window. Emails already queued are re-checked
+ * by the worker when they come due and deferred again if they fall outside the new window.
+ */
+export async function saveSendWindowAction(input: SaveSendWindowInput): Promise<SendWindow> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage send windows.')
+  }
+
+  const { target } = input
+  if (!target.campaignId && !target.manualCampaignId) {
+    throw new Error('A campaign is required to attach a send window.')
+  }
+
+  if (target.campaignId) {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: target.campaignId, userId: user.userId },
+      select: { id: true },
+    })
+    if (!campaign) {
+      throw new Error('Campaign not found.')
+    }
+  }
+
+  const rule = normalizeRule(input)
+  const existing = await prisma.sendWindow.findFirst({
+    where: { userId: user.userId, ...targetWhere(target) },
+    orderBy: { updatedAt: 'desc' },
+    select: { id: true },
+  })
+
+  const window = existing
+    ? await prisma.sendWindow.update({
+        where: { id: existing.id },
+        data: { ...rule, isActive: input.isActive },
+      })
+    : await prisma.sendWindow.create({
+        data: {
+          userId: user.userId,
+          campaignId: target.campaignId ?? null,
+          manualCampaignId: target.manualCampaignId ?? null,
+          isActive: input.isActive,
+          ...rule,
+        },
+      })
+
+  revalidateTarget(target)
+  return mapSendWindow(window)
+}
+
+export async function deleteSendWindowAction(id: string): Promise<{ success: boolean }> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage send windows.')
+  }
+
+  const window = await prisma.sendWindow.findFirst({
+    where: { id, userId: user.userId },
+    select: { id: true, campaignId: true, manualCampaignId: true },
+  })
+  if (!window) {
+    return { success: false }
+  }
+
+  await prisma.sendWindow.delete({ where: { id: window.id } })
+
+  if (window.campaignId) {
+    revalidateTarget({ campaignId: window.campaignId })
+  } else if (window.manualCampaignId) {
+    revalidateTarget({ manualCampaignId: window.manualCampaignId })
+  }
+  return { success: true }
+}
+
+/**
+ * Previews when emails to the given recipients would go out if queued now. Pass `window`
+ * to preview unsaved settings; otherwise the campaign's active window applies.
+ */
+export async function previewSendScheduleAction(input: {
+  target: SendWindowTarget | null
+  emails: string[]
+  window?: SendWindowRule | null
+}): Promise<ScheduledSendPreview[]> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to preview send times.')
+  }
+
+  const emails = input.emails.slice(0, MAX_PREVIEW_EMAILS)
+  const schedule = await resolveSendSchedule(user.userId, input.target ?? {}, emails, {
+    ...(input.window !== undefined ? { window: input.window ? normalizeRule(input.window) : null } : {}),
+  })
+  return Array.from(schedule.values())
+}
@@ -0,0 +1,219 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { parseTemplate, TemplateSyntaxError } from '@/lib/email/templates'
+import type { OutreachSequence, OutreachSequenceStep, OutreachSequenceTarget } from '@/types/sequence'
+
+const MAX_SEQUENCE_STEPS = 5
+const MAX_DELAY_HOURS = 24 * 30
+
+type SequenceRecord = {
+  id: string
+  name: string
+  campaignId: string | null
+  manualCampaignId: string | null
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  steps: Array<{
+    id: string
+    stepNumber: number
+    delayHours: number
+    subjectTemplate: string | null
+    bodyTemplate: string
+  }>
+}
+
+const mapSequence = (sequence: SequenceRecord): OutreachSequence => ({
+  id: sequence.id,
+  name: sequence.name,
+  campaignId: sequence.campaignId,
+  manualCampaignId: sequence.manualCampaignId,
+  isActive: sequence.isActive,
+  steps: sequence.steps.map((step) => ({
+    id: step.id,
+    stepNumber: step.stepNumber,
+    delayHours: step.delayHours,
+    subjectTemplate: step.subjectTemplate,
+    bodyTemplate: step.bodyTemplate,
+  })),
+  createdAt: sequence.createdAt.toISOString(),
+  updatedAt: sequence.updatedAt.toISOString(),
+})
+
+const targetWhere = (target: OutreachSequenceTarget) =>
+  target.campaignId ? { campaignId: target.campaignId } : { manualCampaignId: target.manualCampaignId }
+
+const revalidateTarget = (target: OutreachSequenceTarget) => {
+  if (target.campaignId) {
+    revalidatePath(`/dashboard/leads/${target.campaignId}`)
+  } else {
+    revalidatePath(`/dashboard/outreach/${target.manualCampaignId}`)
+  }
+}
+
+/**
+ * Returns the follow-up sequence attached to an Apollo or manual outreach campaign, if any.
+ * Used by the campaign detail pages to seed the sequence editor.
+ */
+export async function getSequenceForCampaignAction(target: OutreachSequenceTarget): Promise<OutreachSequence | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return null
+  }
+
+  const sequence = await prisma.outreachSequence.findFirst({
+    where: { userId: user.userId, ...targetWhere(target) },
+    orderBy: { updatedAt: 'desc' },
+    include: { steps: { orderBy: { stepNumber: 'asc' } } },
+  })
+
+  return sequence ? mapSequence(sequence) : null
+}
+
+type SaveSequenceInput = {
+  target: OutreachSequenceTarget
+  name: string
+  isActive: boolean
+  steps: Array<Pick<OutreachSequenceStep, 'delayHours' | 'subjectTemplate' | 'bodyTemplate'>>
+}
+
+/**
+ * Creates or replaces the follow-up sequence for a campaign.
+ * Steps are renumbered in the order supplied; emails already queued keep their rendered content.
+ */
+export async function saveSequenceAction(input: SaveSequenceInput): Promise<OutreachSequence> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage sequences.')
+  }
+
+  const { target } = input
+  if (!target.campaignId && !target.manualCampaignId) {
+    throw new Error('A campaign is required to attach a sequence.')
+  }
+
+  if (target.campaignId) {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: target.campaignId, userId: user.userId },
+      select: { id: true },
+    })
+    if (!campaign) {
+      throw new Error('Campaign not found.')
+    }
+  }
+
+  const steps = input.steps
+    .map((step) => ({
+      delayHours: Math.round(Number(step.delayHours)),
+      subjectTemplate: step.subjectTemplate?.trim() || null,
+      bodyTemplate: step.bodyTemplate.trim(),
+    }))
+    .filter((step) => step.bodyTemplate.length > 0)
+
+  if (steps.length > MAX_SEQUENCE_STEPS) {
+    throw new Error(`Sequences support up to ${MAX_SEQUENCE_STEPS} follow-up steps.`)
+  }
+
+  if (steps.some((step) => !Number.isFinite(step.delayHours) || step.delayHours < 1 || step.delayHours > MAX_DELAY_HOURS)) {
+    throw new Error('Each step delay must be between 1 hour and 30 days.')
+  }
+
+  steps.forEach((step, index) => {
+    try {
+      parseTemplate(step.bodyTemplate)
+      if (step.subjectTemplate) {
+        parseTemplate(step.subjectTemplate)
+      }
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        throw new Error(`Step ${index + 1}: ${error.message}`)
+      }
+      throw error
+    }
+  })
+
+  const name = input.name.trim() || 'Follow-up sequence'
+
+  const sequence = await prisma.$transaction(async (tx) => {
+    const existing = await tx.outreachSequence.findFirst({
+      where: { userId: user.userId, ...targetWhere(target) },
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true },
+    })
+
+    const record = existing
+      ? await tx.outreachSequence.update({
+          where: { id: existing.id },
+          data: { name, isActive: input.isActive },
+        })
+      : await tx.outreachSequence.create({
+          data: {
+            userId: user.userId,
+            name,
+            isActive: input.isActive,
+            campaignId: target.campaignId ?? null,
+            manualCampaignId: target.manualCampaignId ?? null,
+          },
+        })
+
+    await tx.outreachSequenceStep.deleteMany({ where: { sequenceId: record.id } })
+    if (steps.length > 0) {
+      await tx.outreachSequenceStep.createMany({
+        data: steps.map((step, index) => ({
+          sequenceId: record.id,
+          stepNumber: index + 1,
+          ...step,
+        })),
+      })
+    }
+
+    return tx.outreachSequence.findUniqueOrThrow({
+      where: { id: record.id },
+      include: { steps: { orderBy: { stepNumber: 'asc' } } },
+    })
+  })
+
+  revalidateTarget(target)
+  return mapSequence(sequence)
+}
+
+/**
+ * Deletes a sequence owned by the current user and cancels follow-ups that have not gone out yet.
+ */
+export async function deleteSequenceAction(id: string): Promise<{ success: boolean }> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage sequences.')
+  }
+
+  const sequence = await prisma.outreachSequence.findFirst({
+    where: { id, userId: user.userId },
+    select: { id: true, campaignId: true, manualCampaignId: true },
+  })
+  if (!sequence) {
+    return { success: false }
+  }
+
+  await prisma.$transaction([
+    prisma.emailSendJob.updateMany({
+      where: {
+        sequenceId: sequence.id,
+        sequenceStep: { gt: 0 },
+        status: { in: ['PENDING', 'QUEUED'] },
+      },
+      data: { status: 'CANCELLED', error: 'Sequence deleted' },
+    }),
+    prisma.outreachSequence.delete({ where: { id: sequence.id } }),
+  ])
+
+  if (sequence.campaignId) {
+    revalidateTarget({ campaignId: sequence.campaignId })
+  } else if (sequence.manualCampaignId) {
+    revalidateTarget({ manualCampaignId: sequence.manualCampaignId })
+  }
+  return { success: true }
+}
@@ -0,0 +1,92 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { findTrackingSetting, getTrackingBaseUrl, getTrackingStats } from '@/lib/email/tracking'
+import type { CampaignTracking, TrackingSettings, TrackingTarget } from '@/types/tracking'
+
+const jobWhere = (target: TrackingTarget) =>
+  target.campaignId ? { campaignId: target.campaignId } : { manualCampaignId: target.manualCampaignId }
+
+const revalidateTarget = (target: TrackingTarget) => {
+  if (target.campaignId) {
+    revalidatePath(`/dashboard/leads/${target.campaignId}`)
+  } else {
+    revalidatePath(`/dashboard/outreach/${target.manualCampaignId}`)
+  }
+}
+
+/**
+ * Tracking settings and open/click rates for an Apollo or manual outreach campaign.
+ */
+export async function getCampaignTrackingAction(target: TrackingTarget): Promise<CampaignTracking | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return null
+  }
+
+  const [setting, stats] = await Promise.all([
+    findTrackingSetting(user.userId, target),
+    getTrackingStats({ userId: user.userId, ...jobWhere(target) }),
+  ])
+
+  return {
+    settings: {
+      trackOpens: setting?.trackOpens ?? true,
+      trackClicks: setting?.trackClicks ?? true,
+    },
+    available: Boolean(getTrackingBaseUrl()),
+    stats,
+  }
+}
+
+type SaveTrackingSettingsInput = TrackingSettings & {
+  target: TrackingTarget
+}
+
+/**
+ * Turns open and click tracking on or off for a campaign. Only emails sent afterwards are
+ * affected; jobs already sent keep the flags they went out with.
+ */
+export async function saveTrackingSettingsAction(input: SaveTrackingSettingsInput): Promise<TrackingSettings> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage tracking.')
+  }
+
+  const { target } = input
+  if (!target.campaignId && !target.manualCampaignId) {
+    throw new Error('A campaign is required to change tracking settings.')
+  }
+
+  if (target.campaignId) {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: target.campaignId, userId: user.userId },
+      select: { id: true },
+    })
+    if (!campaign) {
+      throw new Error('Campaign not found.')
+    }
+  }
+
+  const settings = { trackOpens: Boolean(input.trackOpens), trackClicks: Boolean(input.trackClicks) }
+  const existing = await findTrackingSetting(user.userId, target)
+
+  if (existing) {
+    await prisma.trackingSetting.update({ where: { id: existing.id }, data: settings })
+  } else {
+    await prisma.trackingSetting.create({
+      data: {
+        userId: user.userId,
+        campaignId: target.campaignId ?? null,
+        manualCampaignId: target.manualCampaignId ?? null,
+        ...settings,
+      },
+    })
+  }
+
+  revalidateTarget(target)
+  return settings
+}
@@ -0,0 +1,268 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { getVariantStats, isVariantMetric, maybePromoteWinner, type ExperimentWithVariants } from '@/lib/email/variants'
+import type {
+  EmailVariant,
+  VariantExperiment,
+  VariantExperimentReport,
+  VariantExperimentTarget,
+  VariantMetric,
+} from '@/types/variant'
+
+const MAX_VARIANTS = 5
+const MAX_SAMPLE_SIZE = 10000
+
+const mapExperiment = (experiment: ExperimentWithVariants): VariantExperiment => ({
+  id: experiment.id,
+  campaignId: experiment.campaignId,
+  manualCampaignId: experiment.manualCampaignId,
+  isActive: experiment.isActive,
+  metric: isVariantMetric(experiment.metric) ? experiment.metric : 'reply',
+  autoPromote: experiment.autoPromote,
+  minSampleSize: experiment.minSampleSize,
+  winnerVariantId: experiment.winnerVariantId,
+  promotedAt: experiment.promotedAt?.toISOString() ?? null,
+  variants: experiment.variants.map((variant) => ({
+    id: variant.id,
+    label: variant.label,
+    subjectTemplate: variant.subjectTemplate,
+    bodyTemplate: variant.bodyTemplate,
+    isActive: variant.isActive,
+  })),
+  createdAt: experiment.createdAt.toISOString(),
+  updatedAt: experiment.updatedAt.toISOString(),
+})
+
+const targetWhere = (target: VariantExperimentTarget) =>
+  target.campaignId ? { campaignId: target.campaignId } : { manualCampaignId: target.manualCampaignId }
+
+const revalidateTarget = (target: VariantExperimentTarget) => {
+  if (target.campaignId) {
+    revalidatePath(`/dashboard/leads/${target.campaignId}`)
+  } else {
+    revalidatePath(`/dashboard/outreach/${target.manualCampaignId}`)
+  }
+}
+
+const buildReport = async (experiment: ExperimentWithVariants): Promise<VariantExperimentReport> => ({
+  experiment: mapExperiment(experiment),
+  stats: await getVariantStats(experiment),
+})
+
+/**
+ * Returns the A/B test attached to a campaign with per-variant results. Checks for a
+ * winner on the way, so an experiment that crossed its sample size is promoted on view.
+ */
+export async function getVariantExperimentAction(
+  target: VariantExperimentTarget,
+): Promise<VariantExperimentReport | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return null
+  }
+
+  const experiment = await prisma.variantExperiment.findFirst({
+    where: { userId: user.userId, ...targetWhere(target) },
+    orderBy: { updatedAt: 'desc' },
+    include: { variants: { orderBy: { createdAt: 'asc' } } },
+  })
+  if (!experiment) {
+    return null
+  }
+
+  return buildReport(experiment.isActive ? await maybePromoteWinner(experiment) : experiment)
+}
+
+type SaveVariantExperimentInput = {
+  target: VariantExperimentTarget
+  isActive: boolean
+  metric: VariantMetric
+  autoPromote: boolean
+  minSampleSize: number
+  variants: EmailVariant[]
+}
+
+/**
+ * Creates or updates the A/B test for a campaign. Variants that already went out are
+ * archived instead of deleted so their results stay attached to the sent emails.
+ */
+export async function saveVariantExperimentAction(input: SaveVariantExperimentInput): Promise<VariantExperimentReport> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage A/B tests.')
+  }
+
+  const { target } = input
+  if (!target.campaignId && !target.manualCampaignId) {
+    throw new Error('A campaign is required to run an A/B test.')
+  }
+
+  if (target.campaignId) {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: target.campaignId, userId: user.userId },
+      select: { id: true },
+    })
+    if (!campaign) {
+      throw new Error('Campaign not found.')
+    }
+  }
+
+  const variants = input.variants.map((variant, index) => ({
+    id: variant.id,
+    label: variant.label.trim() || `Variant ${String.fromCharCode(65 + index)}`,
+    subjectTemplate: variant.subjectTemplate.trim(),
+    bodyTemplate: variant.bodyTemplate.trim(),
+    isActive: variant.isActive,
+  }))
+
+  if (variants.length > MAX_VARIANTS) {
+    throw new Error(`A/B tests support up to ${MAX_VARIANTS} variants.`)
+  }
+  if (variants.some((variant) => !variant.subjectTemplate || !variant.bodyTemplate)) {
+    throw new Error('Each variant needs a subject and a body.')
+  }
+  if (variants.filter((variant) => variant.isActive).length < 2) {
+    throw new Error('An A/B test needs at least two active variants.')
+  }
+
+  const minSampleSize = Math.round(Number(input.minSampleSize))
+  if (!Number.isFinite(minSampleSize) || minSampleSize < 1 || minSampleSize > MAX_SAMPLE_SIZE) {
+    throw new Error(`The minimum sample must be between 1 and ${MAX_SAMPLE_SIZE} emails per variant.`)
+  }
+
+  const settings = {
+    isActive: input.isActive,
+    metric: isVariantMetric(input.metric) ? input.metric : 'reply',
+    autoPromote: input.autoPromote,
+    minSampleSize,
+  }
+
+  const experiment = await prisma.$transaction(async (tx) => {
+    const existing = await tx.variantExperiment.findFirst({
+      where: { userId: user.userId, ...targetWhere(target) },
+      orderBy: { updatedAt: 'desc' },
+      include: { variants: { select: { id: true } } },
+    })
+
+    const record = existing
+      ? await tx.variantExperiment.update({ where: { id: existing.id }, data: settings })
+      : await tx.variantExperiment.create({
+          data: {
+            userId: user.userId,
+            campaignId: target.campaignId ?? null,
+            manualCampaignId: target.manualCampaignId ?? null,
+            ...settings,
+          },
+        })
+
+    const keptIds = new Set(variants.map((variant) => variant.id).filter(Boolean))
+    const removedIds = (existing?.variants ?? []).map((variant) => variant.id).filter((id) => !keptIds.has(id))
+    if (removedIds.length > 0) {
+      const used = await tx.emailSendJob.findMany({
+        where: { variantId: { in: removedIds } },
+        distinct: ['variantId'],
+        select: { variantId: true },
+      })
+      const usedIds = used.map((job) => job.variantId).filter((id): id is string => Boolean(id))
+      await tx.emailVariant.deleteMany({ where: { id: { in: removedIds.filter((id) => !usedIds.includes(id)) } } })
+      await tx.emailVariant.updateMany({ where: { id: { in: usedIds } }, data: { isActive: false } })
+    }
+
+    const existingIds = new Set((existing?.variants ?? []).map((variant) => variant.id))
+    for (const { id, ...data } of variants) {
+      if (id && existingIds.has(id)) {
+        await tx.emailVariant.update({ where: { id }, data })
+      } else {
+        await tx.emailVariant.create({ data: { experimentId: record.id, ...data } })
+      }
+    }
+
+    const updated = await tx.variantExperiment.findUniqueOrThrow({
+      where: { id: record.id },
+      include: { variants: { orderBy: { createdAt: 'asc' } } },
+    })
+
+    // A winner that was archived or switched off no longer decides anything.
+    if (updated.winnerVariantId && !updated.variants.some((v) => v.id === updated.winnerVariantId && v.isActive)) {
+      return tx.variantExperiment.update({
+        where: { id: record.id },
+        data: { winnerVariantId: null, promotedAt: null },
+        include: { variants: { orderBy: { createdAt: 'asc' } } },
+      })
+    }
+    return updated
+  })
+
+  revalidateTarget(target)
+  return buildReport(experiment)
+}
+
+/**
+ * Sends every new lead the chosen variant, or pass null to resume splitting traffic.
+ */
+export async function promoteVariantAction(
+  experimentId: string,
+  variantId: string | null,
+): Promise<VariantExperimentReport> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage A/B tests.')
+  }
+
+  const experiment = await prisma.variantExperiment.findFirst({
+    where: { id: experimentId, userId: user.userId },
+    include: { variants: { select: { id: true, isActive: true } } },
+  })
+  if (!experiment) {
+    throw new Error('A/B test not found.')
+  }
+  if (variantId && !experiment.variants.some((variant) => variant.id === variantId && variant.isActive)) {
+    throw new Error('Only an active variant can be promoted.')
+  }
+
+  const updated = await prisma.variantExperiment.update({
+    where: { id: experiment.id },
+    data: variantId
+      ? { winnerVariantId: variantId, promotedAt: new Date() }
+      : { winnerVariantId: null, promotedAt: null, autoPromote: false },
+    include: { variants: { orderBy: { createdAt: 'asc' } } },
+  })
+
+  if (updated.campaignId) {
+    revalidateTarget({ campaignId: updated.campaignId })
+  } else if (updated.manualCampaignId) {
+    revalidateTarget({ manualCampaignId: updated.manualCampaignId })
+  }
+  return buildReport(updated)
+}
+
+/**
+ * Deletes an A/B test. Sent emails keep their content; their variant link is cleared.
+ */
+export async function deleteVariantExperimentAction(id: string): Promise<{ success: boolean }> {
+  const user = await getCurrentUser()
+  if (!user) {
+    throw new Error('You must be signed in to manage A/B tests.')
+  }
+
+  const experiment = await prisma.variantExperiment.findFirst({
+    where: { id, userId: user.userId },
+    select: { id: true, campaignId: true, manualCampaignId: true },
+  })
+  if (!experiment) {
+    return { success: false }
+  }
+
+  await prisma.variantExperiment.delete({ where: { id: experiment.id } })
+
+  if (experiment.campaignId) {
+    revalidateTarget({ campaignId: experiment.campaignId })
+  } else if (experiment.manualCampaignId) {
+    revalidateTarget({ manualCampaignId: experiment.manualCampaignId })
+  }
+  return { success: true }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { toAlertRuleFiring } from '@/lib/alerts/rules'
+
+const MAX_HISTORY_ITEMS = 100
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const ruleId = request.nextUrl.searchParams.get('ruleId')
+    const firings = await prisma.alertRuleFiring.findMany({
+      where: {
+        userId: authResult.user.userId,
+        ...(ruleId ? { ruleId } : {}),
+      },
+      include: { rule: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_HISTORY_ITEMS,
+    })
+
+    return NextResponse.json({ history: firings.map(toAlertRuleFiring) })
+  } catch (error) {
+    console.error('Failed to load alert history:', error)
+    return NextResponse.json({ error: 'Failed to load alert history' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { AlertRuleValidationError, parseAlertRuleInput, toAlertRule } from '@/lib/alerts/rules'
+import type { AlertRuleInput } from '@/types/alerts'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const ruleId = resolveIdParam((await context.params)?.id)
+    if (!ruleId) {
+      return NextResponse.json({ error: 'Invalid rule id' }, { status: 400 })
+    }
+
+    const existing = await prisma.alertRule.findFirst({
+      where: { id: ruleId, userId: authResult.user.userId },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    const payload = await request.json().catch(() => null) as Partial<AlertRuleInput> | null
+    const data = parseAlertRuleInput({ ...toAlertRule(existing), ...payload })
+
+    if (data.campaignId && data.campaignId !== existing.campaignId) {
+      const campaign = await prisma.campaign.findFirst({
+        where: { id: data.campaignId, userId: authResult.user.userId },
+        select: { id: true },
+      })
+      if (!campaign) {
+        return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+      }
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id: existing.id },
+      data,
+    })
+
+    return NextResponse.json({ rule: toAlertRule(rule) })
+  } catch (error) {
+    if (error instanceof AlertRuleValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Failed to update alert rule:', error)
+    return NextResponse.json({ error: 'Failed to update alert rule' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const ruleId = resolveIdParam((await context.params)?.id)
+    if (!ruleId) {
+      return NextResponse.json({ error: 'Invalid rule id' }, { status: 400 })
+    }
+
+    const deleted = await prisma.alertRule.deleteMany({
+      where: { id: ruleId, userId: authResult.user.userId },
+    })
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete alert rule:', error)
+    return NextResponse.json({ error: 'Failed to delete alert rule' }, { status: 500 })
+  }
+}
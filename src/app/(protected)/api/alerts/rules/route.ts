@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { AlertRuleValidationError, parseAlertRuleInput, toAlertRule } from '@/lib/alerts/rules'
+import type { AlertRuleInput } from '@/types/alerts'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const rules = await prisma.alertRule.findMany({
+      where: { userId: authResult.user.userId },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({ rules: rules.map(toAlertRule) })
+  } catch (error) {
+    console.error('Failed to load alert rules:', error)
+    return NextResponse.json({ error: 'Failed to load alert rules' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const payload = await request.json().catch(() => null) as Partial<AlertRuleInput> | null
+    const data = parseAlertRuleInput(payload ?? {})
+
+    if (data.campaignId) {
+      const campaign = await prisma.campaign.findFirst({
+        where: { id: data.campaignId, userId: authResult.user.userId },
+        select: { id: true },
+      })
+      if (!campaign) {
+        return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+      }
+    }
+
+    const rule = await prisma.alertRule.create({
+      data: { ...data, userId: authResult.user.userId },
+    })
+
+    return NextResponse.json({ rule: toAlertRule(rule) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AlertRuleValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Failed to create alert rule:', error)
+    return NextResponse.json({ error: 'Failed to create alert rule' }, { status: 500 })
+  }
+}
@@ -33,7 +33,7 @@ export async function POST(request: NextRequest) {
   const oauth2Client = createGmailOAuthClient()
   const authUrl = oauth2Client.generateAuthUrl({
     access_type: 'offline',
-    prompt: 'consent',
+    prompt: 'consent select_account',
     scope: GMAIL_SCOPES,
     state,
   })
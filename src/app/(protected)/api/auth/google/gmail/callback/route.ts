@@ -81,9 +81,8 @@ export async function GET(request: NextRequest) {
     const now = new Date()
     const expiresAt = tokens.expiry_date ? new Date(tokens.expiry_date) : new Date(Date.now() + 55 * 60 * 1000)
 
-    const existingAccount = await prisma.gmailAccount.findUnique({
-      where: { userId },
-    })
+    // Each Gmail address is its own sending mailbox, so reconnecting refreshes that mailbox's
+    // tokens while a new address is added alongside the ones already connected.
     const existingByEmail = await prisma.gmailAccount.findUnique({
       where: { emailAddress },
     })
@@ -96,14 +95,16 @@ export async function GET(request: NextRequest) {
       tokenType: tokens.token_type || 'Bearer',
       scope: tokens.scope || '',
       connectedAt: now,
+      // An address added earlier as an SMTP sender now sends through the Gmail API.
+      transport: 'gmail',
+      smtpHost: null,
+      smtpPort: null,
+      smtpSecurity: null,
+      smtpUsername: null,
+      smtpPassword: null,
     }
 
-    if (existingAccount) {
-      await prisma.gmailAccount.update({
-        where: { userId },
-        data: baseData,
-      })
-    } else if (existingByEmail) {
+    if (existingByEmail) {
       if (existingByEmail.userId !== userId) {
         console.warn(
           `Gmail account ${emailAddress} was previously linked to user ${existingByEmail.userId}, reassigning to ${userId}`,
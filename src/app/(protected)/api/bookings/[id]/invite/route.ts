@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { bookingInclude, toBooking } from '@/lib/bookings'
+import { sendBookingInvite } from '@/lib/bookings/invites'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = resolveIdParam((await context.params)?.id)
+    if (!id) {
+      return NextResponse.json({ error: 'Invalid booking id' }, { status: 400 })
+    }
+
+    const booking = await prisma.booking.findFirst({
+      where: { id, userId: authResult.user.userId },
+      include: bookingInclude,
+    })
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    const method = booking.status === 'CANCELLED' ? 'CANCEL' : 'REQUEST'
+    const sent = await sendBookingInvite(booking, method)
+
+    return NextResponse.json({ booking: toBooking({ ...sent, campaign: booking.campaign }) })
+  } catch (error) {
+    console.error('Failed to send booking invite:', error)
+    const message = error instanceof Error ? error.message : 'Failed to send calendar invite'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  BookingValidationError,
+  bookingInclude,
+  parseBookingUpdate,
+  resolveInviteMethod,
+  toBooking,
+} from '@/lib/bookings'
+import { sendBookingInvite } from '@/lib/bookings/invites'
+import type { BookingInput } from '@/types/booking'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+const findOwnedBooking = async (request: NextRequest, context: RouteContext) => {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const id = resolveIdParam((await context.params)?.id)
+  if (!id) {
+    return { error: NextResponse.json({ error: 'Invalid booking id' }, { status: 400 }) }
+  }
+
+  const booking = await prisma.booking.findFirst({
+    where: { id, userId: authResult.user.userId },
+  })
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Booking not found' }, { status: 404 }) }
+  }
+
+  return { booking }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const result = await findOwnedBooking(request, context)
+    if (result.error) {
+      return result.error
+    }
+
+    const payload = await request.json().catch(() => null) as Partial<BookingInput> | null
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid booking payload' }, { status: 400 })
+    }
+
+    let updated = await prisma.booking.update({
+      where: { id: result.booking.id },
+      data: parseBookingUpdate(result.booking, payload),
+      include: bookingInclude,
+    })
+
+    let inviteError: string | null = null
+    const inviteMethod = resolveInviteMethod(result.booking, updated)
+    if (inviteMethod) {
+      try {
+        updated = { ...(await sendBookingInvite(updated, inviteMethod)), campaign: updated.campaign }
+      } catch (error) {
+        console.error(`Failed to send ${inviteMethod} invite for booking ${updated.id}:`, error)
+        inviteError = error instanceof Error ? error.message : 'Failed to update calendar invite'
+      }
+    }
+
+    return NextResponse.json({ booking: toBooking(updated), inviteError })
+  } catch (error) {
+    if (error instanceof BookingValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Failed to update booking:', error)
+    return NextResponse.json({ error: 'Failed to update booking' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const result = await findOwnedBooking(request, context)
+    if (result.error) {
+      return result.error
+    }
+
+    if (result.booking.inviteSentAt && result.booking.status !== 'CANCELLED') {
+      await sendBookingInvite(result.booking, 'CANCEL').catch((error: unknown) => {
+        console.error(`Failed to send cancellation for booking ${result.booking.id}:`, error)
+      })
+    }
+
+    await prisma.booking.delete({ where: { id: result.booking.id } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete booking:', error)
+    return NextResponse.json({ error: 'Failed to delete booking' }, { status: 500 })
+  }
+}
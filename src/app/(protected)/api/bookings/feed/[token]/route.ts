@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { listFeedBookings } from '@/lib/bookings'
+import { buildBookingFeed } from '@/lib/bookings/ics'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveTokenParam = (value: string | string[] | undefined): string | null => {
+  const raw = Array.isArray(value) ? value[0] : value
+  return typeof raw === 'string' && raw ? raw.replace(/\.ics$/i, '') : null
+}
+
+/**
+ * Public iCalendar subscription feed. Calendar apps cannot send our session cookie, so the
+ * unguessable token in the URL is the only credential.
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const token = resolveTokenParam((await context.params)?.token)
+    if (!token) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { calendarFeedToken: token },
+      select: { id: true },
+    })
+    if (!user) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    const bookings = await listFeedBookings(user.id)
+    return new NextResponse(buildBookingFeed(bookings, 'Outbond bookings'), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="outbond-bookings.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to build calendar feed:', error)
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getCalendarFeedToken } from '@/lib/bookings'
+
+const buildFeedUrl = (request: NextRequest, token: string) =>
+  `${new URL(request.url).origin}/api/bookings/feed/${token}.ics`
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const token = await getCalendarFeedToken(authResult.user.userId)
+    return NextResponse.json({ url: buildFeedUrl(request, token) })
+  } catch (error) {
+    console.error('Failed to load calendar feed:', error)
+    return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 })
+  }
+}
+
+/**
+ * Rotates the feed token, invalidating any calendar subscriptions using the old URL.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const token = await getCalendarFeedToken(authResult.user.userId, true)
+    return NextResponse.json({ url: buildFeedUrl(request, token) })
+  } catch (error) {
+    console.error('Failed to rotate calendar feed:', error)
+    return NextResponse.json({ error: 'Failed to rotate calendar feed' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await prisma.user.update({
+      where: { id: authResult.user.userId },
+      data: { calendarFeedToken: null },
+    })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to disable calendar feed:', error)
+    return NextResponse.json({ error: 'Failed to disable calendar feed' }, { status: 500 })
+  }
+}
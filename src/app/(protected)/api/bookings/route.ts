@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { BookingValidationError, bookingInclude, createBooking, toBooking } from '@/lib/bookings'
+import { sendBookingInvite } from '@/lib/bookings/invites'
+import type { BookingInput } from '@/types/booking'
+
+const parseRangeParam = (value: string | null): Date | null => {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = parseRangeParam(searchParams.get('from'))
+    const to = parseRangeParam(searchParams.get('to'))
+    const campaignId = searchParams.get('campaignId')
+
+    const startsAt: Prisma.DateTimeFilter = {}
+    if (from) startsAt.gte = from
+    if (to) startsAt.lt = to
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        userId: authResult.user.userId,
+        ...(from || to ? { startsAt } : {}),
+        ...(campaignId ? { campaignId } : {}),
+      },
+      include: bookingInclude,
+      orderBy: { startsAt: 'asc' },
+      take: 500,
+    })
+
+    return NextResponse.json({ bookings: bookings.map(toBooking) })
+  } catch (error) {
+    console.error('Failed to load bookings:', error)
+    return NextResponse.json({ error: 'Failed to load bookings' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const payload = await request.json().catch(() => null) as Partial<BookingInput> | null
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid booking payload' }, { status: 400 })
+    }
+
+    let booking = await createBooking(authResult.user.userId, payload)
+    let inviteError: string | null = null
+    if (payload.sendInvite) {
+      try {
+        booking = { ...(await sendBookingInvite(booking, 'REQUEST')), campaign: booking.campaign }
+      } catch (error) {
+        console.error(`Failed to send invite for booking ${booking.id}:`, error)
+        inviteError = error instanceof Error ? error.message : 'Failed to send calendar invite'
+      }
+    }
+
+    return NextResponse.json({ booking: toBooking(booking), inviteError }, { status: 201 })
+  } catch (error) {
+    if (error instanceof BookingValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Failed to create booking:', error)
+    return NextResponse.json({ error: 'Failed to create booking' }, { status: 500 })
+  }
+}
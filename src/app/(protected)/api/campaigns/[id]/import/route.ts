@@ -0,0 +1,91 @@
+import { revalidateTag } from 'next/cache'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  LeadImportError,
+  MAX_IMPORT_BYTES,
+  buildLeadImportPreview,
+  importLeadRows,
+  parseLeadImportMapping,
+  readLeadImportFile,
+} from '@/lib/leads/import'
+
+export const runtime = 'nodejs'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+/**
+ * Without a `mapping` field the file is only parsed and a preview with a suggested column mapping
+ * is returned. With one, the mapped rows are imported as leads of the campaign.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const resolvedParams = await context.params
+    const campaignId = resolveIdParam(resolvedParams?.id)
+    if (!campaignId) {
+      return NextResponse.json({ error: 'Invalid campaign id' }, { status: 400 })
+    }
+
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, userId: authResult.user.userId },
+      select: { id: true },
+    })
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Attach a CSV or Excel file to import' }, { status: 400 })
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Lead files must be 10MB or smaller' }, { status: 413 })
+    }
+
+    const parsed = readLeadImportFile(await file.arrayBuffer())
+
+    const rawMapping = formData?.get('mapping')
+    if (typeof rawMapping !== 'string') {
+      return NextResponse.json({ preview: buildLeadImportPreview(file.name, parsed) })
+    }
+
+    let mappingInput: unknown
+    try {
+      mappingInput = JSON.parse(rawMapping)
+    } catch {
+      return NextResponse.json({ error: 'Invalid column mapping' }, { status: 400 })
+    }
+
+    const result = await importLeadRows({
+      userId: authResult.user.userId,
+      campaignId,
+      parsed,
+      mapping: parseLeadImportMapping(mappingInput, parsed.headers.length),
+    })
+
+    revalidateTag('campaign-detail')
+    revalidateTag(`user-campaigns:${authResult.user.userId}`)
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    if (error instanceof LeadImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Failed to import leads:', error)
+    return NextResponse.json({ error: 'Failed to import leads' }, { status: 500 })
+  }
+}
@@ -88,7 +88,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     }
 
     const body = await request.json()
-    const { isActive, name, keywords, location, maxLeads } = body
+    const { isActive, name, keywords, location, maxLeads, excludeRiskyEmails } = body
 
     const campaign = await prisma.campaign.findFirst({
       where: {
@@ -112,6 +112,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         ...(keywords && { keywords }),
         ...(location && { location }),
         ...(maxLeads && { maxLeads }),
+        ...(typeof excludeRiskyEmails === 'boolean' && { excludeRiskyEmails }),
       },
     })
 
@@ -120,6 +121,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     }
 
     revalidateTag(`user-campaigns:${authResult.user.userId}`)
+    revalidateTag('campaign-detail')
 
     return NextResponse.json({ campaign: updatedCampaign })
 
@@ -10,6 +10,8 @@ import { generateIdempotencyKey } from '@/lib/utils'
 import { getCampaignsForUser } from '@/lib/apollo/campaigns'
 import { z } from 'zod'
 import { enqueueJob } from '@/lib/queue'
+import { restLeadProviderConfigSchema } from '@/lib/lead-providers/rest-provider'
+import { assertPublicHost, PrivateNetworkError } from '@/lib/network'
 import {
   createAuthorizedClient,
   getSpreadsheetInfo,
@@ -29,6 +31,13 @@ const createCampaignSchema = z.object({
   includeDomains: z.string().max(1000).optional().transform(val => val || undefined),
   excludeDomains: z.string().max(1000).optional().transform(val => val || undefined),
   searchMode: z.enum(['balanced', 'conserve']).default('balanced'),
+  source: z.enum(['apollo', 'rest']).default('apollo'),
+  providerConfig: restLeadProviderConfigSchema.optional(),
+  skipContactedWithinDays: z.number().int().min(1).max(365).nullable().optional(),
+  excludeRiskyEmails: z.boolean().default(false),
+}).refine(data => data.source !== 'rest' || Boolean(data.providerConfig), {
+  message: 'The REST lead provider needs a configuration',
+  path: ['providerConfig'],
 })
 
 export async function POST(request: NextRequest) {
@@ -41,6 +50,18 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validatedData = createCampaignSchema.parse(body)
 
+    if (validatedData.source === 'rest' && validatedData.providerConfig) {
+      const { searchUrl, enrichUrl, revealUrl } = validatedData.providerConfig
+      for (const url of [searchUrl, enrichUrl, revealUrl]) {
+        if (!url) continue
+        // Hosts that don't resolve yet are left for the lead pull to report.
+        const error = await assertPublicHost(new URL(url).hostname).then(() => null, (lookupError: unknown) => lookupError)
+        if (error instanceof PrivateNetworkError) {
+          return NextResponse.json({ error: `Lead source URLs must point to a public address: ${error.message}` }, { status: 400 })
+        }
+      }
+    }
+
     // Verify Google Sheet belongs to user
     let googleSheet = await prisma.googleSheet.findFirst({
       where: {
@@ -115,6 +136,12 @@ export async function POST(request: NextRequest) {
       ...(validatedData.includeDomains ? { includeDomains: validatedData.includeDomains } : {}),
       ...(validatedData.excludeDomains ? { excludeDomains: validatedData.excludeDomains } : {}),
       searchMode: validatedData.searchMode,
+      source: validatedData.source,
+      skipContactedWithinDays: validatedData.skipContactedWithinDays ?? null,
+      excludeRiskyEmails: validatedData.excludeRiskyEmails,
+      ...(validatedData.source === 'rest' && validatedData.providerConfig
+        ? { providerConfig: validatedData.providerConfig }
+        : {}),
     }
 
     let campaign: Campaign
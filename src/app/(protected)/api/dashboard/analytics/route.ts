@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 
 import { verifyAuth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getMailboxQuotaStatus } from "@/lib/email/mailbox-quota"
+import { getTrackingStats } from "@/lib/email/tracking"
 import type { DashboardAnalyticsResponse } from "@/types/dashboard"
 
 const TREND_WINDOW_DAYS = 7
@@ -38,6 +40,9 @@ export async function GET(request: NextRequest) {
       recentEmailJobs,
       leadTrendRows,
       outreachTrendRows,
+      bookingCampaignRows,
+      gmailAccounts,
+      engagement,
     ] = await Promise.all([
       prisma.campaignJob.aggregate({
         where: {
@@ -53,7 +58,7 @@ export async function GET(request: NextRequest) {
       prisma.emailSendJob.count({
         where: {
           userId,
-          status: "SENT",
+          status: { in: ["SENT", "BOUNCED"] },
         },
       }),
       prisma.emailReply.count({
@@ -151,8 +156,27 @@ export async function GET(request: NextRequest) {
           AND COALESCE(e."sentAt", e."createdAt") >= ${trendStart}
         GROUP BY 1
       `,
+      prisma.$queryRaw<{ campaignId: string | null; campaignName: string | null; count: number }[]>`
+        SELECT
+          COALESCE(b."campaignId", b."manualCampaignId") AS "campaignId",
+          COALESCE(c."name", b."manualCampaignName") AS "campaignName",
+          COUNT(*)::int AS count
+        FROM "Booking" b
+        LEFT JOIN "Campaign" c ON c."id" = b."campaignId"
+        WHERE b."userId" = ${userId}
+          AND b."status" <> 'CANCELLED'
+        GROUP BY 1, 2
+        ORDER BY count DESC
+      `,
+      prisma.gmailAccount.findMany({
+        where: { userId },
+        orderBy: { connectedAt: "asc" },
+      }),
+      getTrackingStats({ userId }),
     ])
 
+    const mailboxQuotas = await Promise.all(gmailAccounts.map((account) => getMailboxQuotaStatus(account)))
+
     const leadTrendMap = new Map<string, number>()
     const outreachTrendMap = new Map<string, number>()
 
@@ -196,7 +220,14 @@ export async function GET(request: NextRequest) {
       .map((job) => ({
         id: `email-${job.id}`,
         type: "email" as const,
-        title: job.status === "SENT" ? "Email sent" : job.status === "FAILED" ? "Email failed" : "Email queued",
+        title:
+          job.status === "SENT"
+            ? "Email sent"
+            : job.status === "BOUNCED"
+              ? "Email bounced"
+              : job.status === "FAILED"
+                ? "Email failed"
+                : "Email queued",
         description: job.leadEmail ? `${job.leadEmail}${job.subject ? ` — ${job.subject}` : ""}` : job.subject ?? "",
         occurredAt: (job.sentAt ?? job.createdAt).toISOString(),
       }))
@@ -227,6 +258,7 @@ export async function GET(request: NextRequest) {
         leadsWritten: leadWriteAggregate._sum.leadsWritten ?? 0,
         outreachEmailsSent: outreachSentCount,
         repliesCount,
+        bookedMeetings: bookingCampaignRows.reduce((total, row) => total + (row.count ?? 0), 0),
         userCount: isAdmin ? totalUserCount ?? 0 : null,
       },
       trends: {
@@ -234,6 +266,13 @@ export async function GET(request: NextRequest) {
         outreachSends: outreachTrend,
       },
       activity,
+      bookingsByCampaign: bookingCampaignRows.map((row) => ({
+        campaignId: row.campaignId,
+        campaignName: row.campaignName ?? "Unattributed",
+        count: row.count ?? 0,
+      })),
+      mailboxQuotas,
+      engagement,
     }
 
     return NextResponse.json(response)
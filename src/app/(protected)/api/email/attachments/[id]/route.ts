@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = resolveIdParam((await context.params)?.id)
+    if (!id) {
+      return NextResponse.json({ error: 'Invalid attachment id' }, { status: 400 })
+    }
+
+    const attachment = await prisma.emailAttachment.findFirst({
+      where: { id, userId: authResult.user.userId },
+    })
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(attachment.data), {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Length': String(attachment.size),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to download attachment:', error)
+    return NextResponse.json({ error: 'Failed to download attachment' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = resolveIdParam((await context.params)?.id)
+    if (!id) {
+      return NextResponse.json({ error: 'Invalid attachment id' }, { status: 400 })
+    }
+
+    const attachment = await prisma.emailAttachment.findFirst({
+      where: { id, userId: authResult.user.userId },
+      select: { id: true },
+    })
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    // Queued emails load the file when they go out, so it has to outlive them.
+    const pending = await prisma.emailSendJob.count({
+      where: {
+        userId: authResult.user.userId,
+        status: { in: ['PENDING', 'QUEUED', 'SENDING'] },
+        attachments: { array_contains: [{ id: attachment.id }] },
+      },
+    })
+    if (pending > 0) {
+      return NextResponse.json(
+        { error: `${pending} queued email${pending === 1 ? ' uses' : 's use'} this attachment; cancel or send them first` },
+        { status: 409 },
+      )
+    }
+
+    await prisma.emailAttachment.delete({ where: { id: attachment.id } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete attachment:', error)
+    return NextResponse.json({ error: 'Failed to delete attachment' }, { status: 500 })
+  }
+}
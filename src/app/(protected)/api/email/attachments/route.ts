@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { AttachmentError, createEmailAttachment, toEmailAttachment } from '@/lib/email/attachments'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const attachments = await prisma.emailAttachment.findMany({
+      where: { userId: authResult.user.userId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, filename: true, contentType: true, size: true, createdAt: true },
+    })
+
+    return NextResponse.json({ attachments: attachments.map(toEmailAttachment) })
+  } catch (error) {
+    console.error('Failed to load attachments:', error)
+    return NextResponse.json({ error: 'Failed to load attachments' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Choose a file to upload' }, { status: 400 })
+    }
+
+    const attachment = await createEmailAttachment(authResult.user.userId, file)
+    return NextResponse.json({ attachment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Failed to upload attachment:', error)
+    return NextResponse.json({ error: 'Failed to upload attachment' }, { status: 500 })
+  }
+}
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 
 import { verifyAuth } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
 import { generateOutreachEmailDraft } from '@/lib/gemini'
 import { formatEmailBody } from '@/lib/email/format'
 import { ensureCors } from '@/lib/http/cors'
+import { getDefaultGmailAccount } from '@/lib/google-gmail/accounts'
 
 const MAX_LEADS_PER_REQUEST = 50
 
@@ -68,7 +68,7 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  const gmailAccount = await prisma.gmailAccount.findUnique({ where: { userId: authResult.user.userId } })
+  const gmailAccount = await getDefaultGmailAccount(authResult.user.userId)
   if (!gmailAccount) {
     return cors.apply(NextResponse.json({ error: "Gmail account not connected" }, { status: 409 }))
   }
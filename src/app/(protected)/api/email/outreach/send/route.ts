@@ -4,7 +4,24 @@ import { verifyAuth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { enqueueEmailSendJob } from '@/lib/queue'
 import { formatEmailBody } from '@/lib/email/format'
+import { findActiveSequence } from '@/lib/email/sequences'
+import { resolveSendSchedule } from '@/lib/email/send-windows'
+import { hasSendingCredentials } from '@/lib/email/transports'
+import { buildMergeFields, hasMergeFields, renderEmailTemplate, TemplateSyntaxError } from '@/lib/email/templates'
+import { AttachmentError, resolveAttachmentRefs } from '@/lib/email/attachments'
+import { checkDeliverability, isBlockedByDeliverability } from '@/lib/email/deliverability'
+import { getDeliverabilitySettings } from '@/lib/email/deliverability-settings'
+import { assignVariant, findActiveExperiment, maybePromoteWinner, renderVariant } from '@/lib/email/variants'
+import {
+  createMailboxRotation,
+  isMailboxRotationStrategy,
+  listGmailAccounts,
+  markMailboxesUsed,
+} from '@/lib/google-gmail/accounts'
+import { getSuppressedEmails } from '@/lib/suppression'
+import { getUnverifiedRecipients } from '@/lib/email-verification'
 import type { ManualOutreachSource } from '@/types/outreach'
+import type { EmailAttachmentRef } from '@/types/attachment'
 import { ensureCors } from '@/lib/http/cors'
 
 const MAX_JOBS_PER_REQUEST = 200
@@ -23,10 +40,14 @@ interface SendJobInput {
   lastName?: string | null
   company?: string | null
   summary?: string | null
+  /** Extra merge fields, typically every column of the lead's sheet row. */
+  fields?: Record<string, string | number | null> | null
   campaignId?: string | null
   manualCampaignId?: string | null
   manualCampaignName?: string | null
   manualCampaignSource?: ManualOutreachSource | null
+  /** Ids of the sender's stored attachments to include. */
+  attachmentIds?: string[] | null
 }
 
 export async function OPTIONS(request: NextRequest) {
@@ -57,14 +78,15 @@ export async function POST(request: NextRequest) {
     return cors.apply(NextResponse.json({ error: `Too many jobs; maximum ${MAX_JOBS_PER_REQUEST}` }, { status: 400 }))
   }
 
-  const gmailAccount = await prisma.gmailAccount.findUnique({ where: { userId: authResult.user.userId } })
-  if (!gmailAccount) {
+  const gmailAccounts = await listGmailAccounts(authResult.user.userId)
+  if (gmailAccounts.length === 0) {
     return cors.apply(
       NextResponse.json({ error: 'Gmail account not connected', requiresReauth: true }, { status: 409 }),
     )
   }
 
-  if (!gmailAccount.accessToken || !gmailAccount.refreshToken) {
+  const sendingAccounts = gmailAccounts.filter((account) => account.isActive && hasSendingCredentials(account))
+  if (sendingAccounts.length === 0) {
     return cors.apply(
       NextResponse.json(
         { error: 'Gmail account needs to be reconnected before sending emails.', requiresReauth: true },
@@ -73,7 +95,7 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  const sanitizedJobs = payload.jobs
+  const validJobs = payload.jobs
     .filter((job) => job?.email && job?.subject && job?.bodyHtml)
     .map((job) => {
       const normalized = formatEmailBody(job.bodyHtml)
@@ -92,19 +114,203 @@ export async function POST(request: NextRequest) {
       }
     })
 
-  if (sanitizedJobs.length === 0) {
+  if (validJobs.length === 0) {
     return cors.apply(NextResponse.json({ error: 'No valid email jobs supplied' }, { status: 400 }))
   }
 
-  const createdJobs: string[] = []
+  const attachmentCache = new Map<string, EmailAttachmentRef[]>()
+  const attachedJobs: Array<(typeof validJobs)[number] & { attachments: EmailAttachmentRef[] }> = []
+  try {
+    for (const job of validJobs) {
+      const ids = Array.isArray(job.attachmentIds) ? [...job.attachmentIds].sort() : []
+      const key = ids.join(',')
+      if (!attachmentCache.has(key)) {
+        attachmentCache.set(key, await resolveAttachmentRefs(authResult.user.userId, ids))
+      }
+      attachedJobs.push({ ...job, attachments: attachmentCache.get(key) ?? [] })
+    }
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return cors.apply(NextResponse.json({ error: error.message }, { status: 400 }))
+    }
+    throw error
+  }
+
+  // Campaigns running an A/B test replace the drafted copy with the lead's assigned variant.
+  const experimentCache = new Map<string, Awaited<ReturnType<typeof findActiveExperiment>>>()
+  const variantJobs: Array<(typeof attachedJobs)[number] & { variantId: string | null }> = []
+  for (const job of attachedJobs) {
+    const key = `${job.campaignId ?? ''}:${job.manualCampaignId ?? ''}`
+    if (!experimentCache.has(key)) {
+      const experiment = await findActiveExperiment(authResult.user.userId, {
+        campaignId: job.campaignId,
+        manualCampaignId: job.manualCampaignId,
+      })
+      experimentCache.set(key, experiment ? await maybePromoteWinner(experiment) : null)
+    }
+    const experiment = experimentCache.get(key)
+    const variant = experiment ? assignVariant(experiment, job.email) : null
+    variantJobs.push(
+      variant
+        ? { ...job, ...renderVariant(variant, job.email), variantId: variant.id }
+        : { ...job, variantId: null },
+    )
+  }
+
+  let renderedJobs: typeof variantJobs
+  const missingFields: Array<{ email: string; fields: string[] }> = []
+  try {
+    const templated = variantJobs.filter((job) => hasMergeFields(`${job.subject}${job.bodyHtml}${job.bodyText}`))
+    const storedLeads = templated.length
+      ? await prisma.lead.findMany({
+          where: { userId: authResult.user.userId, email: { in: templated.map((job) => job.email), mode: 'insensitive' } },
+          orderBy: { updatedAt: 'desc' },
+        })
+      : []
+
+    renderedJobs = variantJobs.flatMap((job) => {
+      if (!templated.includes(job)) return [job]
+      const lead =
+        storedLeads.find((candidate) => candidate.email.toLowerCase() === job.email && candidate.campaignId === job.campaignId) ??
+        storedLeads.find((candidate) => candidate.email.toLowerCase() === job.email)
+      const fields = buildMergeFields(
+        job.fields,
+        { email: job.email, firstName: job.firstName, lastName: job.lastName, company: job.company, summary: job.summary },
+        lead,
+      )
+      const rendered = renderEmailTemplate(job, fields)
+      if (rendered.missing.length > 0) {
+        missingFields.push({ email: job.email, fields: rendered.missing })
+        return []
+      }
+      return [{
+        ...job,
+        subject: rendered.subject.slice(0, 180),
+        bodyHtml: rendered.bodyHtml,
+        bodyText: rendered.bodyText.slice(0, 2000),
+      }]
+    })
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return cors.apply(NextResponse.json({ error: error.message }, { status: 400 }))
+    }
+    throw error
+  }
+
+  if (renderedJobs.length === 0) {
+    return cors.apply(
+      NextResponse.json(
+        { error: 'Every recipient is missing required merge fields', missingFields },
+        { status: 422 },
+      ),
+    )
+  }
+
+  const { blockThreshold } = await getDeliverabilitySettings()
+  const blocked: Array<{ email: string; score: number; warnings: string[] }> = []
+  const deliverableJobs = renderedJobs.filter((job) => {
+    const report = checkDeliverability(job)
+    if (!isBlockedByDeliverability(report.score, blockThreshold)) {
+      return true
+    }
+    blocked.push({ email: job.email, score: report.score, warnings: report.warnings.map((warning) => warning.message) })
+    return false
+  })
+
+  if (deliverableJobs.length === 0) {
+    return cors.apply(
+      NextResponse.json(
+        { error: `Every email scored below the deliverability threshold of ${blockThreshold}`, blocked, missingFields },
+        { status: 422 },
+      ),
+    )
+  }
+
+  const suppressedEmails = await getSuppressedEmails(
+    authResult.user.userId,
+    deliverableJobs.map((job) => job.email),
+  )
+  const unsuppressedJobs = deliverableJobs.filter((job) => !suppressedEmails.has(job.email))
+  const suppressed = Array.from(suppressedEmails)
+
+  if (unsuppressedJobs.length === 0) {
+    return cors.apply(
+      NextResponse.json({ error: 'All recipients are on the suppression list', suppressed }, { status: 422 }),
+    )
+  }
+
+  const unverifiedEmails = await getUnverifiedRecipients(
+    authResult.user.userId,
+    unsuppressedJobs.map((job) => ({ email: job.email, campaignId: job.campaignId })),
+  )
+  const sanitizedJobs = unsuppressedJobs.filter((job) => !unverifiedEmails.has(job.email))
+  const unverified = Array.from(unverifiedEmails, ([email, status]) => ({ email, status }))
+
+  if (sanitizedJobs.length === 0) {
+    return cors.apply(
+      NextResponse.json({ error: 'Every recipient failed email verification', unverified, suppressed }, { status: 422 }),
+    )
+  }
+
+  const sequenceCache = new Map<string, string | null>()
+  const resolveSequenceId = async (job: (typeof sanitizedJobs)[number]) => {
+    const key = `${job.campaignId ?? ''}:${job.manualCampaignId ?? ''}`
+    if (!sequenceCache.has(key)) {
+      const sequence = await findActiveSequence(authResult.user!.userId, {
+        campaignId: job.campaignId,
+        manualCampaignId: job.manualCampaignId,
+      })
+      sequenceCache.set(key, sequence?.id ?? null)
+    }
+    return sequenceCache.get(key) ?? null
+  }
+
+  const sequenceIds = await Promise.all(sanitizedJobs.map(resolveSequenceId))
+
+  const now = new Date()
+  const scheduleCache = new Map<string, Awaited<ReturnType<typeof resolveSendSchedule>>>()
+  for (const job of sanitizedJobs) {
+    const key = `${job.campaignId ?? ''}:${job.manualCampaignId ?? ''}`
+    if (scheduleCache.has(key)) continue
+    const targetEmails = sanitizedJobs
+      .filter((candidate) => `${candidate.campaignId ?? ''}:${candidate.manualCampaignId ?? ''}` === key)
+      .map((candidate) => candidate.email)
+    scheduleCache.set(
+      key,
+      await resolveSendSchedule(
+        authResult.user.userId,
+        { campaignId: job.campaignId, manualCampaignId: job.manualCampaignId },
+        targetEmails,
+        { from: now },
+      ),
+    )
+  }
+  const schedules = sanitizedJobs.map((job) =>
+    scheduleCache.get(`${job.campaignId ?? ''}:${job.manualCampaignId ?? ''}`)?.get(job.email) ?? null,
+  )
+
+  const owner = await prisma.user.findUnique({
+    where: { id: authResult.user.userId },
+    select: { mailboxRotation: true },
+  })
+  const nextMailbox = await createMailboxRotation(
+    sendingAccounts,
+    isMailboxRotationStrategy(owner?.mailboxRotation) ? owner.mailboxRotation : 'round_robin',
+  )
+  const assignedAccountIds = sanitizedJobs.map(() => nextMailbox().id)
+
+  const createdJobs: Array<{ id: string; delay: number; gmailAccountId: string }> = []
 
   await prisma.$transaction(async (tx) => {
-    for (const job of sanitizedJobs) {
+    for (const [index, job] of sanitizedJobs.entries()) {
+      const sequenceId = sequenceIds[index]
+      const schedule = schedules[index]
+      const scheduledAt = schedule ? new Date(schedule.scheduledAt) : now
       const record = await tx.emailSendJob.create({
         data: {
           userId: authResult.user!.userId,
           campaignId: job.campaignId || undefined,
-          gmailAccountId: gmailAccount.id,
+          gmailAccountId: assignedAccountIds[index],
           leadEmail: job.email,
           leadFirstName: job.firstName,
           leadLastName: job.lastName,
@@ -118,27 +324,47 @@ export async function POST(request: NextRequest) {
           bodyHtml: job.bodyHtml,
           bodyText: job.bodyText,
           status: EMAIL_STATUS.QUEUED,
+          scheduledAt,
+          leadTimeZone: schedule?.deferred ? schedule.timeZone : null,
+          variantId: job.variantId,
+          ...(job.attachments.length > 0 ? { attachments: job.attachments } : {}),
+          // Kept so follow-up steps can use the same sheet columns.
+          ...(job.fields ? { mergeFields: buildMergeFields(job.fields) } : {}),
+          ...(sequenceId ? { sequenceId, sequenceStep: 0 } : {}),
         },
       })
-      createdJobs.push(record.id)
+      createdJobs.push({
+        id: record.id,
+        delay: Math.max(0, scheduledAt.getTime() - now.getTime()),
+        gmailAccountId: record.gmailAccountId,
+      })
     }
   })
 
   await Promise.all(
-    createdJobs.map((id) =>
-      enqueueEmailSendJob({
-        jobId: id,
-        userId: authResult.user!.userId,
-        gmailAccountId: gmailAccount.id,
-      }),
+    createdJobs.map(({ id, delay, gmailAccountId }) =>
+      enqueueEmailSendJob(
+        {
+          jobId: id,
+          userId: authResult.user!.userId,
+          gmailAccountId,
+        },
+        { delay },
+      ),
     ),
   )
+  await markMailboxesUsed(createdJobs.map((job) => job.gmailAccountId))
 
   return cors.apply(
     NextResponse.json({
       success: true,
       queued: createdJobs.length,
-      jobIds: createdJobs,
+      jobIds: createdJobs.map((job) => job.id),
+      deferred: createdJobs.filter((job) => job.delay > 0).length,
+      suppressed,
+      unverified,
+      missingFields,
+      blocked,
     }),
   )
 }
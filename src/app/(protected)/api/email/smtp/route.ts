@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isValidEmail } from '@/lib/utils'
+import { assertPublicHost, PrivateNetworkError } from '@/lib/network'
+import {
+  SmtpError,
+  SmtpSettingsValidationError,
+  parseSmtpSettings,
+  verifySmtpSettings,
+} from '@/lib/email/transports'
+
+export const runtime = 'nodejs'
+
+type SmtpSenderPayload = Record<string, unknown> & {
+  emailAddress?: unknown
+  verify?: unknown
+}
+
+/**
+ * Adds an SMTP sender, or updates the settings of one the user already has. The server is
+ * contacted first (TLS and login, nothing sent) unless `verify` is false, so a typo surfaces
+ * here instead of as failed sends. Leaving the password blank on update keeps the stored one.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const payload = (await request.json().catch(() => null)) as SmtpSenderPayload | null
+  if (!payload) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const emailAddress = typeof payload.emailAddress === 'string' ? payload.emailAddress.trim().toLowerCase() : ''
+  if (!isValidEmail(emailAddress)) {
+    return NextResponse.json({ error: 'Enter the address this sender sends from.' }, { status: 400 })
+  }
+
+  try {
+    const existing = await prisma.gmailAccount.findUnique({ where: { emailAddress } })
+    if (existing && (existing.userId !== authResult.user.userId || existing.transport !== 'smtp')) {
+      return NextResponse.json(
+        { error: `${emailAddress} is already connected${existing.transport === 'gmail' ? ' through Gmail' : ''}.` },
+        { status: 409 },
+      )
+    }
+
+    const parsed = parseSmtpSettings(payload)
+    const settings = {
+      ...parsed,
+      password:
+        parsed.password ?? (existing && existing.smtpUsername === parsed.username ? existing.smtpPassword : null),
+    }
+
+    // Checked even when verification is skipped, since the worker dials the same host. Lookup
+    // failures are left to verification.
+    await assertPublicHost(settings.host).catch((error: unknown) => {
+      if (error instanceof PrivateNetworkError) throw error
+    })
+    if (payload.verify !== false) {
+      await verifySmtpSettings(settings)
+    }
+
+    const data = {
+      transport: 'smtp',
+      smtpHost: settings.host,
+      smtpPort: settings.port,
+      smtpSecurity: settings.security,
+      smtpUsername: settings.username,
+      smtpPassword: settings.password,
+      connectedAt: new Date(),
+    }
+    const account = existing
+      ? await prisma.gmailAccount.update({ where: { id: existing.id }, data })
+      : await prisma.gmailAccount.create({
+          data: {
+            ...data,
+            userId: authResult.user.userId,
+            emailAddress,
+            // OAuth columns stay empty for SMTP senders.
+            accessToken: '',
+            refreshToken: '',
+            expiresAt: new Date(),
+            scope: '',
+            tokenType: 'smtp',
+          },
+        })
+
+    return NextResponse.json({ id: account.id, emailAddress: account.emailAddress }, { status: existing ? 200 : 201 })
+  } catch (error) {
+    if (error instanceof SmtpSettingsValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof PrivateNetworkError) {
+      return NextResponse.json({ error: 'The SMTP server must be reachable at a public address.' }, { status: 400 })
+    }
+    if (error instanceof SmtpError) {
+      return NextResponse.json({ error: `SMTP check failed: ${error.message}` }, { status: 422 })
+    }
+    console.error('SMTP sender save error:', error)
+    return NextResponse.json({ error: 'Failed to save SMTP sender' }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isValidEmail } from '@/lib/utils'
+import { formatEmailBody } from '@/lib/email/format'
+import { SmtpError, getEmailTransport } from '@/lib/email/transports'
+
+export const runtime = 'nodejs'
+
+/**
+ * Sends a one-off test message through a mailbox's transport, defaulting to the mailbox's
+ * own address. Handy against a local SMTP sink such as MailHog or smtp4dev.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const payload = (await request.json().catch(() => null)) as { gmailAccountId?: string; to?: string } | null
+  if (!payload?.gmailAccountId) {
+    return NextResponse.json({ error: 'gmailAccountId is required' }, { status: 400 })
+  }
+
+  const account = await prisma.gmailAccount.findFirst({
+    where: { id: payload.gmailAccountId, userId: authResult.user.userId },
+  })
+  if (!account) {
+    return NextResponse.json({ error: 'Mailbox not found' }, { status: 404 })
+  }
+
+  const to = payload.to?.trim() || account.emailAddress
+  if (!isValidEmail(to)) {
+    return NextResponse.json({ error: 'Enter a valid recipient address' }, { status: 400 })
+  }
+
+  try {
+    const body = formatEmailBody(`This is a test message sent from ${account.emailAddress} to check its sending settings.`)
+    const sent = await getEmailTransport(account).send({
+      to,
+      subject: 'Outbond test message',
+      htmlBody: body.html,
+      textBody: body.text,
+    })
+    return NextResponse.json({ success: true, messageId: sent.messageId })
+  } catch (error) {
+    console.error('Test send error:', error)
+    const message = error instanceof SmtpError ? error.message : 'Failed to send test message'
+    return NextResponse.json({ error: message }, { status: error instanceof SmtpError ? 422 : 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+export const runtime = 'nodejs'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+/**
+ * Switches a mailbox in or out of the sending rotation. Inactive mailboxes keep syncing
+ * replies; they just stop receiving new sends.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const accountId = resolveIdParam((await context.params)?.id)
+  if (!accountId) {
+    return NextResponse.json({ error: 'Invalid account id' }, { status: 400 })
+  }
+
+  const payload = (await request.json().catch(() => null)) as { isActive?: unknown } | null
+  if (typeof payload?.isActive !== 'boolean') {
+    return NextResponse.json({ error: 'isActive must be a boolean' }, { status: 400 })
+  }
+
+  try {
+    const { count } = await prisma.gmailAccount.updateMany({
+      where: { id: accountId, userId: authResult.user.userId },
+      data: { isActive: payload.isActive },
+    })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Gmail account not found' }, { status: 404 })
+    }
+    return NextResponse.json({ id: accountId, isActive: payload.isActive })
+  } catch (error) {
+    console.error('Gmail account update error:', error)
+    return NextResponse.json({ error: 'Failed to update Gmail account' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const accountId = resolveIdParam((await context.params)?.id)
+  if (!accountId) {
+    return NextResponse.json({ error: 'Invalid account id' }, { status: 400 })
+  }
+
+  try {
+    const { count } = await prisma.gmailAccount.deleteMany({
+      where: { id: accountId, userId: authResult.user.userId },
+    })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Gmail account not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Gmail account delete error:', error)
+    return NextResponse.json({ error: 'Failed to disconnect Gmail account' }, { status: 500 })
+  }
+}
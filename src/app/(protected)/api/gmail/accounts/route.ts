@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getMailboxHealth, isMailboxRotationStrategy } from '@/lib/google-gmail/accounts'
+import type { MailboxAccountsResponse } from '@/types/gmail'
+
+export const runtime = 'nodejs'
+
+/**
+ * Lists every connected mailbox with its health, plus how sends rotate between them.
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const [accounts, user] = await Promise.all([
+      getMailboxHealth(authResult.user.userId),
+      prisma.user.findUnique({ where: { id: authResult.user.userId }, select: { mailboxRotation: true, unsubscribeFooter: true } }),
+    ])
+    const response: MailboxAccountsResponse = {
+      accounts,
+      rotation: isMailboxRotationStrategy(user?.mailboxRotation) ? user.mailboxRotation : 'round_robin',
+      unsubscribeFooter: user?.unsubscribeFooter ?? false,
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Gmail accounts error:', error)
+    return NextResponse.json({ error: 'Failed to load Gmail accounts' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const payload = (await request.json().catch(() => null)) as { rotation?: unknown; unsubscribeFooter?: unknown } | null
+  if (!payload || (payload.rotation === undefined && payload.unsubscribeFooter === undefined)) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+  }
+  if (payload.rotation !== undefined && !isMailboxRotationStrategy(payload.rotation)) {
+    return NextResponse.json({ error: 'Rotation must be round_robin or least_used' }, { status: 400 })
+  }
+  if (payload.unsubscribeFooter !== undefined && typeof payload.unsubscribeFooter !== 'boolean') {
+    return NextResponse.json({ error: 'unsubscribeFooter must be true or false' }, { status: 400 })
+  }
+
+  try {
+    const user = await prisma.user.update({
+      where: { id: authResult.user.userId },
+      data: {
+        ...(payload.rotation !== undefined ? { mailboxRotation: payload.rotation } : {}),
+        ...(payload.unsubscribeFooter !== undefined ? { unsubscribeFooter: payload.unsubscribeFooter } : {}),
+      },
+      select: { mailboxRotation: true, unsubscribeFooter: true },
+    })
+    return NextResponse.json({ rotation: user.mailboxRotation, unsubscribeFooter: user.unsubscribeFooter })
+  } catch (error) {
+    console.error('Gmail mailbox settings update error:', error)
+    return NextResponse.json({ error: 'Failed to update mailbox settings' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { prisma } from "@/lib/prisma"
+import { enqueueReplySync } from "@/lib/queue"
+import { isValidPushToken, parseGmailPushNotification } from "@/lib/replies/push"
+
+/**
+ * Receives Gmail Pub/Sub push notifications and queues an incremental reply sync for the
+ * mailbox. Pub/Sub retries anything other than a 2xx, so unknown mailboxes are acknowledged.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = new URL(request.url).searchParams.get("token")
+    if (!isValidPushToken(token)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const notification = parseGmailPushNotification(body)
+    if (!notification) {
+      return NextResponse.json({ error: "Invalid push notification" }, { status: 400 })
+    }
+
+    const gmailAccount = await prisma.gmailAccount.findFirst({
+      where: { emailAddress: { equals: notification.emailAddress, mode: "insensitive" } },
+      select: { id: true, userId: true },
+    })
+    if (!gmailAccount) {
+      return new NextResponse(null, { status: 204 })
+    }
+
+    await enqueueReplySync({
+      userId: gmailAccount.userId,
+      gmailAccountId: gmailAccount.id,
+      historyId: notification.historyId,
+      reason: "push",
+    })
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("Failed to handle Gmail push notification", error)
+    return NextResponse.json({ error: "Failed to handle push notification" }, { status: 500 })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { listGmailAccounts } from '@/lib/google-gmail/accounts'
+import {
+  MailboxQuotaValidationError,
+  getMailboxQuotaStatus,
+  parseMailboxQuotaSettings,
+} from '@/lib/email/mailbox-quota'
+
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const accounts = await listGmailAccounts(authResult.user.userId)
+    const mailboxes = await Promise.all(accounts.map((account) => getMailboxQuotaStatus(account)))
+    return NextResponse.json({ mailboxes })
+  } catch (error) {
+    console.error('Gmail quota error:', error)
+    return NextResponse.json({ error: 'Failed to load mailbox quotas' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const payload = (await request.json().catch(() => null)) as
+    | (Record<string, unknown> & { gmailAccountId?: string; restartWarmup?: boolean })
+    | null
+  if (!payload) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  try {
+    const account = await prisma.gmailAccount.findFirst({
+      where: {
+        userId: authResult.user.userId,
+        ...(payload.gmailAccountId ? { id: payload.gmailAccountId } : {}),
+      },
+    })
+    if (!account) {
+      return NextResponse.json({ error: 'Gmail account not connected' }, { status: 404 })
+    }
+
+    const settings = parseMailboxQuotaSettings(payload)
+    const updated = await prisma.gmailAccount.update({
+      where: { id: account.id },
+      data: {
+        ...settings,
+        ...(payload.restartWarmup === true ? { warmupStartedAt: new Date() } : {}),
+      },
+    })
+
+    return NextResponse.json({ mailbox: await getMailboxQuotaStatus(updated) })
+  } catch (error) {
+    if (error instanceof MailboxQuotaValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Gmail quota update error:', error)
+    return NextResponse.json({ error: 'Failed to update mailbox quota' }, { status: 500 })
+  }
+}
@@ -3,6 +3,8 @@ import { Prisma } from '@prisma/client'
 
 import { getCurrentUser } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { listGmailAccounts } from '@/lib/google-gmail/accounts'
+import { getTransportKind, hasSendingCredentials } from '@/lib/email/transports'
 
 const REFRESH_THRESHOLD_MS = 5 * 60 * 1000
 const INACTIVITY_TIMEOUT_MS = 3 * 24 * 60 * 60 * 1000
@@ -15,15 +17,20 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const account = await prisma.gmailAccount.findUnique({ where: { userId: user.userId } })
+    // With several mailboxes connected, report on the first one that can still send; the
+    // per-mailbox health lives in /api/gmail/accounts.
+    const accounts = await listGmailAccounts(user.userId)
+    const usable = accounts.filter((candidate) => hasSendingCredentials(candidate))
+    const account = usable.find((candidate) => candidate.isActive) ?? usable[0] ?? accounts[0]
 
-    if (!account || !account.accessToken || !account.refreshToken) {
+    if (!account || !hasSendingCredentials(account)) {
       return NextResponse.json({
         isConnected: false,
         emailAddress: account?.emailAddress ?? null,
         expiresAt: account?.expiresAt ?? null,
         willRefresh: false,
         requiresReauth: Boolean(account),
+        accountCount: accounts.length,
       })
     }
 
@@ -33,7 +40,8 @@ export async function GET() {
     const lastActiveMs = lastActiveAt ? new Date(lastActiveAt).getTime() : 0
     const inactiveMs = Date.now() - lastActiveMs
 
-    if (inactiveMs > INACTIVITY_TIMEOUT_MS) {
+    // SMTP senders have no OAuth session to go stale.
+    if (inactiveMs > INACTIVITY_TIMEOUT_MS && getTransportKind(account) === 'gmail') {
       return NextResponse.json({
         isConnected: false,
         emailAddress: account.emailAddress,
@@ -41,13 +49,21 @@ export async function GET() {
         willRefresh: false,
         requiresReauth: true,
         inactiveSince: account.connectedAt,
+        accountCount: accounts.length,
       })
     }
 
-    if (!account.connectedAt || Date.now() - new Date(account.connectedAt).getTime() >= TOUCH_INTERVAL_MS) {
+    const staleIds = usable
+      .filter((candidate) => {
+        const activeAt = candidate.connectedAt ?? candidate.updatedAt
+        const activeMs = activeAt ? new Date(activeAt).getTime() : 0
+        return Date.now() - activeMs <= INACTIVITY_TIMEOUT_MS && Date.now() - activeMs >= TOUCH_INTERVAL_MS
+      })
+      .map((candidate) => candidate.id)
+    if (staleIds.length > 0) {
       try {
-        await prisma.gmailAccount.update({
-          where: { id: account.id },
+        await prisma.gmailAccount.updateMany({
+          where: { id: { in: staleIds } },
           data: { connectedAt: new Date() },
         })
       } catch (touchError) {
@@ -61,6 +77,7 @@ export async function GET() {
       expiresAt: account.expiresAt,
       willRefresh,
       lastActiveAt,
+      accountCount: accounts.length,
     })
   } catch (error) {
     console.error('Gmail status error:', error)
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { verifyAuth } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { enqueueEmailSendJob } from "@/lib/queue"
+import { formatEmailBody } from "@/lib/email/format"
+import { buildFollowUpSubject } from "@/lib/email/sequences"
+import { getDefaultGmailAccount } from "@/lib/google-gmail/accounts"
+import { hasSendingCredentials } from "@/lib/email/transports"
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === "string" ? value : null
+
+/**
+ * Queues a manual answer to an inbound reply. The message is sent into the reply's Gmail thread
+ * with In-Reply-To/References set so the lead sees one conversation.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const auth = await verifyAuth(request)
+    if (!auth.success || !auth.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const replyId = resolveIdParam((await context.params)?.id)
+    if (!replyId) {
+      return NextResponse.json({ error: "Invalid reply id" }, { status: 400 })
+    }
+
+    const payload = (await request.json().catch(() => null)) as { body?: string } | null
+    const { html, text } = formatEmailBody(payload?.body)
+    if (!html) {
+      return NextResponse.json({ error: "Reply body is required" }, { status: 400 })
+    }
+
+    const reply = await prisma.emailReply.findFirst({
+      where: { id: replyId, userId: auth.user.userId },
+      include: { emailSendJob: true, lead: true },
+    })
+    if (!reply) {
+      return NextResponse.json({ error: "Reply not found" }, { status: 404 })
+    }
+
+    // Answer from the mailbox the conversation lives in so the thread stays intact.
+    const threadAccountId = reply.gmailAccountId ?? reply.emailSendJob?.gmailAccountId
+    const gmailAccount =
+      (threadAccountId
+        ? await prisma.gmailAccount.findFirst({ where: { id: threadAccountId, userId: auth.user.userId } })
+        : null) ?? (await getDefaultGmailAccount(auth.user.userId))
+    if (!gmailAccount || !hasSendingCredentials(gmailAccount)) {
+      return NextResponse.json(
+        { error: "Gmail account needs to be reconnected before sending emails.", requiresReauth: true },
+        { status: 409 },
+      )
+    }
+
+    const previousJob = reply.emailSendJob
+    const references = [previousJob?.references, previousJob?.rfcMessageId, reply.rfcMessageId]
+      .filter(Boolean)
+      .join(" ")
+
+    const job = await prisma.emailSendJob.create({
+      data: {
+        userId: auth.user.userId,
+        campaignId: reply.campaignId ?? previousJob?.campaignId ?? undefined,
+        gmailAccountId: gmailAccount.id,
+        leadEmail: reply.leadEmail.trim().toLowerCase(),
+        leadFirstName: reply.lead?.firstName ?? previousJob?.leadFirstName,
+        leadLastName: reply.lead?.lastName ?? previousJob?.leadLastName,
+        leadCompany: reply.lead?.company ?? previousJob?.leadCompany,
+        manualCampaignId: previousJob?.manualCampaignId ?? undefined,
+        manualCampaignName: previousJob?.manualCampaignName ?? undefined,
+        manualCampaignSource: previousJob?.manualCampaignSource ?? undefined,
+        subject: buildFollowUpSubject(reply.subject ?? previousJob?.subject ?? "").slice(0, 180),
+        bodyHtml: html,
+        bodyText: text.slice(0, 2000),
+        status: "QUEUED",
+        previousJobId: previousJob?.id,
+        gmailThreadId: reply.gmailThreadId ?? previousJob?.gmailThreadId,
+        inReplyTo: reply.rfcMessageId ?? previousJob?.rfcMessageId,
+        references: references || null,
+      },
+    })
+
+    await enqueueEmailSendJob({
+      jobId: job.id,
+      userId: auth.user.userId,
+      gmailAccountId: gmailAccount.id,
+    })
+
+    return NextResponse.json({ status: "queued", jobId: job.id }, { status: 202 })
+  } catch (error) {
+    console.error("Failed to queue reply", error)
+    return NextResponse.json({ error: "Failed to queue reply" }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { verifyAuth } from "@/lib/auth"
+import { reclassifyReply } from "@/lib/replies"
+import type { ReplyRecord } from "@/lib/replies/types"
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === "string" ? value : null
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const auth = await verifyAuth(request)
+    if (!auth.success || !auth.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const replyId = resolveIdParam((await context.params)?.id)
+    if (!replyId) {
+      return NextResponse.json({ error: "Invalid reply id" }, { status: 400 })
+    }
+
+    const payload = (await request.json().catch(() => null)) as { disposition?: ReplyRecord["disposition"] } | null
+    if (!payload?.disposition) {
+      return NextResponse.json({ error: "Disposition is required" }, { status: 400 })
+    }
+
+    const updated = await reclassifyReply(auth.user.userId, replyId, payload.disposition)
+    if (!updated) {
+      return NextResponse.json({ error: "Reply not found or disposition invalid" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Failed to reclassify reply", error)
+    return NextResponse.json({ error: "Failed to reclassify reply" }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { removeSuppressionEntry, toSuppressionEntry } from '@/lib/suppression'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+/**
+ * Loads an entry the caller may change: their own entries, or org-wide ones for admins.
+ */
+const findEditableEntry = async (request: NextRequest, context: RouteContext) => {
+  const authResult = await verifyAuth(request)
+  if (!authResult.success || !authResult.user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const id = resolveIdParam((await context.params)?.id)
+  if (!id) {
+    return { error: NextResponse.json({ error: 'Invalid suppression id' }, { status: 400 }) }
+  }
+
+  const entry = await prisma.suppressionEntry.findFirst({
+    where: { id, OR: [{ userId: authResult.user.userId }, { userId: null }] },
+  })
+  if (!entry) {
+    return { error: NextResponse.json({ error: 'Suppression entry not found' }, { status: 404 }) }
+  }
+
+  if (!entry.userId && authResult.user.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Admin access required for org-wide suppressions' }, { status: 403 }) }
+  }
+
+  return { entry }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const result = await findEditableEntry(request, context)
+    if (result.error) {
+      return result.error
+    }
+
+    const payload = await request.json().catch(() => null) as { reason?: string | null } | null
+    const updated = await prisma.suppressionEntry.update({
+      where: { id: result.entry.id },
+      data: { reason: payload?.reason?.trim().slice(0, 200) || null },
+    })
+
+    return NextResponse.json({ entry: toSuppressionEntry(updated) })
+  } catch (error) {
+    console.error('Failed to update suppression entry:', error)
+    return NextResponse.json({ error: 'Failed to update suppression entry' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const result = await findEditableEntry(request, context)
+    if (result.error) {
+      return result.error
+    }
+
+    await removeSuppressionEntry(result.entry)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to remove suppression entry:', error)
+    return NextResponse.json({ error: 'Failed to remove suppression entry' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { buildSuppressionCsv, toSuppressionEntry } from '@/lib/suppression'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const entries = await prisma.suppressionEntry.findMany({
+      where: { OR: [{ userId: authResult.user.userId }, { userId: null }] },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const csv = buildSuppressionCsv(entries.map(toSuppressionEntry))
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="suppression-list-${new Date().toISOString().slice(0, 10)}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to export suppression list:', error)
+    return NextResponse.json({ error: 'Failed to export suppression list' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { addSuppressionEntries, parseSuppressionCsv } from '@/lib/suppression'
+import type { SuppressionImportResult } from '@/types/suppression'
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Attach a CSV file to import' }, { status: 400 })
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Suppression CSV must be 2MB or smaller' }, { status: 413 })
+    }
+
+    const scope = formData?.get('scope') === 'org' ? 'org' : 'user'
+    if (scope === 'org' && authResult.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required for org-wide suppressions' }, { status: 403 })
+    }
+
+    const { candidates, invalid } = parseSuppressionCsv(await file.text())
+    if (candidates.length === 0) {
+      return NextResponse.json({ error: 'No valid emails or domains found in the file', invalid }, { status: 400 })
+    }
+
+    const { created, skipped } = await addSuppressionEntries(candidates, {
+      userId: scope === 'org' ? null : authResult.user.userId,
+      source: 'import',
+      createdById: authResult.user.userId,
+    })
+
+    const result: SuppressionImportResult = { imported: created, skipped, invalid }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Failed to import suppression list:', error)
+    return NextResponse.json({ error: 'Failed to import suppression list' }, { status: 500 })
+  }
+}
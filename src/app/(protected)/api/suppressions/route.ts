@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { addSuppressionEntries, normalizeSuppressionValue, toSuppressionEntry } from '@/lib/suppression'
+import type { SuppressionScope } from '@/types/suppression'
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const entries = await prisma.suppressionEntry.findMany({
+      where: { OR: [{ userId: authResult.user.userId }, { userId: null }] },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ entries: entries.map(toSuppressionEntry) })
+  } catch (error) {
+    console.error('Failed to load suppression list:', error)
+    return NextResponse.json({ error: 'Failed to load suppression list' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request)
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const payload = await request.json().catch(() => null) as {
+      value?: string
+      reason?: string | null
+      scope?: SuppressionScope
+    } | null
+
+    const normalized = payload?.value ? normalizeSuppressionValue(payload.value) : null
+    if (!normalized) {
+      return NextResponse.json({ error: 'Enter a valid email address or domain' }, { status: 400 })
+    }
+
+    const scope: SuppressionScope = payload?.scope === 'org' ? 'org' : 'user'
+    if (scope === 'org' && authResult.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required for org-wide suppressions' }, { status: 403 })
+    }
+
+    const userId = scope === 'org' ? null : authResult.user.userId
+    await addSuppressionEntries([{ ...normalized, reason: payload?.reason }], {
+      userId,
+      source: 'manual',
+      createdById: authResult.user.userId,
+    })
+
+    const entry = await prisma.suppressionEntry.findFirst({
+      where: { userId, type: normalized.type, value: normalized.value },
+    })
+    if (!entry) {
+      return NextResponse.json({ error: 'Failed to save suppression entry' }, { status: 500 })
+    }
+
+    return NextResponse.json({ entry: toSuppressionEntry(entry) }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to add suppression entry:', error)
+    return NextResponse.json({ error: 'Failed to add suppression entry' }, { status: 500 })
+  }
+}
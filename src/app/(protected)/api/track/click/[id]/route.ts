@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { recordTrackingEvent, resolveClickDestination } from '@/lib/email/tracking'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+const resolveClientIp = (request: NextRequest): string | null =>
+  request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || request.headers.get('x-real-ip') || null
+
+/**
+ * Click-tracking redirect for links in outgoing emails. The destination is signed together
+ * with the job id, so only links we rewrote ourselves are followed.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const id = resolveIdParam((await context.params)?.id)
+  const destination = id
+    ? resolveClickDestination(id, request.nextUrl.searchParams.get('u'), request.nextUrl.searchParams.get('s'))
+    : null
+
+  if (!id || !destination) {
+    return NextResponse.json({ error: 'Invalid tracking link' }, { status: 400 })
+  }
+
+  try {
+    await recordTrackingEvent(id, 'click', {
+      url: destination,
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: resolveClientIp(request),
+    })
+  } catch (error) {
+    // The recipient still gets where they were going even if the event is lost.
+    console.error('Failed to record email click:', error)
+  }
+
+  return NextResponse.redirect(destination, 302)
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { recordTrackingEvent, TRACKING_PIXEL, verifyTrackingSignature } from '@/lib/email/tracking'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveIdParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+const resolveClientIp = (request: NextRequest): string | null =>
+  request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || request.headers.get('x-real-ip') || null
+
+const pixelResponse = () =>
+  new NextResponse(TRACKING_PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Content-Length': String(TRACKING_PIXEL.length),
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    },
+  })
+
+/**
+ * Open-tracking pixel embedded in outgoing emails. Always answers with the image so a bad
+ * or stale link never shows a broken picture; only signed requests are recorded.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const id = resolveIdParam((await context.params)?.id)
+  const signature = request.nextUrl.searchParams.get('s')
+
+  if (id && verifyTrackingSignature(id, signature)) {
+    try {
+      await recordTrackingEvent(id, 'open', {
+        userAgent: request.headers.get('user-agent'),
+        ipAddress: resolveClientIp(request),
+      })
+    } catch (error) {
+      console.error('Failed to record email open:', error)
+    }
+  }
+
+  return pixelResponse()
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { parseUnsubscribeToken, unsubscribeRecipient } from '@/lib/email/unsubscribe'
+
+type RouteContext = {
+  params: Promise<Record<string, string | string[] | undefined> | undefined>
+}
+
+const resolveTokenParam = (value: string | string[] | undefined): string | null =>
+  Array.isArray(value) ? value[0] ?? null : typeof value === 'string' ? value : null
+
+/**
+ * One-click unsubscribe endpoint named in the List-Unsubscribe header. Mail providers POST
+ * `List-Unsubscribe=One-Click` here without cookies, so the signed token is the only credential.
+ * The hosted unsubscribe page posts here too.
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const recipient = parseUnsubscribeToken(resolveTokenParam((await context.params)?.token))
+  if (!recipient) {
+    return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 })
+  }
+
+  try {
+    await unsubscribeRecipient(recipient)
+    return NextResponse.json({ success: true, email: recipient.email })
+  } catch (error) {
+    console.error('Failed to unsubscribe recipient:', error)
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 })
+  }
+}
+
+/**
+ * Some clients open the header URL in a browser instead of posting to it; send those
+ * people to the confirmation page rather than unsubscribing on a bare GET, which link
+ * scanners also trigger.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const token = resolveTokenParam((await context.params)?.token)
+  return NextResponse.redirect(new URL(`/unsubscribe/${token ?? ''}`, request.url), 303)
+}
@@ -0,0 +1,411 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import axios from "axios"
+import { Calendar, Clock, Video, ExternalLink, ChevronLeft, ChevronRight, Mail, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { CalendarFeedCard } from "@/components/bookings/CalendarFeedCard"
+import { getApiClient } from "@/lib/http-client"
+import type { Booking, BookingStatus } from "@/types/booking"
+
+type BookingsClientProps = {
+  bookings: Booking[]
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+const STATUS_OPTIONS: Array<{ label: string; value: BookingStatus }> = [
+  { label: "Scheduled", value: "SCHEDULED" },
+  { label: "Confirmed", value: "CONFIRMED" },
+  { label: "Completed", value: "COMPLETED" },
+  { label: "No-show", value: "NO_SHOW" },
+  { label: "Cancelled", value: "CANCELLED" },
+]
+
+const monthFormatter = new Intl.DateTimeFormat("en-US", { month: "long", year: "numeric" })
+const dateFormatter = new Intl.DateTimeFormat("en-US", { weekday: "short", month: "short", day: "numeric" })
+const timeFormatter = new Intl.DateTimeFormat("en-US", { hour: "2-digit", minute: "2-digit", hour12: false })
+
+const statusVariant = (status: BookingStatus) => {
+  switch (status) {
+    case "CONFIRMED":
+      return "positive"
+    case "COMPLETED":
+      return "default"
+    case "NO_SHOW":
+      return "negative"
+    case "CANCELLED":
+      return "outline"
+    case "SCHEDULED":
+    default:
+      return "queued"
+  }
+}
+
+const statusLabel = (status: BookingStatus) =>
+  STATUS_OPTIONS.find((option) => option.value === status)?.label ?? status
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { error?: string })?.error || fallback
+  }
+  return fallback
+}
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`
+
+const startOfWeek = (date: Date) => {
+  const clone = new Date(date)
+  clone.setHours(0, 0, 0, 0)
+  clone.setDate(clone.getDate() - clone.getDay())
+  return clone
+}
+
+export function BookingsClient({ bookings }: BookingsClientProps) {
+  const router = useRouter()
+  const [items, setItems] = useState<Booking[]>(bookings)
+  const [monthCursor, setMonthCursor] = useState(() => {
+    const now = new Date()
+    return new Date(now.getFullYear(), now.getMonth(), 1)
+  })
+  const [selectedDay, setSelectedDay] = useState<string | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const bookingsByDay = useMemo(() => {
+    const map = new Map<string, Booking[]>()
+    items.forEach((booking) => {
+      const key = dayKey(new Date(booking.startsAt))
+      map.set(key, [...(map.get(key) ?? []), booking])
+    })
+    return map
+  }, [items])
+
+  const calendarCells = useMemo(() => {
+    const year = monthCursor.getFullYear()
+    const month = monthCursor.getMonth()
+    const leading = new Date(year, month, 1).getDay()
+    const daysInMonth = new Date(year, month + 1, 0).getDate()
+    const cells: Array<Date | null> = Array.from({ length: leading }, () => null)
+    for (let day = 1; day <= daysInMonth; day++) {
+      cells.push(new Date(year, month, day))
+    }
+    return cells
+  }, [monthCursor])
+
+  const upcoming = useMemo(() => {
+    const now = Date.now()
+    return items.filter((booking) => new Date(booking.endsAt).getTime() >= now && booking.status !== "CANCELLED")
+  }, [items])
+
+  const stats = useMemo(() => {
+    const now = new Date()
+    const weekStart = startOfWeek(now)
+    const weekEnd = new Date(weekStart)
+    weekEnd.setDate(weekEnd.getDate() + 7)
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1)
+    const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1)
+
+    let thisWeek = 0
+    let thisMonth = 0
+    let completed = 0
+    let noShows = 0
+    items.forEach((booking) => {
+      if (booking.status === "CANCELLED") return
+      const startsAt = new Date(booking.startsAt)
+      if (startsAt >= weekStart && startsAt < weekEnd) thisWeek += 1
+      if (startsAt >= monthStart && startsAt < monthEnd) thisMonth += 1
+      if (booking.status === "COMPLETED") completed += 1
+      if (booking.status === "NO_SHOW") noShows += 1
+    })
+
+    const attended = completed + noShows
+    return {
+      thisWeek,
+      thisMonth,
+      showRate: attended > 0 ? `${Math.round((completed / attended) * 100)}%` : "—",
+    }
+  }, [items])
+
+  const selectedDayBookings = selectedDay ? bookingsByDay.get(selectedDay) ?? [] : []
+
+  const shiftMonth = (delta: number) => {
+    setSelectedDay(null)
+    setMonthCursor((current) => new Date(current.getFullYear(), current.getMonth() + delta, 1))
+  }
+
+  const handleStatusChange = async (booking: Booking, status: BookingStatus) => {
+    if (status === booking.status) return
+    setPendingId(booking.id)
+    try {
+      const { data } = await getApiClient().patch<{ booking: Booking; inviteError: string | null }>(
+        `/api/bookings/${booking.id}`,
+        { status },
+      )
+      setItems((prev) => prev.map((item) => (item.id === booking.id ? data.booking : item)))
+      if (data.inviteError) {
+        toast.warning(`Status updated, but the lead was not notified: ${data.inviteError}`)
+      } else {
+        toast.success(`Marked as ${statusLabel(status).toLowerCase()}`)
+      }
+      router.refresh()
+    } catch (error) {
+      console.error("Failed to update booking:", error)
+      toast.error("Unable to update the booking right now.")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleSendInvite = async (booking: Booking) => {
+    setPendingId(booking.id)
+    try {
+      const { data } = await getApiClient().post<{ booking: Booking }>(`/api/bookings/${booking.id}/invite`)
+      setItems((prev) => prev.map((item) => (item.id === booking.id ? data.booking : item)))
+      toast.success(`Calendar invite sent to ${booking.leadEmail}`)
+    } catch (error) {
+      console.error("Failed to send invite:", error)
+      toast.error(extractErrorMessage(error, "Unable to send the invite right now."))
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleDelete = async (booking: Booking) => {
+    setPendingId(booking.id)
+    try {
+      await getApiClient().delete(`/api/bookings/${booking.id}`)
+      setItems((prev) => prev.filter((item) => item.id !== booking.id))
+      toast.success("Booking removed")
+      router.refresh()
+    } catch (error) {
+      console.error("Failed to delete booking:", error)
+      toast.error("Unable to delete the booking right now.")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const renderBooking = (booking: Booking) => {
+    const startsAt = new Date(booking.startsAt)
+    const endsAt = new Date(booking.endsAt)
+    return (
+      <div key={booking.id} className="p-4 border border-border rounded-lg hover:shadow-sm transition-shadow">
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <h3 className="font-medium text-lg">{booking.leadName}</h3>
+            <p className="text-muted-text">
+              {[booking.company, booking.campaignName].filter(Boolean).join(" · ") || booking.leadEmail}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant={statusVariant(booking.status)}>{statusLabel(booking.status)}</Badge>
+            <select
+              aria-label="Change booking status"
+              value={booking.status}
+              disabled={pendingId === booking.id}
+              onChange={(event) => handleStatusChange(booking, event.target.value as BookingStatus)}
+              className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+            >
+              {STATUS_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="flex items-center text-sm">
+            <Calendar className="h-4 w-4 mr-2 text-cwt-plum" />
+            <span>{dateFormatter.format(startsAt)}</span>
+          </div>
+          <div className="flex items-center text-sm">
+            <Clock className="h-4 w-4 mr-2 text-cwt-plum" />
+            <span>
+              {timeFormatter.format(startsAt)}–{timeFormatter.format(endsAt)}
+            </span>
+          </div>
+          <div className="flex items-center text-sm">
+            <Video className="h-4 w-4 mr-2 text-cwt-plum" />
+            <Badge variant="outline" className="text-xs">
+              {booking.meetingType}
+            </Badge>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-sm text-muted-text font-mono truncate flex-1 mr-4">
+            {booking.meetingLink ?? "No meeting link"}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={pendingId === booking.id}
+            onClick={() => handleSendInvite(booking)}
+          >
+            <Mail className="h-4 w-4 mr-2" />
+            {booking.inviteSentAt ? "Resend invite" : "Send invite"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={pendingId === booking.id}
+            onClick={() => handleDelete(booking)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          {booking.meetingLink && (
+            <Button
+              variant="default"
+              size="sm"
+              onClick={() => window.open(booking.meetingLink ?? "", "_blank", "noopener,noreferrer")}
+            >
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Join Meeting
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-mono font-bold text-foreground">Bookings</h1>
+        <p className="text-muted-text mt-1">Track and manage scheduled meetings</p>
+      </div>
+
+      <Tabs defaultValue="list" className="space-y-6">
+        <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsTrigger value="calendar">Calendar</TabsTrigger>
+          <TabsTrigger value="list">List</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="calendar" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg font-mono">{monthFormatter.format(monthCursor)}</CardTitle>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => shiftMonth(-1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => shiftMonth(1)}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-7 gap-2 mb-4">
+                {WEEKDAYS.map((day) => (
+                  <div key={day} className="text-center text-sm font-medium text-muted-text p-2">
+                    {day}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-7 gap-2">
+                {calendarCells.map((date, index) => {
+                  if (!date) {
+                    return <div key={`empty-${index}`} className="aspect-square" />
+                  }
+                  const key = dayKey(date)
+                  const dayBookings = (bookingsByDay.get(key) ?? []).filter(
+                    (booking) => booking.status !== "CANCELLED",
+                  )
+                  const isSelected = selectedDay === key
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => setSelectedDay(isSelected ? null : key)}
+                      className={`aspect-square border rounded-md p-1 text-left hover:bg-muted-bg transition-colors ${
+                        isSelected ? "border-cwt-plum" : "border-border"
+                      }`}
+                    >
+                      <div className="text-sm font-mono">{date.getDate()}</div>
+                      {dayBookings.length > 0 && (
+                        <div className="mt-1 flex items-center gap-1">
+                          <div className="w-2 h-2 bg-cwt-plum rounded-full"></div>
+                          {dayBookings.length > 1 && (
+                            <span className="text-xs font-mono text-muted-text">{dayBookings.length}</span>
+                          )}
+                        </div>
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          {selectedDay && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg font-mono">Meetings on this day</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {selectedDayBookings.length > 0 ? (
+                  <div className="space-y-4">{selectedDayBookings.map(renderBooking)}</div>
+                ) : (
+                  <p className="text-sm text-muted-text">No meetings booked for this day.</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="list" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-mono">Upcoming Meetings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">{upcoming.map(renderBooking)}</div>
+
+              {upcoming.length === 0 && (
+                <div className="text-center py-12 text-muted-text">
+                  <Calendar className="h-12 w-12 mx-auto mb-4 text-muted-text/50" />
+                  <p>No upcoming bookings.</p>
+                  <p className="text-sm">Book a meeting from a positive reply to see it here.</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <CalendarFeedCard />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6 text-center">
+                <div className="text-2xl font-mono font-bold text-cwt-plum">{stats.thisWeek}</div>
+                <div className="text-sm text-muted-text">This Week</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 text-center">
+                <div className="text-2xl font-mono font-bold text-status-positive">{stats.thisMonth}</div>
+                <div className="text-sm text-muted-text">This Month</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 text-center">
+                <div className="text-2xl font-mono font-bold text-electric-blue">{stats.showRate}</div>
+                <div className="text-sm text-muted-text">Show Rate</div>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -145,6 +145,15 @@ export function DashboardClient({ analytics, isAdmin }: DashboardClientProps) {
     }, 1)
   }, [chartData])
 
+  const bookingsByCampaign = useMemo(() => analytics.bookingsByCampaign ?? [], [analytics.bookingsByCampaign])
+
+  const mailboxQuotas = useMemo(() => analytics.mailboxQuotas ?? [], [analytics.mailboxQuotas])
+  const engagement = analytics.engagement
+  const maxCampaignBookings = useMemo(
+    () => bookingsByCampaign.reduce((max, row) => Math.max(max, row.count), 1),
+    [bookingsByCampaign],
+  )
+
   const leadTrendChange = useMemo(
     () => deriveChange(analytics?.trends.leadWrites ?? []),
     [analytics?.trends.leadWrites],
@@ -185,11 +194,10 @@ export function DashboardClient({ analytics, isAdmin }: DashboardClientProps) {
       {
         key: "bookings",
         title: "Bookings",
-        value: "0",
+        value: formatNumber(analytics.metrics.bookedMeetings ?? 0),
         trend: "neutral",
-        changeLabel: "Sync coming soon",
-        description: "Calendar integration pending",
-        muted: true,
+        changeLabel: "Booked meetings",
+        description: "Meetings booked from replies",
       },
     ]
 
@@ -365,6 +373,118 @@ export function DashboardClient({ analytics, isAdmin }: DashboardClientProps) {
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-mono">Booked meetings by campaign</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {bookingsByCampaign.length === 0 ? (
+            <div className="rounded-md border border-dashed border-border bg-muted/30 p-6 text-sm text-muted-foreground">
+              No meetings booked yet. Book a meeting from a positive reply to track conversions per campaign.
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {bookingsByCampaign.map((row) => (
+                <div key={row.campaignId ?? "unattributed"} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="truncate text-foreground">{row.campaignName}</span>
+                    <span className="font-mono text-muted-foreground">{formatNumber(row.count)}</span>
+                  </div>
+                  <div className="h-2 w-full rounded-sm bg-muted">
+                    <div
+                      className="h-2 rounded-sm"
+                      style={{
+                        width: `${Math.round((row.count / maxCampaignBookings) * 100)}%`,
+                        backgroundColor: "hsl(var(--status-positive))",
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-mono">Email engagement</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!engagement || (engagement.openTrackedSends === 0 && engagement.clickTrackedSends === 0) ? (
+            <div className="rounded-md border border-dashed border-border bg-muted/30 p-6 text-sm text-muted-foreground">
+              Opens and clicks appear here once tracked emails go out.
+            </div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <p className="text-xs uppercase text-muted-foreground">Open rate</p>
+                <p className="text-2xl font-mono font-bold text-foreground">
+                  {engagement.openRate === null ? "—" : `${engagement.openRate}%`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatNumber(engagement.opened)} of {formatNumber(engagement.openTrackedSends)} tracked emails opened
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs uppercase text-muted-foreground">Click rate</p>
+                <p className="text-2xl font-mono font-bold text-foreground">
+                  {engagement.clickRate === null ? "—" : `${engagement.clickRate}%`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatNumber(engagement.clicked)} of {formatNumber(engagement.clickTrackedSends)} tracked emails clicked
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-mono">Mailbox sending quota</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {mailboxQuotas.length === 0 ? (
+            <div className="rounded-md border border-dashed border-border bg-muted/30 p-6 text-sm text-muted-foreground">
+              Connect a Gmail account to track its daily sending quota.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {mailboxQuotas.map((mailbox) => {
+                const usage = mailbox.quota > 0 ? Math.min(1, mailbox.sentToday / mailbox.quota) : 1
+                const warmingUp = mailbox.warmupEnabled && mailbox.quota < mailbox.dailySendCap
+                return (
+                  <div key={mailbox.gmailAccountId} className="space-y-1">
+                    <div className="flex items-center justify-between gap-3 text-sm">
+                      <span className="truncate font-mono text-foreground">{mailbox.emailAddress}</span>
+                      <span className="font-mono text-muted-foreground">
+                        {formatNumber(mailbox.sentToday)} / {formatNumber(mailbox.quota)}
+                      </span>
+                    </div>
+                    <div className="h-2 w-full rounded-sm bg-muted">
+                      <div
+                        className="h-2 rounded-sm"
+                        style={{
+                          width: `${Math.round(usage * 100)}%`,
+                          backgroundColor: usage >= 1 ? "hsl(var(--status-bounce))" : "hsl(var(--status-positive))",
+                        }}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {warmingUp
+                        ? `Warm-up day ${mailbox.warmupDay + 1} · ramping to ${formatNumber(mailbox.dailySendCap)}/day`
+                        : `Daily cap ${formatNumber(mailbox.dailySendCap)}`}
+                      {` · resets ${timeFormatter.format(new Date(mailbox.resetsAt))}`}
+                    </p>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
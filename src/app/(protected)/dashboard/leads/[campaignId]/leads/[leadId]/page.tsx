@@ -0,0 +1,218 @@
+import type { ReactNode } from "react"
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+
+import { getCurrentUser } from "@/lib/auth"
+import { getLeadHistoryAction } from "@/actions/contacts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { formatRelativeTime } from "@/lib/utils"
+import type { EmailVerificationReason } from "@/types/email-verification"
+
+type LeadDetailPageProps = {
+  params: Promise<{ campaignId: string; leadId: string }>
+}
+
+export const dynamic = "force-dynamic"
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : "—")
+
+const VERIFICATION_REASON_LABELS: Record<EmailVerificationReason, string> = {
+  syntax: "malformed address",
+  disposable: "disposable domain",
+  no_mx: "domain has no mail server",
+  mailbox_not_found: "mailbox does not exist",
+  role_account: "role account",
+  catch_all: "catch-all domain",
+  dns_error: "mail server lookup failed",
+}
+
+const formatDisposition = (value: string) =>
+  value
+    .toLowerCase()
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ")
+
+export default async function LeadDetailPage({ params }: LeadDetailPageProps) {
+  const { campaignId, leadId } = await params
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  const history = await getLeadHistoryAction(leadId)
+  if (!history || history.lead.campaignId !== campaignId) {
+    notFound()
+  }
+
+  const { lead, contact, leads, emails, replies } = history
+  const name = [lead.firstName, lead.lastName].filter(Boolean).join(" ")
+  const sentCount = emails.filter((email) => email.sentAt).length
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-mono font-bold text-foreground">{name || lead.email}</h1>
+            {lead.isSuppressed && <Badge variant="destructive">Suppressed</Badge>}
+            {!lead.isValid && <Badge variant="outline">Invalid email</Badge>}
+            {lead.isValid && lead.emailVerificationStatus === "RISKY" && <Badge variant="outline">Risky email</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {[name ? lead.email : null, lead.jobTitle, lead.company].filter(Boolean).join(" · ")}
+          </p>
+        </div>
+        <Button asChild variant="outline">
+          <Link href={`/dashboard/leads/${campaignId}`}>← Back to {lead.campaignName}</Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Contact</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <Row label="Email" value={lead.email} />
+            {contact && contact.email !== lead.email && <Row label="Matched as" value={contact.email} />}
+            <Row
+              label="Last emailed"
+              value={contact?.lastContactedAt ? formatRelativeTime(new Date(contact.lastContactedAt)) : "Never"}
+            />
+            <Row
+              label="Verification"
+              value={
+                lead.emailVerificationStatus === "UNVERIFIED"
+                  ? "Not verified"
+                  : [
+                      formatDisposition(lead.emailVerificationStatus),
+                      ...lead.emailVerificationReasons.map((reason) => VERIFICATION_REASON_LABELS[reason] ?? reason),
+                    ].join(" · ")
+              }
+            />
+            <Row label="Emails sent" value={sentCount.toLocaleString()} />
+            <Row label="Replies" value={replies.length.toLocaleString()} />
+            {lead.location && <Row label="Location" value={lead.location} />}
+            {lead.website && (
+              <Row
+                label="Website"
+                value={
+                  <a href={lead.website} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    {lead.website}
+                  </a>
+                }
+              />
+            )}
+            {lead.linkedinUrl && (
+              <Row
+                label="LinkedIn"
+                value={
+                  <a href={lead.linkedinUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    Profile
+                  </a>
+                }
+              />
+            )}
+            {lead.summary && <p className="whitespace-pre-line pt-2 text-muted-foreground">{lead.summary}</p>}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Campaigns</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {leads.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-3">
+                <Link href={`/dashboard/leads/${entry.campaignId}/leads/${entry.id}`} className="font-medium hover:underline">
+                  {entry.campaignName}
+                </Link>
+                <span className="text-xs text-muted-foreground">
+                  {entry.source} · added {formatRelativeTime(new Date(entry.createdAt))}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Emails</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {emails.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No emails have been sent to this person yet.</p>
+          ) : (
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {emails.map((email) => (
+                <div key={email.id} className="flex flex-col gap-1 p-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium text-foreground">{email.subject}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        email.campaignName,
+                        email.sequenceStep ? `Follow-up ${email.sequenceStep}` : null,
+                        formatTimestamp(email.sentAt ?? email.createdAt),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {email.openCount > 0 && (
+                      <span className="text-xs text-muted-foreground">{email.openCount} open{email.openCount === 1 ? "" : "s"}</span>
+                    )}
+                    {email.clickCount > 0 && (
+                      <span className="text-xs text-muted-foreground">{email.clickCount} click{email.clickCount === 1 ? "" : "s"}</span>
+                    )}
+                    <Badge variant={email.status === "SENT" ? "positive" : email.status === "FAILED" || email.status === "BOUNCED" ? "destructive" : "outline"}>
+                      {email.status}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Replies</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {replies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No replies from this person.</p>
+          ) : (
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {replies.map((reply) => (
+                <div key={reply.id} className="space-y-1 p-3 text-sm">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="truncate font-medium text-foreground">{reply.subject || "(no subject)"}</p>
+                    <Badge variant="outline">{formatDisposition(reply.disposition)}</Badge>
+                  </div>
+                  {reply.snippet && <p className="text-muted-foreground">{reply.snippet}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {[reply.campaignName, formatTimestamp(reply.receivedAt)].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+const Row = ({ label, value }: { label: string; value: ReactNode }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="text-right font-medium">{value}</span>
+  </div>
+)
@@ -3,11 +3,25 @@ import { notFound, redirect } from "next/navigation"
 
 import { getCurrentUser } from "@/lib/auth"
 import { getCampaignDetailAction } from "@/actions/campaigns"
+import { getSequenceForCampaignAction } from "@/actions/sequences"
+import { SequenceEditor } from "@/components/sequences/SequenceEditor"
+import { getSendPreviewRecipientsAction, getSendWindowForCampaignAction } from "@/actions/send-windows"
+import { SendWindowEditor } from "@/components/send-windows/SendWindowEditor"
+import { getCampaignTrackingAction } from "@/actions/tracking"
+import { TrackingSettingsCard } from "@/components/tracking/TrackingSettingsCard"
+import { getVariantExperimentAction } from "@/actions/variants"
+import { VariantExperimentEditor } from "@/components/variants/VariantExperimentEditor"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { CampaignStatusBadge } from "@/components/campaigns/CampaignStatusBadge"
 import { CampaignProgressIndicator } from "@/components/campaigns/CampaignProgressIndicator"
+import { LeadImportCard } from "@/components/campaigns/LeadImportCard"
+import { ExcludeRiskyEmailsToggle } from "@/components/campaigns/ExcludeRiskyEmailsToggle"
+import { getCampaignRefreshAction } from "@/actions/campaign-refresh"
+import { CampaignRefreshCard } from "@/components/campaigns/CampaignRefreshCard"
+import { getCampaignLeadsAction } from "@/actions/contacts"
+import { CampaignLeadsCard } from "@/components/contacts/CampaignLeadsCard"
 import { formatRelativeTime } from "@/lib/utils"
 
 type CampaignDetailPageProps = {
@@ -24,7 +38,16 @@ export default async function CampaignDetailPage({ params }: CampaignDetailPageP
     redirect("/login")
   }
 
-  const detail = await getCampaignDetailAction(campaignId, user.userId)
+  const [detail, sequence, sendWindow, previewRecipients, tracking, variantReport, leads, refresh] = await Promise.all([
+    getCampaignDetailAction(campaignId, user.userId),
+    getSequenceForCampaignAction({ campaignId }),
+    getSendWindowForCampaignAction({ campaignId }),
+    getSendPreviewRecipientsAction({ campaignId }),
+    getCampaignTrackingAction({ campaignId }),
+    getVariantExperimentAction({ campaignId }),
+    getCampaignLeadsAction(campaignId),
+    getCampaignRefreshAction(campaignId),
+  ])
   if (!detail) {
     notFound()
   }
@@ -147,16 +170,34 @@ export default async function CampaignDetailPage({ params }: CampaignDetailPageP
 
       <Card>
         <CardHeader>
-          <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Lead quality</CardTitle>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Lead quality</CardTitle>
+            <ExcludeRiskyEmailsToggle campaignId={campaign.id} initialValue={campaign.excludeRiskyEmails} />
+          </div>
         </CardHeader>
-        <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
           <Metric value={metrics.leadsWithEmail} label="With email" />
           <Metric value={metrics.leadsWithoutEmail} label="Missing email" />
           <Metric value={metrics.invalidLeads} label="Marked invalid" />
+          <Metric value={metrics.riskyLeads} label="Risky email" />
           <Metric value={metrics.suppressedLeads} label="Suppressed" />
         </CardContent>
       </Card>
 
+      {refresh && <CampaignRefreshCard campaignId={campaign.id} isActive={campaign.isActive} initialSummary={refresh} />}
+
+      <CampaignLeadsCard campaignId={campaign.id} leads={leads} totalLeads={metrics.totalLeads} />
+
+      <LeadImportCard campaignId={campaign.id} />
+
+      <SendWindowEditor target={{ campaignId: campaign.id }} initialWindow={sendWindow} sampleEmails={previewRecipients} />
+
+      {tracking && <TrackingSettingsCard target={{ campaignId: campaign.id }} tracking={tracking} />}
+
+      <VariantExperimentEditor target={{ campaignId: campaign.id }} initialReport={variantReport} />
+
+      <SequenceEditor target={{ campaignId: campaign.id }} initialSequence={sequence} />
+
       {latestJob && (
         <Card>
           <CardHeader>
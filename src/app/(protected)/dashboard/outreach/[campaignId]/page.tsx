@@ -9,6 +9,14 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { ManualCampaignEmailsTable } from "../components/manual-campaign-emails-table"
 import { getManualOutreachCampaignDetailAction } from "@/actions/manual-outreach-campaigns"
+import { getSequenceForCampaignAction } from "@/actions/sequences"
+import { SequenceEditor } from "@/components/sequences/SequenceEditor"
+import { getSendPreviewRecipientsAction, getSendWindowForCampaignAction } from "@/actions/send-windows"
+import { SendWindowEditor } from "@/components/send-windows/SendWindowEditor"
+import { getCampaignTrackingAction } from "@/actions/tracking"
+import { TrackingSettingsCard } from "@/components/tracking/TrackingSettingsCard"
+import { getVariantExperimentAction } from "@/actions/variants"
+import { VariantExperimentEditor } from "@/components/variants/VariantExperimentEditor"
 
 export const dynamic = "force-dynamic"
 
@@ -39,7 +47,14 @@ export default async function ManualOutreachCampaignPage({ params }: ManualOutre
     redirect("/login")
   }
 
-  const detail = await getManualOutreachCampaignDetailAction(campaignId, user.userId)
+  const [detail, sequence, sendWindow, previewRecipients, tracking, variantReport] = await Promise.all([
+    getManualOutreachCampaignDetailAction(campaignId, user.userId),
+    getSequenceForCampaignAction({ manualCampaignId: campaignId }),
+    getSendWindowForCampaignAction({ manualCampaignId: campaignId }),
+    getSendPreviewRecipientsAction({ manualCampaignId: campaignId }),
+    getCampaignTrackingAction({ manualCampaignId: campaignId }),
+    getVariantExperimentAction({ manualCampaignId: campaignId }),
+  ])
 
   if (!detail) {
     notFound()
@@ -55,6 +70,7 @@ export default async function ManualOutreachCampaignPage({ params }: ManualOutre
     { label: "Queued", value: metrics.queued },
     { label: "Pending", value: metrics.pending },
     { label: "Sending", value: metrics.sending },
+    { label: "Bounced", value: metrics.bounced },
     { label: "Failed", value: metrics.failed },
     { label: "Cancelled", value: metrics.cancelled },
   ]
@@ -113,6 +129,18 @@ export default async function ManualOutreachCampaignPage({ params }: ManualOutre
         </Card>
       </div>
 
+      <SendWindowEditor
+        target={{ manualCampaignId: campaign.id }}
+        initialWindow={sendWindow}
+        sampleEmails={previewRecipients}
+      />
+
+      {tracking && <TrackingSettingsCard target={{ manualCampaignId: campaign.id }} tracking={tracking} />}
+
+      <VariantExperimentEditor target={{ manualCampaignId: campaign.id }} initialReport={variantReport} />
+
+      <SequenceEditor target={{ manualCampaignId: campaign.id }} initialSequence={sequence} />
+
       <Card>
         <CardHeader>
           <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Email activity</CardTitle>
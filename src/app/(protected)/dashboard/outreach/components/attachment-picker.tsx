@@ -0,0 +1,178 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import axios from "axios"
+import { Paperclip, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { getApiClient } from "@/lib/http-client"
+import type { EmailAttachment } from "@/types/attachment"
+
+import { FastSpinner } from "./FastSpinner"
+
+type AttachmentPickerProps = {
+  selectedIds: string[]
+  onChange: (ids: string[]) => void
+  disabled?: boolean
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { error?: string })?.error || fallback
+  }
+  return fallback
+}
+
+export function AttachmentPicker({ selectedIds, onChange, disabled = false }: AttachmentPickerProps) {
+  const client = useMemo(() => getApiClient(), [])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [attachments, setAttachments] = useState<EmailAttachment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      const { data } = await client.get<{ attachments: EmailAttachment[] }>("/api/email/attachments")
+      setAttachments(data.attachments ?? [])
+    } catch (error) {
+      console.error("Failed to load attachments:", error)
+      toast.error("Unable to load your attachments.")
+    } finally {
+      setLoading(false)
+    }
+  }, [client])
+
+  useEffect(() => {
+    void loadAttachments()
+  }, [loadAttachments])
+
+  // Drop selections for files that were deleted elsewhere.
+  useEffect(() => {
+    if (loading) return
+    const available = selectedIds.filter((id) => attachments.some((attachment) => attachment.id === id))
+    if (available.length !== selectedIds.length) {
+      onChange(available)
+    }
+  }, [attachments, loading, onChange, selectedIds])
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id])
+  }
+
+  const handleUpload = async (file: File) => {
+    setUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const { data } = await client.post<{ attachment: EmailAttachment }>("/api/email/attachments", formData)
+      setAttachments((prev) => [data.attachment, ...prev])
+      onChange([...selectedIds, data.attachment.id])
+      toast.success(`${data.attachment.filename} uploaded`)
+    } catch (error) {
+      toast.error(extractErrorMessage(error, "Unable to upload this file."))
+    } finally {
+      setUploading(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+    }
+  }
+
+  const handleRemove = async (attachment: EmailAttachment) => {
+    setRemovingId(attachment.id)
+    try {
+      await client.delete(`/api/email/attachments/${attachment.id}`)
+      setAttachments((prev) => prev.filter((item) => item.id !== attachment.id))
+      toast.success(`${attachment.filename} deleted`)
+    } catch (error) {
+      toast.error(extractErrorMessage(error, "Unable to delete this attachment."))
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const selectedSize = attachments
+    .filter((attachment) => selectedIds.includes(attachment.id))
+    .reduce((total, attachment) => total + attachment.size, 0)
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-1">
+          <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+            <Paperclip className="h-4 w-4" />
+            Attachments
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Selected files go out with every email in this send. Up to 5 files, 5MB each and 10MB per email.
+          </p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+            if (file) {
+              void handleUpload(file)
+            }
+          }}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || uploading}
+        >
+          {uploading ? <FastSpinner size="sm" className="mr-2" /> : <Upload className="mr-2 h-4 w-4" />}
+          Upload file
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading attachments…</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No attachments yet. Upload a one-pager or case study to include it.</p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between gap-3 text-sm">
+              <label className="flex min-w-0 items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(attachment.id)}
+                  onChange={() => toggle(attachment.id)}
+                  disabled={disabled}
+                  className="h-4 w-4 rounded border-border"
+                />
+                <span className="truncate">{attachment.filename}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">{formatSize(attachment.size)}</span>
+              </label>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRemove(attachment)}
+                disabled={disabled || removingId === attachment.id}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedIds.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {selectedIds.length} selected · {formatSize(selectedSize)} per email
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,18 @@
 "use client"
 
+import { useMemo } from "react"
 import type { DraftRecord, SheetLead } from "@/types/outreach"
+import type { ScheduledSendPreview } from "@/types/send-window"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
-import { PencilLine } from "lucide-react"
+import { AlertTriangle, Clock, PencilLine, ShieldAlert } from "lucide-react"
 
-import { statusVariant } from "@/lib/leads/outreach"
+import { sheetLeadMergeFields, statusVariant } from "@/lib/leads/outreach"
+import { hasMergeFields, renderEmailTemplate, TemplateSyntaxError } from "@/lib/email/templates"
+import { checkDeliverability, isBlockedByDeliverability } from "@/lib/email/deliverability"
+import { formatEmailBody } from "@/lib/email/format"
 
 import { OverlayPanel } from "./overlay-panel"
 
@@ -15,6 +20,9 @@ type DraftPreviewPanelProps = {
   open: boolean
   lead: SheetLead | undefined
   draft: DraftRecord | null
+  schedule: ScheduledSendPreview | null
+  /** Org-wide minimum deliverability score; null when nothing is blocked. */
+  blockThreshold: number | null
   editing: boolean
   editedSubject: string
   editedBody: string
@@ -27,10 +35,25 @@ type DraftPreviewPanelProps = {
   plainBodyRenderer: (draft: DraftRecord) => string
 }
 
+const formatScheduledAt = (value: string, timeZone?: string) => {
+  try {
+    return new Date(value).toLocaleString(undefined, {
+      weekday: "short",
+      hour: "numeric",
+      minute: "2-digit",
+      ...(timeZone ? { timeZone } : {}),
+    })
+  } catch {
+    return value
+  }
+}
+
 export function DraftPreviewPanel({
   open,
   lead,
   draft,
+  schedule,
+  blockThreshold,
   editing,
   editedSubject,
   editedBody,
@@ -42,12 +65,45 @@ export function DraftPreviewPanel({
   onChangeBody,
   plainBodyRenderer,
 }: DraftPreviewPanelProps) {
-  const renderBody = () => {
-    if (!draft) return "No body content"
-    if (draft.bodyText) return draft.bodyText
-    if (draft.bodyHtml) return plainBodyRenderer(draft)
-    return "No body content"
-  }
+  // Drafts may carry merge fields; show what this lead will actually receive.
+  const preview = useMemo(() => {
+    if (!draft) return null
+    const bodyText = draft.bodyText || (draft.bodyHtml ? plainBodyRenderer(draft) : "")
+    const bodyHtml = formatEmailBody(draft.bodyHtml || bodyText).html
+    const templated = hasMergeFields(`${draft.subject}${bodyHtml}${bodyText}`)
+    if (!templated) {
+      return { subject: draft.subject, body: bodyText, bodyHtml, templated, missing: [] as string[], error: null }
+    }
+    try {
+      const rendered = renderEmailTemplate(
+        { subject: draft.subject, bodyHtml, bodyText },
+        lead ? sheetLeadMergeFields(lead) : {},
+      )
+      return {
+        subject: rendered.subject,
+        body: rendered.bodyText,
+        bodyHtml: rendered.bodyHtml,
+        templated,
+        missing: rendered.missing,
+        error: null,
+      }
+    } catch (error) {
+      const message = error instanceof TemplateSyntaxError ? error.message : "This template could not be rendered."
+      return { subject: draft.subject, body: bodyText, bodyHtml, templated, missing: [] as string[], error: message }
+    }
+  }, [draft, lead, plainBodyRenderer])
+
+  // Checked against what this lead receives, the same way the send route checks it.
+  const deliverability = useMemo(
+    () =>
+      preview && !preview.error
+        ? checkDeliverability({ subject: preview.subject, bodyHtml: preview.bodyHtml, bodyText: preview.body })
+        : null,
+    [preview],
+  )
+  const blocked = deliverability ? isBlockedByDeliverability(deliverability.score, blockThreshold) : false
+
+  const renderBody = () => preview?.body || "No body content"
 
   return (
     <OverlayPanel open={open} onClose={onClose} contentClassName="max-w-[min(960px,calc(100vw-2rem))]">
@@ -87,12 +143,87 @@ export function DraftPreviewPanel({
             </div>
           </div>
           <div className="flex-1 space-y-4 overflow-y-auto px-6 py-5">
+            {schedule && draft.status === "pending" && (
+              <div className="flex items-start gap-2 rounded-md border border-border bg-muted/40 p-3 text-sm">
+                <Clock className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                {schedule.deferred ? (
+                  <span>
+                    Outside the send window — goes out {formatScheduledAt(schedule.scheduledAt)} your time (
+                    {formatScheduledAt(schedule.scheduledAt, schedule.timeZone)} in {schedule.timeZone}).
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">Sends as soon as it is queued.</span>
+                )}
+              </div>
+            )}
+            {!editing && preview?.error && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+                <AlertTriangle className="mt-0.5 h-4 w-4" />
+                <span>Template error: {preview.error}</span>
+              </div>
+            )}
+            {!editing && preview && preview.missing.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md border border-border bg-muted/40 p-3 text-sm">
+                <AlertTriangle className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                <span>
+                  Missing required {preview.missing.length === 1 ? "field" : "fields"}{" "}
+                  <span className="font-mono">{preview.missing.join(", ")}</span> for this lead. Add a fallback such as{" "}
+                  <span className="font-mono">{`{{${preview.missing[0]} | "…"}}`}</span> or this email will not be sent.
+                </span>
+              </div>
+            )}
+            {!editing && deliverability && (
+              <div
+                className={
+                  blocked
+                    ? "space-y-2 rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive"
+                    : "space-y-2 rounded-md border border-border bg-muted/40 p-3 text-sm"
+                }
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <ShieldAlert className={blocked ? "h-4 w-4" : "h-4 w-4 text-muted-foreground"} />
+                  <span className="font-medium">Deliverability score</span>
+                  <Badge variant={deliverability.score >= 80 ? "positive" : deliverability.score >= 50 ? "outline" : "destructive"}>
+                    {deliverability.score}/100
+                  </Badge>
+                  {blocked && <span>Below the minimum of {blockThreshold}; this email will not be sent.</span>}
+                </div>
+                {deliverability.warnings.length > 0 ? (
+                  <ul className="list-disc space-y-1 pl-6">
+                    {deliverability.warnings.map((warning) => (
+                      <li
+                        key={warning.check}
+                        className={warning.severity === "error" && !blocked ? "text-destructive" : undefined}
+                      >
+                        {warning.message}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-muted-foreground">No spam or formatting issues found.</p>
+                )}
+              </div>
+            )}
+            {editing && (
+              <p className="text-xs text-muted-foreground">
+                Use <span className="font-mono">{"{{firstName | \"there\"}}"}</span> for any sheet column, and{" "}
+                <span className="font-mono">{"{{#if company}}…{{else}}…{{/if}}"}</span> for optional lines. Fields without
+                a fallback are required.
+              </p>
+            )}
             <div className="space-y-2">
-              <p className="text-xs font-semibold uppercase text-muted-foreground">Subject</p>
+              <div className="flex items-center gap-2">
+                <p className="text-xs font-semibold uppercase text-muted-foreground">Subject</p>
+                {!editing && preview?.templated && !preview.error && (
+                  <Badge variant="outline" className="text-[10px] uppercase">
+                    Merged for this lead
+                  </Badge>
+                )}
+              </div>
               {editing ? (
                 <Input value={editedSubject} onChange={(event) => onChangeSubject(event.target.value)} />
               ) : (
-                <div className="rounded-md border border-border bg-muted/40 p-3 text-sm">{draft.subject}</div>
+                <div className="rounded-md border border-border bg-muted/40 p-3 text-sm">{preview?.subject}</div>
               )}
             </div>
             <div className="space-y-2">
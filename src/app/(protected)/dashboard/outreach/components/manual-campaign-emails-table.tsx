@@ -15,6 +15,15 @@ type ManualCampaignEmailsTableProps = {
   emails: OutreachedJob[]
 }
 
+const formatLeadLocalTime = (value: string, timeZone: string) => {
+  try {
+    const local = new Date(value).toLocaleString(undefined, { timeZone, hour: "numeric", minute: "2-digit" })
+    return `${local} lead time (${timeZone})`
+  } catch {
+    return timeZone
+  }
+}
+
 export function ManualCampaignEmailsTable({ emails }: ManualCampaignEmailsTableProps) {
   const [previewJob, setPreviewJob] = useState<OutreachedJob | null>(null)
 
@@ -35,7 +44,7 @@ export function ManualCampaignEmailsTable({ emails }: ManualCampaignEmailsTableP
               <th className="px-4 py-2 font-mono font-semibold">Recipient</th>
               <th className="px-4 py-2 font-mono font-semibold">Subject</th>
               <th className="px-4 py-2 font-mono font-semibold">Status</th>
-              <th className="px-4 py-2 font-mono font-semibold">Sent</th>
+              <th className="px-4 py-2 font-mono font-semibold">Sent / scheduled</th>
               <th className="px-4 py-2 font-mono font-semibold">Actions</th>
             </tr>
           </thead>
@@ -65,7 +74,16 @@ export function ManualCampaignEmailsTable({ emails }: ManualCampaignEmailsTableP
                   })()}
                 </td>
                 <td className="px-4 py-2 text-xs whitespace-nowrap text-muted-foreground">
-                  {job.sentAt ? new Date(job.sentAt).toLocaleString() : "—"}
+                  {job.sentAt ? (
+                    new Date(job.sentAt).toLocaleString()
+                  ) : job.scheduledAt && (job.status === "QUEUED" || job.status === "PENDING") ? (
+                    <div>
+                      <div>Scheduled {new Date(job.scheduledAt).toLocaleString()}</div>
+                      {job.leadTimeZone && <div>{formatLeadLocalTime(job.scheduledAt, job.leadTimeZone)}</div>}
+                    </div>
+                  ) : (
+                    "—"
+                  )}
                 </td>
                 <td className="px-4 py-2">
                   <Button size="sm" variant="outline" onClick={() => setPreviewJob(job)}>
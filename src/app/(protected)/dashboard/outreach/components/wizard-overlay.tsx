@@ -21,6 +21,7 @@ import { BookmarkPlus, Eye, PenLine, Save, Send, Upload, UploadCloud } from "luc
 import type { LucideIcon } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { FastSpinner } from "./FastSpinner"
+import { AttachmentPicker } from "./attachment-picker"
 import type { DraftRecord, OutreachMode, SheetLead } from "@/types/outreach"
 import type { GoogleSpreadsheet } from "@/types/google-sheet"
 
@@ -176,6 +177,8 @@ export type StepThreeProps = {
   onSaveDraftCampaign: () => void
   savingDraftCampaign: boolean
   canSaveDraftCampaign: boolean
+  attachmentIds: string[]
+  onAttachmentIdsChange: (ids: string[]) => void
   onBack: () => void
   onClose: () => void
 }
@@ -608,6 +611,8 @@ function StepThreeContent({
   onSaveDraftCampaign,
   savingDraftCampaign,
   canSaveDraftCampaign,
+  attachmentIds,
+  onAttachmentIdsChange,
   onBack,
   onClose,
 }: StepThreeProps) {
@@ -642,6 +647,12 @@ function StepThreeContent({
         </Button>
       </div>
 
+      <AttachmentPicker
+        selectedIds={attachmentIds}
+        onChange={onAttachmentIdsChange}
+        disabled={sendingEmails || sendingLeadEmail !== null}
+      />
+
       <div className="overflow-x-auto rounded-lg border border-border">
         {hasDrafts ? (
           <table className="w-full text-sm">
@@ -15,6 +15,8 @@ import { useSavedSnippets } from "@/hooks/useSavedSnippets"
 import { useGmail } from "@/hooks/useGmail"
 import { createSavedSnippetAction } from "@/actions/saved-snippets"
 import { getOutreachedJobsAction, sendBulkEmailsAction } from "@/actions/outreach"
+import { previewSendScheduleAction } from "@/actions/send-windows"
+import { getDeliverabilitySettingsAction } from "@/actions/deliverability"
 import * as manualCampaignDraftActions from "@/actions/manual-campaign-drafts"
 import {
   DraftRecord,
@@ -25,8 +27,10 @@ import {
 } from "@/types/outreach"
 import { SpreadsheetData } from "@/types/google-sheet"
 import type { SavedSnippet } from "@/types/saved-snippet"
-import { parseSheet } from "@/lib/leads/outreach"
+import { parseSheet, sheetLeadMergeFields } from "@/lib/leads/outreach"
+import { renderEmailTemplate, TemplateSyntaxError } from "@/lib/email/templates"
 import { formatEmailBody } from "@/lib/email/format"
+import { checkDeliverability, isBlockedByDeliverability } from "@/lib/email/deliverability"
 import { DraftPreviewPanel } from "./components/draft-preview-panel"
 import { WizardOverlay } from "./components/wizard-overlay"
 import type { StepOneProps, StepTwoProps, StepThreeProps, WizardOverlayProps } from "./components/wizard-overlay"
@@ -70,6 +74,7 @@ export default function Leads() {
   const [isGeneratingFromPrompt, setIsGeneratingFromPrompt] = useState(false)
   const [sendingEmails, setSendingEmails] = useState(false)
   const [sendingLeadEmail, setSendingLeadEmail] = useState<string | null>(null)
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([])
   const [bulkDialogOpen, setBulkDialogOpen] = useState(false)
 
   const [campaignName, setCampaignName] = useState("")
@@ -701,6 +706,28 @@ export default function Leads() {
   const outreachDraft = previewEmail ? drafts[previewEmail] : null
   const previewLead = useMemo(() => leads.find((lead) => lead.email === previewEmail), [previewEmail, leads])
 
+  const { data: previewSchedule } = useQuery({
+    queryKey: ["sendSchedulePreview", manualCampaignId, previewEmail],
+    queryFn: async () => {
+      const [entry] = await previewSendScheduleAction({
+        target: manualCampaignId ? { manualCampaignId } : null,
+        emails: previewEmail ? [previewEmail] : [],
+      })
+      return entry ?? null
+    },
+    enabled: Boolean(previewEmail),
+    staleTime: 1000 * 60,
+    refetchOnWindowFocus: false,
+  })
+
+  const { data: deliverabilitySettings } = useQuery({
+    queryKey: ["deliverabilitySettings"],
+    queryFn: () => getDeliverabilitySettingsAction(),
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  })
+  const blockThreshold = deliverabilitySettings?.blockThreshold ?? null
+
   const handleNavigateToCampaign = useCallback(
     (campaignId: string) => {
       router.push(`/dashboard/outreach/${campaignId}`)
@@ -1002,11 +1029,25 @@ export default function Leads() {
 
     let cancelSource: CancelTokenSource | null = null
     try {
+      const incomplete: string[] = []
+      const undeliverable: string[] = []
       const jobs = emails
         .map((email) => {
           const lead = leads.find((l) => l.email === email)
           const draft = drafts[email]
           if (!lead || !draft) return null
+          const rendered = renderEmailTemplate(
+            { ...draft, bodyHtml: formatEmailBody(draft.bodyHtml).html },
+            sheetLeadMergeFields(lead),
+          )
+          if (rendered.missing.length > 0) {
+            incomplete.push(email)
+            return null
+          }
+          if (isBlockedByDeliverability(checkDeliverability(rendered).score, blockThreshold)) {
+            undeliverable.push(email)
+            return null
+          }
           return {
             leadEmail: email,
             subject: draft.subject,
@@ -1016,14 +1057,28 @@ export default function Leads() {
             lastName: lead.lastName,
             company: lead.company,
             summary: lead.summary,
+            fields: lead.fields,
             sheetRowRef: lead.sourceRowRef ?? `${lead.rowIndex}`,
             manualCampaignId: activeCampaignId,
             manualCampaignName: campaignLabel,
             manualCampaignSource: sourceType as ManualOutreachSource | null,
+            attachmentIds,
           }
         })
         .filter((job): job is NonNullable<typeof job> => Boolean(job))
 
+      if (incomplete.length > 0) {
+        toast.error(
+          `${incomplete.length} lead${incomplete.length === 1 ? ' is' : 's are'} missing required merge fields and will not be sent.`,
+        )
+      }
+
+      if (undeliverable.length > 0) {
+        toast.error(
+          `${undeliverable.length} draft${undeliverable.length === 1 ? '' : 's'} scored below the deliverability minimum of ${blockThreshold} and will not be sent.`,
+        )
+      }
+
       if (!jobs.length) {
         setSourceError('No drafts available for the selected leads')
         return
@@ -1035,7 +1090,7 @@ export default function Leads() {
 
       setDrafts((prev) => {
         const next = { ...prev }
-        emails.forEach((email) => {
+        jobs.forEach(({ leadEmail: email }) => {
           if (next[email]) {
             next[email] = { ...next[email], status: 'sent', error: undefined }
           }
@@ -1052,7 +1107,12 @@ export default function Leads() {
         return
       }
       console.error('Email queue error:', error)
-      const message = error instanceof Error ? error.message : 'Failed to queue outreach emails'
+      const message =
+        error instanceof TemplateSyntaxError
+          ? `Template error: ${error.message}`
+          : error instanceof Error
+            ? error.message
+            : 'Failed to queue outreach emails'
       setSourceError(message)
       toast.error(message)
     } finally {
@@ -1235,6 +1295,8 @@ export default function Leads() {
     onSaveDraftCampaign: handleSaveCampaignDraft,
     savingDraftCampaign: savingCampaignDraft,
     canSaveDraftCampaign: canSaveCampaignDraft,
+    attachmentIds,
+    onAttachmentIdsChange: setAttachmentIds,
     isGeneratingFromPrompt,
     onBack: () => {
       setSourceError(null)
@@ -1294,6 +1356,8 @@ export default function Leads() {
         open={Boolean(previewEmail && outreachDraft)}
         lead={previewLead}
         draft={outreachDraft}
+        schedule={previewSchedule ?? null}
+        blockThreshold={blockThreshold}
         editing={previewEditing}
         editedSubject={editedSubject}
         editedBody={editedBody}
@@ -1,11 +1,16 @@
 "use client"
 
 import { useEffect, useMemo, useState } from "react"
-import { MessageSquare } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { MessageSquare, Send } from "lucide-react"
+import { toast } from "sonner"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Textarea } from "@/components/ui/textarea"
+import { BookMeetingForm } from "@/components/bookings/BookMeetingForm"
+import { getApiClient } from "@/lib/http-client"
 import { cn } from "@/lib/utils"
 import type { ReplyRecord } from "@/lib/replies/types"
 
@@ -142,6 +147,41 @@ const getReplyPreview = (reply: ReplyRecord) => {
 export function RepliesClient({ replies }: RepliesClientProps) {
   const [selectedFilter, setSelectedFilter] = useState<"all" | ReplyDisposition>("all")
   const [selectedReply, setSelectedReply] = useState<ReplyRecord | null>(null)
+  const router = useRouter()
+  const [updatingDisposition, setUpdatingDisposition] = useState(false)
+  const [responseDraft, setResponseDraft] = useState("")
+  const [sendingResponse, setSendingResponse] = useState(false)
+
+  const handleSendResponse = async () => {
+    if (!selectedReply || !responseDraft.trim()) return
+    setSendingResponse(true)
+    try {
+      await getApiClient().post(`/api/replies/${selectedReply.id}/respond`, { body: responseDraft })
+      setResponseDraft("")
+      toast.success("Reply queued in the same Gmail thread")
+    } catch (error) {
+      console.error("Failed to send reply:", error)
+      toast.error("Unable to send your reply right now.")
+    } finally {
+      setSendingResponse(false)
+    }
+  }
+
+  const handleDispositionChange = async (disposition: ReplyDisposition) => {
+    if (!selectedReply || disposition === selectedReply.disposition) return
+    setUpdatingDisposition(true)
+    try {
+      await getApiClient().patch(`/api/replies/${selectedReply.id}`, { disposition })
+      setSelectedReply({ ...selectedReply, disposition, classificationSource: "manual", confidence: 1 })
+      toast.success(`Marked as ${displayDisposition(disposition)}`)
+      router.refresh()
+    } catch (error) {
+      console.error("Failed to update disposition:", error)
+      toast.error("Unable to update the disposition right now.")
+    } finally {
+      setUpdatingDisposition(false)
+    }
+  }
 
   useEffect(() => {
     const newestTimestamp = replies.reduce((latest, reply) => {
@@ -290,10 +330,11 @@ export function RepliesClient({ replies }: RepliesClientProps) {
       onOpenChange={(open) => {
         if (!open) {
           setSelectedReply(null)
+          setResponseDraft("")
         }
       }}
     >
-      <SheetContent className="w-full sm:max-w-[540px] px-4 sm:px-6">
+      <SheetContent className="w-full overflow-y-auto sm:max-w-[540px] px-4 sm:px-6">
         <SheetHeader>
           <SheetTitle className="font-mono">
             Reply from {selectedReply?.lead ?? "Lead"}
@@ -323,9 +364,24 @@ export function RepliesClient({ replies }: RepliesClientProps) {
                 </div>
                 <div>
                   <div className="text-muted-text font-medium">Disposition</div>
-                  <Badge variant={badgeVariant(selectedReply.disposition)}>
-                    {displayDisposition(selectedReply.disposition)}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={badgeVariant(selectedReply.disposition)}>
+                      {displayDisposition(selectedReply.disposition)}
+                    </Badge>
+                    <select
+                      aria-label="Change disposition"
+                      value={selectedReply.disposition}
+                      disabled={updatingDisposition}
+                      onChange={(event) => handleDispositionChange(event.target.value as ReplyDisposition)}
+                      className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+                    >
+                      {FILTER_DEFINITIONS.filter((filter) => filter.value !== "all").map((filter) => (
+                        <option key={filter.value} value={filter.value}>
+                          {filter.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
                 <div>
                   <div className="text-muted-text font-medium">Confidence</div>
@@ -356,6 +412,27 @@ export function RepliesClient({ replies }: RepliesClientProps) {
                   </pre>
                 </div>
               </div>
+
+              <div className="space-y-3">
+                <h4 className="font-mono font-bold">Respond</h4>
+                <Textarea
+                  rows={5}
+                  value={responseDraft}
+                  placeholder={`Reply to ${selectedReply.lead}…`}
+                  onChange={(event) => setResponseDraft(event.target.value)}
+                />
+                <Button onClick={handleSendResponse} disabled={sendingResponse || !responseDraft.trim()}>
+                  <Send className="mr-2 h-4 w-4" />
+                  {sendingResponse ? "Sending…" : "Send in thread"}
+                </Button>
+              </div>
+
+              {selectedReply.disposition === "positive" && (
+                <div className="space-y-3">
+                  <h4 className="font-mono font-bold">Book meeting</h4>
+                  <BookMeetingForm replyId={selectedReply.id} leadName={selectedReply.lead} />
+                </div>
+              )}
             </div>
           )}
         </SheetContent>
@@ -13,5 +13,5 @@ export default async function SettingsPage() {
     redirect("/login")
   }
 
-  return <SettingsClient />
+  return <SettingsClient isAdmin={user.role === "admin"} />
 }
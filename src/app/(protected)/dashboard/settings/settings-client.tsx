@@ -2,12 +2,15 @@
 
 import { useEffect, useMemo, useState } from "react"
 import dynamic from "next/dynamic"
-import { CheckCircle, Clock,  XCircle } from "lucide-react"
+import { CheckCircle, Clock } from "lucide-react"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AlertRulesCard } from "@/components/settings/AlertRulesCard"
+import { DeliverabilitySettingsCard } from "@/components/settings/DeliverabilitySettingsCard"
+import { SuppressionListCard } from "@/components/settings/SuppressionListCard"
 import { useGmail } from "@/hooks/useGmail"
 
 const GoogleSheetButton = dynamic(() => import("@/components/GoogleSheetButton"), {
@@ -59,28 +62,11 @@ const INTEGRATIONS: Integration[] = [
   },
 ]
 
-const suppressionList = [
-  {
-    value: "competitor@rival.com",
-    reason: "Competitor",
-    addedAt: "Aug 24, 2024",
-    source: "Manual",
-  },
-  {
-    value: "spam.email@invalid.com",
-    reason: "Invalid Email",
-    addedAt: "Aug 23, 2024",
-    source: "Bounce",
-  },
-  {
-    value: "@blacklisted-domain.com",
-    reason: "Domain Block",
-    addedAt: "Aug 22, 2024",
-    source: "Manual",
-  },
-]
+type SettingsClientProps = {
+  isAdmin: boolean
+}
 
-export function SettingsClient() {
+export function SettingsClient({ isAdmin }: SettingsClientProps) {
   const [activeIntegration, setActiveIntegration] = useState<string | null>(null)
   const [hasMounted, setHasMounted] = useState(false)
   const { status: gmailStatus, statusLoading: gmailStatusLoading } = useGmail()
@@ -218,50 +204,12 @@ export function SettingsClient() {
         </TabsContent>
 
         <TabsContent value="compliance" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg font-mono">Suppression List</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {suppressionList.map((entry) => (
-                <div key={entry.value} className="flex items-center justify-between rounded-lg border border-border p-4">
-                  <div>
-                    <div className="font-medium text-sm text-foreground">{entry.value}</div>
-                    <div className="text-xs text-muted-text">
-                      {entry.reason} • Added {entry.addedAt} • {entry.source}
-                    </div>
-                  </div>
-                  <Button size="sm" variant="ghost">
-                    Remove
-                  </Button>
-                </div>
-              ))}
-              <Button variant="outline">Upload suppression CSV</Button>
-            </CardContent>
-          </Card>
+          <SuppressionListCard isAdmin={isAdmin} />
+          <DeliverabilitySettingsCard isAdmin={isAdmin} />
         </TabsContent>
 
         <TabsContent value="alerts" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg font-mono">Alert Routing</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4 text-sm text-muted-text">
-              <div className="flex items-center gap-3">
-                <CheckCircle className="h-5 w-5 text-emerald-500" />
-                <span>Send positive replies to founders@company.com</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <XCircle className="h-5 w-5 text-destructive" />
-                <span>Pause campaigns automatically after 3 unsubscribes in 24h</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <Clock className="h-5 w-5 text-amber-500" />
-                <span>Daily deliverability summary arrives at 7:00am local time</span>
-              </div>
-              <Button variant="outline">Manage alert policy</Button>
-            </CardContent>
-          </Card>
+          <AlertRulesCard />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,34 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { parseUnsubscribeToken } from "@/lib/email/unsubscribe"
+import { UnsubscribeConfirm } from "./unsubscribe-confirm"
+
+type UnsubscribePageProps = {
+  params: Promise<{ token: string }>
+}
+
+export const dynamic = "force-dynamic"
+
+export default async function UnsubscribePage({ params }: UnsubscribePageProps) {
+  const { token } = await params
+  const recipient = parseUnsubscribeToken(token)
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-xl font-mono">Unsubscribe</CardTitle>
+          <CardDescription>
+            {recipient
+              ? "Confirm below and you will not receive any more emails from this sender."
+              : "This unsubscribe link is invalid or has been changed. Reply to the email asking to be removed instead."}
+          </CardDescription>
+        </CardHeader>
+        {recipient && (
+          <CardContent>
+            <UnsubscribeConfirm token={token} email={recipient.email} />
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { useState } from "react"
+
+import { Button } from "@/components/ui/button"
+
+type UnsubscribeConfirmProps = {
+  token: string
+  email: string
+}
+
+export function UnsubscribeConfirm({ token, email }: UnsubscribeConfirmProps) {
+  const [status, setStatus] = useState<"idle" | "submitting" | "done" | "error">("idle")
+
+  const confirm = async () => {
+    setStatus("submitting")
+    try {
+      const response = await fetch(`/api/unsubscribe/${encodeURIComponent(token)}`, { method: "POST" })
+      setStatus(response.ok ? "done" : "error")
+    } catch (error) {
+      console.error("Failed to unsubscribe:", error)
+      setStatus("error")
+    }
+  }
+
+  if (status === "done") {
+    return (
+      <p className="text-sm text-foreground">
+        <span className="font-mono">{email}</span> has been unsubscribed. You will not hear from us again.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Unsubscribing <span className="font-mono text-foreground">{email}</span>
+      </p>
+      <Button onClick={confirm} disabled={status === "submitting"} className="w-full">
+        {status === "submitting" ? "Unsubscribing…" : "Unsubscribe"}
+      </Button>
+      {status === "error" && (
+        <p className="text-sm text-destructive">Something went wrong. Please try again in a moment.</p>
+      )}
+    </div>
+  )
+}
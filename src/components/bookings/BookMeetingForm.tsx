@@ -0,0 +1,137 @@
+"use client"
+
+import { useState } from "react"
+import axios from "axios"
+import { CalendarPlus } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { getApiClient } from "@/lib/http-client"
+import type { Booking } from "@/types/booking"
+
+type BookMeetingFormProps = {
+  replyId: string
+  leadName: string
+  onBooked?: (booking: Booking) => void
+}
+
+const DURATION_OPTIONS = [15, 30, 45, 60]
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { error?: string })?.error || fallback
+  }
+  return fallback
+}
+
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+const defaultStart = () => {
+  const date = new Date()
+  date.setDate(date.getDate() + 1)
+  date.setHours(10, 0, 0, 0)
+  return toLocalInputValue(date)
+}
+
+export function BookMeetingForm({ replyId, leadName, onBooked }: BookMeetingFormProps) {
+  const [startsAt, setStartsAt] = useState(defaultStart)
+  const [durationMinutes, setDurationMinutes] = useState(30)
+  const [meetingType, setMeetingType] = useState("Intro Call")
+  const [meetingLink, setMeetingLink] = useState("")
+  const [sendInvite, setSendInvite] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async () => {
+    const start = new Date(startsAt)
+    if (Number.isNaN(start.getTime())) {
+      toast.error("Pick a start time for the meeting.")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data } = await getApiClient().post<{ booking: Booking; inviteError: string | null }>("/api/bookings", {
+        replyId,
+        startsAt: start.toISOString(),
+        durationMinutes,
+        meetingType,
+        meetingLink: meetingLink || null,
+        sendInvite,
+      })
+      if (data.inviteError) {
+        toast.warning(`Meeting booked, but the invite was not sent: ${data.inviteError}`)
+      } else {
+        toast.success(sendInvite ? `Meeting booked and invite sent to ${leadName}` : `Meeting booked with ${leadName}`)
+      }
+      setMeetingLink("")
+      onBooked?.(data.booking)
+    } catch (error) {
+      console.error("Failed to book meeting:", error)
+      toast.error(extractErrorMessage(error, "Unable to book the meeting right now."))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="booking-start">Starts</Label>
+          <Input
+            id="booking-start"
+            type="datetime-local"
+            value={startsAt}
+            onChange={(event) => setStartsAt(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="booking-duration">Duration</Label>
+          <select
+            id="booking-duration"
+            value={durationMinutes}
+            onChange={(event) => setDurationMinutes(Number(event.target.value))}
+            className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+          >
+            {DURATION_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} minutes
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="booking-type">Meeting type</Label>
+          <Input id="booking-type" value={meetingType} onChange={(event) => setMeetingType(event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="booking-link">Meeting link</Label>
+          <Input
+            id="booking-link"
+            value={meetingLink}
+            placeholder="https://meet.google.com/…"
+            onChange={(event) => setMeetingLink(event.target.value)}
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={sendInvite}
+          onChange={(event) => setSendInvite(event.target.checked)}
+          className="h-4 w-4 rounded border-border"
+        />
+        Email a calendar invite (.ics) from Gmail
+      </label>
+      <Button onClick={handleSubmit} disabled={saving}>
+        <CalendarPlus className="mr-2 h-4 w-4" />
+        {saving ? "Booking…" : "Book meeting"}
+      </Button>
+    </div>
+  )
+}
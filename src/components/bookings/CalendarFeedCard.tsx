@@ -0,0 +1,76 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Copy, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { getApiClient } from "@/lib/http-client"
+
+export function CalendarFeedCard() {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rotating, setRotating] = useState(false)
+
+  useEffect(() => {
+    getApiClient()
+      .get<{ url: string }>("/api/bookings/feed")
+      .then(({ data }) => setFeedUrl(data.url))
+      .catch((error) => {
+        console.error("Failed to load calendar feed:", error)
+        toast.error("Unable to load your calendar feed.")
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      toast.success("Feed URL copied")
+    } catch {
+      toast.error("Copy failed. Select the URL and copy it manually.")
+    }
+  }
+
+  const handleRotate = async () => {
+    setRotating(true)
+    try {
+      const { data } = await getApiClient().post<{ url: string }>("/api/bookings/feed")
+      setFeedUrl(data.url)
+      toast.success("Feed URL regenerated. Update any calendars subscribed to the old link.")
+    } catch (error) {
+      console.error("Failed to rotate calendar feed:", error)
+      toast.error("Unable to regenerate the feed URL right now.")
+    } finally {
+      setRotating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-mono">Calendar feed</CardTitle>
+        <p className="text-sm text-muted-text">
+          Subscribe to this private URL in Google Calendar, Outlook or Apple Calendar to see your bookings. Anyone
+          with the link can read your meetings, so regenerate it if it leaks.
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-2 sm:flex-row">
+        <Input readOnly value={loading ? "Loading…" : feedUrl ?? ""} className="font-mono text-xs" />
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopy} disabled={!feedUrl}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button variant="ghost" onClick={handleRotate} disabled={loading || rotating}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {rotating ? "Regenerating…" : "Regenerate"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
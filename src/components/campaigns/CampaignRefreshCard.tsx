@@ -0,0 +1,135 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { runCampaignRefreshAction, saveRefreshScheduleAction } from '@/actions/campaign-refresh'
+import { formatRelativeTime } from '@/lib/utils'
+import type { CampaignRefreshSummary, RefreshSchedule } from '@/types/campaign-refresh'
+
+type CampaignRefreshCardProps = {
+  campaignId: string
+  isActive: boolean
+  initialSummary: CampaignRefreshSummary
+}
+
+const SCHEDULE_LABELS: Record<RefreshSchedule, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+}
+
+export function CampaignRefreshCard({ campaignId, isActive, initialSummary }: CampaignRefreshCardProps) {
+  const router = useRouter()
+  const [summary, setSummary] = useState(initialSummary)
+  const [saving, setSaving] = useState(false)
+  const [running, setRunning] = useState(false)
+
+  const handleScheduleChange = async (value: string) => {
+    const previous = summary
+    const schedule = value ? (value as RefreshSchedule) : null
+    setSummary({ ...summary, schedule })
+    setSaving(true)
+    try {
+      const next = await saveRefreshScheduleAction({ campaignId, schedule })
+      if (next) {
+        setSummary(next)
+      }
+      toast.success(schedule ? `${SCHEDULE_LABELS[schedule]} refresh scheduled` : 'Scheduled refreshes turned off')
+    } catch (error) {
+      console.error('Failed to save refresh schedule:', error)
+      setSummary(previous)
+      toast.error(error instanceof Error ? error.message : 'Unable to save the refresh schedule right now.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRefresh = async () => {
+    setRunning(true)
+    try {
+      const next = await runCampaignRefreshAction(campaignId)
+      if (next) {
+        setSummary(next)
+      }
+      toast.success('Refresh queued. New leads will be appended to the sheet.')
+      router.refresh()
+    } catch (error) {
+      console.error('Failed to queue refresh:', error)
+      toast.error(error instanceof Error ? error.message : 'Unable to refresh this campaign right now.')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Refresh</CardTitle>
+          {summary.isRunning && (
+            <Badge variant="secondary" className="text-xs uppercase">
+              Pull in progress
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Picks up the search where the last run stopped and adds only people who aren&apos;t in this campaign yet.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2 sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="refresh-schedule">Schedule</Label>
+            <select
+              id="refresh-schedule"
+              value={summary.schedule ?? ''}
+              disabled={saving}
+              onChange={(event) => handleScheduleChange(event.target.value)}
+              className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+            >
+              <option value="">Off</option>
+              {(Object.keys(SCHEDULE_LABELS) as RefreshSchedule[]).map((value) => (
+                <option key={value} value={value}>
+                  {SCHEDULE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button onClick={handleRefresh} disabled={running || summary.isRunning || !isActive}>
+            {running ? 'Queuing…' : 'Refresh now'}
+          </Button>
+        </div>
+
+        <div className="grid gap-4 text-sm sm:grid-cols-3">
+          <div>
+            <p className="text-muted-foreground">Last refresh</p>
+            <p className="font-medium">
+              {summary.lastRefreshedAt ? formatRelativeTime(new Date(summary.lastRefreshedAt)) : 'Never'}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Next refresh</p>
+            <p className="font-medium">
+              {summary.schedule && summary.nextRefreshAt && isActive
+                ? new Date(summary.nextRefreshAt).toLocaleString()
+                : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">New in last refresh</p>
+            <p className="font-mono text-lg font-semibold">{summary.newLeads.toLocaleString()}</p>
+          </div>
+        </div>
+        {!isActive && (
+          <p className="text-xs text-muted-foreground">This campaign is paused, so scheduled refreshes are skipped.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
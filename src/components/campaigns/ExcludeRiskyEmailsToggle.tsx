@@ -0,0 +1,55 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import axios from 'axios'
+import { toast } from 'sonner'
+
+import { getApiClient } from '@/lib/http-client'
+
+type ExcludeRiskyEmailsToggleProps = {
+  campaignId: string
+  initialValue: boolean
+}
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { error?: string })?.error || fallback
+  }
+  return fallback
+}
+
+export function ExcludeRiskyEmailsToggle({ campaignId, initialValue }: ExcludeRiskyEmailsToggleProps) {
+  const client = useMemo(() => getApiClient(), [])
+  const router = useRouter()
+  const [enabled, setEnabled] = useState(initialValue)
+  const [saving, setSaving] = useState(false)
+
+  const handleChange = async (next: boolean) => {
+    setEnabled(next)
+    setSaving(true)
+    try {
+      await client.patch(`/api/campaigns/${campaignId}`, { excludeRiskyEmails: next })
+      toast.success(next ? 'Risky emails will be skipped in outreach' : 'Risky emails will be included in outreach')
+      router.refresh()
+    } catch (error) {
+      setEnabled(!next)
+      toast.error(extractErrorMessage(error, 'Failed to update campaign'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-foreground">
+      <input
+        type="checkbox"
+        checked={enabled}
+        disabled={saving}
+        onChange={(event) => handleChange(event.target.checked)}
+        className="h-4 w-4 rounded border-border"
+      />
+      Exclude risky emails from outreach
+    </label>
+  )
+}
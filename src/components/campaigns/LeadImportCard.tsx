@@ -0,0 +1,233 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import axios from 'axios'
+import { Download, FileSpreadsheet, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { getApiClient } from '@/lib/http-client'
+import type { LeadImportField, LeadImportMapping, LeadImportPreview, LeadImportResult } from '@/types/lead-import'
+
+type LeadImportCardProps = {
+  campaignId: string
+}
+
+const FIELD_LABELS: Array<{ field: LeadImportField; label: string }> = [
+  { field: 'email', label: 'Email *' },
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'company', label: 'Company' },
+  { field: 'jobTitle', label: 'Job title' },
+  { field: 'website', label: 'Website' },
+  { field: 'linkedinUrl', label: 'LinkedIn URL' },
+  { field: 'industry', label: 'Industry' },
+  { field: 'location', label: 'Location' },
+  { field: 'summary', label: 'Summary' },
+]
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { error?: string })?.error || fallback
+  }
+  return fallback
+}
+
+export function LeadImportCard({ campaignId }: LeadImportCardProps) {
+  const client = useMemo(() => getApiClient(), [])
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<LeadImportPreview | null>(null)
+  const [mapping, setMapping] = useState<LeadImportMapping>({})
+  const [result, setResult] = useState<LeadImportResult | null>(null)
+  const [reading, setReading] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  const reset = () => {
+    setFile(null)
+    setPreview(null)
+    setMapping({})
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  const handleFileSelected = async (selected: File) => {
+    setReading(true)
+    setResult(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', selected)
+      const { data } = await client.post<{ preview: LeadImportPreview }>(`/api/campaigns/${campaignId}/import`, formData)
+      setFile(selected)
+      setPreview(data.preview)
+      setMapping(data.preview.suggestedMapping)
+    } catch (error) {
+      toast.error(extractErrorMessage(error, 'Unable to read this file.'))
+      reset()
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleMappingChange = (field: LeadImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === '') {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('mapping', JSON.stringify(mapping))
+      const { data } = await client.post<{ result: LeadImportResult }>(`/api/campaigns/${campaignId}/import`, formData)
+      setResult(data.result)
+      reset()
+      toast.success(`Imported ${data.result.imported.toLocaleString()} lead${data.result.imported === 1 ? '' : 's'}`)
+      router.refresh()
+    } catch (error) {
+      toast.error(extractErrorMessage(error, 'Unable to import leads.'))
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const downloadErrorReport = () => {
+    if (!result?.errorReport) return
+    const blob = new Blob([result.errorReport], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `lead-import-errors-${new Date().toISOString().slice(0, 10)}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Import leads</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Add leads from a CSV or Excel file. Rows need a valid email; addresses already in your campaigns are skipped.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            className="hidden"
+            onChange={(event) => {
+              const selected = event.target.files?.[0]
+              if (selected) {
+                void handleFileSelected(selected)
+              }
+            }}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={reading || importing}>
+            <Upload className="mr-2 h-4 w-4" />
+            {reading ? 'Reading…' : preview ? 'Choose another file' : 'Upload CSV or Excel'}
+          </Button>
+          {preview && (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {preview.fileName} · {preview.rowCount.toLocaleString()} row{preview.rowCount === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {FIELD_LABELS.map(({ field, label }) => (
+                <div key={field} className="flex items-center gap-3">
+                  <Label htmlFor={`import-${field}`} className="w-28 shrink-0 text-sm">
+                    {label}
+                  </Label>
+                  <select
+                    id={`import-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(event) => handleMappingChange(field, event.target.value)}
+                    className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="">Not mapped</option>
+                    {preview.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto rounded-md border border-border">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/40">
+                  <tr>
+                    {preview.headers.map((header, index) => (
+                      <th key={index} className="whitespace-nowrap px-3 py-2 text-left font-medium">
+                        {header || `Column ${index + 1}`}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.sampleRows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-t border-border">
+                      {preview.headers.map((_, index) => (
+                        <td key={index} className="max-w-[200px] truncate px-3 py-2 text-muted-foreground">
+                          {row[index] ?? ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={reset} disabled={importing}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={importing || mapping.email === undefined}>
+                {importing ? 'Importing…' : `Import ${preview.rowCount.toLocaleString()} rows`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="flex flex-col gap-3 rounded-md border border-border p-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+            <p>
+              {result.imported.toLocaleString()} imported · {result.duplicates.toLocaleString()} duplicate
+              {result.duplicates === 1 ? '' : 's'} · {result.rejected.length.toLocaleString()} rejected
+              {result.suppressed > 0 ? ` · ${result.suppressed.toLocaleString()} on the suppression list` : ''}
+            </p>
+            {result.errorReport && (
+              <Button size="sm" variant="outline" onClick={downloadErrorReport}>
+                <Download className="mr-2 h-4 w-4" />
+                Download error report
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -14,6 +14,12 @@ import { useGoogleSheets } from '@/hooks/useGoogleSheet'
 import { ConnectionStatus } from '@/components/google-sheet/ConnectionStatus'
 import { ConnectionActions } from '@/components/google-sheet/ConnectionActions'
 import { createCampaignAction } from '@/actions/campaigns'
+import {
+  LEAD_FIELD_KEYS,
+  type LeadFieldKey,
+  type LeadProviderId,
+  type RestLeadProviderConfig,
+} from '@/types/lead-provider'
 
 interface CreateCampaignFormProps {
   open: boolean
@@ -32,6 +38,71 @@ interface FormData {
   searchMode: 'balanced' | 'conserve'
   includeDomains?: string // Optional domain filters (comma-separated)
   excludeDomains?: string // Optional domain exclusions (comma-separated)
+  source: LeadProviderId
+  restConfig: RestConfigForm
+  skipContactedWithinDays: string // Blank keeps people contacted from other campaigns
+  excludeRiskyEmails: boolean
+}
+
+type RestConfigForm = Omit<RestLeadProviderConfig, 'fieldMap'> & {
+  fieldMap: Record<LeadFieldKey, string>
+}
+
+const LEAD_FIELD_LABELS: Record<LeadFieldKey, string> = {
+  id: 'ID *',
+  email: 'Email',
+  first_name: 'First name',
+  last_name: 'Last name',
+  title: 'Job title',
+  headline: 'Headline',
+  company_name: 'Company',
+  domain: 'Company website',
+  linkedin_url: 'LinkedIn URL',
+  phone: 'Phone',
+  industry: 'Industry',
+  street_address: 'Street address',
+  city: 'City',
+  state: 'State',
+  country: 'Country',
+  postal_code: 'Postal code',
+  formatted_address: 'Full address',
+}
+
+const createEmptyRestConfig = (): RestConfigForm => ({
+  searchUrl: '',
+  method: 'GET',
+  apiKeyHeader: '',
+  apiKey: '',
+  resultsPath: '',
+  totalPagesPath: '',
+  nextCursorPath: '',
+  fieldMap: {
+    ...(Object.fromEntries(LEAD_FIELD_KEYS.map(key => [key, ''])) as Record<LeadFieldKey, string>),
+    id: 'id',
+    email: 'email',
+  },
+  enrichUrl: '',
+  revealUrl: '',
+  revealEmailPath: '',
+})
+
+const buildRestProviderConfig = (form: RestConfigForm): RestLeadProviderConfig => {
+  const optional = (value?: string) => value?.trim() || undefined
+  return {
+    searchUrl: form.searchUrl.trim(),
+    method: form.method,
+    apiKeyHeader: optional(form.apiKeyHeader),
+    apiKey: optional(form.apiKey),
+    resultsPath: form.resultsPath.trim(),
+    totalPagesPath: optional(form.totalPagesPath),
+    nextCursorPath: optional(form.nextCursorPath),
+    fieldMap: Object.fromEntries(
+      LEAD_FIELD_KEYS.map(key => [key, form.fieldMap[key].trim()]).filter(([, path]) => path),
+    ),
+    enrichUrl: optional(form.enrichUrl),
+    revealUrl: optional(form.revealUrl),
+    revealEmailPath: optional(form.revealEmailPath),
+  }
 }
 
 export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCampaignFormProps) {
@@ -45,7 +116,11 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
     pageSize: 25,
     searchMode: 'balanced',
     includeDomains: '',
-    excludeDomains: ''
+    excludeDomains: '',
+    source: 'apollo',
+    restConfig: createEmptyRestConfig(),
+    skipContactedWithinDays: '',
+    excludeRiskyEmails: false,
   })
   const [submitting, setSubmitting] = useState(false)
   const [errors, setErrors] = useState<string[]>([])
@@ -83,7 +158,7 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
     // no cleanup needed after removing cancel tokens
   }, [])
 
-  const handleInputChange = (field: keyof FormData, value: string | number | string[]) => {
+  const handleInputChange = (field: keyof FormData, value: string | number | boolean | string[]) => {
     setFormData(prev => {
       if (field === 'pageSize' && typeof value === 'number' && prev.searchMode === 'conserve') {
         return { ...prev, pageSize: Math.min(value, 15) }
@@ -95,6 +170,17 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
     }
   }
 
+  const handleRestConfigChange = <K extends keyof RestConfigForm>(field: K, value: RestConfigForm[K]) => {
+    setFormData(prev => ({ ...prev, restConfig: { ...prev.restConfig, [field]: value } }))
+    if (errors.length > 0) {
+      setErrors([])
+    }
+  }
+
+  const handleFieldMapChange = (field: LeadFieldKey, value: string) => {
+    handleRestConfigChange('fieldMap', { ...formData.restConfig.fieldMap, [field]: value })
+  }
+
   const handleSearchModeChange = (mode: 'balanced' | 'conserve') => {
     setFormData(prev => ({
       ...prev,
@@ -111,6 +197,22 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
     
     // Validate form data
     const validation = validateCampaignData(formData)
+    if (formData.source === 'rest') {
+      if (!/^https?:\/\/\S+$/i.test(formData.restConfig.searchUrl.trim())) {
+        validation.errors.push('Enter the search URL of your lead source (http or https)')
+      }
+      if (!formData.restConfig.fieldMap.id.trim()) {
+        validation.errors.push('Map the ID field so leads can be told apart')
+      }
+      validation.valid = validation.errors.length === 0
+    }
+    const skipContactedWithinDays = formData.skipContactedWithinDays.trim()
+      ? Number(formData.skipContactedWithinDays)
+      : null
+    if (skipContactedWithinDays !== null && (!Number.isInteger(skipContactedWithinDays) || skipContactedWithinDays < 1 || skipContactedWithinDays > 365)) {
+      validation.errors.push('Recently contacted window must be between 1 and 365 days')
+      validation.valid = false
+    }
     if (!validation.valid) {
       setErrors(validation.errors)
       if (validation.errors.length > 0) {
@@ -144,12 +246,16 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
         googleSheetId: formData.googleSheetId,
         includeDomains: formData.includeDomains?.trim() || undefined,
         excludeDomains: formData.excludeDomains?.trim() || undefined,
+        source: formData.source,
+        providerConfig: formData.source === 'rest' ? buildRestProviderConfig(formData.restConfig) : undefined,
+        skipContactedWithinDays,
+        excludeRiskyEmails: formData.excludeRiskyEmails,
       }
 
       startTransition(() => {
         createCampaignAction(apiFormData)
           .then((data) => {
-            toast.success('Campaign created! Apollo lead fetching has started.')
+            toast.success('Campaign created! Lead fetching has started.')
             onSuccess(data.campaign)
             onOpenChange(false)
             setFormData({
@@ -162,7 +268,11 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
               pageSize: 25,
               searchMode: 'balanced',
               includeDomains: '',
-              excludeDomains: ''
+              excludeDomains: '',
+              source: 'apollo',
+              restConfig: createEmptyRestConfig(),
+              skipContactedWithinDays: '',
+              excludeRiskyEmails: false,
             })
           })
           .catch((error) => {
@@ -195,7 +305,7 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
         <DialogHeader>
           <DialogTitle className="text-xl font-mono">Create New Campaign</DialogTitle>
           <p className="text-sm text-muted-foreground">
-            Configure Apollo search filters. We will fetch leads and append them to your Google Sheet automatically.
+            Choose a lead provider and configure search filters. We will fetch leads and append them to your Google Sheet automatically.
           </p>
         </DialogHeader>
 
@@ -227,6 +337,157 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="source">Lead Provider</Label>
+              <select
+                id="source"
+                value={formData.source}
+                onChange={(e) => setFormData(prev => ({ ...prev, source: e.target.value as LeadProviderId }))}
+                className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+              >
+                <option value="apollo">Apollo</option>
+                <option value="rest">REST / JSON API</option>
+              </select>
+              <p className="text-sm text-muted-foreground">
+                Use Apollo, or connect another data vendor or in-house database that exposes a JSON search endpoint.
+              </p>
+            </div>
+
+            {formData.source === 'rest' && (
+              <div className="space-y-4 rounded-md border p-4">
+                <div className="grid gap-3 sm:grid-cols-[1fr_120px]">
+                  <div className="space-y-2">
+                    <Label htmlFor="restSearchUrl">Search URL *</Label>
+                    <Input
+                      id="restSearchUrl"
+                      value={formData.restConfig.searchUrl}
+                      onChange={(e) => handleRestConfigChange('searchUrl', e.target.value)}
+                      placeholder="https://leads.example.com/api/people"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="restMethod">Method</Label>
+                    <select
+                      id="restMethod"
+                      value={formData.restConfig.method}
+                      onChange={(e) => handleRestConfigChange('method', e.target.value as 'GET' | 'POST')}
+                      className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                    >
+                      <option value="GET">GET</option>
+                      <option value="POST">POST</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  GET requests receive titles, locations, keywords, page and per_page as query parameters; POST requests
+                  receive them as a JSON body.
+                </p>
+
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="restApiKeyHeader">API Key Header</Label>
+                    <Input
+                      id="restApiKeyHeader"
+                      value={formData.restConfig.apiKeyHeader}
+                      onChange={(e) => handleRestConfigChange('apiKeyHeader', e.target.value)}
+                      placeholder="e.g., Authorization"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="restApiKey">API Key</Label>
+                    <Input
+                      id="restApiKey"
+                      type="password"
+                      value={formData.restConfig.apiKey}
+                      onChange={(e) => handleRestConfigChange('apiKey', e.target.value)}
+                      placeholder="e.g., Bearer sk_live_..."
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="restResultsPath">Results Path</Label>
+                    <Input
+                      id="restResultsPath"
+                      value={formData.restConfig.resultsPath}
+                      onChange={(e) => handleRestConfigChange('resultsPath', e.target.value)}
+                      placeholder="e.g., data.people (blank if the response is a list)"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="restTotalPagesPath">Total Pages Path</Label>
+                    <Input
+                      id="restTotalPagesPath"
+                      value={formData.restConfig.totalPagesPath}
+                      onChange={(e) => handleRestConfigChange('totalPagesPath', e.target.value)}
+                      placeholder="e.g., meta.total_pages"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="restNextCursorPath">Next Cursor Path</Label>
+                    <Input
+                      id="restNextCursorPath"
+                      value={formData.restConfig.nextCursorPath}
+                      onChange={(e) => handleRestConfigChange('nextCursorPath', e.target.value)}
+                      placeholder="e.g., meta.next_cursor (blank for page numbers)"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Field Mappings</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Path to each value inside a result, using dots for nested fields (e.g., organization.name).
+                  </p>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {LEAD_FIELD_KEYS.map(field => (
+                      <div key={field} className="flex items-center gap-2">
+                        <Label htmlFor={`restField-${field}`} className="w-32 shrink-0 text-xs font-normal">
+                          {LEAD_FIELD_LABELS[field]}
+                        </Label>
+                        <Input
+                          id={`restField-${field}`}
+                          value={formData.restConfig.fieldMap[field]}
+                          onChange={(e) => handleFieldMapChange(field, e.target.value)}
+                          className="h-8 text-xs"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="restEnrichUrl">Enrichment URL</Label>
+                    <Input
+                      id="restEnrichUrl"
+                      value={formData.restConfig.enrichUrl}
+                      onChange={(e) => handleRestConfigChange('enrichUrl', e.target.value)}
+                      placeholder="Optional: receives { leads } via POST"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="restRevealUrl">Email Reveal URL</Label>
+                    <Input
+                      id="restRevealUrl"
+                      value={formData.restConfig.revealUrl}
+                      onChange={(e) => handleRestConfigChange('revealUrl', e.target.value)}
+                      placeholder="Optional: https://.../people/{id}/email"
+                    />
+                  </div>
+                </div>
+                {formData.restConfig.revealUrl && (
+                  <div className="space-y-2">
+                    <Label htmlFor="restRevealEmailPath">Reveal Email Path</Label>
+                    <Input
+                      id="restRevealEmailPath"
+                      value={formData.restConfig.revealEmailPath}
+                      onChange={(e) => handleRestConfigChange('revealEmailPath', e.target.value)}
+                      placeholder="email"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="jobTitles">Job Titles (comma-separated) *</Label>
               <Textarea
@@ -303,6 +564,37 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="skipContactedWithinDays">Skip People Contacted Within (days)</Label>
+              <Input
+                id="skipContactedWithinDays"
+                type="number"
+                min="1"
+                max="365"
+                value={formData.skipContactedWithinDays}
+                onChange={(e) => handleInputChange('skipContactedWithinDays', e.target.value)}
+                placeholder="e.g., 90"
+              />
+              <p className="text-sm text-muted-foreground">
+                Optional: Leave out anyone you emailed from any campaign in this many days
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={formData.excludeRiskyEmails}
+                  onChange={(e) => handleInputChange('excludeRiskyEmails', e.target.checked)}
+                  className="h-4 w-4 rounded border-border"
+                />
+                Exclude risky emails from outreach
+              </label>
+              <p className="text-sm text-muted-foreground">
+                Role accounts, catch-all domains and addresses whose mail servers couldn&apos;t be checked are not emailed. Invalid addresses are always skipped.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="maxLeads">Max Leads to Fetch</Label>
               <Input
@@ -329,7 +621,7 @@ export function CreateCampaignForm({ open, onOpenChange, onSuccess }: CreateCamp
                 onChange={(e) => handleInputChange('pageSize', Math.max(1, Math.min(100, parseInt(e.target.value) || 25)))}
               />
               <p className="text-sm text-muted-foreground">
-                How many leads to request from Apollo per API call (1-100). Smaller batches help avoid rate limits.
+                How many leads to request from the provider per API call (1-100). Smaller batches help avoid rate limits.
               </p>
             </div>
 
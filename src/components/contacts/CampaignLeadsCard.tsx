@@ -0,0 +1,77 @@
+import Link from "next/link"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { formatRelativeTime } from "@/lib/utils"
+import type { CampaignLeadListItem } from "@/types/contact"
+
+type CampaignLeadsCardProps = {
+  campaignId: string
+  leads: CampaignLeadListItem[]
+  totalLeads: number
+}
+
+export function CampaignLeadsCard({ campaignId, leads, totalLeads }: CampaignLeadsCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Leads</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {leads.length < totalLeads
+            ? `Showing the ${leads.length} most recent of ${totalLeads.toLocaleString()} leads.`
+            : "Open a lead to see every campaign, email and reply for that person."}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {leads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No leads in this campaign yet.</p>
+        ) : (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {leads.map((lead) => (
+              <Link
+                key={lead.id}
+                href={`/dashboard/leads/${campaignId}/leads/${lead.id}`}
+                className="flex flex-col gap-1 p-3 text-sm transition-colors hover:bg-muted/40 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-foreground">{lead.name || lead.email}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {[lead.name ? lead.email : null, lead.jobTitle, lead.company].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+                <div className="flex shrink-0 flex-wrap items-center gap-2">
+                  {lead.isNew && <Badge className="text-[10px]">New</Badge>}
+                  {lead.campaignCount > 1 && (
+                    <Badge variant="outline" className="text-[10px]">
+                      In {lead.campaignCount} campaigns
+                    </Badge>
+                  )}
+                  {lead.lastContactedAt && (
+                    <Badge variant="secondary" className="text-[10px]">
+                      Emailed {formatRelativeTime(new Date(lead.lastContactedAt))}
+                    </Badge>
+                  )}
+                  {lead.isSuppressed && (
+                    <Badge variant="destructive" className="text-[10px]">
+                      Suppressed
+                    </Badge>
+                  )}
+                  {!lead.isValid && (
+                    <Badge variant="outline" className="text-[10px]">
+                      Invalid email
+                    </Badge>
+                  )}
+                  {lead.isValid && lead.emailVerificationStatus === "RISKY" && (
+                    <Badge variant="outline" className="text-[10px]">
+                      Risky email
+                    </Badge>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,279 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import axios from 'axios'
+import { toast } from 'sonner'
+import { Plus, Send, Server, Unlink } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { getApiClient } from '@/lib/http-client'
+import type { MailboxAccountsResponse, MailboxHealth, MailboxRotationStrategy } from '@/types/gmail'
+import { MailboxQuotaSettings } from './MailboxQuotaSettings'
+import { SmtpSenderForm } from './SmtpSenderForm'
+
+type ConnectedMailboxesProps = {
+  onConnectAnother: () => void
+  connecting?: boolean
+}
+
+const ROTATION_LABELS: Record<MailboxRotationStrategy, string> = {
+  round_robin: 'Round robin',
+  least_used: 'Least used today',
+}
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    const message = (error.response?.data as { error?: string } | undefined)?.error
+    if (message) return message
+  }
+  return fallback
+}
+
+const healthBadge = (account: MailboxHealth) => {
+  if (account.requiresReauth) {
+    return { label: 'Reconnect', variant: 'secondary' as const }
+  }
+  if (!account.isActive) {
+    return { label: 'Paused', variant: 'outline' as const }
+  }
+  if (account.failedLast7Days > 0 || account.bouncedLast7Days > 0) {
+    return { label: 'Check health', variant: 'neutral' as const }
+  }
+  return { label: 'Healthy', variant: 'positive' as const }
+}
+
+export function ConnectedMailboxes({ onConnectAnother, connecting = false }: ConnectedMailboxesProps) {
+  const [accounts, setAccounts] = useState<MailboxHealth[]>([])
+  const [rotation, setRotation] = useState<MailboxRotationStrategy>('round_robin')
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [addingSmtp, setAddingSmtp] = useState(false)
+  const [unsubscribeFooter, setUnsubscribeFooter] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const { data } = await getApiClient().get<MailboxAccountsResponse>('/api/gmail/accounts')
+      setAccounts(data.accounts)
+      setRotation(data.rotation)
+      setUnsubscribeFooter(data.unsubscribeFooter)
+    } catch (error) {
+      console.error('Failed to load Gmail accounts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const updateRotation = async (next: MailboxRotationStrategy) => {
+    const previous = rotation
+    setRotation(next)
+    try {
+      await getApiClient().patch('/api/gmail/accounts', { rotation: next })
+      toast.success('Mailbox rotation updated')
+    } catch (error) {
+      console.error('Failed to update mailbox rotation:', error)
+      setRotation(previous)
+      toast.error(extractErrorMessage(error, 'Unable to update rotation right now.'))
+    }
+  }
+
+  const updateUnsubscribeFooter = async (next: boolean) => {
+    setUnsubscribeFooter(next)
+    try {
+      await getApiClient().patch('/api/gmail/accounts', { unsubscribeFooter: next })
+      toast.success(next ? 'Unsubscribe link added to outreach emails' : 'Unsubscribe link removed from outreach emails')
+    } catch (error) {
+      console.error('Failed to update unsubscribe footer:', error)
+      setUnsubscribeFooter(!next)
+      toast.error(extractErrorMessage(error, 'Unable to update this setting right now.'))
+    }
+  }
+
+  const toggleActive = async (account: MailboxHealth) => {
+    setBusyId(account.id)
+    try {
+      await getApiClient().patch(`/api/gmail/accounts/${account.id}`, { isActive: !account.isActive })
+      setAccounts((prev) =>
+        prev.map((candidate) => (candidate.id === account.id ? { ...candidate, isActive: !account.isActive } : candidate)),
+      )
+    } catch (error) {
+      console.error('Failed to update Gmail account:', error)
+      toast.error(extractErrorMessage(error, 'Unable to update this mailbox right now.'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const removeAccount = async (account: MailboxHealth) => {
+    setBusyId(account.id)
+    try {
+      await getApiClient().delete(`/api/gmail/accounts/${account.id}`)
+      setAccounts((prev) => prev.filter((candidate) => candidate.id !== account.id))
+      toast.success(`${account.emailAddress} disconnected`)
+    } catch (error) {
+      console.error('Failed to disconnect Gmail account:', error)
+      toast.error(extractErrorMessage(error, 'Unable to disconnect this mailbox right now.'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const sendTest = async (account: MailboxHealth) => {
+    setBusyId(account.id)
+    try {
+      await getApiClient().post('/api/email/smtp/test', { gmailAccountId: account.id })
+      toast.success(`Test message sent to ${account.emailAddress}`)
+    } catch (error) {
+      console.error('Failed to send test message:', error)
+      toast.error(extractErrorMessage(error, 'Unable to send a test message right now.'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (loading) {
+    return null
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <div className="text-sm font-medium text-foreground">Sending mailboxes</div>
+          <p className="text-sm text-muted-foreground">
+            Outreach rotates across every active mailbox. Replies are synced from all of them.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label="Mailbox rotation"
+            value={rotation}
+            onChange={(event) => updateRotation(event.target.value as MailboxRotationStrategy)}
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          >
+            {(Object.keys(ROTATION_LABELS) as MailboxRotationStrategy[]).map((strategy) => (
+              <option key={strategy} value={strategy}>
+                {ROTATION_LABELS[strategy]}
+              </option>
+            ))}
+          </select>
+          <Button size="sm" variant="outline" onClick={onConnectAnother} disabled={connecting}>
+            <Plus className="h-4 w-4 mr-2" />
+            Connect another mailbox
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setAddingSmtp((current) => !current)}>
+            <Server className="h-4 w-4 mr-2" />
+            Add SMTP sender
+          </Button>
+        </div>
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={unsubscribeFooter}
+          onChange={(event) => updateUnsubscribeFooter(event.target.checked)}
+          className="mt-0.5 h-4 w-4 rounded border-border"
+        />
+        <span>
+          Add an unsubscribe link to the footer of outreach emails
+          <span className="block text-xs text-muted-foreground">
+            Every outreach email already carries a one-click List-Unsubscribe header for inbox providers.
+          </span>
+        </span>
+      </label>
+
+      {addingSmtp && (
+        <SmtpSenderForm
+          onCancel={() => setAddingSmtp(false)}
+          onSaved={() => {
+            setAddingSmtp(false)
+            load()
+          }}
+        />
+      )}
+
+      <div className="divide-y divide-border rounded-md border border-border">
+        {accounts.map((account) => {
+          const badge = healthBadge(account)
+          return (
+            <div key={account.id} className="space-y-3 p-3">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono text-foreground">{account.emailAddress}</span>
+                    <Badge variant={badge.variant} className="text-xs uppercase">
+                      {badge.label}
+                    </Badge>
+                    {account.transport === 'smtp' && (
+                      <Badge variant="outline" className="text-xs uppercase">
+                        SMTP
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Today {account.quota.sentToday} / {account.quota.quota} · {account.failedLast7Days} failed ·{' '}
+                    {account.bouncedLast7Days} bounced (7 days)
+                    {account.lastUsedAt && <> · last used {new Date(account.lastUsedAt).toLocaleString()}</>}
+                    {account.transport === 'smtp' ? (
+                      <> · replies not synced</>
+                    ) : (
+                      !account.watchExpiresAt && <> · push sync off</>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <label className="flex items-center gap-2 text-sm text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={account.isActive}
+                      disabled={busyId === account.id}
+                      onChange={() => toggleActive(account)}
+                      className="h-4 w-4 rounded border-border"
+                    />
+                    Use for sending
+                  </label>
+                  <Button size="sm" variant="ghost" onClick={() => sendTest(account)} disabled={busyId === account.id}>
+                    <Send className="h-4 w-4 mr-2" />
+                    Test
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setExpandedId((current) => (current === account.id ? null : account.id))}
+                  >
+                    {expandedId === account.id ? 'Hide limits' : 'Limits'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeAccount(account)}
+                    disabled={busyId === account.id}
+                  >
+                    <Unlink className="h-4 w-4 mr-2" />
+                    Disconnect
+                  </Button>
+                </div>
+              </div>
+              {expandedId === account.id && (
+                <MailboxQuotaSettings
+                  mailbox={account.quota}
+                  onSaved={(quota) =>
+                    setAccounts((prev) =>
+                      prev.map((candidate) => (candidate.id === account.id ? { ...candidate, quota } : candidate)),
+                    )
+                  }
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
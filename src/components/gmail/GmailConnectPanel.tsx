@@ -5,6 +5,8 @@ import { Mail, RefreshCw, LinkIcon, Unlink, CheckCircle2, XCircle, Clock } from
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { useGmail } from '@/hooks/useGmail'
+import { ConnectedMailboxes } from './ConnectedMailboxes'
+import { SmtpSenderForm } from './SmtpSenderForm'
 
 const formatTimestamp = (timestamp: number | string | Date | null | undefined) => {
   if (timestamp === null || timestamp === undefined) return null
@@ -116,7 +118,7 @@ export function GmailConnectPanel() {
                 className="border-primary/40 text-primary hover:bg-primary/10"
               >
                 <Unlink className="h-4 w-4 mr-2" />
-                Disconnect
+                {(status.accountCount ?? 1) > 1 ? 'Disconnect all' : 'Disconnect'}
               </Button>
             ) : (
               <Button
@@ -161,7 +163,15 @@ export function GmailConnectPanel() {
         </div>
       )}
 
-   
+      {status?.isConnected ? (
+        <ConnectedMailboxes onConnectAnother={connect} connecting={loading} />
+      ) : (
+        <SmtpSenderForm
+          onSaved={() => {
+            refreshStatus().catch(() => undefined)
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import axios from 'axios'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { getApiClient } from '@/lib/http-client'
+import type { MailboxQuotaStatus } from '@/types/gmail'
+
+type QuotaDraft = {
+  dailySendCap: string
+  warmupEnabled: boolean
+  warmupStartVolume: string
+  warmupIncreasePercent: string
+}
+
+const toDraft = (mailbox: MailboxQuotaStatus): QuotaDraft => ({
+  dailySendCap: String(mailbox.dailySendCap),
+  warmupEnabled: mailbox.warmupEnabled,
+  warmupStartVolume: String(mailbox.warmupStartVolume),
+  warmupIncreasePercent: String(mailbox.warmupIncreasePercent),
+})
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    const message = (error.response?.data as { error?: string } | undefined)?.error
+    if (message) return message
+  }
+  return fallback
+}
+
+type MailboxQuotaSettingsProps = {
+  mailbox: MailboxQuotaStatus
+  onSaved?: (mailbox: MailboxQuotaStatus) => void
+}
+
+export function MailboxQuotaSettings({ mailbox: initialMailbox, onSaved }: MailboxQuotaSettingsProps) {
+  const [mailbox, setMailbox] = useState<MailboxQuotaStatus>(initialMailbox)
+  const [draft, setDraft] = useState<QuotaDraft>(() => toDraft(initialMailbox))
+  const [saving, setSaving] = useState(false)
+
+  const save = async (restartWarmup = false) => {
+    setSaving(true)
+    try {
+      const { data } = await getApiClient().patch<{ mailbox: MailboxQuotaStatus }>('/api/gmail/quota', {
+        gmailAccountId: mailbox.gmailAccountId,
+        dailySendCap: Number(draft.dailySendCap),
+        warmupEnabled: draft.warmupEnabled,
+        warmupStartVolume: Number(draft.warmupStartVolume),
+        warmupIncreasePercent: Number(draft.warmupIncreasePercent),
+        restartWarmup,
+      })
+      setMailbox(data.mailbox)
+      setDraft(toDraft(data.mailbox))
+      onSaved?.(data.mailbox)
+      toast.success(restartWarmup ? 'Warm-up restarted' : 'Sending limits saved')
+    } catch (error) {
+      console.error('Failed to save mailbox quota:', error)
+      toast.error(extractErrorMessage(error, 'Unable to save sending limits right now.'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const fieldId = (name: string) => `quota-${name}-${mailbox.gmailAccountId}`
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+      <div className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <div className="text-sm font-medium text-foreground">Daily sending limits</div>
+          <p className="text-sm text-muted-foreground">
+            Emails over today&apos;s quota move to the next day automatically. Quotas reset at midnight UTC.
+          </p>
+        </div>
+        <div className="text-sm font-mono text-muted-foreground">
+          Today {mailbox.sentToday} / {mailbox.quota}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor={fieldId('cap')}>Daily cap</Label>
+          <Input
+            id={fieldId('cap')}
+            type="number"
+            min={1}
+            value={draft.dailySendCap}
+            onChange={(event) => setDraft({ ...draft, dailySendCap: event.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={fieldId('start')}>Warm-up start (per day)</Label>
+          <Input
+            id={fieldId('start')}
+            type="number"
+            min={1}
+            value={draft.warmupStartVolume}
+            disabled={!draft.warmupEnabled}
+            onChange={(event) => setDraft({ ...draft, warmupStartVolume: event.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={fieldId('increase')}>Daily increase (%)</Label>
+          <Input
+            id={fieldId('increase')}
+            type="number"
+            min={0}
+            max={100}
+            value={draft.warmupIncreasePercent}
+            disabled={!draft.warmupEnabled}
+            onChange={(event) => setDraft({ ...draft, warmupIncreasePercent: event.target.value })}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={draft.warmupEnabled}
+          onChange={(event) => setDraft({ ...draft, warmupEnabled: event.target.checked })}
+          className="h-4 w-4 rounded border-border"
+        />
+        Warm up this mailbox
+        {mailbox.warmupEnabled && (
+          <span className="text-muted-foreground">(day {mailbox.warmupDay + 1})</span>
+        )}
+      </label>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => save()} disabled={saving}>
+          {saving ? 'Saving…' : 'Save limits'}
+        </Button>
+        {draft.warmupEnabled && (
+          <Button size="sm" variant="outline" onClick={() => save(true)} disabled={saving}>
+            Restart warm-up
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
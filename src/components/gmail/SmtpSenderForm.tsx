@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import axios from 'axios'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { getApiClient } from '@/lib/http-client'
+
+type SmtpSecurity = 'tls' | 'starttls' | 'none'
+
+type SmtpSenderFormProps = {
+  onSaved?: () => void
+  onCancel?: () => void
+}
+
+const SECURITY_LABELS: Record<SmtpSecurity, string> = {
+  starttls: 'STARTTLS (587)',
+  tls: 'TLS (465)',
+  none: 'None (local testing only)',
+}
+
+const DEFAULT_PORTS: Record<SmtpSecurity, string> = {
+  starttls: '587',
+  tls: '465',
+  none: '1025',
+}
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    const message = (error.response?.data as { error?: string } | undefined)?.error
+    if (message) return message
+  }
+  return fallback
+}
+
+export function SmtpSenderForm({ onSaved, onCancel }: SmtpSenderFormProps) {
+  const [emailAddress, setEmailAddress] = useState('')
+  const [host, setHost] = useState('')
+  const [security, setSecurity] = useState<SmtpSecurity>('starttls')
+  const [port, setPort] = useState(DEFAULT_PORTS.starttls)
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const changeSecurity = (next: SmtpSecurity) => {
+    // Only follow the default port while the user has not typed their own.
+    if (port === DEFAULT_PORTS[security]) {
+      setPort(DEFAULT_PORTS[next])
+    }
+    setSecurity(next)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      await getApiClient().post('/api/email/smtp', {
+        emailAddress,
+        host,
+        port,
+        security,
+        username,
+        password,
+      })
+      toast.success(`${emailAddress} added as a sender`)
+      setPassword('')
+      onSaved?.()
+    } catch (error) {
+      console.error('Failed to save SMTP sender:', error)
+      toast.error(extractErrorMessage(error, 'Unable to save the SMTP sender right now.'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+      <div>
+        <div className="text-sm font-medium text-foreground">SMTP sender</div>
+        <p className="text-sm text-muted-foreground">
+          Send through any mail server. We sign in once to check the settings before saving them.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="smtp-email">From address</Label>
+          <Input
+            id="smtp-email"
+            type="email"
+            placeholder="you@company.com"
+            value={emailAddress}
+            onChange={(event) => setEmailAddress(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="smtp-host">Server</Label>
+          <Input
+            id="smtp-host"
+            placeholder="smtp.company.com"
+            value={host}
+            onChange={(event) => setHost(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="smtp-security">Security</Label>
+          <select
+            id="smtp-security"
+            value={security}
+            onChange={(event) => changeSecurity(event.target.value as SmtpSecurity)}
+            className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+          >
+            {(Object.keys(SECURITY_LABELS) as SmtpSecurity[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {SECURITY_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="smtp-port">Port</Label>
+          <Input id="smtp-port" type="number" min={1} max={65535} value={port} onChange={(event) => setPort(event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="smtp-username">Username</Label>
+          <Input
+            id="smtp-username"
+            autoComplete="off"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="smtp-password">Password</Label>
+          <Input
+            id="smtp-password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={save} disabled={saving || !emailAddress || !host}>
+          {saving ? 'Checking…' : 'Save sender'}
+        </Button>
+        {onCancel && (
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
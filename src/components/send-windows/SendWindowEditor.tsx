@@ -0,0 +1,245 @@
+"use client"
+
+import { useState } from "react"
+import { Clock } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+import { deleteSendWindowAction, previewSendScheduleAction, saveSendWindowAction } from "@/actions/send-windows"
+import type { ScheduledSendPreview, SendWindow, SendWindowTarget } from "@/types/send-window"
+
+type SendWindowEditorProps = {
+  target: SendWindowTarget
+  initialWindow: SendWindow | null
+  sampleEmails: string[]
+}
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+const DEFAULT_DAYS = [1, 2, 3, 4, 5]
+
+const toTimeValue = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+
+const fromTimeValue = (value: string) => {
+  const [hours, minutes] = value.split(":").map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+const browserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+  } catch {
+    return "UTC"
+  }
+}
+
+const formatInZone = (value: string, timeZone?: string) => {
+  try {
+    return new Date(value).toLocaleString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      ...(timeZone ? { timeZone } : {}),
+    })
+  } catch {
+    return value
+  }
+}
+
+const timeZoneSourceLabel: Record<ScheduledSendPreview["timeZoneSource"], string> = {
+  lead: "lead zone",
+  location: "from location",
+  fallback: "fallback",
+}
+
+export function SendWindowEditor({ target, initialWindow, sampleEmails }: SendWindowEditorProps) {
+  const [sendWindow, setSendWindow] = useState<SendWindow | null>(initialWindow)
+  const [isActive, setIsActive] = useState(initialWindow?.isActive ?? true)
+  const [days, setDays] = useState<number[]>(initialWindow?.days ?? DEFAULT_DAYS)
+  const [startTime, setStartTime] = useState(toTimeValue(initialWindow?.startMinute ?? 9 * 60))
+  const [endTime, setEndTime] = useState(toTimeValue(initialWindow?.endMinute ?? 17 * 60))
+  const [timeZone, setTimeZone] = useState(() => initialWindow?.timeZone ?? browserTimeZone())
+  const [preview, setPreview] = useState<ScheduledSendPreview[] | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+
+  const toggleDay = (day: number) => {
+    setDays((prev) => (prev.includes(day) ? prev.filter((value) => value !== day) : [...prev, day].sort((a, b) => a - b)))
+  }
+
+  const currentRule = () => ({
+    days,
+    startMinute: fromTimeValue(startTime),
+    endMinute: fromTimeValue(endTime),
+    timeZone,
+  })
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const saved = await saveSendWindowAction({ target, isActive, ...currentRule() })
+      setSendWindow(saved)
+      toast.success("Send window saved")
+    } catch (error) {
+      console.error("Failed to save send window:", error)
+      toast.error(error instanceof Error ? error.message : "Unable to save send window right now.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!sendWindow) return
+    setDeleting(true)
+    try {
+      await deleteSendWindowAction(sendWindow.id)
+      setSendWindow(null)
+      setPreview(null)
+      toast.success("Send window removed")
+    } catch (error) {
+      console.error("Failed to delete send window:", error)
+      toast.error("Unable to delete send window right now.")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (sampleEmails.length === 0) return
+    setPreviewing(true)
+    try {
+      setPreview(
+        await previewSendScheduleAction({
+          target,
+          emails: sampleEmails,
+          window: isActive ? currentRule() : null,
+        }),
+      )
+    } catch (error) {
+      console.error("Failed to preview send times:", error)
+      toast.error(error instanceof Error ? error.message : "Unable to preview send times right now.")
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Send window</CardTitle>
+          {sendWindow && (
+            <Badge variant={sendWindow.isActive ? "positive" : "outline"} className="text-xs uppercase">
+              {sendWindow.isActive ? "Active" : "Paused"}
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Emails and follow-ups only go out inside this window, evaluated in each lead&apos;s own time zone. Zones come
+          from the lead&apos;s time zone or location; the fallback zone covers everyone else.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Sending days</Label>
+          <div className="flex flex-wrap gap-2">
+            {DAY_LABELS.map((label, day) => (
+              <Button
+                key={label}
+                type="button"
+                size="sm"
+                variant={days.includes(day) ? "default" : "outline"}
+                onClick={() => toggleDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="send-window-start">From</Label>
+            <Input id="send-window-start" type="time" value={startTime} onChange={(event) => setStartTime(event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="send-window-end">Until</Label>
+            <Input id="send-window-end" type="time" value={endTime} onChange={(event) => setEndTime(event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="send-window-zone">Fallback time zone</Label>
+            <Input
+              id="send-window-zone"
+              value={timeZone}
+              placeholder="America/New_York"
+              onChange={(event) => setTimeZone(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(event) => setIsActive(event.target.checked)}
+            className="h-4 w-4 rounded border-border"
+          />
+          Window active
+        </label>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving…" : "Save window"}
+          </Button>
+          <Button variant="outline" onClick={handlePreview} disabled={previewing || sampleEmails.length === 0}>
+            <Clock className="mr-2 h-4 w-4" />
+            {previewing ? "Calculating…" : "Preview send times"}
+          </Button>
+          {sendWindow && (
+            <Button variant="ghost" onClick={handleDelete} disabled={deleting}>
+              {deleting ? "Removing…" : "Remove window"}
+            </Button>
+          )}
+        </div>
+
+        {preview && (
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full min-w-[560px] text-sm">
+              <thead>
+                <tr className="bg-muted/40 text-left">
+                  <th className="px-4 py-2 font-mono font-semibold">Recipient</th>
+                  <th className="px-4 py-2 font-mono font-semibold">Their time</th>
+                  <th className="px-4 py-2 font-mono font-semibold">Your time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((entry) => (
+                  <tr key={entry.email} className="border-t border-border">
+                    <td className="px-4 py-2">{entry.email}</td>
+                    <td className="px-4 py-2">
+                      <div>{formatInZone(entry.scheduledAt, entry.timeZone)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {entry.timeZone} · {timeZoneSourceLabel[entry.timeZoneSource]}
+                      </div>
+                    </td>
+                    <td className={cn("px-4 py-2", entry.deferred ? "text-foreground" : "text-muted-foreground")}>
+                      {entry.deferred ? formatInZone(entry.scheduledAt) : "Immediately"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useState } from "react"
+import { PlusCircle, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { deleteSequenceAction, saveSequenceAction } from "@/actions/sequences"
+import type { OutreachSequence, OutreachSequenceTarget } from "@/types/sequence"
+
+type StepDraft = {
+  key: string
+  delayDays: string
+  subjectTemplate: string
+  bodyTemplate: string
+}
+
+type SequenceEditorProps = {
+  target: OutreachSequenceTarget
+  initialSequence: OutreachSequence | null
+}
+
+const MAX_STEPS = 5
+const HOURS_PER_DAY = 24
+
+const createStepKey = () => Math.random().toString(36).slice(2, 10)
+
+const toStepDrafts = (sequence: OutreachSequence | null): StepDraft[] =>
+  sequence?.steps.map((step) => ({
+    key: step.id ?? createStepKey(),
+    delayDays: String(Math.max(1, Math.round(step.delayHours / HOURS_PER_DAY))),
+    subjectTemplate: step.subjectTemplate ?? "",
+    bodyTemplate: step.bodyTemplate,
+  })) ?? []
+
+export function SequenceEditor({ target, initialSequence }: SequenceEditorProps) {
+  const [sequence, setSequence] = useState<OutreachSequence | null>(initialSequence)
+  const [name, setName] = useState(initialSequence?.name ?? "Follow-up sequence")
+  const [isActive, setIsActive] = useState(initialSequence?.isActive ?? true)
+  const [steps, setSteps] = useState<StepDraft[]>(() => toStepDrafts(initialSequence))
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+
+  const updateStep = (key: string, patch: Partial<StepDraft>) => {
+    setSteps((prev) => prev.map((step) => (step.key === key ? { ...step, ...patch } : step)))
+  }
+
+  const addStep = () => {
+    setSteps((prev) =>
+      prev.length >= MAX_STEPS
+        ? prev
+        : [...prev, { key: createStepKey(), delayDays: "3", subjectTemplate: "", bodyTemplate: "" }],
+    )
+  }
+
+  const removeStep = (key: string) => {
+    setSteps((prev) => prev.filter((step) => step.key !== key))
+  }
+
+  const handleSave = async () => {
+    if (steps.some((step) => !step.bodyTemplate.trim())) {
+      toast.error("Every follow-up step needs a body.")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const saved = await saveSequenceAction({
+        target,
+        name,
+        isActive,
+        steps: steps.map((step) => ({
+          delayHours: Math.max(1, Number(step.delayDays) || 1) * HOURS_PER_DAY,
+          subjectTemplate: step.subjectTemplate,
+          bodyTemplate: step.bodyTemplate,
+        })),
+      })
+      setSequence(saved)
+      setSteps(toStepDrafts(saved))
+      toast.success("Sequence saved")
+    } catch (error) {
+      console.error("Failed to save sequence:", error)
+      toast.error(error instanceof Error ? error.message : "Unable to save sequence right now.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!sequence) return
+    setDeleting(true)
+    try {
+      await deleteSequenceAction(sequence.id)
+      setSequence(null)
+      setSteps([])
+      toast.success("Sequence removed")
+    } catch (error) {
+      console.error("Failed to delete sequence:", error)
+      toast.error("Unable to delete sequence right now.")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Follow-up sequence</CardTitle>
+          {sequence && (
+            <Badge variant={sequence.isActive ? "positive" : "outline"} className="text-xs uppercase">
+              {sequence.isActive ? "Active" : "Paused"}
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Follow-ups go out after the first email and stop automatically when the lead replies, unsubscribes or bounces.
+          Merge fields work as in the first email, including {'{{firstName | "there"}}'}, {"{{#if company}}…{{/if}}"} and
+          sheet columns; a lead missing a required field gets no further steps. Leave the subject blank to reply in the
+          same thread.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-[1fr_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="sequence-name">Name</Label>
+            <Input id="sequence-name" value={name} onChange={(event) => setName(event.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(event) => setIsActive(event.target.checked)}
+              className="h-4 w-4 rounded border-border"
+            />
+            Sequence active
+          </label>
+        </div>
+
+        {steps.length === 0 && (
+          <div className="rounded-md border border-dashed border-border p-4 text-sm text-muted-foreground">
+            No follow-ups yet. Add a step to keep the conversation going.
+          </div>
+        )}
+
+        {steps.map((step, index) => (
+          <div key={step.key} className="space-y-3 rounded-lg border border-border/60 bg-muted/30 p-4">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm font-medium text-foreground">Step {index + 1}</p>
+              <Button size="sm" variant="ghost" onClick={() => removeStep(step.key)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-[160px_1fr]">
+              <div className="space-y-2">
+                <Label htmlFor={`delay-${step.key}`}>Wait (days)</Label>
+                <Input
+                  id={`delay-${step.key}`}
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={step.delayDays}
+                  onChange={(event) => updateStep(step.key, { delayDays: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`subject-${step.key}`}>Subject (optional)</Label>
+                <Input
+                  id={`subject-${step.key}`}
+                  value={step.subjectTemplate}
+                  placeholder="Re: previous subject"
+                  onChange={(event) => updateStep(step.key, { subjectTemplate: event.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`body-${step.key}`}>Body</Label>
+              <Textarea
+                id={`body-${step.key}`}
+                rows={5}
+                value={step.bodyTemplate}
+                placeholder="Hi {{firstName}}, just bumping this up in case it got buried."
+                onChange={(event) => updateStep(step.key, { bodyTemplate: event.target.value })}
+              />
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" onClick={addStep} disabled={steps.length >= MAX_STEPS}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add step
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving…" : "Save sequence"}
+          </Button>
+          {sequence && (
+            <Button variant="ghost" onClick={handleDelete} disabled={deleting}>
+              {deleting ? "Removing…" : "Remove sequence"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,459 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import axios from "axios"
+import { CheckCircle, PlusCircle, Trash2, XCircle } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { getApiClient } from "@/lib/http-client"
+import type { CampaignListResponse } from "@/lib/apollo/campaigns"
+import type {
+  AlertAction,
+  AlertEventType,
+  AlertReplyDisposition,
+  AlertRule,
+  AlertRuleFiring,
+  AlertRuleInput,
+} from "@/types/alerts"
+
+const EVENT_LABELS: Record<AlertEventType, string> = {
+  REPLY_RECEIVED: "Reply received",
+  EMAIL_SENT: "Email sent",
+  EMAIL_FAILED: "Email failed",
+  LEAD_FETCH_SUCCEEDED: "Lead pull completed",
+  LEAD_FETCH_FAILED: "Lead pull failed",
+}
+
+const ACTION_LABELS: Record<AlertAction, string> = {
+  FORWARD_REPLY: "Forward the reply",
+  PAUSE_CAMPAIGN: "Pause the campaign",
+  SEND_DIGEST: "Send a daily digest",
+}
+
+const DISPOSITION_LABELS: Record<AlertReplyDisposition, string> = {
+  NO_RESPONSE: "Unclassified",
+  POSITIVE: "Positive",
+  NEUTRAL: "Neutral",
+  NOT_INTERESTED: "Not interested",
+  UNSUB: "Unsubscribe",
+  BOUNCED: "Bounced",
+}
+
+const browserTimezone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+  } catch {
+    return "UTC"
+  }
+}
+
+const createDraft = (overrides: Partial<AlertRuleInput> = {}): AlertRuleInput => ({
+  name: "",
+  event: "REPLY_RECEIVED",
+  action: "FORWARD_REPLY",
+  disposition: null,
+  campaignId: null,
+  threshold: 1,
+  windowHours: 24,
+  recipient: null,
+  digestHour: 7,
+  timezone: browserTimezone(),
+  isActive: true,
+  ...overrides,
+})
+
+const PRESETS: Array<{ label: string; draft: Partial<AlertRuleInput> }> = [
+  {
+    label: "Forward positive replies",
+    draft: { name: "Forward positive replies", event: "REPLY_RECEIVED", disposition: "POSITIVE", action: "FORWARD_REPLY" },
+  },
+  {
+    label: "Pause after 3 unsubscribes in 24h",
+    draft: {
+      name: "Pause after 3 unsubscribes",
+      event: "REPLY_RECEIVED",
+      disposition: "UNSUB",
+      action: "PAUSE_CAMPAIGN",
+      threshold: 3,
+      windowHours: 24,
+    },
+  },
+  {
+    label: "Daily deliverability summary",
+    draft: { name: "Daily deliverability summary", event: null, action: "SEND_DIGEST", digestHour: 7 },
+  },
+]
+
+const timestampFormatter = new Intl.DateTimeFormat(undefined, {
+  month: "short",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+})
+
+const describeRule = (rule: AlertRule, campaignNames: Map<string, string>) => {
+  const recipient = rule.recipient ?? "your inbox"
+  if (rule.action === "SEND_DIGEST") {
+    return `Email a ${rule.windowHours}h activity summary to ${recipient} at ${String(rule.digestHour ?? 7).padStart(2, "0")}:00 (${rule.timezone})`
+  }
+
+  const eventLabel = rule.event ? EVENT_LABELS[rule.event].toLowerCase() : "event"
+  const disposition = rule.disposition ? `${DISPOSITION_LABELS[rule.disposition].toLowerCase()} ` : ""
+  const trigger =
+    rule.threshold > 1
+      ? `after ${rule.threshold} × ${disposition}${eventLabel} in ${rule.windowHours}h`
+      : `on every ${disposition}${eventLabel}`
+  const scope = rule.campaignId ? ` in ${campaignNames.get(rule.campaignId) ?? "one campaign"}` : ""
+  const action = rule.action === "FORWARD_REPLY" ? `forward it to ${recipient}` : "pause the campaign"
+  return `${action.charAt(0).toUpperCase()}${action.slice(1)} ${trigger}${scope}`
+}
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { error?: string })?.error || fallback
+  }
+  return fallback
+}
+
+const selectClassName = "h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+
+export function AlertRulesCard() {
+  const client = useMemo(() => getApiClient(), [])
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [history, setHistory] = useState<AlertRuleFiring[]>([])
+  const [campaigns, setCampaigns] = useState<Array<{ id: string; name: string }>>([])
+  const [loading, setLoading] = useState(true)
+  const [draft, setDraft] = useState<AlertRuleInput | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null)
+
+  const campaignNames = useMemo(() => new Map(campaigns.map((campaign) => [campaign.id, campaign.name])), [campaigns])
+
+  const loadHistory = useCallback(
+    async (ruleId: string | null) => {
+      const { data } = await client.get<{ history: AlertRuleFiring[] }>("/api/alerts/history", {
+        params: ruleId ? { ruleId } : undefined,
+      })
+      setHistory(data.history ?? [])
+    },
+    [client],
+  )
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [rulesResponse, campaignsResponse] = await Promise.all([
+          client.get<{ rules: AlertRule[] }>("/api/alerts/rules"),
+          client.get<CampaignListResponse>("/api/campaigns").catch(() => null),
+          loadHistory(null),
+        ])
+        setRules(rulesResponse.data.rules ?? [])
+        setCampaigns(campaignsResponse?.data.campaigns.map(({ id, name }) => ({ id, name })) ?? [])
+      } catch (error) {
+        console.error("Failed to load alert rules:", error)
+        toast.error("Unable to load alert rules.")
+      } finally {
+        setLoading(false)
+      }
+    }
+    void load()
+  }, [client, loadHistory])
+
+  const updateDraft = (patch: Partial<AlertRuleInput>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    setSaving(true)
+    try {
+      const { data } = await client.post<{ rule: AlertRule }>("/api/alerts/rules", draft)
+      setRules((prev) => [...prev, data.rule])
+      setDraft(null)
+      toast.success("Alert rule created")
+    } catch (error) {
+      toast.error(extractErrorMessage(error, "Unable to save the alert rule."))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: AlertRule) => {
+    try {
+      const { data } = await client.patch<{ rule: AlertRule }>(`/api/alerts/rules/${rule.id}`, {
+        isActive: !rule.isActive,
+      })
+      setRules((prev) => prev.map((item) => (item.id === rule.id ? data.rule : item)))
+    } catch (error) {
+      toast.error(extractErrorMessage(error, "Unable to update the alert rule."))
+    }
+  }
+
+  const handleDelete = async (rule: AlertRule) => {
+    try {
+      await client.delete(`/api/alerts/rules/${rule.id}`)
+      setRules((prev) => prev.filter((item) => item.id !== rule.id))
+      setHistory((prev) => prev.filter((item) => item.ruleId !== rule.id))
+      toast.success("Alert rule removed")
+    } catch (error) {
+      toast.error(extractErrorMessage(error, "Unable to remove the alert rule."))
+    }
+  }
+
+  const handleHistoryFilter = async (ruleId: string | null) => {
+    setHistoryRuleId(ruleId)
+    try {
+      await loadHistory(ruleId)
+    } catch (error) {
+      console.error("Failed to load alert history:", error)
+      toast.error("Unable to load alert history.")
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-mono">Alert Routing</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {loading ? (
+            <div className="py-6 text-center text-muted-text">Loading alert rules…</div>
+          ) : rules.length === 0 ? (
+            <div className="rounded-md border border-dashed border-border p-4 text-muted-foreground">
+              No alert rules yet. Start from a preset or build your own.
+            </div>
+          ) : (
+            rules.map((rule) => (
+              <div key={rule.id} className="flex items-start justify-between gap-3 rounded-lg border border-border p-4">
+                <div className="flex items-start gap-3">
+                  {rule.isActive ? (
+                    <CheckCircle className="mt-0.5 h-5 w-5 text-emerald-500" />
+                  ) : (
+                    <XCircle className="mt-0.5 h-5 w-5 text-muted-foreground" />
+                  )}
+                  <div>
+                    <div className="font-medium text-foreground">{rule.name}</div>
+                    <div className="text-xs text-muted-text">{describeRule(rule, campaignNames)}</div>
+                    <div className="text-xs text-muted-text">
+                      {rule.lastFiredAt ? `Last fired ${timestampFormatter.format(new Date(rule.lastFiredAt))}` : "Never fired"}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button size="sm" variant="ghost" onClick={() => handleHistoryFilter(rule.id)}>
+                    History
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleToggle(rule)}>
+                    {rule.isActive ? "Pause" : "Resume"}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+
+          {draft ? (
+            <div className="space-y-4 rounded-lg border border-border/60 bg-muted/30 p-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="alert-name">Name</Label>
+                  <Input id="alert-name" value={draft.name} onChange={(event) => updateDraft({ name: event.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="alert-action">Action</Label>
+                  <select
+                    id="alert-action"
+                    className={selectClassName}
+                    value={draft.action}
+                    onChange={(event) => {
+                      const action = event.target.value as AlertAction
+                      updateDraft({
+                        action,
+                        event: action === "SEND_DIGEST" ? null : action === "FORWARD_REPLY" ? "REPLY_RECEIVED" : draft.event ?? "REPLY_RECEIVED",
+                      })
+                    }}
+                  >
+                    {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {draft.action !== "SEND_DIGEST" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="alert-event">When</Label>
+                      <select
+                        id="alert-event"
+                        className={selectClassName}
+                        value={draft.event ?? "REPLY_RECEIVED"}
+                        disabled={draft.action === "FORWARD_REPLY"}
+                        onChange={(event) => updateDraft({ event: event.target.value as AlertEventType, disposition: null })}
+                      >
+                        {Object.entries(EVENT_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {draft.event === "REPLY_RECEIVED" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="alert-disposition">Disposition</Label>
+                        <select
+                          id="alert-disposition"
+                          className={selectClassName}
+                          value={draft.disposition ?? ""}
+                          onChange={(event) =>
+                            updateDraft({ disposition: (event.target.value || null) as AlertReplyDisposition | null })
+                          }
+                        >
+                          <option value="">Any disposition</option>
+                          {Object.entries(DISPOSITION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="alert-campaign">Campaign</Label>
+                      <select
+                        id="alert-campaign"
+                        className={selectClassName}
+                        value={draft.campaignId ?? ""}
+                        onChange={(event) => updateDraft({ campaignId: event.target.value || null })}
+                      >
+                        <option value="">All campaigns</option>
+                        {campaigns.map((campaign) => (
+                          <option key={campaign.id} value={campaign.id}>
+                            {campaign.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="alert-threshold">Times</Label>
+                        <Input
+                          id="alert-threshold"
+                          type="number"
+                          min={1}
+                          value={draft.threshold}
+                          onChange={(event) => updateDraft({ threshold: Number(event.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="alert-window">Within (hours)</Label>
+                        <Input
+                          id="alert-window"
+                          type="number"
+                          min={1}
+                          value={draft.windowHours}
+                          onChange={(event) => updateDraft({ windowHours: Number(event.target.value) })}
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                {draft.action === "SEND_DIGEST" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="alert-digest-hour">Deliver at (local hour, {draft.timezone})</Label>
+                    <Input
+                      id="alert-digest-hour"
+                      type="number"
+                      min={0}
+                      max={23}
+                      value={draft.digestHour ?? 7}
+                      onChange={(event) => updateDraft({ digestHour: Number(event.target.value) })}
+                    />
+                  </div>
+                )}
+
+                {draft.action !== "PAUSE_CAMPAIGN" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="alert-recipient">Send to</Label>
+                    <Input
+                      id="alert-recipient"
+                      type="email"
+                      placeholder="Defaults to your account email"
+                      value={draft.recipient ?? ""}
+                      onChange={(event) => updateDraft({ recipient: event.target.value || null })}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? "Saving…" : "Save rule"}
+                </Button>
+                <Button variant="ghost" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setDraft(createDraft())}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                New rule
+              </Button>
+              {PRESETS.map((preset) => (
+                <Button key={preset.label} variant="ghost" onClick={() => setDraft(createDraft(preset.draft))}>
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-3">
+            <CardTitle className="text-lg font-mono">Alert History</CardTitle>
+            {historyRuleId && (
+              <Button size="sm" variant="ghost" onClick={() => handleHistoryFilter(null)}>
+                Show all rules
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {history.length === 0 ? (
+            <div className="py-6 text-center text-muted-text">No alerts have fired yet.</div>
+          ) : (
+            history.map((firing) => (
+              <div key={firing.id} className="flex items-start justify-between gap-3 border-b border-border py-2 last:border-0">
+                <div>
+                  <div className="font-medium text-foreground">{firing.ruleName}</div>
+                  <div className="text-xs text-muted-text">{firing.detail ?? ACTION_LABELS[firing.action]}</div>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Badge variant={firing.status === "success" ? "positive" : "destructive"} className="text-xs uppercase">
+                    {firing.status}
+                  </Badge>
+                  <span className="font-mono text-xs text-muted-text">
+                    {timestampFormatter.format(new Date(firing.createdAt))}
+                  </span>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { getDeliverabilitySettingsAction, saveDeliverabilitySettingsAction } from "@/actions/deliverability"
+
+type DeliverabilitySettingsCardProps = {
+  isAdmin: boolean
+}
+
+export function DeliverabilitySettingsCard({ isAdmin }: DeliverabilitySettingsCardProps) {
+  const [loading, setLoading] = useState(true)
+  const [blocking, setBlocking] = useState(false)
+  const [threshold, setThreshold] = useState("50")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    getDeliverabilitySettingsAction()
+      .then((settings) => {
+        if (settings?.blockThreshold != null) {
+          setBlocking(true)
+          setThreshold(String(settings.blockThreshold))
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load deliverability settings:", error)
+        toast.error("Unable to load deliverability settings.")
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const saved = await saveDeliverabilitySettingsAction({ blockThreshold: blocking ? Number(threshold) : null })
+      setBlocking(saved.blockThreshold !== null)
+      if (saved.blockThreshold !== null) {
+        setThreshold(String(saved.blockThreshold))
+      }
+      toast.success("Deliverability settings saved")
+    } catch (error) {
+      console.error("Failed to save deliverability settings:", error)
+      toast.error(error instanceof Error ? error.message : "Unable to save deliverability settings.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-mono">Deliverability</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Every email is scored from 0 to 100 before it is queued, with points taken off for spam-trigger phrases, heavy
+          links or images, capitalised subjects, missing plain text and broken HTML. Scores show in the draft preview.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="py-6 text-center text-sm text-muted-text">Loading deliverability settings…</div>
+        ) : isAdmin ? (
+          <div className="grid gap-4 sm:grid-cols-[auto_160px_auto] sm:items-end">
+            <label className="flex items-center gap-2 text-sm text-foreground sm:pb-2.5">
+              <input
+                type="checkbox"
+                checked={blocking}
+                onChange={(event) => setBlocking(event.target.checked)}
+                className="h-4 w-4 rounded border-border"
+              />
+              Block emails that score below
+            </label>
+            <div className="space-y-2">
+              <Label htmlFor="deliverability-threshold">Minimum score</Label>
+              <Input
+                id="deliverability-threshold"
+                type="number"
+                min={1}
+                max={100}
+                value={threshold}
+                disabled={!blocking}
+                onChange={(event) => setThreshold(event.target.value)}
+              />
+            </div>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving…" : "Save"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {blocking
+              ? `Emails scoring below ${threshold} are not sent. Ask an admin to change this.`
+              : "Scores are advisory; nothing is blocked."}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import axios from "axios"
+import { Download, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { getApiClient } from "@/lib/http-client"
+import type { SuppressionEntry, SuppressionImportResult, SuppressionScope } from "@/types/suppression"
+
+type SuppressionListCardProps = {
+  isAdmin: boolean
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual",
+  import: "CSV import",
+  reply: "Reply",
+  unsubscribe: "Unsubscribe link",
+}
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, { year: "numeric", month: "short", day: "numeric" })
+
+const extractErrorMessage = (error: unknown, fallback: string) => {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { error?: string })?.error || fallback
+  }
+  return fallback
+}
+
+export function SuppressionListCard({ isAdmin }: SuppressionListCardProps) {
+  const client = useMemo(() => getApiClient(), [])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [entries, setEntries] = useState<SuppressionEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [value, setValue] = useState("")
+  const [reason, setReason] = useState("")
+  const [scope, setScope] = useState<SuppressionScope>("user")
+  const [saving, setSaving] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const { data } = await client.get<{ entries: SuppressionEntry[] }>("/api/suppressions")
+      setEntries(data.entries ?? [])
+    } catch (error) {
+      console.error("Failed to load suppression list:", error)
+      toast.error("Unable to load the suppression list.")
+    } finally {
+      setLoading(false)
+    }
+  }, [client])
+
+  useEffect(() => {
+    void loadEntries()
+  }, [loadEntries])
+
+  const handleAdd = async () => {
+    if (!value.trim()) return
+    setSaving(true)
+    try {
+      const { data } = await client.post<{ entry: SuppressionEntry }>("/api/suppressions", { value, reason, scope })
+      setEntries((prev) => [data.entry, ...prev.filter((entry) => entry.id !== data.entry.id)])
+      setValue("")
+      setReason("")
+      toast.success("Added to suppression list")
+    } catch (error) {
+      toast.error(extractErrorMessage(error, "Unable to add this entry."))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (entry: SuppressionEntry) => {
+    setRemovingId(entry.id)
+    try {
+      await client.delete(`/api/suppressions/${entry.id}`)
+      setEntries((prev) => prev.filter((item) => item.id !== entry.id))
+      toast.success(`${entry.value} removed`)
+    } catch (error) {
+      toast.error(extractErrorMessage(error, "Unable to remove this entry."))
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("scope", scope)
+      const { data } = await client.post<SuppressionImportResult>("/api/suppressions/import", formData)
+      const invalidNote = data.invalid.length ? `, ${data.invalid.length} invalid` : ""
+      toast.success(`Imported ${data.imported} entries (${data.skipped} already listed${invalidNote})`)
+      await loadEntries()
+    } catch (error) {
+      toast.error(extractErrorMessage(error, "Unable to import the suppression CSV."))
+    } finally {
+      setImporting(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-mono">Suppression List</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Suppressed emails and domains are never sent to. Use {"@domain.com"} to block a whole domain.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 sm:grid-cols-[1fr_1fr_auto_auto]">
+          <Input
+            value={value}
+            placeholder="email@company.com or @company.com"
+            onChange={(event) => setValue(event.target.value)}
+          />
+          <Input value={reason} placeholder="Reason (optional)" onChange={(event) => setReason(event.target.value)} />
+          {isAdmin && (
+            <select
+              value={scope}
+              onChange={(event) => setScope(event.target.value as SuppressionScope)}
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+            >
+              <option value="user">Just me</option>
+              <option value="org">Everyone</option>
+            </select>
+          )}
+          <Button onClick={handleAdd} disabled={saving || !value.trim()}>
+            {saving ? "Adding…" : "Add"}
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="py-6 text-center text-sm text-muted-text">Loading suppression list…</div>
+        ) : entries.length === 0 ? (
+          <div className="rounded-md border border-dashed border-border p-4 text-sm text-muted-foreground">
+            Nothing is suppressed yet.
+          </div>
+        ) : (
+          entries.map((entry) => {
+            const canRemove = entry.scope === "user" || isAdmin
+            return (
+              <div key={entry.id} className="flex items-center justify-between rounded-lg border border-border p-4">
+                <div>
+                  <div className="flex items-center gap-2 font-medium text-sm text-foreground">
+                    {entry.type === "DOMAIN" ? `@${entry.value}` : entry.value}
+                    {entry.scope === "org" && (
+                      <Badge variant="outline" className="text-[10px] uppercase">
+                        Org-wide
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-text">
+                    {entry.reason || (entry.type === "DOMAIN" ? "Domain Block" : "Suppressed")} • Added{" "}
+                    {dateFormatter.format(new Date(entry.createdAt))} • {SOURCE_LABELS[entry.source] ?? entry.source}
+                  </div>
+                </div>
+                {canRemove && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemove(entry)}
+                    disabled={removingId === entry.id}
+                  >
+                    {removingId === entry.id ? "Removing…" : "Remove"}
+                  </Button>
+                )}
+              </div>
+            )
+          })
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) {
+                void handleImport(file)
+              }
+            }}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+            <Upload className="mr-2 h-4 w-4" />
+            {importing ? "Importing…" : "Upload suppression CSV"}
+          </Button>
+          <Button variant="outline" onClick={() => window.open("/api/suppressions/export", "_blank")}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
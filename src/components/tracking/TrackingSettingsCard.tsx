@@ -0,0 +1,100 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { saveTrackingSettingsAction } from "@/actions/tracking"
+import type { CampaignTracking, TrackingSettings, TrackingTarget } from "@/types/tracking"
+
+type TrackingSettingsCardProps = {
+  target: TrackingTarget
+  tracking: CampaignTracking
+}
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${rate}%`)
+
+export function TrackingSettingsCard({ target, tracking }: TrackingSettingsCardProps) {
+  const [settings, setSettings] = useState<TrackingSettings>(tracking.settings)
+  const [saving, setSaving] = useState(false)
+  const { stats } = tracking
+
+  const update = async (next: TrackingSettings) => {
+    const previous = settings
+    setSettings(next)
+    setSaving(true)
+    try {
+      setSettings(await saveTrackingSettingsAction({ target, ...next }))
+      toast.success("Tracking settings saved")
+    } catch (error) {
+      console.error("Failed to save tracking settings:", error)
+      setSettings(previous)
+      toast.error(error instanceof Error ? error.message : "Unable to save tracking settings right now.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="font-mono text-sm uppercase text-muted-foreground">Open &amp; click tracking</CardTitle>
+          {!tracking.available && (
+            <Badge variant="outline" className="text-xs uppercase">
+              Unavailable
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {tracking.available
+            ? "Adds an invisible image to count opens and routes links through a redirect to count clicks. Changes apply to emails sent from now on."
+            : "Set TRACKING_BASE_URL or NEXTJS_URL to a public address so tracking links can reach this app."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-6">
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={settings.trackOpens}
+              disabled={saving || !tracking.available}
+              onChange={() => update({ ...settings, trackOpens: !settings.trackOpens })}
+              className="h-4 w-4 rounded border-border"
+            />
+            Track opens
+          </label>
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={settings.trackClicks}
+              disabled={saving || !tracking.available}
+              onChange={() => update({ ...settings, trackClicks: !settings.trackClicks })}
+              className="h-4 w-4 rounded border-border"
+            />
+            Track clicks
+          </label>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <div className="text-2xl font-mono font-bold text-foreground">{formatRate(stats.openRate)}</div>
+            <div className="text-xs uppercase text-muted-foreground">
+              Open rate · {stats.opened} of {stats.openTrackedSends} tracked
+            </div>
+          </div>
+          <div>
+            <div className="text-2xl font-mono font-bold text-foreground">{formatRate(stats.clickRate)}</div>
+            <div className="text-xs uppercase text-muted-foreground">
+              Click rate · {stats.clicked} of {stats.clickTrackedSends} tracked
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Opens are approximate: some mail clients block images and others load them automatically.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,358 @@
+"use client"
+
+import { useState } from "react"
+import { PlusCircle, Trash2, Trophy } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  deleteVariantExperimentAction,
+  promoteVariantAction,
+  saveVariantExperimentAction,
+} from "@/actions/variants"
+import type { VariantExperimentReport, VariantExperimentTarget, VariantMetric } from "@/types/variant"
+
+type VariantDraft = {
+  key: string
+  id?: string
+  label: string
+  subjectTemplate: string
+  bodyTemplate: string
+  isActive: boolean
+}
+
+type VariantExperimentEditorProps = {
+  target: VariantExperimentTarget
+  initialReport: VariantExperimentReport | null
+}
+
+const MAX_VARIANTS = 5
+
+const METRIC_LABELS: Record<VariantMetric, string> = {
+  reply: "Reply rate",
+  positive: "Positive reply rate",
+}
+
+const createVariantKey = () => Math.random().toString(36).slice(2, 10)
+
+const variantLabel = (index: number) => `Variant ${String.fromCharCode(65 + index)}`
+
+const emptyVariant = (index: number): VariantDraft => ({
+  key: createVariantKey(),
+  label: variantLabel(index),
+  subjectTemplate: "",
+  bodyTemplate: "",
+  isActive: true,
+})
+
+const toVariantDrafts = (report: VariantExperimentReport | null): VariantDraft[] =>
+  report?.experiment.variants.map((variant) => ({
+    key: variant.id ?? createVariantKey(),
+    id: variant.id,
+    label: variant.label,
+    subjectTemplate: variant.subjectTemplate,
+    bodyTemplate: variant.bodyTemplate,
+    isActive: variant.isActive,
+  })) ?? [emptyVariant(0), emptyVariant(1)]
+
+const formatRate = (value: number | null) => (value === null ? "—" : `${value}%`)
+
+export function VariantExperimentEditor({ target, initialReport }: VariantExperimentEditorProps) {
+  const [report, setReport] = useState<VariantExperimentReport | null>(initialReport)
+  const [variants, setVariants] = useState<VariantDraft[]>(() => toVariantDrafts(initialReport))
+  const [isActive, setIsActive] = useState(initialReport?.experiment.isActive ?? true)
+  const [metric, setMetric] = useState<VariantMetric>(initialReport?.experiment.metric ?? "reply")
+  const [autoPromote, setAutoPromote] = useState(initialReport?.experiment.autoPromote ?? false)
+  const [minSampleSize, setMinSampleSize] = useState(String(initialReport?.experiment.minSampleSize ?? 50))
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const [promoting, setPromoting] = useState<string | null>(null)
+
+  const experiment = report?.experiment ?? null
+  const winner = experiment?.variants.find((variant) => variant.id === experiment.winnerVariantId) ?? null
+
+  const applyReport = (next: VariantExperimentReport) => {
+    setReport(next)
+    setVariants(toVariantDrafts(next))
+  }
+
+  const updateVariant = (key: string, patch: Partial<VariantDraft>) => {
+    setVariants((prev) => prev.map((variant) => (variant.key === key ? { ...variant, ...patch } : variant)))
+  }
+
+  const addVariant = () => {
+    setVariants((prev) => (prev.length >= MAX_VARIANTS ? prev : [...prev, emptyVariant(prev.length)]))
+  }
+
+  const removeVariant = (key: string) => {
+    setVariants((prev) => prev.filter((variant) => variant.key !== key))
+  }
+
+  const handleSave = async () => {
+    if (variants.some((variant) => !variant.subjectTemplate.trim() || !variant.bodyTemplate.trim())) {
+      toast.error("Every variant needs a subject and a body.")
+      return
+    }
+    if (variants.filter((variant) => variant.isActive).length < 2) {
+      toast.error("Keep at least two variants active to run a test.")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const saved = await saveVariantExperimentAction({
+        target,
+        isActive,
+        metric,
+        autoPromote,
+        minSampleSize: Math.max(1, Number(minSampleSize) || 1),
+        variants: variants.map(({ id, label, subjectTemplate, bodyTemplate, isActive: active }) => ({
+          id,
+          label,
+          subjectTemplate,
+          bodyTemplate,
+          isActive: active,
+        })),
+      })
+      applyReport(saved)
+      toast.success("A/B test saved")
+    } catch (error) {
+      console.error("Failed to save A/B test:", error)
+      toast.error(error instanceof Error ? error.message : "Unable to save A/B test right now.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePromote = async (variantId: string | null) => {
+    if (!experiment) return
+    setPromoting(variantId ?? "reset")
+    try {
+      const updated = await promoteVariantAction(experiment.id, variantId)
+      applyReport(updated)
+      setAutoPromote(updated.experiment.autoPromote)
+      toast.success(variantId ? "Variant promoted" : "Traffic is split across variants again")
+    } catch (error) {
+      console.error("Failed to promote variant:", error)
+      toast.error(error instanceof Error ? error.message : "Unable to promote variant right now.")
+    } finally {
+      setPromoting(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!experiment) return
+    setDeleting(true)
+    try {
+      await deleteVariantExperimentAction(experiment.id)
+      setReport(null)
+      setVariants(toVariantDrafts(null))
+      toast.success("A/B test removed")
+    } catch (error) {
+      console.error("Failed to delete A/B test:", error)
+      toast.error("Unable to delete A/B test right now.")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="font-mono text-sm uppercase text-muted-foreground">A/B test</CardTitle>
+          {experiment && (
+            <Badge variant={experiment.isActive ? "positive" : "outline"} className="text-xs uppercase">
+              {winner ? `Winner: ${winner.label}` : experiment.isActive ? "Running" : "Paused"}
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          While the test runs, each lead is assigned one variant and always gets the same one. Variants replace the drafted
+          first email. Use spintax such as {"{Hi|Hello|Hey}"} to vary wording per lead, and merge fields like{" "}
+          {"{{firstName}}"} as usual.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3 sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="variant-metric">Winning metric</Label>
+            <select
+              id="variant-metric"
+              value={metric}
+              onChange={(event) => setMetric(event.target.value as VariantMetric)}
+              className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+            >
+              {(Object.keys(METRIC_LABELS) as VariantMetric[]).map((value) => (
+                <option key={value} value={value}>
+                  {METRIC_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="variant-sample">Minimum sends per variant</Label>
+            <Input
+              id="variant-sample"
+              type="number"
+              min={1}
+              value={minSampleSize}
+              onChange={(event) => setMinSampleSize(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2 text-sm text-foreground">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(event) => setIsActive(event.target.checked)}
+                className="h-4 w-4 rounded border-border"
+              />
+              Test active
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={autoPromote}
+                onChange={(event) => setAutoPromote(event.target.checked)}
+                className="h-4 w-4 rounded border-border"
+              />
+              Promote the winner automatically
+            </label>
+          </div>
+        </div>
+
+        {report && report.stats.length > 0 && (
+          <div className="overflow-x-auto rounded-lg border border-border/60">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40 text-left text-xs uppercase text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Variant</th>
+                  <th className="px-3 py-2 font-medium">Sent</th>
+                  <th className="px-3 py-2 font-medium">Replies</th>
+                  <th className="px-3 py-2 font-medium">Positive</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {report.stats.map((row) => (
+                  <tr key={row.variantId} className="border-t border-border/60">
+                    <td className="px-3 py-2 text-foreground">
+                      <div className="flex items-center gap-2">
+                        {row.label}
+                        {row.variantId === experiment?.winnerVariantId && (
+                          <Trophy className="h-4 w-4 text-amber-500" aria-label="Winner" />
+                        )}
+                        {!row.isActive && (
+                          <Badge variant="outline" className="text-xs uppercase">
+                            Archived
+                          </Badge>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-muted-foreground">{row.sent}</td>
+                    <td className="px-3 py-2 text-muted-foreground">
+                      {row.replied} ({formatRate(row.replyRate)})
+                    </td>
+                    <td className="px-3 py-2 text-muted-foreground">
+                      {row.positive} ({formatRate(row.positiveRate)})
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.isActive && row.variantId !== experiment?.winnerVariantId && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handlePromote(row.variantId)}
+                          disabled={promoting !== null}
+                        >
+                          {promoting === row.variantId ? "Promoting…" : "Promote"}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {winner && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-border/60 bg-muted/30 p-3 text-sm">
+            <span className="text-muted-foreground">
+              Every new lead now gets <span className="font-medium text-foreground">{winner.label}</span>.
+            </span>
+            <Button size="sm" variant="ghost" onClick={() => handlePromote(null)} disabled={promoting !== null}>
+              {promoting === "reset" ? "Resuming…" : "Resume test"}
+            </Button>
+          </div>
+        )}
+
+        {variants.map((variant, index) => (
+          <div key={variant.key} className="space-y-3 rounded-lg border border-border/60 bg-muted/30 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <Input
+                aria-label={`Variant ${index + 1} label`}
+                value={variant.label}
+                onChange={(event) => updateVariant(variant.key, { label: event.target.value })}
+                className="max-w-xs"
+              />
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={variant.isActive}
+                    onChange={(event) => updateVariant(variant.key, { isActive: event.target.checked })}
+                    className="h-4 w-4 rounded border-border"
+                  />
+                  Active
+                </label>
+                <Button size="sm" variant="ghost" onClick={() => removeVariant(variant.key)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`variant-subject-${variant.key}`}>Subject</Label>
+              <Input
+                id={`variant-subject-${variant.key}`}
+                value={variant.subjectTemplate}
+                placeholder="{Quick question|An idea} for {{company}}"
+                onChange={(event) => updateVariant(variant.key, { subjectTemplate: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`variant-body-${variant.key}`}>Body</Label>
+              <Textarea
+                id={`variant-body-${variant.key}`}
+                rows={6}
+                value={variant.bodyTemplate}
+                placeholder={`{Hi|Hello} {{firstName | "there"}}, …`}
+                onChange={(event) => updateVariant(variant.key, { bodyTemplate: event.target.value })}
+              />
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" onClick={addVariant} disabled={variants.length >= MAX_VARIANTS}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add variant
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving…" : "Save A/B test"}
+          </Button>
+          {experiment && (
+            <Button variant="ghost" onClick={handleDelete} disabled={deleting}>
+              {deleting ? "Removing…" : "Remove A/B test"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,157 @@
+import type { AlertRule, ReplyDisposition } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import { removePendingCampaignJobs } from '@/lib/queue'
+import { getDefaultGmailAccount } from '@/lib/google-gmail/accounts'
+import { formatEmailBody } from '@/lib/email/format'
+import { getEmailTransport } from '@/lib/email/transports'
+
+import type { AlertEventPayload } from './index'
+
+const DIGEST_EVENT_LABELS: Record<string, string> = {
+  REPLY_RECEIVED: 'Replies received',
+  EMAIL_SENT: 'Emails sent',
+  EMAIL_FAILED: 'Emails failed',
+  LEAD_FETCH_SUCCEEDED: 'Lead pulls completed',
+  LEAD_FETCH_FAILED: 'Lead pulls failed',
+}
+
+const DISPOSITION_LABELS: Record<ReplyDisposition, string> = {
+  NO_RESPONSE: 'Unclassified',
+  POSITIVE: 'Positive',
+  NEUTRAL: 'Neutral',
+  NOT_INTERESTED: 'Not interested',
+  UNSUB: 'Unsubscribed',
+  BOUNCED: 'Bounced',
+}
+
+async function resolveSender(userId: string) {
+  const [gmailAccount, user] = await Promise.all([
+    getDefaultGmailAccount(userId),
+    prisma.user.findUnique({ where: { id: userId }, select: { email: true } }),
+  ])
+  if (!gmailAccount) {
+    throw new Error('Connect a Gmail account to send alert emails')
+  }
+  return { gmailAccount, defaultRecipient: user?.email ?? gmailAccount.emailAddress }
+}
+
+export async function pauseCampaignForAlert(rule: AlertRule, payload: AlertEventPayload): Promise<string> {
+  if (!payload.campaignId) {
+    throw new Error('Event is not linked to a campaign')
+  }
+
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: payload.campaignId, userId: rule.userId },
+    select: { id: true, name: true, isActive: true },
+  })
+  if (!campaign) {
+    throw new Error('Campaign not found')
+  }
+  if (!campaign.isActive) {
+    return `Campaign "${campaign.name}" was already paused`
+  }
+
+  await prisma.campaign.update({ where: { id: campaign.id }, data: { isActive: false } })
+  await removePendingCampaignJobs(campaign.id)
+  await prisma.campaignJob.updateMany({
+    where: { campaignId: campaign.id, status: 'PENDING' },
+    data: { status: 'CANCELLED', finishedAt: new Date(), lastError: `Paused by alert rule "${rule.name}"`, nextRunAt: null },
+  })
+
+  return `Paused campaign "${campaign.name}"`
+}
+
+export async function forwardReplyForAlert(rule: AlertRule, payload: AlertEventPayload): Promise<string> {
+  if (payload.event !== 'REPLY_RECEIVED' || !payload.referenceId) {
+    throw new Error('Only reply events can be forwarded')
+  }
+
+  const reply = await prisma.emailReply.findFirst({
+    where: { id: payload.referenceId, userId: rule.userId },
+    select: { leadEmail: true, subject: true, bodyPlain: true, bodyHtml: true, snippet: true, receivedAt: true },
+  })
+  if (!reply) {
+    throw new Error('Reply not found')
+  }
+
+  const { gmailAccount, defaultRecipient } = await resolveSender(rule.userId)
+  const recipient = rule.recipient || defaultRecipient
+  const intro = `Forwarded by alert rule "${rule.name}". Reply from ${reply.leadEmail} received ${reply.receivedAt.toUTCString()}.`
+  const content = reply.bodyPlain || reply.snippet || ''
+  const forwarded = formatEmailBody(`${intro}\n\n${content}`)
+
+  await getEmailTransport(gmailAccount).send({
+    to: recipient,
+    subject: `Fwd: ${reply.subject || 'Reply from ' + reply.leadEmail}`,
+    htmlBody: reply.bodyHtml ? `<p>${intro}</p><hr />${reply.bodyHtml}` : forwarded.html,
+    textBody: forwarded.text,
+    replyTo: reply.leadEmail,
+  })
+
+  return `Forwarded reply from ${reply.leadEmail} to ${recipient}`
+}
+
+/**
+ * Emails a summary of the rule owner's activity over the rule window: alert events by type,
+ * reply dispositions and the bounce rate of emails sent in that period.
+ */
+export async function sendAlertDigest(rule: AlertRule): Promise<string> {
+  const since = new Date(Date.now() - Math.max(1, rule.windowHours) * 60 * 60 * 1000)
+
+  const [eventCounts, dispositionCounts, bouncedJobs, otherBounceReplies] = await Promise.all([
+    prisma.alertEventLog.groupBy({
+      by: ['event'],
+      where: { userId: rule.userId, createdAt: { gte: since } },
+      _count: { _all: true },
+    }),
+    prisma.alertEventLog.groupBy({
+      by: ['disposition'],
+      where: { userId: rule.userId, event: 'REPLY_RECEIVED', createdAt: { gte: since } },
+      _count: { _all: true },
+    }),
+    // Delivery status notifications mark the send job itself as bounced.
+    prisma.emailSendJob.count({
+      where: { userId: rule.userId, status: 'BOUNCED', bouncedAt: { gte: since } },
+    }),
+    // Bounce replies not already counted through their send job.
+    prisma.emailReply.count({
+      where: {
+        userId: rule.userId,
+        disposition: 'BOUNCED',
+        receivedAt: { gte: since },
+        OR: [{ emailSendJobId: null }, { emailSendJob: { status: { not: 'BOUNCED' } } }],
+      },
+    }),
+  ])
+
+  const countFor = (event: string) => eventCounts.find((row) => row.event === event)?._count._all ?? 0
+  const sent = countFor('EMAIL_SENT')
+  const bounced = bouncedJobs + otherBounceReplies
+  const bounceRate = sent > 0 ? `${((bounced / sent) * 100).toFixed(1)}%` : '—'
+
+  const lines = [
+    `Activity for the last ${rule.windowHours} hours:`,
+    '',
+    ...Object.entries(DIGEST_EVENT_LABELS).map(([event, label]) => `${label}: ${countFor(event)}`),
+    `Bounce rate: ${bounceRate}`,
+    '',
+    'Replies by disposition:',
+    ...(dispositionCounts.length
+      ? dispositionCounts.map((row) => `${row.disposition ? DISPOSITION_LABELS[row.disposition] : 'Unknown'}: ${row._count._all}`)
+      : ['No replies in this period.']),
+  ]
+
+  const { gmailAccount, defaultRecipient } = await resolveSender(rule.userId)
+  const recipient = rule.recipient || defaultRecipient
+  const body = formatEmailBody(lines.join('\n'))
+
+  await getEmailTransport(gmailAccount).send({
+    to: recipient,
+    subject: `${rule.name} — ${new Date().toLocaleDateString('en-US', { timeZone: rule.timezone, dateStyle: 'medium' })}`,
+    htmlBody: body.html,
+    textBody: body.text,
+  })
+
+  return `Sent digest to ${recipient}`
+}
@@ -0,0 +1,185 @@
+import type { AlertEventType, AlertRule, ReplyDisposition } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+
+import { forwardReplyForAlert, pauseCampaignForAlert, sendAlertDigest } from './actions'
+
+const HOUR_MS = 60 * 60 * 1000
+const DIGEST_MIN_INTERVAL_MS = 20 * HOUR_MS
+const DEFAULT_DIGEST_HOUR = 7
+
+export type AlertEventPayload = {
+  userId: string
+  event: AlertEventType
+  campaignId?: string | null
+  disposition?: ReplyDisposition | null
+  /** Id of the reply, email send job or campaign job that produced the event. */
+  referenceId?: string | null
+}
+
+const matchesRule = (rule: AlertRule, payload: AlertEventPayload) => {
+  if (rule.campaignId && rule.campaignId !== payload.campaignId) {
+    return false
+  }
+  if (rule.disposition && rule.disposition !== payload.disposition) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Threshold rules fire once per window: events are counted from the start of the window or the
+ * rule's last firing for the same campaign, whichever is later.
+ */
+async function hasReachedThreshold(rule: AlertRule, payload: AlertEventPayload): Promise<boolean> {
+  if (rule.threshold <= 1) {
+    return true
+  }
+
+  const scopedCampaignId = rule.action === 'PAUSE_CAMPAIGN' || rule.campaignId ? payload.campaignId ?? null : undefined
+  const lastFiring = await prisma.alertRuleFiring.findFirst({
+    where: {
+      ruleId: rule.id,
+      status: 'success',
+      ...(scopedCampaignId !== undefined ? { campaignId: scopedCampaignId } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  })
+
+  const windowStart = new Date(Date.now() - Math.max(1, rule.windowHours) * HOUR_MS)
+  const since = lastFiring && lastFiring.createdAt > windowStart ? lastFiring.createdAt : windowStart
+
+  const count = await prisma.alertEventLog.count({
+    where: {
+      userId: rule.userId,
+      event: payload.event,
+      createdAt: { gte: since },
+      ...(rule.disposition ? { disposition: rule.disposition } : {}),
+      ...(scopedCampaignId !== undefined ? { campaignId: scopedCampaignId } : {}),
+    },
+  })
+
+  return count >= rule.threshold
+}
+
+async function recordFiring(
+  rule: AlertRule,
+  payload: Partial<AlertEventPayload>,
+  run: () => Promise<string>,
+): Promise<void> {
+  let status: 'success' | 'failed' = 'success'
+  let detail: string
+  try {
+    detail = await run()
+  } catch (error) {
+    status = 'failed'
+    detail = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`Alert rule ${rule.id} failed:`, error)
+  }
+
+  await prisma.$transaction([
+    prisma.alertRuleFiring.create({
+      data: {
+        ruleId: rule.id,
+        userId: rule.userId,
+        event: payload.event ?? null,
+        action: rule.action,
+        status,
+        detail: detail.slice(0, 500),
+        campaignId: payload.campaignId ?? null,
+        referenceId: payload.referenceId ?? null,
+      },
+    }),
+    prisma.alertRule.update({
+      where: { id: rule.id },
+      data: { lastFiredAt: new Date() },
+    }),
+  ])
+}
+
+function runEventAction(rule: AlertRule, payload: AlertEventPayload): Promise<string> {
+  switch (rule.action) {
+    case 'PAUSE_CAMPAIGN':
+      return pauseCampaignForAlert(rule, payload)
+    case 'FORWARD_REPLY':
+      return forwardReplyForAlert(rule, payload)
+    default:
+      return Promise.resolve('Digest rules run on their schedule')
+  }
+}
+
+/**
+ * Records an event and runs every matching rule owned by the user. Digest rules only collect
+ * events here; they are sent by `runDueAlertDigests`.
+ */
+export async function emitAlertEvent(payload: AlertEventPayload): Promise<void> {
+  await prisma.alertEventLog.create({
+    data: {
+      userId: payload.userId,
+      event: payload.event,
+      campaignId: payload.campaignId ?? null,
+      disposition: payload.disposition ?? null,
+      referenceId: payload.referenceId ?? null,
+    },
+  })
+
+  const rules = await prisma.alertRule.findMany({
+    where: {
+      userId: payload.userId,
+      event: payload.event,
+      isActive: true,
+      action: { not: 'SEND_DIGEST' },
+    },
+  })
+
+  for (const rule of rules) {
+    // Link unsubscribes count as UNSUB replies but have no message to forward.
+    if (rule.action === 'FORWARD_REPLY' && !payload.referenceId) {
+      continue
+    }
+    if (!matchesRule(rule, payload) || !(await hasReachedThreshold(rule, payload))) {
+      continue
+    }
+    await recordFiring(rule, payload, () => runEventAction(rule, payload))
+  }
+}
+
+/**
+ * Fire-and-forget variant for producers (reply sync, workers) that must never fail because of alerting.
+ */
+export function triggerAlertEvent(payload: AlertEventPayload): void {
+  void emitAlertEvent(payload).catch((error) => {
+    console.error('Failed to evaluate alert rules', error)
+  })
+}
+
+const getLocalHour = (date: Date, timezone: string) => {
+  try {
+    return Number(new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone }).format(date))
+  } catch {
+    return date.getUTCHours()
+  }
+}
+
+/**
+ * Sends every active digest whose local delivery hour is now. Called hourly by the alert worker.
+ */
+export async function runDueAlertDigests(now: Date = new Date()): Promise<number> {
+  const rules = await prisma.alertRule.findMany({
+    where: { action: 'SEND_DIGEST', isActive: true },
+  })
+
+  let sent = 0
+  for (const rule of rules) {
+    if (getLocalHour(now, rule.timezone) !== (rule.digestHour ?? DEFAULT_DIGEST_HOUR)) {
+      continue
+    }
+    if (rule.lastFiredAt && now.getTime() - rule.lastFiredAt.getTime() < DIGEST_MIN_INTERVAL_MS) {
+      continue
+    }
+    await recordFiring(rule, {}, () => sendAlertDigest(rule))
+    sent += 1
+  }
+  return sent
+}
@@ -0,0 +1,120 @@
+import type { AlertRule as AlertRuleRecord, AlertRuleFiring as AlertRuleFiringRecord, Prisma } from '@prisma/client'
+
+import { isValidEmail } from '@/lib/utils'
+import type { AlertAction, AlertEventType, AlertReplyDisposition, AlertRule, AlertRuleFiring, AlertRuleInput } from '@/types/alerts'
+
+const ALERT_EVENTS: AlertEventType[] = ['REPLY_RECEIVED', 'EMAIL_SENT', 'EMAIL_FAILED', 'LEAD_FETCH_SUCCEEDED', 'LEAD_FETCH_FAILED']
+const ALERT_ACTIONS: AlertAction[] = ['PAUSE_CAMPAIGN', 'FORWARD_REPLY', 'SEND_DIGEST']
+const REPLY_DISPOSITIONS: AlertReplyDisposition[] = ['NO_RESPONSE', 'POSITIVE', 'NEUTRAL', 'NOT_INTERESTED', 'UNSUB', 'BOUNCED']
+
+export class AlertRuleValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AlertRuleValidationError'
+  }
+}
+
+export const toAlertRule = (rule: AlertRuleRecord): AlertRule => ({
+  id: rule.id,
+  name: rule.name,
+  event: rule.event,
+  action: rule.action,
+  disposition: rule.disposition,
+  campaignId: rule.campaignId,
+  threshold: rule.threshold,
+  windowHours: rule.windowHours,
+  recipient: rule.recipient,
+  digestHour: rule.digestHour,
+  timezone: rule.timezone,
+  isActive: rule.isActive,
+  lastFiredAt: rule.lastFiredAt?.toISOString() ?? null,
+  createdAt: rule.createdAt.toISOString(),
+})
+
+export const toAlertRuleFiring = (firing: AlertRuleFiringRecord & { rule: { name: string } }): AlertRuleFiring => ({
+  id: firing.id,
+  ruleId: firing.ruleId,
+  ruleName: firing.rule.name,
+  event: firing.event,
+  action: firing.action,
+  status: firing.status === 'success' ? 'success' : 'failed',
+  detail: firing.detail,
+  campaignId: firing.campaignId,
+  createdAt: firing.createdAt.toISOString(),
+})
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validates a rule submitted from the Alerts tab and returns the columns to persist.
+ */
+export function parseAlertRuleInput(input: Partial<AlertRuleInput>): Omit<Prisma.AlertRuleUncheckedCreateInput, 'userId'> {
+  const name = input.name?.trim()
+  if (!name) {
+    throw new AlertRuleValidationError('Give the rule a name')
+  }
+
+  const action = input.action
+  if (!action || !ALERT_ACTIONS.includes(action)) {
+    throw new AlertRuleValidationError('Choose what the rule should do')
+  }
+
+  const event = action === 'SEND_DIGEST' ? null : input.event ?? null
+  if (action !== 'SEND_DIGEST' && (!event || !ALERT_EVENTS.includes(event))) {
+    throw new AlertRuleValidationError('Choose the event that triggers the rule')
+  }
+  if (action === 'FORWARD_REPLY' && event !== 'REPLY_RECEIVED') {
+    throw new AlertRuleValidationError('Only reply events can be forwarded')
+  }
+
+  const disposition = event === 'REPLY_RECEIVED' ? input.disposition ?? null : null
+  if (disposition && !REPLY_DISPOSITIONS.includes(disposition)) {
+    throw new AlertRuleValidationError('Unknown reply disposition')
+  }
+
+  const threshold = Math.round(Number(input.threshold ?? 1))
+  if (!Number.isFinite(threshold) || threshold < 1 || threshold > 1000) {
+    throw new AlertRuleValidationError('Threshold must be between 1 and 1000')
+  }
+
+  const windowHours = Math.round(Number(input.windowHours ?? 24))
+  if (!Number.isFinite(windowHours) || windowHours < 1 || windowHours > 24 * 30) {
+    throw new AlertRuleValidationError('Window must be between 1 hour and 30 days')
+  }
+
+  const recipient = input.recipient?.trim().toLowerCase() || null
+  if (recipient && !isValidEmail(recipient)) {
+    throw new AlertRuleValidationError('Recipient must be a valid email address')
+  }
+
+  const digestHour = action === 'SEND_DIGEST' ? Math.round(Number(input.digestHour ?? 7)) : null
+  if (digestHour !== null && (!Number.isFinite(digestHour) || digestHour < 0 || digestHour > 23)) {
+    throw new AlertRuleValidationError('Digest hour must be between 0 and 23')
+  }
+
+  const timezone = input.timezone?.trim() || 'UTC'
+  if (!isValidTimezone(timezone)) {
+    throw new AlertRuleValidationError('Unknown time zone')
+  }
+
+  return {
+    name: name.slice(0, 120),
+    action,
+    event,
+    disposition,
+    campaignId: input.campaignId?.trim() || null,
+    threshold,
+    windowHours,
+    recipient,
+    digestHour,
+    timezone,
+    isActive: input.isActive ?? true,
+  }
+}
@@ -0,0 +1,54 @@
+import { Worker } from 'bullmq'
+
+import { alertQueue, redis } from '@/lib/queue'
+
+import { runDueAlertDigests } from './index'
+
+const DIGEST_JOB_NAME = 'alert-digest'
+
+export class AlertWorker {
+  private worker: Worker
+
+  constructor() {
+    this.worker = new Worker(
+      alertQueue.name,
+      async () => {
+        const sent = await runDueAlertDigests()
+        if (sent > 0) {
+          console.log(`🔔 Sent ${sent} alert digest(s)`)
+        }
+      },
+      { connection: redis, concurrency: 1 },
+    )
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`🔕 Alert job ${job?.id} failed:`, err?.message)
+    })
+  }
+
+  async schedule(): Promise<void> {
+    // Digests are matched against each rule's local hour, so check at the top of every hour.
+    await alertQueue.add(DIGEST_JOB_NAME, {}, {
+      repeat: { pattern: '0 * * * *' },
+      jobId: DIGEST_JOB_NAME,
+    })
+  }
+
+  async close(): Promise<void> {
+    console.log('Closing alert worker...')
+    await this.worker.close()
+  }
+}
+
+let alertWorker: AlertWorker | null = null
+
+export function startAlertWorker(): AlertWorker {
+  if (!alertWorker) {
+    console.log('Starting alert worker...')
+    alertWorker = new AlertWorker()
+    void alertWorker.schedule().catch((error: unknown) => {
+      console.error('Failed to schedule alert digests:', error)
+    })
+  }
+  return alertWorker
+}
@@ -0,0 +1,135 @@
+import type { Booking as BookingRecord } from '@prisma/client'
+
+export type IcsMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH'
+
+const PRODUCT_ID = '-//Outbond//Bookings//EN'
+const MAX_LINE_OCTETS = 75
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+// Parameter values take no backslash escapes; they are quoted so "," ";" and ":" are safe,
+// and may not contain a double quote or line break.
+const quoteParam = (value: string): string => `"${value.replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`
+
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+/**
+ * Folds a content line at 75 octets as required by RFC 5545 §3.1, without splitting
+ * multi-byte characters.
+ */
+const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line, 'utf-8') <= MAX_LINE_OCTETS) {
+    return line
+  }
+
+  const segments: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf-8')
+    const limit = segments.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (currentBytes + charBytes > limit) {
+      segments.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  segments.push(current)
+  return segments.join('\r\n ')
+}
+
+const serialize = (lines: string[]): string => `${lines.map(foldLine).join('\r\n')}\r\n`
+
+const bookingUid = (booking: Pick<BookingRecord, 'id'>) => `booking-${booking.id}@outbond`
+
+const mapStatus = (booking: BookingRecord, method: IcsMethod) => {
+  if (method === 'CANCEL' || booking.status === 'CANCELLED') return 'CANCELLED'
+  if (booking.status === 'SCHEDULED') return 'TENTATIVE'
+  return 'CONFIRMED'
+}
+
+const buildEvent = (
+  booking: BookingRecord,
+  method: IcsMethod,
+  organizer?: { email: string; name?: string },
+): string[] => {
+  const summary = `${booking.meetingType} with ${booking.leadName}${booking.company ? ` (${booking.company})` : ''}`
+  const description = [booking.notes, booking.meetingLink ? `Join: ${booking.meetingLink}` : null]
+    .filter(Boolean)
+    .join('\n\n')
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${bookingUid(booking)}`,
+    `SEQUENCE:${booking.icsSequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `LAST-MODIFIED:${formatUtc(booking.updatedAt)}`,
+    `DTSTART:${formatUtc(booking.startsAt)}`,
+    `DTEND:${formatUtc(booking.endsAt)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `STATUS:${mapStatus(booking, method)}`,
+  ]
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`)
+  }
+  if (booking.meetingLink) {
+    lines.push(`LOCATION:${escapeText(booking.meetingLink)}`)
+    lines.push(`URL:${booking.meetingLink}`)
+  }
+  if (organizer) {
+    const name = organizer.name ? `;CN=${quoteParam(organizer.name)}` : ''
+    lines.push(`ORGANIZER${name}:mailto:${organizer.email}`)
+    lines.push(
+      `ATTENDEE;CN=${quoteParam(booking.leadName)};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${booking.leadEmail}`,
+    )
+  }
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Builds a single-event invite for the lead. REQUEST creates or updates the event in the
+ * attendee's calendar (matched by UID and SEQUENCE); CANCEL removes it.
+ */
+export function buildBookingInvite(
+  booking: BookingRecord,
+  method: Extract<IcsMethod, 'REQUEST' | 'CANCEL'>,
+  organizer: { email: string; name?: string },
+): string {
+  return serialize([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...buildEvent(booking, method, organizer),
+    'END:VCALENDAR',
+  ])
+}
+
+/**
+ * Builds the subscription feed served to calendar apps. Attendee data is omitted so the
+ * feed never looks like an invitation to the subscriber's client.
+ */
+export function buildBookingFeed(bookings: BookingRecord[], calendarName: string): string {
+  return serialize([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-PUBLISHED-TTL:PT1H',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    ...bookings.flatMap((booking) => buildEvent(booking, 'PUBLISH')),
+    'END:VCALENDAR',
+  ])
+}
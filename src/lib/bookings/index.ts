@@ -0,0 +1,288 @@
+import { randomBytes } from 'crypto'
+import type { Booking as BookingRecord, Prisma } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import { isValidEmail } from '@/lib/utils'
+import type { Booking, BookingInput, BookingStatus } from '@/types/booking'
+
+const BOOKING_STATUSES: BookingStatus[] = ['SCHEDULED', 'CONFIRMED', 'COMPLETED', 'NO_SHOW', 'CANCELLED']
+const DEFAULT_DURATION_MINUTES = 30
+const MAX_DURATION_MINUTES = 8 * 60
+
+export class BookingValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BookingValidationError'
+  }
+}
+
+export type BookingWithCampaign = BookingRecord & { campaign?: { name: string } | null }
+
+export const bookingInclude = {
+  campaign: { select: { name: true } },
+} satisfies Prisma.BookingInclude
+
+export const toBooking = (booking: BookingWithCampaign): Booking => ({
+  id: booking.id,
+  leadId: booking.leadId,
+  campaignId: booking.campaignId,
+  campaignName: booking.campaign?.name ?? booking.manualCampaignName,
+  replyId: booking.replyId,
+  leadName: booking.leadName,
+  leadEmail: booking.leadEmail,
+  company: booking.company,
+  meetingType: booking.meetingType,
+  startsAt: booking.startsAt.toISOString(),
+  endsAt: booking.endsAt.toISOString(),
+  meetingLink: booking.meetingLink,
+  notes: booking.notes,
+  status: booking.status,
+  inviteSentAt: booking.inviteSentAt?.toISOString() ?? null,
+  createdAt: booking.createdAt.toISOString(),
+})
+
+const parseDate = (value: string | null | undefined, label: string): Date | null => {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new BookingValidationError(`${label} is not a valid date`)
+  }
+  return date
+}
+
+const parseStatus = (value: string | undefined): BookingStatus | undefined => {
+  if (value === undefined) return undefined
+  if (!BOOKING_STATUSES.includes(value as BookingStatus)) {
+    throw new BookingValidationError('Unknown booking status')
+  }
+  return value as BookingStatus
+}
+
+const parseMeetingLink = (value: string | null | undefined): string | null => {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+  try {
+    const url = new URL(trimmed)
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error('Unsupported protocol')
+    }
+    return url.toString()
+  } catch {
+    throw new BookingValidationError('Meeting link must be a valid URL')
+  }
+}
+
+/**
+ * Resolves the start/end pair from either an explicit end time or a duration.
+ */
+const resolveTimes = (input: Partial<BookingInput>, fallbackStart?: Date, fallbackEnd?: Date) => {
+  const startsAt = parseDate(input.startsAt, 'Start time') ?? fallbackStart
+  if (!startsAt) {
+    throw new BookingValidationError('Pick a start time for the meeting')
+  }
+
+  let endsAt = parseDate(input.endsAt, 'End time')
+  if (!endsAt && input.durationMinutes !== undefined) {
+    const minutes = Math.round(Number(input.durationMinutes))
+    if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_DURATION_MINUTES) {
+      throw new BookingValidationError('Duration must be between 1 minute and 8 hours')
+    }
+    endsAt = new Date(startsAt.getTime() + minutes * 60 * 1000)
+  }
+  if (!endsAt) {
+    endsAt = fallbackEnd && fallbackStart
+      ? new Date(startsAt.getTime() + (fallbackEnd.getTime() - fallbackStart.getTime()))
+      : new Date(startsAt.getTime() + DEFAULT_DURATION_MINUTES * 60 * 1000)
+  }
+  if (endsAt <= startsAt) {
+    throw new BookingValidationError('The meeting must end after it starts')
+  }
+
+  return { startsAt, endsAt }
+}
+
+/**
+ * Creates a booking for the user. When a reply id is given the lead, campaign and
+ * contact details are copied from the reply so the meeting is attributed correctly.
+ */
+export async function createBooking(userId: string, input: Partial<BookingInput>): Promise<BookingWithCampaign> {
+  const { startsAt, endsAt } = resolveTimes(input)
+
+  const data: Prisma.BookingUncheckedCreateInput = {
+    userId,
+    leadName: '',
+    leadEmail: '',
+    startsAt,
+    endsAt,
+    meetingType: input.meetingType?.trim().slice(0, 80) || 'Intro Call',
+    meetingLink: parseMeetingLink(input.meetingLink),
+    notes: input.notes?.trim().slice(0, 2000) || null,
+    status: parseStatus(input.status) ?? 'SCHEDULED',
+  }
+
+  if (input.replyId) {
+    const reply = await prisma.emailReply.findFirst({
+      where: { id: input.replyId, userId },
+      select: {
+        id: true,
+        leadId: true,
+        campaignId: true,
+        leadEmail: true,
+        lead: { select: { firstName: true, lastName: true, company: true } },
+        emailSendJob: {
+          select: {
+            leadFirstName: true,
+            leadLastName: true,
+            leadCompany: true,
+            manualCampaignId: true,
+            manualCampaignName: true,
+          },
+        },
+      },
+    })
+    if (!reply) {
+      throw new BookingValidationError('Reply not found')
+    }
+
+    const firstName = reply.lead?.firstName ?? reply.emailSendJob?.leadFirstName
+    const lastName = reply.lead?.lastName ?? reply.emailSendJob?.leadLastName
+    data.replyId = reply.id
+    data.leadId = reply.leadId
+    data.campaignId = reply.campaignId
+    data.manualCampaignId = reply.emailSendJob?.manualCampaignId ?? null
+    data.manualCampaignName = reply.emailSendJob?.manualCampaignName ?? null
+    data.leadEmail = reply.leadEmail
+    data.leadName = [firstName, lastName].filter(Boolean).join(' ') || reply.leadEmail
+    data.company = reply.lead?.company ?? reply.emailSendJob?.leadCompany ?? null
+  } else {
+    if (input.leadId) {
+      const lead = await prisma.lead.findFirst({
+        where: { id: input.leadId, userId },
+        select: { id: true, campaignId: true, email: true, firstName: true, lastName: true, company: true },
+      })
+      if (!lead) {
+        throw new BookingValidationError('Lead not found')
+      }
+      data.leadId = lead.id
+      data.campaignId = lead.campaignId
+      data.leadEmail = lead.email
+      data.leadName = [lead.firstName, lead.lastName].filter(Boolean).join(' ') || lead.email
+      data.company = lead.company
+    } else if (input.campaignId) {
+      const campaign = await prisma.campaign.findFirst({
+        where: { id: input.campaignId, userId },
+        select: { id: true },
+      })
+      if (!campaign) {
+        throw new BookingValidationError('Campaign not found')
+      }
+      data.campaignId = campaign.id
+    }
+  }
+
+  const leadEmail = input.leadEmail?.trim().toLowerCase() || data.leadEmail
+  if (!leadEmail || !isValidEmail(leadEmail)) {
+    throw new BookingValidationError('Enter a valid attendee email')
+  }
+  data.leadEmail = leadEmail
+  data.leadName = input.leadName?.trim().slice(0, 120) || data.leadName || leadEmail
+  data.company = input.company?.trim().slice(0, 120) || data.company || null
+
+  return prisma.booking.create({ data, include: bookingInclude })
+}
+
+/**
+ * Validates a partial update to an existing booking.
+ */
+export function parseBookingUpdate(
+  existing: BookingRecord,
+  input: Partial<BookingInput>,
+): Prisma.BookingUncheckedUpdateInput {
+  const data: Prisma.BookingUncheckedUpdateInput = {}
+
+  if (input.startsAt !== undefined || input.endsAt !== undefined || input.durationMinutes !== undefined) {
+    const { startsAt, endsAt } = resolveTimes(input, existing.startsAt, existing.endsAt)
+    data.startsAt = startsAt
+    data.endsAt = endsAt
+  }
+  if (input.status !== undefined) {
+    data.status = parseStatus(input.status)
+  }
+  if (input.meetingType !== undefined) {
+    data.meetingType = input.meetingType.trim().slice(0, 80) || 'Intro Call'
+  }
+  if (input.meetingLink !== undefined) {
+    data.meetingLink = parseMeetingLink(input.meetingLink)
+  }
+  if (input.notes !== undefined) {
+    data.notes = input.notes?.trim().slice(0, 2000) || null
+  }
+  if (input.leadName !== undefined) {
+    data.leadName = input.leadName.trim().slice(0, 120) || existing.leadName
+  }
+  if (input.company !== undefined) {
+    data.company = input.company?.trim().slice(0, 120) || null
+  }
+
+  return data
+}
+
+export async function listBookingsForUser(userId: string, limit = 500): Promise<Booking[]> {
+  const bookings = await prisma.booking.findMany({
+    where: { userId },
+    include: bookingInclude,
+    orderBy: { startsAt: 'asc' },
+    take: limit,
+  })
+  return bookings.map(toBooking)
+}
+
+/**
+ * Decides which invite, if any, the lead should receive after an update: a cancellation
+ * when the booking is cancelled, or a refreshed invite when the time or details changed.
+ */
+export function resolveInviteMethod(
+  previous: BookingRecord,
+  updated: BookingRecord,
+): 'REQUEST' | 'CANCEL' | null {
+  if (!previous.inviteSentAt) return null
+  if (updated.status === 'CANCELLED') {
+    return previous.status === 'CANCELLED' ? null : 'CANCEL'
+  }
+  const changed =
+    previous.status === 'CANCELLED' ||
+    previous.startsAt.getTime() !== updated.startsAt.getTime() ||
+    previous.endsAt.getTime() !== updated.endsAt.getTime() ||
+    previous.meetingLink !== updated.meetingLink ||
+    previous.meetingType !== updated.meetingType
+  return changed ? 'REQUEST' : null
+}
+
+const FEED_LOOKBACK_DAYS = 30
+
+export const generateCalendarFeedToken = () => randomBytes(24).toString('base64url')
+
+/**
+ * Returns the user's calendar feed token, minting one on first use or when rotating.
+ */
+export async function getCalendarFeedToken(userId: string, rotate = false): Promise<string> {
+  if (!rotate) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { calendarFeedToken: true } })
+    if (user?.calendarFeedToken) {
+      return user.calendarFeedToken
+    }
+  }
+
+  const token = generateCalendarFeedToken()
+  await prisma.user.update({ where: { id: userId }, data: { calendarFeedToken: token } })
+  return token
+}
+
+export async function listFeedBookings(userId: string): Promise<BookingRecord[]> {
+  const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+  return prisma.booking.findMany({
+    where: { userId, startsAt: { gte: since } },
+    orderBy: { startsAt: 'asc' },
+    take: 500,
+  })
+}
@@ -0,0 +1,68 @@
+import type { Booking as BookingRecord } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import { getDefaultGmailAccount } from '@/lib/google-gmail/accounts'
+import { formatEmailBody } from '@/lib/email/format'
+import { getEmailTransport } from '@/lib/email/transports'
+
+import { buildBookingInvite } from './ics'
+
+const inviteDateFormatter = new Intl.DateTimeFormat('en-US', {
+  dateStyle: 'full',
+  timeStyle: 'short',
+  timeZone: 'UTC',
+})
+
+/**
+ * Emails the lead an iCalendar invite (or cancellation) for the booking from the user's
+ * connected Gmail account. Each send bumps SEQUENCE so calendar apps replace the
+ * earlier version of the event instead of duplicating it.
+ */
+export async function sendBookingInvite(
+  booking: BookingRecord,
+  method: 'REQUEST' | 'CANCEL',
+): Promise<BookingRecord> {
+  const gmailAccount = await getDefaultGmailAccount(booking.userId)
+  if (!gmailAccount) {
+    throw new Error('Connect a Gmail account to send calendar invites')
+  }
+
+  const isUpdate = method === 'REQUEST' && booking.inviteSentAt !== null
+  const sequenced = booking.inviteSentAt
+    ? await prisma.booking.update({
+        where: { id: booking.id },
+        data: { icsSequence: { increment: 1 } },
+      })
+    : booking
+
+  const when = `${inviteDateFormatter.format(sequenced.startsAt)} UTC`
+  const subject =
+    method === 'CANCEL'
+      ? `Cancelled: ${sequenced.meetingType} on ${when}`
+      : `${isUpdate ? 'Updated invitation' : 'Invitation'}: ${sequenced.meetingType} on ${when}`
+  const lines = method === 'CANCEL'
+    ? [`Hi ${sequenced.leadName},`, `Our ${sequenced.meetingType} on ${when} has been cancelled.`]
+    : [
+        `Hi ${sequenced.leadName},`,
+        `${isUpdate ? 'Updated details for our meeting on' : 'Looking forward to speaking on'} ${when} (${sequenced.meetingType}).`,
+        sequenced.meetingLink ? `Join here: ${sequenced.meetingLink}` : null,
+        'The calendar invite is attached.',
+      ]
+  const body = formatEmailBody(lines.filter(Boolean).join('\n\n'))
+
+  await getEmailTransport(gmailAccount).send({
+    to: sequenced.leadEmail,
+    subject,
+    htmlBody: body.html,
+    textBody: body.text,
+    calendarInvite: {
+      method,
+      content: buildBookingInvite(sequenced, method, { email: gmailAccount.emailAddress }),
+    },
+  })
+
+  return prisma.booking.update({
+    where: { id: sequenced.id },
+    data: { inviteSentAt: new Date() },
+  })
+}
@@ -0,0 +1,102 @@
+import { prisma } from '@/lib/prisma'
+import { chunkArray, isValidEmail } from '@/lib/utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The key a person is tracked by across campaigns: lower-cased, trimmed and without a `+tag`,
+ * so `Jane+promo@Acme.com` and `jane@acme.com` are one contact. Returns null for invalid and
+ * locked placeholder addresses. The contacts migration backfills with the same rules.
+ */
+export function normalizeContactEmail(email: string | null | undefined): string | null {
+  const normalized = (email ?? '').trim().toLowerCase().replace(/\+[^@]*@/, '@')
+  if (!normalized || !isValidEmail(normalized) || normalized.includes('@locked.')) {
+    return null
+  }
+  return normalized
+}
+
+/** Returns contact ids by normalized email, creating the contacts that don't exist yet. */
+async function ensureContacts(userId: string, emails: string[]): Promise<Map<string, string>> {
+  const ids = new Map<string, string>()
+  for (const chunk of chunkArray(Array.from(new Set(emails)), 500)) {
+    await prisma.contact.createMany({
+      data: chunk.map(email => ({ userId, email })),
+      skipDuplicates: true,
+    })
+    const contacts = await prisma.contact.findMany({
+      where: { userId, email: { in: chunk } },
+      select: { id: true, email: true },
+    })
+    contacts.forEach(contact => ids.set(contact.email, contact.id))
+  }
+  return ids
+}
+
+/** Attaches newly inserted leads of a campaign to their contact records. */
+export async function linkCampaignLeadsToContacts(userId: string, campaignId: string, emails: string[]): Promise<void> {
+  if (emails.length === 0) {
+    return
+  }
+
+  const leads: Array<{ id: string; email: string }> = []
+  for (const chunk of chunkArray(Array.from(new Set(emails)), 500)) {
+    leads.push(...await prisma.lead.findMany({
+      where: { campaignId, contactId: null, email: { in: chunk } },
+      select: { id: true, email: true },
+    }))
+  }
+
+  const leadIdsByEmail = new Map<string, string[]>()
+  leads.forEach(lead => {
+    const normalized = normalizeContactEmail(lead.email)
+    if (normalized) {
+      leadIdsByEmail.set(normalized, [...(leadIdsByEmail.get(normalized) ?? []), lead.id])
+    }
+  })
+  if (leadIdsByEmail.size === 0) {
+    return
+  }
+
+  const contactIds = await ensureContacts(userId, Array.from(leadIdsByEmail.keys()))
+  const updates = Array.from(leadIdsByEmail.entries()).flatMap(([email, leadIds]) => {
+    const contactId = contactIds.get(email)
+    return contactId ? [prisma.lead.updateMany({ where: { id: { in: leadIds } }, data: { contactId } })] : []
+  })
+
+  for (const batch of chunkArray(updates, 100)) {
+    await prisma.$transaction(batch)
+  }
+}
+
+/** Records a delivered email so future lead pulls can skip people contacted recently. */
+export async function recordContactTouch(userId: string, email: string, contactedAt: Date): Promise<void> {
+  const normalized = normalizeContactEmail(email)
+  if (!normalized) {
+    return
+  }
+  await prisma.contact.upsert({
+    where: { userId_email: { userId, email: normalized } },
+    create: { userId, email: normalized, lastContactedAt: contactedAt },
+    update: { lastContactedAt: contactedAt },
+  })
+}
+
+/** Returns the normalized emails, out of those given, that were emailed in the last `days` days. */
+export async function getRecentlyContactedEmails(userId: string, emails: string[], days: number): Promise<Set<string>> {
+  const contacted = new Set<string>()
+  const normalized = Array.from(new Set(emails.map(normalizeContactEmail).filter((email): email is string => Boolean(email))))
+  if (normalized.length === 0 || days <= 0) {
+    return contacted
+  }
+
+  const since = new Date(Date.now() - days * DAY_MS)
+  for (const chunk of chunkArray(normalized, 500)) {
+    const matches = await prisma.contact.findMany({
+      where: { userId, email: { in: chunk }, lastContactedAt: { gte: since } },
+      select: { email: true },
+    })
+    matches.forEach(match => contacted.add(match.email))
+  }
+  return contacted
+}
@@ -0,0 +1,164 @@
+// Throwaway-inbox providers. Subdomains match too, so `x.mailinator.com` is caught by
+// `mailinator.com`.
+const DISPOSABLE_DOMAINS = new Set([
+  '0-mail.com',
+  '10minutemail.com',
+  '10minutemail.net',
+  '10minutemail.co.uk',
+  '20minutemail.com',
+  '33mail.com',
+  'anonbox.net',
+  'anonymbox.com',
+  'burnermail.io',
+  'byom.de',
+  'deadaddress.com',
+  'discard.email',
+  'discardmail.com',
+  'discardmail.de',
+  'dispostable.com',
+  'dropmail.me',
+  'emailondeck.com',
+  'emailsensei.com',
+  'emailtemporanea.com',
+  'emltmp.com',
+  'fakeinbox.com',
+  'fakemail.com',
+  'fakemail.net',
+  'fakemailgenerator.com',
+  'filzmail.com',
+  'getairmail.com',
+  'getnada.com',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.info',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'harakirimail.com',
+  'incognitomail.org',
+  'inboxbear.com',
+  'inboxkitten.com',
+  'jetable.org',
+  'kasmail.com',
+  'linshiyouxiang.net',
+  'mail-temp.com',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailexpire.com',
+  'mailforspam.com',
+  'mailinator.com',
+  'mailinator.net',
+  'mailinator2.com',
+  'mailnesia.com',
+  'mailnull.com',
+  'mailpoof.com',
+  'mailsac.com',
+  'mailtemp.info',
+  'mintemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mytemp.email',
+  'mytrashmail.com',
+  'nada.email',
+  'no-spam.ws',
+  'nowmymail.com',
+  'one-time.email',
+  'sharklasers.com',
+  'shieldemail.com',
+  'spam4.me',
+  'spambog.com',
+  'spambox.us',
+  'spamgourmet.com',
+  'spamex.com',
+  'spamfree24.org',
+  'spaml.de',
+  'spammotel.com',
+  'tempail.com',
+  'tempemail.com',
+  'tempemail.net',
+  'tempinbox.com',
+  'tempmail.com',
+  'tempmail.dev',
+  'tempmail.net',
+  'tempmail.plus',
+  'tempmailaddress.com',
+  'tempmailo.com',
+  'tempr.email',
+  'temp-mail.io',
+  'temp-mail.org',
+  'throwam.com',
+  'throwawaymail.com',
+  'tmail.ws',
+  'tmpmail.net',
+  'tmpmail.org',
+  'trash-mail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'trashmail.me',
+  'trashmail.net',
+  'trbvm.com',
+  'wegwerfmail.de',
+  'wegwerfmail.net',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+  'zetmail.com',
+])
+
+// Shared inboxes that rarely reach a decision maker and are often filtered by the recipient.
+const ROLE_ACCOUNT_LOCALS = new Set([
+  'abuse',
+  'accounting',
+  'accounts',
+  'admin',
+  'administrator',
+  'billing',
+  'careers',
+  'contact',
+  'customerservice',
+  'enquiries',
+  'enquiry',
+  'feedback',
+  'finance',
+  'hello',
+  'help',
+  'hostmaster',
+  'hr',
+  'info',
+  'inquiries',
+  'jobs',
+  'legal',
+  'mail',
+  'marketing',
+  'media',
+  'no-reply',
+  'noreply',
+  'office',
+  'orders',
+  'postmaster',
+  'press',
+  'privacy',
+  'recruiting',
+  'recruitment',
+  'sales',
+  'security',
+  'service',
+  'support',
+  'team',
+  'webmaster',
+])
+
+export function isDisposableEmailDomain(domain: string): boolean {
+  const labels = domain.toLowerCase().split('.')
+  for (let index = 0; index < labels.length - 1; index += 1) {
+    if (DISPOSABLE_DOMAINS.has(labels.slice(index).join('.'))) {
+      return true
+    }
+  }
+  return domain.includes('mailinator')
+}
+
+export function isRoleAccountLocal(local: string): boolean {
+  return ROLE_ACCOUNT_LOCALS.has(local.toLowerCase().replace(/\+.*$/, ''))
+}
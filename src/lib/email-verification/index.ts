@@ -0,0 +1,247 @@
+import { randomBytes } from 'crypto'
+import { promises as dns } from 'dns'
+
+import { prisma } from '@/lib/prisma'
+import { probeSmtpRecipients } from '@/lib/email/transports/smtp'
+import { chunkArray, isValidEmail } from '@/lib/utils'
+import type { EmailVerificationReason, EmailVerificationResult } from '@/types/email-verification'
+
+import { isDisposableEmailDomain, isRoleAccountLocal } from './domains'
+
+export type MxRecord = {
+  exchange: string
+  priority: number
+}
+
+/**
+ * The DNS lookups verification needs. The system resolver is used by default; pass another
+ * implementation (DNS over HTTPS, a fixed map in development) where port 53 isn't reachable.
+ */
+export interface DnsResolver {
+  resolveMx(domain: string): Promise<MxRecord[]>
+  resolve4(domain: string): Promise<string[]>
+}
+
+/** Returns the RCPT TO reply code for each recipient, or null where the exchanger gave no answer. */
+export type MailboxProbe = (mxHost: string, recipients: string[]) => Promise<Array<number | null>>
+
+export const systemDnsResolver: DnsResolver = {
+  resolveMx: domain => dns.resolveMx(domain),
+  resolve4: domain => dns.resolve4(domain),
+}
+
+// Answers that mean the record doesn't exist, as opposed to a lookup that failed.
+const MISSING_RECORD_CODES = new Set(['ENOTFOUND', 'ENODATA', 'ENONAME'])
+const INVALID_REASONS = new Set<EmailVerificationReason>(['syntax', 'disposable', 'no_mx', 'mailbox_not_found'])
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000
+
+type DomainLookup = {
+  mxHosts: string[]
+  error: boolean
+}
+
+
+const isMissingRecord = (error: unknown) =>
+  typeof error === 'object' && error !== null && MISSING_RECORD_CODES.has(String((error as { code?: unknown }).code))
+
+/** Stricter than `isValidEmail`: RFC 5321 length limits and well-formed dot-separated labels. */
+export function hasValidEmailSyntax(email: string): boolean {
+  if (!isValidEmail(email) || email.length > 254) {
+    return false
+  }
+  const at = email.lastIndexOf('@')
+  const local = email.slice(0, at)
+  const domain = email.slice(at + 1)
+  if (!local || local.length > 64 || local.startsWith('.') || local.endsWith('.') || local.includes('..')) {
+    return false
+  }
+  if (!/^[a-z0-9!#$%&'*+/=?^_`{|}~.-]+$/i.test(local)) {
+    return false
+  }
+  const labels = domain.split('.')
+  return labels.length >= 2
+    && labels.every(label => /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i.test(label))
+    && /^[a-z]{2,}$|^xn--/i.test(labels[labels.length - 1])
+}
+
+/**
+ * Checks an address before it is stored or emailed: syntax, disposable domains, MX records,
+ * role accounts and, when a mailbox probe is configured, whether the mailbox exists and the
+ * domain accepts every address (catch-all). Domain lookups are cached per instance.
+ */
+export class EmailVerifier {
+  private resolver: DnsResolver
+  private probe: MailboxProbe | null
+  private cacheTtlMs: number
+  private domains = new Map<string, { expiresAt: number; value: Promise<DomainLookup> }>()
+  private catchAll = new Map<string, { expiresAt: number; value: boolean | null }>()
+
+  constructor(options: { resolver?: DnsResolver; probe?: MailboxProbe | null; cacheTtlMs?: number } = {}) {
+    this.resolver = options.resolver ?? systemDnsResolver
+    this.probe = options.probe === undefined
+      ? process.env.EMAIL_VERIFICATION_SMTP_PROBE === 'true' ? probeSmtpRecipients : null
+      : options.probe
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS
+  }
+
+  async verify(rawEmail: string): Promise<EmailVerificationResult> {
+    const email = rawEmail.trim().toLowerCase()
+    if (!hasValidEmailSyntax(email)) {
+      return { status: 'INVALID', reasons: ['syntax'], mxHosts: [] }
+    }
+
+    const at = email.lastIndexOf('@')
+    const local = email.slice(0, at)
+    const domain = email.slice(at + 1)
+
+    if (isDisposableEmailDomain(domain)) {
+      return { status: 'INVALID', reasons: ['disposable'], mxHosts: [] }
+    }
+
+    const reasons: EmailVerificationReason[] = []
+    if (isRoleAccountLocal(local)) {
+      reasons.push('role_account')
+    }
+
+    const lookup = await this.resolveDomain(domain)
+    if (lookup.error) {
+      reasons.push('dns_error')
+    } else if (lookup.mxHosts.length === 0) {
+      reasons.push('no_mx')
+    } else if (this.probe) {
+      reasons.push(...await this.probeMailbox(email, domain, lookup.mxHosts[0]))
+    }
+
+    const status = reasons.some(reason => INVALID_REASONS.has(reason))
+      ? 'INVALID'
+      : reasons.length > 0 ? 'RISKY' : 'VALID'
+
+    return { status, reasons, mxHosts: lookup.mxHosts }
+  }
+
+  private async lookupDomain(domain: string): Promise<DomainLookup> {
+    try {
+      const records = await this.resolver.resolveMx(domain)
+      // A single "." exchange is a null MX (RFC 7505): the domain accepts no mail.
+      const mxHosts = records
+        .filter(record => record.exchange && record.exchange !== '.')
+        .sort((a, b) => a.priority - b.priority)
+        .map(record => record.exchange.replace(/\.$/, '').toLowerCase())
+      if (records.length > 0) {
+        return { mxHosts, error: false }
+      }
+    } catch (error) {
+      if (!isMissingRecord(error)) {
+        console.warn(`⚠️ MX lookup failed for ${domain}:`, error)
+        return { mxHosts: [], error: true }
+      }
+    }
+
+    // Without MX records, mail is delivered to the domain's own address (RFC 5321 §5.1).
+    try {
+      const addresses = await this.resolver.resolve4(domain)
+      return { mxHosts: addresses.length > 0 ? [domain] : [], error: false }
+    } catch (error) {
+      return isMissingRecord(error) ? { mxHosts: [], error: false } : { mxHosts: [], error: true }
+    }
+  }
+
+  private async probeMailbox(email: string, domain: string, mxHost: string): Promise<EmailVerificationReason[]> {
+    const probe = this.probe!
+    const cached = this.catchAll.get(domain)
+    const knownCatchAll = cached && cached.expiresAt > Date.now() ? cached.value : undefined
+    if (knownCatchAll === true) {
+      // A catch-all domain accepts every RCPT, so probing the address itself tells us nothing.
+      return ['catch_all']
+    }
+
+    // A random mailbox that can't exist reveals whether the domain accepts everything.
+    const canary = `verify-${randomBytes(6).toString('hex')}@${domain}`
+    const recipients = knownCatchAll === undefined ? [email, canary] : [email]
+    const codes = await probe(mxHost, recipients).catch(() => [] as Array<number | null>)
+
+    if (knownCatchAll === undefined) {
+      const canaryCode = codes[1] ?? null
+      const catchAll = canaryCode === null ? null : canaryCode < 300
+      this.catchAll.set(domain, { expiresAt: Date.now() + this.cacheTtlMs, value: catchAll })
+      if (catchAll) {
+        return ['catch_all']
+      }
+    }
+
+    const code = codes[0] ?? null
+    // Only a permanent 55x rejection proves the mailbox is missing; 4xx replies are often greylisting.
+    return code !== null && code >= 550 && code < 560 ? ['mailbox_not_found'] : []
+  }
+
+  private resolveDomain(domain: string): Promise<DomainLookup> {
+    const entry = this.domains.get(domain)
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value
+    }
+    const value = this.lookupDomain(domain).then(lookup => {
+      // Failed lookups are retried with the next address instead of being cached.
+      if (lookup.error) {
+        this.domains.delete(domain)
+      }
+      return lookup
+    })
+    this.domains.set(domain, { expiresAt: Date.now() + this.cacheTtlMs, value })
+    return value
+  }
+}
+
+/**
+ * Of the recipients given, returns those outreach should skip because of their stored
+ * verification result: INVALID addresses always, RISKY ones when the campaign excludes them.
+ * The lead in the recipient's own campaign decides; otherwise the most recently updated one.
+ * Recipients without a lead record are never skipped.
+ */
+export async function getUnverifiedRecipients(
+  userId: string,
+  recipients: Array<{ email: string; campaignId?: string | null }>,
+): Promise<Map<string, 'INVALID' | 'RISKY'>> {
+  const skipped = new Map<string, 'INVALID' | 'RISKY'>()
+  const emails = Array.from(new Set(recipients.map(recipient => recipient.email.toLowerCase())))
+  if (emails.length === 0) {
+    return skipped
+  }
+
+  const leads: Array<{ email: string; campaignId: string; emailVerificationStatus: string }> = []
+  for (const chunk of chunkArray(emails, 500)) {
+    leads.push(...await prisma.lead.findMany({
+      where: { userId, email: { in: chunk, mode: 'insensitive' } },
+      orderBy: { updatedAt: 'desc' },
+      select: { email: true, campaignId: true, emailVerificationStatus: true },
+    }))
+  }
+  if (!leads.some(lead => lead.emailVerificationStatus === 'INVALID' || lead.emailVerificationStatus === 'RISKY')) {
+    return skipped
+  }
+
+  const campaignIds = Array.from(new Set(recipients.map(recipient => recipient.campaignId).filter((id): id is string => Boolean(id))))
+  const excludingRisky = new Set(
+    campaignIds.length
+      ? (await prisma.campaign.findMany({
+          where: { id: { in: campaignIds }, userId, excludeRiskyEmails: true },
+          select: { id: true },
+        })).map(campaign => campaign.id)
+      : [],
+  )
+
+  recipients.forEach(recipient => {
+    const email = recipient.email.toLowerCase()
+    const matches = leads.filter(lead => lead.email.toLowerCase() === email)
+    const lead = matches.find(candidate => candidate.campaignId === recipient.campaignId) ?? matches[0]
+    if (!lead) {
+      return
+    }
+    if (lead.emailVerificationStatus === 'INVALID') {
+      skipped.set(email, 'INVALID')
+    } else if (lead.emailVerificationStatus === 'RISKY' && recipient.campaignId && excludingRisky.has(recipient.campaignId)) {
+      skipped.set(email, 'RISKY')
+    }
+  })
+
+  return skipped
+}
@@ -0,0 +1,158 @@
+import type { EmailAttachment as EmailAttachmentRecord, Prisma } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import type { MimeAttachment } from '@/lib/email/mime'
+import type { EmailAttachment, EmailAttachmentRef } from '@/types/attachment'
+
+/** Largest single file a user can upload. */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024
+/** Combined size of the files on one email; base64 adds a third on top of this. */
+export const MAX_EMAIL_ATTACHMENT_BYTES = 10 * 1024 * 1024
+export const MAX_ATTACHMENTS_PER_EMAIL = 5
+export const MAX_STORED_ATTACHMENTS = 25
+
+// Executables and scripts are rejected outright by Gmail and most corporate filters.
+const BLOCKED_EXTENSIONS = new Set([
+  'bat', 'cmd', 'com', 'cpl', 'exe', 'jar', 'js', 'jse', 'msi', 'msp', 'ps1', 'scr', 'vbe', 'vbs', 'wsf',
+])
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AttachmentError'
+  }
+}
+
+export function toEmailAttachment(
+  record: Pick<EmailAttachmentRecord, 'id' | 'filename' | 'contentType' | 'size' | 'createdAt'>,
+): EmailAttachment {
+  return {
+    id: record.id,
+    filename: record.filename,
+    contentType: record.contentType,
+    size: record.size,
+    createdAt: record.createdAt.toISOString(),
+  }
+}
+
+export function formatAttachmentSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`
+}
+
+export function sanitizeAttachmentFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() ?? ''
+  return base.replace(/[\u0000-\u001f"]/g, '').trim().slice(0, 200) || 'attachment'
+}
+
+/**
+ * Stores an uploaded file for the user. Throws AttachmentError when the file breaks a
+ * limit, so routes can return the message as-is.
+ */
+export async function createEmailAttachment(
+  userId: string,
+  file: { name: string; type: string; size: number; arrayBuffer(): Promise<ArrayBuffer> },
+): Promise<EmailAttachment> {
+  const filename = sanitizeAttachmentFilename(file.name)
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : ''
+  if (BLOCKED_EXTENSIONS.has(extension)) {
+    throw new AttachmentError(`.${extension} files cannot be sent as attachments`)
+  }
+  if (file.size === 0) {
+    throw new AttachmentError('The file is empty')
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`Attachments must be ${formatAttachmentSize(MAX_ATTACHMENT_BYTES)} or smaller`)
+  }
+
+  const stored = await prisma.emailAttachment.count({ where: { userId } })
+  if (stored >= MAX_STORED_ATTACHMENTS) {
+    throw new AttachmentError(`You can keep up to ${MAX_STORED_ATTACHMENTS} attachments; delete one to upload another`)
+  }
+
+  const data = Buffer.from(await file.arrayBuffer())
+  const record = await prisma.emailAttachment.create({
+    data: {
+      userId,
+      filename,
+      contentType: file.type || 'application/octet-stream',
+      size: data.length,
+      data,
+    },
+    select: { id: true, filename: true, contentType: true, size: true, createdAt: true },
+  })
+  return toEmailAttachment(record)
+}
+
+/**
+ * Validates a selection of the user's attachments against the per-email limits and returns
+ * the references to store on each send job.
+ */
+export async function resolveAttachmentRefs(userId: string, ids: string[]): Promise<EmailAttachmentRef[]> {
+  const unique = Array.from(new Set(ids.filter((id) => typeof id === 'string' && id)))
+  if (unique.length === 0) {
+    return []
+  }
+  if (unique.length > MAX_ATTACHMENTS_PER_EMAIL) {
+    throw new AttachmentError(`Emails can carry up to ${MAX_ATTACHMENTS_PER_EMAIL} attachments`)
+  }
+
+  const records = await prisma.emailAttachment.findMany({
+    where: { id: { in: unique }, userId },
+    select: { id: true, filename: true, contentType: true, size: true },
+  })
+  if (records.length !== unique.length) {
+    throw new AttachmentError('One or more attachments no longer exist')
+  }
+
+  const total = records.reduce((sum, record) => sum + record.size, 0)
+  if (total > MAX_EMAIL_ATTACHMENT_BYTES) {
+    throw new AttachmentError(
+      `Attachments on one email must total ${formatAttachmentSize(MAX_EMAIL_ATTACHMENT_BYTES)} or less`,
+    )
+  }
+
+  return unique.map((id) => records.find((record) => record.id === id)!)
+}
+
+export function parseAttachmentRefs(value: Prisma.JsonValue | null | undefined): EmailAttachmentRef[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return []
+    const { id, filename, contentType, size } = entry as Record<string, unknown>
+    if (typeof id !== 'string' || typeof filename !== 'string') return []
+    return [{
+      id,
+      filename,
+      contentType: typeof contentType === 'string' ? contentType : 'application/octet-stream',
+      size: typeof size === 'number' ? size : 0,
+    }]
+  })
+}
+
+/**
+ * Loads the file contents recorded on a send job. A file deleted after the email was queued
+ * fails the send rather than delivering the email without it.
+ */
+export async function loadJobAttachments(
+  job: { userId: string; attachments: Prisma.JsonValue | null },
+): Promise<MimeAttachment[]> {
+  const refs = parseAttachmentRefs(job.attachments)
+  if (refs.length === 0) {
+    return []
+  }
+
+  const records = await prisma.emailAttachment.findMany({
+    where: { id: { in: refs.map((ref) => ref.id) }, userId: job.userId },
+    select: { id: true, filename: true, contentType: true, data: true },
+  })
+
+  return refs.map((ref) => {
+    const record = records.find((candidate) => candidate.id === ref.id)
+    if (!record) {
+      throw new Error(`Attachment "${ref.filename}" was deleted before this email was sent`)
+    }
+    return { filename: record.filename, contentType: record.contentType, content: Buffer.from(record.data) }
+  })
+}
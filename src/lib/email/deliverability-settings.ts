@@ -0,0 +1,26 @@
+import { prisma } from '@/lib/prisma'
+import type { DeliverabilitySettings } from '@/types/deliverability'
+
+const SETTINGS_ID = 'global'
+
+/** Org-wide deliverability policy. Blocking is off until an admin sets a threshold. */
+export async function getDeliverabilitySettings(): Promise<DeliverabilitySettings> {
+  const setting = await prisma.deliverabilitySetting.findUnique({
+    where: { id: SETTINGS_ID },
+    select: { blockThreshold: true },
+  })
+  return { blockThreshold: setting?.blockThreshold ?? null }
+}
+
+export async function saveDeliverabilitySettings(
+  settings: DeliverabilitySettings,
+  updatedById: string,
+): Promise<DeliverabilitySettings> {
+  const saved = await prisma.deliverabilitySetting.upsert({
+    where: { id: SETTINGS_ID },
+    update: { blockThreshold: settings.blockThreshold, updatedById },
+    create: { id: SETTINGS_ID, blockThreshold: settings.blockThreshold, updatedById },
+    select: { blockThreshold: true },
+  })
+  return { blockThreshold: saved.blockThreshold }
+}
@@ -0,0 +1,240 @@
+/**
+ * Local pre-send checks for things that commonly push cold email into spam: trigger phrases,
+ * link- or image-heavy bodies, shouting subjects, HTML-only messages and malformed markup.
+ * Runs in the browser for the draft preview and on the server before jobs are queued.
+ */
+
+import { htmlToPlainText } from '@/lib/email/format'
+import type { DeliverabilityReport, DeliverabilityWarning } from '@/types/deliverability'
+
+const SPAM_PHRASES = [
+  '100% free',
+  'act now',
+  'apply now',
+  'as seen on',
+  'buy now',
+  'call now',
+  'cash bonus',
+  'click here',
+  'click below',
+  'double your',
+  'earn money',
+  'extra income',
+  'free gift',
+  'free trial',
+  'get paid',
+  'guaranteed',
+  'increase sales',
+  'limited time',
+  'lowest price',
+  'make money',
+  'no cost',
+  'no obligation',
+  'once in a lifetime',
+  'order now',
+  'risk-free',
+  'risk free',
+  "this isn't spam",
+  'this is not spam',
+  'urgent',
+  'winner',
+  "you've been selected",
+  '$$$',
+]
+
+const MAX_LINKS = 3
+const MAX_IMAGES = 1
+const MIN_WORDS = 25
+const MAX_WORDS = 250
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const SPAM_PHRASE_REGEX = new RegExp(
+  SPAM_PHRASES.map((phrase) => (/^\w/.test(phrase) ? `\\b${escapeRegex(phrase)}\\b` : escapeRegex(phrase))).join('|'),
+  'gi',
+)
+
+function findSpamPhrases(text: string): string[] {
+  const found = new Set<string>()
+  for (const match of text.matchAll(SPAM_PHRASE_REGEX)) {
+    found.add(match[0].toLowerCase())
+  }
+  return Array.from(found)
+}
+
+function countLinks(html: string, text: string): number {
+  const anchors = html.match(/<a\b[^>]*\bhref\s*=/gi)?.length ?? 0
+  // Plain-text drafts have no anchors yet, but bare URLs become links in most clients.
+  const bareUrls = anchors === 0 ? text.match(/\bhttps?:\/\/\S+/gi)?.length ?? 0 : 0
+  return anchors + bareUrls
+}
+
+/** Returns a description of the first structural problem in the markup, or null. */
+export function findHtmlProblem(html: string): string | null {
+  const stack: string[] = []
+  for (const match of html.matchAll(/<(\/?)([a-z][a-z0-9-]*)\b[^<>]*?(\/?)>/gi)) {
+    const [, closing, rawName, selfClosing] = match
+    const name = rawName.toLowerCase()
+    if (VOID_ELEMENTS.has(name) || selfClosing) {
+      continue
+    }
+    if (!closing) {
+      stack.push(name)
+      continue
+    }
+    const open = stack.lastIndexOf(name)
+    if (open === -1) {
+      return `</${name}> has no matching opening tag.`
+    }
+    if (open !== stack.length - 1) {
+      return `<${stack[stack.length - 1]}> is not closed before </${name}>.`
+    }
+    stack.pop()
+  }
+  if (stack.length > 0) {
+    return `<${stack[stack.length - 1]}> is never closed.`
+  }
+  if (/<[a-z/][^>]*$/i.test(html)) {
+    return 'The body ends inside an unfinished tag.'
+  }
+  return null
+}
+
+/**
+ * Scores a rendered email from 0 to 100. Each finding takes points off; anything marked
+ * as an error is likely to hurt inbox placement on its own.
+ */
+export function checkDeliverability(email: {
+  subject: string
+  bodyHtml?: string | null
+  bodyText?: string | null
+}): DeliverabilityReport {
+  const warnings: DeliverabilityWarning[] = []
+  const subject = email.subject.trim()
+  const html = email.bodyHtml?.trim() ?? ''
+  const text = email.bodyText?.trim() || (html ? htmlToPlainText(html) : '')
+
+  const phrases = findSpamPhrases(`${subject}\n${text}`)
+  if (phrases.length > 0) {
+    warnings.push({
+      check: 'spam_phrases',
+      severity: phrases.length > 2 ? 'error' : 'warning',
+      message: `Spam-trigger ${phrases.length === 1 ? 'phrase' : 'phrases'}: ${phrases.map((phrase) => `"${phrase}"`).join(', ')}.`,
+      penalty: Math.min(30, phrases.length * 8),
+    })
+  }
+
+  const links = countLinks(html, text)
+  if (links > MAX_LINKS) {
+    warnings.push({
+      check: 'links',
+      severity: links > MAX_LINKS * 2 ? 'error' : 'warning',
+      message: `${links} links in the body. Keep cold emails to ${MAX_LINKS} or fewer.`,
+      penalty: Math.min(25, (links - MAX_LINKS) * 5),
+    })
+  }
+
+  const images = html.match(/<img\b/gi)?.length ?? 0
+  const words = text.split(/\s+/).filter(Boolean).length
+  if (images > 0 && words < MIN_WORDS) {
+    warnings.push({
+      check: 'images',
+      severity: 'error',
+      message: 'The body is mostly images. Filters treat image-only emails as likely spam.',
+      penalty: 25,
+    })
+  } else if (images > MAX_IMAGES) {
+    warnings.push({
+      check: 'images',
+      severity: 'warning',
+      message: `${images} images in the body. Plain emails land in the inbox more often.`,
+      penalty: Math.min(20, (images - MAX_IMAGES) * 5),
+    })
+  }
+
+  const letters = subject.replace(/[^A-Za-z]/g, '')
+  const capitals = letters.replace(/[^A-Z]/g, '').length
+  if (letters.length >= 4 && capitals / letters.length > 0.7) {
+    warnings.push({
+      check: 'subject_caps',
+      severity: 'error',
+      message: 'The subject is written in capitals.',
+      penalty: 20,
+    })
+  } else if ((subject.match(/\b[A-Z]{4,}\b/g)?.length ?? 0) >= 2) {
+    warnings.push({
+      check: 'subject_caps',
+      severity: 'warning',
+      message: 'The subject has several words in capitals.',
+      penalty: 8,
+    })
+  }
+
+  if (/[!?]{2,}/.test(subject) || (subject.match(/!/g)?.length ?? 0) > 1) {
+    warnings.push({
+      check: 'subject_punctuation',
+      severity: 'warning',
+      message: 'The subject uses repeated exclamation or question marks.',
+      penalty: 8,
+    })
+  }
+
+  // An image- or markup-only body would go out with an empty text/plain part.
+  if (!email.bodyText?.trim() && html && !htmlToPlainText(html)) {
+    warnings.push({
+      check: 'plain_text',
+      severity: 'error',
+      message: 'There is no plain-text version of the body.',
+      penalty: 15,
+    })
+  }
+
+  const htmlProblem = html ? findHtmlProblem(html) : null
+  if (htmlProblem) {
+    warnings.push({
+      check: 'html',
+      severity: 'error',
+      message: `Broken HTML: ${htmlProblem}`,
+      penalty: 15,
+    })
+  }
+
+  if (words < MIN_WORDS && images === 0) {
+    warnings.push({
+      check: 'length',
+      severity: 'warning',
+      message: `The body is only ${words} ${words === 1 ? 'word' : 'words'}. Very short emails look automated.`,
+      penalty: 10,
+    })
+  } else if (words > MAX_WORDS) {
+    warnings.push({
+      check: 'length',
+      severity: 'warning',
+      message: `The body is ${words} words. Cold emails under ${MAX_WORDS} words get more replies.`,
+      penalty: Math.min(15, 5 + Math.floor((words - MAX_WORDS) / 100) * 5),
+    })
+  }
+
+  const score = Math.max(0, 100 - warnings.reduce((total, warning) => total + warning.penalty, 0))
+  return { score, warnings }
+}
+
+export function isBlockedByDeliverability(score: number, blockThreshold: number | null | undefined): boolean {
+  return typeof blockThreshold === 'number' && score < blockThreshold
+}
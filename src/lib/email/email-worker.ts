@@ -1,9 +1,20 @@
-import { Worker, Job } from 'bullmq'
+import { Worker, Job, UnrecoverableError } from 'bullmq'
 
-import { emailSendQueue, redis, type EmailSendQueueData } from '@/lib/queue'
+import { emailSendQueue, enqueueEmailSendJob, redis, type EmailSendQueueData } from '@/lib/queue'
 import { prisma } from '@/lib/prisma'
-import { sendGmailMessage, ensureFreshGmailToken, GmailUnauthorizedClientError } from '@/lib/google-gmail'
+import { GmailUnauthorizedClientError } from '@/lib/google-gmail'
+import { getEmailTransport, hasSendingCredentials, SmtpError } from '@/lib/email/transports'
+import { PrivateNetworkError } from '@/lib/network'
 import { createEmailSendRateLimit } from '@/lib/rate-limit'
+import { getSequenceHaltReason, scheduleNextSequenceStep } from '@/lib/email/sequences'
+import { resolveSendSchedule } from '@/lib/email/send-windows'
+import { releaseMailboxSend, reserveMailboxSend } from '@/lib/email/mailbox-quota'
+import { applyEmailTracking, resolveTrackingSettings } from '@/lib/email/tracking'
+import { appendUnsubscribeFooter, buildListUnsubscribe } from '@/lib/email/unsubscribe'
+import { loadJobAttachments } from '@/lib/email/attachments'
+import { isEmailSuppressed } from '@/lib/suppression'
+import { recordContactTouch } from '@/lib/contacts'
+import { triggerAlertEvent } from '@/lib/alerts'
 
 const EMAIL_STATUS = {
   PENDING: 'PENDING',
@@ -58,6 +69,52 @@ export class EmailSendWorker {
       return
     }
 
+    if (await isEmailSuppressed(emailJob.userId, emailJob.leadEmail)) {
+      await db.emailSendJob.update({
+        where: { id: jobId },
+        data: {
+          status: EMAIL_STATUS.CANCELLED,
+          error: 'Recipient is on the suppression list',
+        },
+      })
+      console.log(`Email send job ${jobId} skipped: ${emailJob.leadEmail} is suppressed`)
+      return
+    }
+
+    if ((emailJob.sequenceStep ?? 0) > 0) {
+      const haltReason = await getSequenceHaltReason(emailJob)
+      if (haltReason) {
+        await db.emailSendJob.update({
+          where: { id: jobId },
+          data: {
+            status: EMAIL_STATUS.CANCELLED,
+            error: haltReason,
+          },
+        })
+        console.log(`Email send job ${jobId} skipped: ${haltReason}`)
+        return
+      }
+    }
+
+    // The window may have changed since the job was queued; park it until the next opening.
+    const schedule = (
+      await resolveSendSchedule(
+        emailJob.userId,
+        { campaignId: emailJob.campaignId, manualCampaignId: emailJob.manualCampaignId },
+        [emailJob.leadEmail],
+      )
+    ).get(emailJob.leadEmail.toLowerCase())
+    if (schedule?.deferred) {
+      const scheduledAt = new Date(schedule.scheduledAt)
+      await db.emailSendJob.update({
+        where: { id: jobId },
+        data: { scheduledAt, leadTimeZone: schedule.timeZone },
+      })
+      await enqueueEmailSendJob(job.data, { delay: Math.max(0, scheduledAt.getTime() - Date.now()) })
+      console.log(`Email send job ${jobId} deferred to ${schedule.scheduledAt} (${schedule.timeZone})`)
+      return
+    }
+
     const gmailAccount = emailJob.gmailAccount
     if (!gmailAccount || gmailAccount.id !== gmailAccountId) {
       await db.emailSendJob.update({
@@ -70,59 +127,132 @@ export class EmailSendWorker {
       throw new Error('Gmail account missing or mismatched')
     }
 
-    if (!gmailAccount.accessToken || !gmailAccount.refreshToken) {
+    if (!hasSendingCredentials(gmailAccount)) {
       await db.emailSendJob.update({
         where: { id: jobId },
         data: {
           status: EMAIL_STATUS.FAILED,
-          error: 'Gmail account needs to be reconnected before sending emails.',
+          error: 'Mailbox needs to be reconnected before sending emails.',
         },
       })
-      throw new GmailUnauthorizedClientError('Missing Gmail credentials on record')
+      throw new GmailUnauthorizedClientError('Missing mailbox credentials on record')
     }
 
+    // Over-limit jobs go back on the queue as delayed jobs instead of holding a worker slot.
     const limiter = createEmailSendRateLimit(userId)
     const check = await limiter.checkAndConsume(1)
     if (!check.allowed) {
       const delayMs = Math.max(1000, check.resetTime - Date.now())
       console.log(`Email rate limit reached for user ${userId}, delaying ${delayMs}ms`)
-      await new Promise((resolve) => setTimeout(resolve, delayMs))
+      await enqueueEmailSendJob(job.data, { delay: delayMs })
+      return
+    }
+
+    const reservedAt = new Date()
+    const reservation = await reserveMailboxSend(gmailAccount, reservedAt)
+    if (!reservation.allowed) {
+      const nextDay = (
+        await resolveSendSchedule(
+          emailJob.userId,
+          { campaignId: emailJob.campaignId, manualCampaignId: emailJob.manualCampaignId },
+          [emailJob.leadEmail],
+          { from: reservation.resetsAt },
+        )
+      ).get(emailJob.leadEmail.toLowerCase())
+      const scheduledAt = nextDay ? new Date(nextDay.scheduledAt) : reservation.resetsAt
+      await db.emailSendJob.update({
+        where: { id: jobId },
+        data: {
+          scheduledAt,
+          leadTimeZone: nextDay?.deferred ? nextDay.timeZone : emailJob.leadTimeZone,
+        },
+      })
+      await enqueueEmailSendJob(job.data, { delay: Math.max(0, scheduledAt.getTime() - Date.now()) })
+      console.log(
+        `Mailbox ${gmailAccount.emailAddress} reached today's quota (${reservation.sentToday}/${reservation.quota}); job ${jobId} moved to ${scheduledAt.toISOString()}`,
+      )
+      return
     }
 
+    const tracking = await resolveTrackingSettings(emailJob.userId, {
+      campaignId: emailJob.campaignId,
+      manualCampaignId: emailJob.manualCampaignId,
+    })
+
     await db.emailSendJob.update({
       where: { id: jobId },
       data: {
         status: EMAIL_STATUS.SENDING,
         error: null,
+        trackOpens: tracking.trackOpens,
+        trackClicks: tracking.trackClicks,
       },
     })
 
+    const listUnsubscribe = buildListUnsubscribe({ userId: emailJob.userId, email: emailJob.leadEmail })
+    const owner = await db.user.findUnique({ where: { id: emailJob.userId }, select: { unsubscribeFooter: true } })
+    const trackedBody = {
+      htmlBody: applyEmailTracking(emailJob.bodyHtml, jobId, tracking),
+      textBody: emailJob.bodyText || undefined,
+    }
+    const body = listUnsubscribe && owner?.unsubscribeFooter
+      ? appendUnsubscribeFooter(trackedBody, listUnsubscribe.pageUrl)
+      : trackedBody
+
     try {
-      const freshAccount = await ensureFreshGmailToken(gmailAccount)
-      const messageId = await sendGmailMessage(freshAccount, {
+      const attachments = await loadJobAttachments(emailJob)
+      const sent = await getEmailTransport(gmailAccount).send({
         to: emailJob.leadEmail,
         subject: emailJob.subject,
-        htmlBody: emailJob.bodyHtml,
-        textBody: emailJob.bodyText || undefined,
+        htmlBody: body.htmlBody,
+        textBody: body.textBody,
+        listUnsubscribe,
+        attachments,
+        threadId: emailJob.gmailThreadId,
+        inReplyTo: emailJob.inReplyTo,
+        references: emailJob.references,
       })
 
-      await db.emailSendJob.update({
+      const sentJob = await db.emailSendJob.update({
         where: { id: jobId },
         data: {
           status: EMAIL_STATUS.SENT,
           sentAt: new Date(),
           error: null,
-          sheetRowRef: emailJob.sheetRowRef || messageId,
+          sheetRowRef: emailJob.sheetRowRef || sent.id,
+          gmailMessageId: sent.id,
+          gmailThreadId: sent.threadId ?? emailJob.gmailThreadId,
+          rfcMessageId: sent.messageId,
         },
       })
+
+      if (sentJob.sentAt) {
+        await recordContactTouch(userId, sentJob.leadEmail, sentJob.sentAt).catch((contactError: unknown) => {
+          console.error(`Failed to record contact history for job ${jobId}:`, contactError)
+        })
+      }
+
+      triggerAlertEvent({
+        userId,
+        event: 'EMAIL_SENT',
+        campaignId: sentJob.campaignId,
+        referenceId: jobId,
+      })
+
+      if (sentJob.sequenceId) {
+        await scheduleNextSequenceStep(sentJob).catch((sequenceError: unknown) => {
+          console.error(`Failed to schedule next sequence step after job ${jobId}:`, sequenceError)
+        })
+      }
     } catch (error) {
-      console.error('Failed to send Gmail message:', error)
+      console.error('Failed to send email:', error)
+      await releaseMailboxSend(gmailAccount.id, reservedAt)
       const errMsg =
         error instanceof GmailUnauthorizedClientError
           ? 'Gmail access is no longer authorized. Enable the Gmail API for your Google Cloud project and reconnect this account.'
           : error instanceof Error
             ? error.message
-            : 'Unknown Gmail error'
+            : 'Unknown send error'
 
       if (error instanceof GmailUnauthorizedClientError) {
         await db.gmailAccount.delete({
@@ -139,6 +269,16 @@ export class EmailSendWorker {
           error: errMsg,
         },
       })
+      triggerAlertEvent({
+        userId,
+        event: 'EMAIL_FAILED',
+        campaignId: emailJob.campaignId,
+        referenceId: jobId,
+      })
+      // A 5xx reply or a refused host will fail the same way on every attempt.
+      if ((error instanceof SmtpError && error.isPermanent) || error instanceof PrivateNetworkError) {
+        throw new UnrecoverableError(errMsg)
+      }
       throw error
     }
   }
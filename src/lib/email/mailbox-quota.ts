@@ -0,0 +1,155 @@
+import type { GmailAccount } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import { redis } from '@/lib/queue'
+import type { MailboxQuotaSettings, MailboxQuotaStatus } from '@/types/gmail'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const COUNTER_TTL_SECONDS = 2 * 24 * 60 * 60
+
+export const MAX_DAILY_SEND_CAP = 2000
+export const MAX_WARMUP_INCREASE_PERCENT = 100
+
+type QuotaAccount = Pick<
+  GmailAccount,
+  'id' | 'emailAddress' | 'dailySendCap' | 'warmupEnabled' | 'warmupStartVolume' | 'warmupIncreasePercent' | 'warmupStartedAt'
+>
+
+export class MailboxQuotaValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MailboxQuotaValidationError'
+  }
+}
+
+// Quotas follow the UTC calendar day so every worker agrees on when a mailbox resets.
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+
+const counterKey = (accountId: string, now: Date) =>
+  `mailbox-quota:${accountId}:${startOfUtcDay(now).toISOString().slice(0, 10)}`
+
+export function getNextQuotaReset(now: Date = new Date()): Date {
+  return new Date(startOfUtcDay(now).getTime() + DAY_MS)
+}
+
+export function getWarmupDay(account: Pick<QuotaAccount, 'warmupStartedAt'>, now: Date = new Date()): number {
+  const started = startOfUtcDay(new Date(account.warmupStartedAt)).getTime()
+  return Math.max(0, Math.floor((startOfUtcDay(now).getTime() - started) / DAY_MS))
+}
+
+/**
+ * Today's allowance for a mailbox. During warm-up the start volume compounds by the
+ * configured percentage each day until it reaches the daily cap.
+ */
+export function getDailyQuota(account: QuotaAccount, now: Date = new Date()): number {
+  const cap = Math.max(0, account.dailySendCap)
+  if (!account.warmupEnabled) {
+    return cap
+  }
+  const growth = 1 + Math.max(0, account.warmupIncreasePercent) / 100
+  const ramped = Math.round(Math.max(1, account.warmupStartVolume) * Math.pow(growth, getWarmupDay(account, now)))
+  return Math.min(cap, ramped)
+}
+
+async function countSentToday(accountId: string, now: Date): Promise<number> {
+  return prisma.emailSendJob.count({
+    where: {
+      gmailAccountId: accountId,
+      status: { in: ['SENT', 'BOUNCED'] },
+      sentAt: { gte: startOfUtcDay(now) },
+    },
+  })
+}
+
+export async function getMailboxQuotaStatus(account: QuotaAccount, now: Date = new Date()): Promise<MailboxQuotaStatus> {
+  const cached = await redis.get(counterKey(account.id, now)).catch(() => null)
+  const sentToday = cached !== null ? Number(cached) : await countSentToday(account.id, now)
+
+  return {
+    gmailAccountId: account.id,
+    emailAddress: account.emailAddress,
+    dailySendCap: account.dailySendCap,
+    warmupEnabled: account.warmupEnabled,
+    warmupStartVolume: account.warmupStartVolume,
+    warmupIncreasePercent: account.warmupIncreasePercent,
+    warmupStartedAt: new Date(account.warmupStartedAt).toISOString(),
+    warmupDay: getWarmupDay(account, now),
+    sentToday,
+    quota: getDailyQuota(account, now),
+    resetsAt: getNextQuotaReset(now).toISOString(),
+  }
+}
+
+/**
+ * Atomically claims one send from today's quota. The Redis counter is seeded from the
+ * sent jobs on record so a flushed cache cannot hand out the day's allowance twice.
+ */
+export async function reserveMailboxSend(
+  account: QuotaAccount,
+  now: Date = new Date(),
+): Promise<{ allowed: boolean; sentToday: number; quota: number; resetsAt: Date }> {
+  const key = counterKey(account.id, now)
+  const quota = getDailyQuota(account, now)
+  const seed = (await redis.exists(key)) ? 0 : await countSentToday(account.id, now)
+
+  const luaScript = `
+    local key = KEYS[1]
+    local quota = tonumber(ARGV[1])
+    redis.call('SET', key, ARGV[2], 'EX', ARGV[3], 'NX')
+    local used = tonumber(redis.call('GET', key))
+    if used >= quota then
+      return {0, used}
+    end
+    return {1, redis.call('INCR', key)}
+  `
+
+  const [allowed, used] = (await redis.eval(luaScript, 1, key, quota, seed, COUNTER_TTL_SECONDS)) as [number, number]
+  return { allowed: allowed === 1, sentToday: used, quota, resetsAt: getNextQuotaReset(now) }
+}
+
+/**
+ * Gives a reserved send back when the message never went out.
+ */
+export async function releaseMailboxSend(accountId: string, reservedAt: Date): Promise<void> {
+  const key = counterKey(accountId, reservedAt)
+  await redis
+    .eval(`if (tonumber(redis.call('GET', KEYS[1]) or '0') > 0) then return redis.call('DECR', KEYS[1]) end return 0`, 1, key)
+    .catch((error: unknown) => {
+      console.error(`Failed to release mailbox quota for ${accountId}:`, error)
+    })
+}
+
+export function parseMailboxQuotaSettings(input: Record<string, unknown>): Partial<MailboxQuotaSettings> {
+  const settings: Partial<MailboxQuotaSettings> = {}
+
+  const readInt = (value: unknown, label: string, min: number, max: number) => {
+    const parsed = typeof value === 'string' ? Number(value) : value
+    if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw new MailboxQuotaValidationError(`${label} must be a whole number between ${min} and ${max}.`)
+    }
+    return parsed
+  }
+
+  if (input.dailySendCap !== undefined) {
+    settings.dailySendCap = readInt(input.dailySendCap, 'Daily cap', 1, MAX_DAILY_SEND_CAP)
+  }
+  if (input.warmupStartVolume !== undefined) {
+    settings.warmupStartVolume = readInt(input.warmupStartVolume, 'Warm-up start volume', 1, MAX_DAILY_SEND_CAP)
+  }
+  if (input.warmupIncreasePercent !== undefined) {
+    settings.warmupIncreasePercent = readInt(
+      input.warmupIncreasePercent,
+      'Daily increase',
+      0,
+      MAX_WARMUP_INCREASE_PERCENT,
+    )
+  }
+  if (input.warmupEnabled !== undefined) {
+    if (typeof input.warmupEnabled !== 'boolean') {
+      throw new MailboxQuotaValidationError('Warm-up must be switched on or off.')
+    }
+    settings.warmupEnabled = input.warmupEnabled
+  }
+
+  return settings
+}
@@ -0,0 +1,238 @@
+import { randomUUID } from 'crypto'
+
+export type CalendarInvite = {
+  method: 'REQUEST' | 'CANCEL'
+  content: string
+  filename?: string
+}
+
+export type ListUnsubscribe = {
+  /** One-click endpoint mail providers POST to (RFC 8058). */
+  url: string
+  /** Hosted confirmation page for people who follow the link themselves. */
+  pageUrl: string
+}
+
+export type MimeAttachment = {
+  filename: string
+  contentType: string
+  content: Buffer
+}
+
+export type OutboundEmail = {
+  to: string
+  subject: string
+  htmlBody: string
+  textBody?: string
+  replyTo?: string
+  threadId?: string | null
+  inReplyTo?: string | null
+  references?: string | null
+  calendarInvite?: CalendarInvite
+  listUnsubscribe?: ListUnsubscribe | null
+  attachments?: MimeAttachment[]
+}
+
+export function createRfcMessageId(emailAddress: string): string {
+  const domain = emailAddress.split('@')[1] || 'mail.gmail.com'
+  return `<${randomUUID()}@${domain}>`
+}
+
+export function stripHtml(html: string): string {
+  return html.replace(/<[^>]+>/g, '')
+}
+
+const isPrintableAscii = (value: string) => /^[\x20-\x7e]*$/.test(value)
+
+/**
+ * Encodes a header value as RFC 2047 encoded words when it is not plain ASCII. Words are split
+ * on character boundaries and folded onto continuation lines to stay within the line limit.
+ */
+function encodeHeaderValue(value: string): string {
+  if (isPrintableAscii(value)) {
+    return value
+  }
+  const words: string[] = []
+  let chunk = ''
+  for (const char of value.replace(/[\r\n]+/g, ' ')) {
+    // 39 bytes of UTF-8 become 52 base64 characters, so even the first line stays under 78.
+    if (Buffer.byteLength(chunk + char, 'utf8') > 39) {
+      words.push(chunk)
+      chunk = ''
+    }
+    chunk += char
+  }
+  words.push(chunk)
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`).join('\n ')
+}
+
+/** Quoted-printable (RFC 2045) with soft breaks so no encoded line exceeds 76 characters. */
+function encodeQuotedPrintable(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const bytes = Buffer.from(line, 'utf8')
+      const encoded: string[] = []
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1
+        const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast)
+        encoded.push(literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`)
+      })
+
+      const output: string[] = []
+      let current = ''
+      for (const token of encoded) {
+        if (current.length + token.length > 75) {
+          output.push(`${current}=`)
+          current = ''
+        }
+        current += token
+      }
+      output.push(current)
+      return output.join('\n')
+    })
+    .join('\n')
+}
+
+type TextPartEncoding = { sevenBit: boolean }
+
+function buildTextPart(contentType: 'text/plain' | 'text/html', body: string, encoding: TextPartEncoding): string[] {
+  return encoding.sevenBit
+    ? [`Content-Type: ${contentType}; charset="UTF-8"`, 'Content-Transfer-Encoding: quoted-printable', '', encodeQuotedPrintable(body)]
+    : [`Content-Type: ${contentType}; charset="UTF-8"`, '', body]
+}
+
+/**
+ * Builds the header and body lines of an outgoing message. Callers join the lines with the
+ * line ending their transport expects. `date` is only needed where the server will not
+ * stamp one itself, which Gmail does but plain SMTP relays may not. Set `sevenBit` for
+ * relays that may not accept 8-bit data or long lines: text parts are sent quoted-printable
+ * and non-ASCII headers are encoded.
+ */
+export function buildMimeMessage(
+  from: string,
+  message: OutboundEmail,
+  options: { messageId: string; date?: Date; sevenBit?: boolean },
+): string[] {
+  const encoding: TextPartEncoding = { sevenBit: Boolean(options.sevenBit) }
+  const references = Array.from(
+    new Set([...(message.references?.split(/\s+/) ?? []), message.inReplyTo ?? ''].filter(Boolean)),
+  ).join(' ')
+
+  const mimeParts: string[] = []
+  mimeParts.push(`From: ${from}`)
+  mimeParts.push(`To: ${message.to}`)
+  mimeParts.push(`Subject: ${encoding.sevenBit ? encodeHeaderValue(message.subject) : message.subject}`)
+  if (options.date) {
+    mimeParts.push(`Date: ${options.date.toUTCString().replace('GMT', '+0000')}`)
+  }
+  mimeParts.push(`Message-ID: ${options.messageId}`)
+  if (message.inReplyTo) {
+    mimeParts.push(`In-Reply-To: ${message.inReplyTo}`)
+  }
+  if (references) {
+    mimeParts.push(`References: ${references}`)
+  }
+  if (message.replyTo) {
+    mimeParts.push(`Reply-To: ${message.replyTo}`)
+  }
+  if (message.listUnsubscribe) {
+    mimeParts.push(`List-Unsubscribe: <${message.listUnsubscribe.url}>`)
+    mimeParts.push('List-Unsubscribe-Post: List-Unsubscribe=One-Click')
+  }
+  mimeParts.push('MIME-Version: 1.0')
+  if (message.calendarInvite) {
+    mimeParts.push(...buildCalendarInviteParts(message, message.calendarInvite, encoding))
+  } else {
+    const alternativeParts = [
+      '--boundary',
+      ...buildTextPart('text/plain', message.textBody || stripHtml(message.htmlBody), encoding),
+      '--boundary',
+      ...buildTextPart('text/html', message.htmlBody, encoding),
+      '--boundary--',
+    ]
+    if (message.attachments?.length) {
+      mimeParts.push('Content-Type: multipart/mixed; boundary="mixed"')
+      mimeParts.push('')
+      mimeParts.push('--mixed')
+      mimeParts.push('Content-Type: multipart/alternative; boundary="boundary"')
+      mimeParts.push('')
+      mimeParts.push(...alternativeParts)
+      mimeParts.push(...buildAttachmentParts(message.attachments))
+      mimeParts.push('--mixed--')
+    } else {
+      mimeParts.push('Content-Type: multipart/alternative; boundary="boundary"')
+      mimeParts.push('')
+      mimeParts.push(...alternativeParts)
+    }
+  }
+  return mimeParts
+}
+
+const encodeBase64Lines = (content: Buffer) => (content.toString('base64').match(/.{1,76}/g) ?? []).join('\n')
+
+/**
+ * Quotes a filename for Content-Type/Content-Disposition. Non-ASCII names also get the
+ * RFC 2231 form, which every current client prefers over the plain parameter.
+ */
+function filenameParameters(filename: string): { name: string; disposition: string } {
+  const cleaned = filename.replace(/[\r\n"\\]/g, '').trim() || 'attachment'
+  if (isPrintableAscii(cleaned)) {
+    return { name: `name="${cleaned}"`, disposition: `filename="${cleaned}"` }
+  }
+  const ascii = cleaned.replace(/[^\x20-\x7e]/g, '_')
+  const encoded = encodeURIComponent(cleaned).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  return { name: `name="${ascii}"`, disposition: `filename="${ascii}"; filename*=UTF-8''${encoded}` }
+}
+
+function buildAttachmentParts(attachments: MimeAttachment[]): string[] {
+  return attachments.flatMap((attachment) => {
+    const params = filenameParameters(attachment.filename)
+    return [
+      '--mixed',
+      `Content-Type: ${attachment.contentType || 'application/octet-stream'}; ${params.name}`,
+      `Content-Disposition: attachment; ${params.disposition}`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBase64Lines(attachment.content),
+    ]
+  })
+}
+
+/**
+ * Calendar clients look for a text/calendar alternative carrying the METHOD parameter to
+ * render Accept/Decline buttons; the .ics attachment covers clients that only import files.
+ */
+function buildCalendarInviteParts(
+  message: { htmlBody: string; textBody?: string },
+  invite: CalendarInvite,
+  encoding: TextPartEncoding,
+): string[] {
+  const encodedInvite = encodeBase64Lines(Buffer.from(invite.content, 'utf-8'))
+  const filename = invite.filename || (invite.method === 'CANCEL' ? 'cancel.ics' : 'invite.ics')
+
+  return [
+    'Content-Type: multipart/mixed; boundary="mixed"',
+    '',
+    '--mixed',
+    'Content-Type: multipart/alternative; boundary="boundary"',
+    '',
+    '--boundary',
+    ...buildTextPart('text/plain', message.textBody || stripHtml(message.htmlBody), encoding),
+    '--boundary',
+    ...buildTextPart('text/html', message.htmlBody, encoding),
+    '--boundary',
+    `Content-Type: text/calendar; charset="UTF-8"; method=${invite.method}`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodedInvite,
+    '--boundary--',
+    '--mixed',
+    `Content-Type: application/ics; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodedInvite,
+    '--mixed--',
+  ]
+}
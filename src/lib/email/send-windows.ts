@@ -0,0 +1,276 @@
+import type { SendWindow } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import type { ScheduledSendPreview, SendTimeZoneSource } from '@/types/send-window'
+
+const MINUTE_MS = 60 * 1000
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export type SendWindowRule = Pick<SendWindow, 'days' | 'startMinute' | 'endMinute' | 'timeZone'>
+
+type SendTarget = { campaignId?: string | null; manualCampaignId?: string | null }
+
+type LeadTimeZoneFields = { timeZone?: string | null; location?: string | null }
+
+const US_STATE_ZONES: Record<string, string> = {
+  alabama: 'America/Chicago', alaska: 'America/Anchorage', arizona: 'America/Phoenix',
+  arkansas: 'America/Chicago', california: 'America/Los_Angeles', colorado: 'America/Denver',
+  connecticut: 'America/New_York', delaware: 'America/New_York', 'district of columbia': 'America/New_York',
+  florida: 'America/New_York', georgia: 'America/New_York', hawaii: 'Pacific/Honolulu',
+  idaho: 'America/Boise', illinois: 'America/Chicago', indiana: 'America/Indiana/Indianapolis',
+  iowa: 'America/Chicago', kansas: 'America/Chicago', kentucky: 'America/New_York',
+  louisiana: 'America/Chicago', maine: 'America/New_York', maryland: 'America/New_York',
+  massachusetts: 'America/New_York', michigan: 'America/Detroit', minnesota: 'America/Chicago',
+  mississippi: 'America/Chicago', missouri: 'America/Chicago', montana: 'America/Denver',
+  nebraska: 'America/Chicago', nevada: 'America/Los_Angeles', 'new hampshire': 'America/New_York',
+  'new jersey': 'America/New_York', 'new mexico': 'America/Denver', 'new york': 'America/New_York',
+  'north carolina': 'America/New_York', 'north dakota': 'America/Chicago', ohio: 'America/New_York',
+  oklahoma: 'America/Chicago', oregon: 'America/Los_Angeles', pennsylvania: 'America/New_York',
+  'rhode island': 'America/New_York', 'south carolina': 'America/New_York', 'south dakota': 'America/Chicago',
+  tennessee: 'America/Chicago', texas: 'America/Chicago', utah: 'America/Denver',
+  vermont: 'America/New_York', virginia: 'America/New_York', washington: 'America/Los_Angeles',
+  'west virginia': 'America/New_York', wisconsin: 'America/Chicago', wyoming: 'America/Denver',
+}
+
+const CANADA_PROVINCE_ZONES: Record<string, string> = {
+  alberta: 'America/Edmonton', 'british columbia': 'America/Vancouver', manitoba: 'America/Winnipeg',
+  'new brunswick': 'America/Moncton', 'newfoundland and labrador': 'America/St_Johns',
+  'nova scotia': 'America/Halifax', ontario: 'America/Toronto', 'prince edward island': 'America/Halifax',
+  quebec: 'America/Toronto', saskatchewan: 'America/Regina',
+}
+
+const AUSTRALIA_STATE_ZONES: Record<string, string> = {
+  'new south wales': 'Australia/Sydney', victoria: 'Australia/Melbourne', queensland: 'Australia/Brisbane',
+  'western australia': 'Australia/Perth', 'south australia': 'Australia/Adelaide', tasmania: 'Australia/Hobart',
+  'australian capital territory': 'Australia/Sydney', 'northern territory': 'Australia/Darwin',
+}
+
+// Countries spanning several zones map to their main business hub; the region tables above refine the big ones.
+const COUNTRY_ZONES: Record<string, string> = {
+  'united states': 'America/New_York', usa: 'America/New_York', canada: 'America/Toronto',
+  mexico: 'America/Mexico_City', brazil: 'America/Sao_Paulo', argentina: 'America/Argentina/Buenos_Aires',
+  chile: 'America/Santiago', colombia: 'America/Bogota', peru: 'America/Lima',
+  'united kingdom': 'Europe/London', uk: 'Europe/London', england: 'Europe/London', scotland: 'Europe/London',
+  wales: 'Europe/London', ireland: 'Europe/Dublin', portugal: 'Europe/Lisbon', spain: 'Europe/Madrid',
+  france: 'Europe/Paris', belgium: 'Europe/Brussels', netherlands: 'Europe/Amsterdam',
+  luxembourg: 'Europe/Luxembourg', germany: 'Europe/Berlin', switzerland: 'Europe/Zurich',
+  austria: 'Europe/Vienna', italy: 'Europe/Rome', denmark: 'Europe/Copenhagen', norway: 'Europe/Oslo',
+  sweden: 'Europe/Stockholm', finland: 'Europe/Helsinki', poland: 'Europe/Warsaw',
+  'czech republic': 'Europe/Prague', czechia: 'Europe/Prague', hungary: 'Europe/Budapest',
+  romania: 'Europe/Bucharest', bulgaria: 'Europe/Sofia', greece: 'Europe/Athens', turkey: 'Europe/Istanbul',
+  ukraine: 'Europe/Kyiv', estonia: 'Europe/Tallinn', latvia: 'Europe/Riga', lithuania: 'Europe/Vilnius',
+  israel: 'Asia/Jerusalem', 'united arab emirates': 'Asia/Dubai', 'saudi arabia': 'Asia/Riyadh',
+  qatar: 'Asia/Qatar', egypt: 'Africa/Cairo', nigeria: 'Africa/Lagos', kenya: 'Africa/Nairobi',
+  'south africa': 'Africa/Johannesburg', india: 'Asia/Kolkata', pakistan: 'Asia/Karachi',
+  bangladesh: 'Asia/Dhaka', singapore: 'Asia/Singapore', malaysia: 'Asia/Kuala_Lumpur',
+  indonesia: 'Asia/Jakarta', philippines: 'Asia/Manila', vietnam: 'Asia/Ho_Chi_Minh',
+  thailand: 'Asia/Bangkok', china: 'Asia/Shanghai', 'hong kong': 'Asia/Hong_Kong', taiwan: 'Asia/Taipei',
+  japan: 'Asia/Tokyo', 'south korea': 'Asia/Seoul', australia: 'Australia/Sydney',
+  'new zealand': 'Pacific/Auckland',
+}
+
+export function isValidTimeZone(value: string | null | undefined): value is string {
+  if (!value) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const COUNTRY_REGION_ZONES: Record<string, Record<string, string>> = {
+  'united states': US_STATE_ZONES, usa: US_STATE_ZONES, canada: CANADA_PROVINCE_ZONES, australia: AUSTRALIA_STATE_ZONES,
+}
+
+/**
+ * Best-effort IANA zone for a free-form location such as "Austin, Texas, United States".
+ * The region is the part just before the country, so a city named like a state
+ * ("Washington, District of Columbia, United States") doesn't decide the zone. Without a
+ * country, parts are scanned from the end.
+ */
+export function resolveTimeZoneFromLocation(location: string | null | undefined): string | null {
+  if (!location) return null
+  const parts = location
+    .split(',')
+    .map((part) => part.trim().toLowerCase())
+    .filter(Boolean)
+
+  const countryIndex = parts.findLastIndex((part) => Boolean(COUNTRY_ZONES[part]))
+  if (countryIndex >= 0) {
+    const country = parts[countryIndex]
+    const region = parts[countryIndex - 1]
+    return (region && COUNTRY_REGION_ZONES[country]?.[region]) || COUNTRY_ZONES[country]
+  }
+  for (const part of [...parts].reverse()) {
+    const zone = US_STATE_ZONES[part] ?? CANADA_PROVINCE_ZONES[part] ?? AUSTRALIA_STATE_ZONES[part]
+    if (zone) return zone
+  }
+  return null
+}
+
+export function resolveLeadTimeZone(
+  lead: LeadTimeZoneFields | null | undefined,
+  fallback: string,
+): { timeZone: string; source: SendTimeZoneSource } {
+  if (isValidTimeZone(lead?.timeZone)) {
+    return { timeZone: lead.timeZone, source: 'lead' }
+  }
+  const fromLocation = resolveTimeZoneFromLocation(lead?.location)
+  if (fromLocation) {
+    return { timeZone: fromLocation, source: 'location' }
+  }
+  return { timeZone: isValidTimeZone(fallback) ? fallback : 'UTC', source: 'fallback' }
+}
+
+type ZonedParts = { year: number; month: number; day: number; weekday: number; minuteOfDay: number }
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date)
+  const value = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value ?? ''
+
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    weekday: WEEKDAYS.indexOf(value('weekday')),
+    minuteOfDay: Number(value('hour')) * 60 + Number(value('minute')),
+  }
+}
+
+function getZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, 0, parts.minuteOfDay)
+  return asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. The offset is re-read at the
+ * first guess so times on DST transition days land on the correct side.
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, minuteOfDay: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minuteOfDay)
+  const firstGuess = wallClock - getZoneOffsetMs(new Date(wallClock), timeZone)
+  return new Date(wallClock - getZoneOffsetMs(new Date(firstGuess), timeZone))
+}
+
+/**
+ * Earliest instant at or after `from` that falls inside the window in the recipient's zone.
+ * Windows without any active day never defer.
+ */
+export function nextSendTime(window: SendWindowRule, timeZone: string, from: Date = new Date()): Date {
+  const days = new Set(window.days.filter((day) => day >= 0 && day <= 6))
+  if (days.size === 0 || window.endMinute <= window.startMinute) {
+    return from
+  }
+
+  const local = getZonedParts(from, timeZone)
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + offset))
+    if (!days.has(date.getUTCDay())) continue
+
+    if (offset === 0) {
+      if (local.minuteOfDay >= window.endMinute) continue
+      if (local.minuteOfDay >= window.startMinute) return from
+    }
+
+    const candidate = zonedTimeToUtc(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      window.startMinute,
+      timeZone,
+    )
+    if (candidate.getTime() >= from.getTime()) {
+      return candidate
+    }
+  }
+  return from
+}
+
+export async function findActiveSendWindow(userId: string, target: SendTarget) {
+  if (!target.campaignId && !target.manualCampaignId) {
+    return null
+  }
+
+  return prisma.sendWindow.findFirst({
+    where: {
+      userId,
+      isActive: true,
+      OR: [
+        ...(target.campaignId ? [{ campaignId: target.campaignId }] : []),
+        ...(target.manualCampaignId ? [{ manualCampaignId: target.manualCampaignId }] : []),
+      ],
+    },
+    orderBy: { updatedAt: 'desc' },
+  })
+}
+
+/**
+ * Works out when each recipient's email may go out under the campaign's send window.
+ * Time zones come from the matching lead record (explicit zone, then location), falling
+ * back to the window's own zone for recipients that are not stored as leads.
+ */
+export async function resolveSendSchedule(
+  userId: string,
+  target: SendTarget,
+  emails: string[],
+  options: { from?: Date; window?: SendWindowRule | null } = {},
+): Promise<Map<string, ScheduledSendPreview>> {
+  const from = options.from ?? new Date()
+  const window = options.window === undefined ? await findActiveSendWindow(userId, target) : options.window
+  const normalized = Array.from(new Set(emails.map((email) => email.trim().toLowerCase()).filter(Boolean)))
+  const schedule = new Map<string, ScheduledSendPreview>()
+
+  if (!window) {
+    for (const email of normalized) {
+      schedule.set(email, {
+        email,
+        timeZone: 'UTC',
+        timeZoneSource: 'fallback',
+        scheduledAt: from.toISOString(),
+        deferred: false,
+      })
+    }
+    return schedule
+  }
+
+  const leads = normalized.length
+    ? await prisma.lead.findMany({
+        where: { userId, email: { in: normalized, mode: 'insensitive' } },
+        select: { email: true, campaignId: true, timeZone: true, location: true },
+        orderBy: { updatedAt: 'desc' },
+      })
+    : []
+
+  const leadsByEmail = new Map<string, (typeof leads)[number]>()
+  for (const lead of leads) {
+    const key = lead.email.toLowerCase()
+    const current = leadsByEmail.get(key)
+    if (!current || (target.campaignId && lead.campaignId === target.campaignId && current.campaignId !== target.campaignId)) {
+      leadsByEmail.set(key, lead)
+    }
+  }
+
+  for (const email of normalized) {
+    const { timeZone, source } = resolveLeadTimeZone(leadsByEmail.get(email), window.timeZone)
+    const sendAt = nextSendTime(window, timeZone, from)
+    schedule.set(email, {
+      email,
+      timeZone,
+      timeZoneSource: source,
+      scheduledAt: sendAt.toISOString(),
+      deferred: sendAt.getTime() > from.getTime(),
+    })
+  }
+  return schedule
+}
@@ -0,0 +1,258 @@
+import type { EmailSendJob, OutreachSequenceStep } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import { enqueueEmailSendJob } from '@/lib/queue'
+import { formatEmailBody } from '@/lib/email/format'
+import { resolveSendSchedule } from '@/lib/email/send-windows'
+import { buildMergeFields, renderEmailTemplate } from '@/lib/email/templates'
+
+const HOUR_MS = 60 * 60 * 1000
+const REPLY_PREFIX_REGEX = /^(re|fwd?):\s*/i
+
+export function buildFollowUpSubject(previousSubject: string): string {
+  let base = previousSubject.trim()
+  while (REPLY_PREFIX_REGEX.test(base)) {
+    base = base.replace(REPLY_PREFIX_REGEX, '')
+  }
+  return `Re: ${base}`
+}
+
+export async function findActiveSequence(
+  userId: string,
+  target: { campaignId?: string | null; manualCampaignId?: string | null },
+) {
+  if (!target.campaignId && !target.manualCampaignId) {
+    return null
+  }
+
+  return prisma.outreachSequence.findFirst({
+    where: {
+      userId,
+      isActive: true,
+      steps: { some: {} },
+      OR: [
+        ...(target.campaignId ? [{ campaignId: target.campaignId }] : []),
+        ...(target.manualCampaignId ? [{ manualCampaignId: target.manualCampaignId }] : []),
+      ],
+    },
+    orderBy: { updatedAt: 'desc' },
+    select: { id: true },
+  })
+}
+
+/**
+ * Returns why a sequence should stop for this job's lead, or null when the next step may go out.
+ * A lead is considered done once they reply (including unsubscribe and bounce notices) after the
+ * sequence started, or once any of their lead records has been suppressed.
+ */
+export async function getSequenceHaltReason(
+  job: Pick<EmailSendJob, 'userId' | 'leadEmail' | 'sequenceId'>,
+): Promise<string | null> {
+  if (!job.sequenceId) {
+    return 'Sequence paused or removed'
+  }
+
+  const sequence = await prisma.outreachSequence.findUnique({
+    where: { id: job.sequenceId },
+    select: { isActive: true },
+  })
+  if (!sequence?.isActive) {
+    return 'Sequence paused or removed'
+  }
+
+  const sequenceJobs = await prisma.emailSendJob.findMany({
+    where: {
+      userId: job.userId,
+      sequenceId: job.sequenceId,
+      leadEmail: { equals: job.leadEmail, mode: 'insensitive' },
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, createdAt: true, gmailThreadId: true },
+  })
+  const firstJob = sequenceJobs[0]
+  const threadIds = Array.from(
+    new Set(sequenceJobs.map((sequenceJob) => sequenceJob.gmailThreadId).filter((id): id is string => Boolean(id))),
+  )
+
+  const [reply, suppressedLead] = await Promise.all([
+    prisma.emailReply.findFirst({
+      where: {
+        userId: job.userId,
+        // A colleague or alias answering one of the sequence's emails counts as the lead replying.
+        OR: [
+          { leadEmail: { equals: job.leadEmail, mode: 'insensitive' } },
+          ...(sequenceJobs.length ? [{ emailSendJobId: { in: sequenceJobs.map((sequenceJob) => sequenceJob.id) } }] : []),
+          ...(threadIds.length ? [{ gmailThreadId: { in: threadIds } }] : []),
+        ],
+        ...(firstJob ? { receivedAt: { gte: firstJob.createdAt } } : {}),
+      },
+      orderBy: { receivedAt: 'desc' },
+      select: { disposition: true },
+    }),
+    prisma.lead.findFirst({
+      where: {
+        userId: job.userId,
+        email: { equals: job.leadEmail, mode: 'insensitive' },
+        isSuppressed: true,
+      },
+      select: { id: true },
+    }),
+  ])
+
+  if (reply?.disposition === 'UNSUB') {
+    return 'Sequence stopped: lead unsubscribed'
+  }
+  if (reply?.disposition === 'BOUNCED') {
+    return 'Sequence stopped: previous email bounced'
+  }
+  if (reply) {
+    return 'Sequence stopped: lead replied'
+  }
+  if (suppressedLead) {
+    return 'Sequence stopped: lead is suppressed'
+  }
+  return null
+}
+
+/**
+ * Renders a step for the lead of `previousJob` with the same merge fields as the first email:
+ * the sheet row stored on the job, the lead details copied onto it, then the stored lead.
+ */
+async function buildStepContent(step: OutreachSequenceStep, previousJob: EmailSendJob) {
+  const lead = await prisma.lead.findFirst({
+    where: {
+      userId: previousJob.userId,
+      email: { equals: previousJob.leadEmail, mode: 'insensitive' },
+      ...(previousJob.campaignId ? { campaignId: previousJob.campaignId } : {}),
+    },
+    orderBy: { updatedAt: 'desc' },
+  })
+  const sheetFields = previousJob.mergeFields && typeof previousJob.mergeFields === 'object' && !Array.isArray(previousJob.mergeFields)
+    ? (previousJob.mergeFields as Record<string, unknown>)
+    : null
+  const fields = buildMergeFields(
+    sheetFields,
+    {
+      email: previousJob.leadEmail,
+      firstName: previousJob.leadFirstName,
+      lastName: previousJob.leadLastName,
+      company: previousJob.leadCompany,
+      summary: previousJob.leadSummary,
+    },
+    lead,
+  )
+
+  // Plain-text steps are converted to HTML first so merged values are escaped like the body around them.
+  const body = formatEmailBody(step.bodyTemplate)
+  const rendered = renderEmailTemplate(
+    { subject: step.subjectTemplate?.trim() ?? '', bodyHtml: body.html, bodyText: body.text },
+    fields,
+  )
+
+  return {
+    subject: (rendered.subject || buildFollowUpSubject(previousJob.subject)).slice(0, 180),
+    bodyHtml: rendered.bodyHtml,
+    bodyText: rendered.bodyText.slice(0, 2000),
+    missing: rendered.missing,
+  }
+}
+
+/**
+ * Threading fields for a message that answers `previous`: same Gmail thread, with
+ * In-Reply-To/References pointing at the previous Message-ID so other clients thread it too.
+ */
+export function buildThreadReply(previous: Pick<EmailSendJob, 'gmailThreadId' | 'rfcMessageId' | 'references'>) {
+  return {
+    gmailThreadId: previous.gmailThreadId,
+    inReplyTo: previous.rfcMessageId,
+    references: [previous.references, previous.rfcMessageId].filter(Boolean).join(' ') || null,
+  }
+}
+
+/**
+ * Creates and enqueues the follow-up that comes after `sentJob` in its sequence.
+ * Called by the email worker once a sequence email has been delivered.
+ */
+export async function scheduleNextSequenceStep(sentJob: EmailSendJob): Promise<string | null> {
+  if (!sentJob.sequenceId) {
+    return null
+  }
+
+  const currentStep = sentJob.sequenceStep ?? 0
+  const nextStep = await prisma.outreachSequenceStep.findFirst({
+    where: {
+      sequenceId: sentJob.sequenceId,
+      stepNumber: { gt: currentStep },
+    },
+    orderBy: { stepNumber: 'asc' },
+  })
+
+  if (!nextStep) {
+    return null
+  }
+
+  const haltReason = await getSequenceHaltReason(sentJob)
+  if (haltReason) {
+    console.log(`Not scheduling step ${nextStep.stepNumber} for ${sentJob.leadEmail}: ${haltReason}`)
+    return null
+  }
+
+  const now = Date.now()
+  const dueAt = new Date(now + Math.max(0, nextStep.delayHours) * HOUR_MS)
+  const schedule = (
+    await resolveSendSchedule(
+      sentJob.userId,
+      { campaignId: sentJob.campaignId, manualCampaignId: sentJob.manualCampaignId },
+      [sentJob.leadEmail],
+      { from: dueAt },
+    )
+  ).get(sentJob.leadEmail.toLowerCase())
+  const scheduledAt = schedule ? new Date(schedule.scheduledAt) : dueAt
+  const delayMs = Math.max(0, scheduledAt.getTime() - now)
+  const content = await buildStepContent(nextStep, sentJob)
+  if (content.missing.length > 0) {
+    console.log(
+      `Not scheduling step ${nextStep.stepNumber} for ${sentJob.leadEmail}: missing merge fields ${content.missing.join(', ')}`,
+    )
+    return null
+  }
+
+  const followUp = await prisma.emailSendJob.create({
+    data: {
+      userId: sentJob.userId,
+      campaignId: sentJob.campaignId,
+      gmailAccountId: sentJob.gmailAccountId,
+      leadEmail: sentJob.leadEmail,
+      leadFirstName: sentJob.leadFirstName,
+      leadLastName: sentJob.leadLastName,
+      leadCompany: sentJob.leadCompany,
+      leadSummary: sentJob.leadSummary,
+      manualCampaignId: sentJob.manualCampaignId,
+      manualCampaignName: sentJob.manualCampaignName,
+      manualCampaignSource: sentJob.manualCampaignSource,
+      subject: content.subject,
+      bodyHtml: content.bodyHtml,
+      bodyText: content.bodyText,
+      status: 'QUEUED',
+      scheduledAt,
+      leadTimeZone: schedule?.deferred ? schedule.timeZone : null,
+      sequenceId: sentJob.sequenceId,
+      sequenceStep: nextStep.stepNumber,
+      previousJobId: sentJob.id,
+      variantId: sentJob.variantId,
+      mergeFields: sentJob.mergeFields ?? undefined,
+      ...buildThreadReply(sentJob),
+    },
+  })
+
+  await enqueueEmailSendJob(
+    {
+      jobId: followUp.id,
+      userId: followUp.userId,
+      gmailAccountId: followUp.gmailAccountId,
+    },
+    { delay: delayMs },
+  )
+
+  return followUp.id
+}
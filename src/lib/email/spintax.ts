@@ -0,0 +1,70 @@
+/**
+ * Spintax: `{Hi|Hello|Hey} {{firstName}}` picks one option per lead. Options may nest, and
+ * double-brace merge fields are left alone for the template engine.
+ */
+
+/** 32-bit FNV-1a. Stable across runtimes, so a lead always lands on the same choice. */
+export function stableHash(value: string): number {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function hasSpintax(source: string): boolean {
+  return /(^|[^{])\{(?!\{)[^{}]*\|[^{}]*\}/.test(source)
+}
+
+/**
+ * Resolves every spin group using choices derived from `seed`. Each group hashes its own
+ * position too, so two groups with the same options do not always pick the same one.
+ */
+export function resolveSpintax(source: string, seed: string): string {
+  let groupIndex = 0
+
+  const parse = (start: number, inGroup: boolean): { options: string[]; end: number } => {
+    const options: string[] = []
+    let current = ''
+    let index = start
+    while (index < source.length) {
+      const char = source[index]
+      if (char === '{' && source[index + 1] === '{') {
+        const close = source.indexOf('}}', index + 2)
+        const end = close === -1 ? source.length : close + 2
+        current += source.slice(index, end)
+        index = end
+        continue
+      }
+      if (char === '{') {
+        const group = parse(index + 1, true)
+        if (group.options.length < 2) {
+          // Braces without alternatives are ordinary text, e.g. CSS in an HTML body.
+          current += source[group.end - 1] === '}' ? `{${group.options.join('')}}` : group.options.join('')
+        } else {
+          current += group.options[stableHash(`${seed}:${groupIndex}`) % group.options.length]
+          groupIndex += 1
+        }
+        index = group.end
+        continue
+      }
+      if (inGroup && char === '|') {
+        options.push(current)
+        current = ''
+        index += 1
+        continue
+      }
+      if (inGroup && char === '}') {
+        options.push(current)
+        return { options, end: index + 1 }
+      }
+      current += char
+      index += 1
+    }
+    // An unclosed group is kept as written rather than silently dropping text.
+    return { options: inGroup ? [`{${[...options, current].join('|')}`] : [current], end: index }
+  }
+
+  return parse(0, false).options[0] ?? ''
+}
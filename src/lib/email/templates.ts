@@ -0,0 +1,243 @@
+/**
+ * Merge-field templates for outreach subjects and bodies.
+ *
+ *   {{firstName}}                   required; the lead is flagged when it is empty
+ *   {{firstName | "there"}}         optional, with a fallback
+ *   {{#if company}}…{{else}}…{{/if}}
+ *   {{#unless company}}…{{/unless}}
+ *
+ * Field names are matched loosely ("First Name", "first_name" and "firstName" are the same
+ * field), so any sheet column can be referenced by its header.
+ */
+
+export type MergeFields = Record<string, string>
+
+export type TemplateRenderResult = {
+  output: string
+  /** Required fields that were empty for this lead, in the order they appear. */
+  missing: string[]
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'field'; name: string; fallback: string | null }
+  | { type: 'condition'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateSyntaxError'
+  }
+}
+
+const TAG_REGEX = /\{\{\s*([\s\S]*?)\s*\}\}/g
+const FIELD_NAME_REGEX = /^[A-Za-z][\w .-]*$/
+const FALLBACK_REGEX = /^(["'])([\s\S]*)\1$/
+
+const FIELD_ALIASES: Record<string, string> = {
+  first: 'firstname',
+  last: 'lastname',
+  name: 'fullname',
+  companyname: 'company',
+  organization: 'company',
+  title: 'jobtitle',
+  role: 'jobtitle',
+  emailaddress: 'email',
+}
+
+export function normalizeFieldName(name: string): string {
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, '')
+  return FIELD_ALIASES[key] ?? key
+}
+
+// Bodies edited in the wizard are HTML-escaped before they reach us, so quotes inside a
+// tag can arrive as entities.
+const decodeTagEntities = (value: string) =>
+  value.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&')
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+
+function parseFieldTag(expression: string): { name: string; fallback: string | null } {
+  const pipe = expression.indexOf('|')
+  const name = (pipe === -1 ? expression : expression.slice(0, pipe)).trim()
+  if (!FIELD_NAME_REGEX.test(name)) {
+    throw new TemplateSyntaxError(`"{{${expression}}}" is not a valid merge field.`)
+  }
+  if (pipe === -1) {
+    return { name, fallback: null }
+  }
+
+  const fallback = expression.slice(pipe + 1).trim().match(FALLBACK_REGEX)
+  if (!fallback) {
+    throw new TemplateSyntaxError(`The fallback for "${name}" must be quoted, for example {{${name} | "there"}}.`)
+  }
+  return { name, fallback: fallback[2] }
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'condition' }>; inElse: boolean }> = []
+  const current = () => {
+    const open = stack[stack.length - 1]
+    if (!open) return root
+    return open.inElse ? open.node.otherwise : open.node.then
+  }
+
+  let cursor = 0
+  for (const match of source.matchAll(TAG_REGEX)) {
+    const index = match.index ?? 0
+    if (index > cursor) {
+      current().push({ type: 'text', value: source.slice(cursor, index) })
+    }
+    cursor = index + match[0].length
+
+    const expression = decodeTagEntities(match[1])
+    const block = expression.match(/^#(if|unless)\s+(.+)$/)
+    if (block) {
+      const name = block[2].trim()
+      if (!FIELD_NAME_REGEX.test(name)) {
+        throw new TemplateSyntaxError(`"{{${expression}}}" must test a single field.`)
+      }
+      const node: Extract<TemplateNode, { type: 'condition' }> = {
+        type: 'condition',
+        name,
+        negate: block[1] === 'unless',
+        then: [],
+        otherwise: [],
+      }
+      current().push(node)
+      stack.push({ node, inElse: false })
+      continue
+    }
+
+    if (expression === 'else') {
+      const open = stack[stack.length - 1]
+      if (!open || open.inElse) {
+        throw new TemplateSyntaxError('{{else}} must sit inside an {{#if}} or {{#unless}} block.')
+      }
+      open.inElse = true
+      continue
+    }
+
+    const close = expression.match(/^\/(if|unless)$/)
+    if (close) {
+      const open = stack.pop()
+      if (!open || (open.node.negate ? 'unless' : 'if') !== close[1]) {
+        throw new TemplateSyntaxError(`{{/${close[1]}}} does not close an open {{#${close[1]}}} block.`)
+      }
+      continue
+    }
+
+    if (expression.startsWith('#') || expression.startsWith('/')) {
+      throw new TemplateSyntaxError(`"{{${expression}}}" is not supported. Use {{#if}} or {{#unless}}.`)
+    }
+
+    current().push({ type: 'field', ...parseFieldTag(expression) })
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node
+    throw new TemplateSyntaxError(`{{#${open.negate ? 'unless' : 'if'} ${open.name}}} is never closed.`)
+  }
+  if (cursor < source.length) {
+    current().push({ type: 'text', value: source.slice(cursor) })
+  }
+  return root
+}
+
+export function hasMergeFields(source: string | null | undefined): boolean {
+  return Boolean(source && /\{\{[\s\S]*?\}\}/.test(source))
+}
+
+/**
+ * Builds the lookup used for rendering. Earlier sources win, so pass the most specific data
+ * (the sheet row) before broader records (the stored lead).
+ */
+export function buildMergeFields(...sources: Array<Record<string, unknown> | null | undefined>): MergeFields {
+  const fields: MergeFields = {}
+  for (const source of sources) {
+    if (!source) continue
+    for (const [key, value] of Object.entries(source)) {
+      if (value === null || value === undefined || typeof value === 'object') continue
+      const text = String(value).trim()
+      const name = normalizeFieldName(key)
+      if (text && name && !fields[name]) {
+        fields[name] = text
+      }
+    }
+  }
+  if (!fields.fullname && (fields.firstname || fields.lastname)) {
+    fields.fullname = [fields.firstname, fields.lastname].filter(Boolean).join(' ')
+  }
+  return fields
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  fields: MergeFields,
+  options: { html: boolean },
+  missing: string[],
+): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') {
+        return node.value
+      }
+      const value = fields[normalizeFieldName(node.name)]
+      if (node.type === 'condition') {
+        const branch = Boolean(value) !== node.negate ? node.then : node.otherwise
+        return renderNodes(branch, fields, options, missing)
+      }
+      const resolved = value ?? node.fallback
+      if (resolved === null) {
+        if (!missing.includes(node.name)) missing.push(node.name)
+        return ''
+      }
+      return options.html ? escapeHtml(resolved) : resolved
+    })
+    .join('')
+}
+
+/**
+ * Renders a template against a lead's fields. Set `html` when rendering an HTML body so
+ * field values are escaped. Throws TemplateSyntaxError for malformed templates.
+ */
+export function renderTemplate(
+  source: string,
+  fields: MergeFields,
+  options: { html?: boolean } = {},
+): TemplateRenderResult {
+  if (!hasMergeFields(source)) {
+    return { output: source, missing: [] }
+  }
+  const missing: string[] = []
+  const output = renderNodes(parseTemplate(source), fields, { html: Boolean(options.html) }, missing)
+  return { output, missing }
+}
+
+export type RenderedEmail = {
+  subject: string
+  bodyHtml: string
+  bodyText: string
+  missing: string[]
+}
+
+/**
+ * Renders subject and both bodies in one go, collecting missing required fields across all
+ * three so a lead is flagged once.
+ */
+export function renderEmailTemplate(
+  email: { subject: string; bodyHtml: string; bodyText?: string | null },
+  fields: MergeFields,
+): RenderedEmail {
+  const subject = renderTemplate(email.subject, fields)
+  const bodyHtml = renderTemplate(email.bodyHtml, fields, { html: true })
+  const bodyText = renderTemplate(email.bodyText ?? '', fields)
+  return {
+    subject: subject.output.replace(/\s+/g, ' ').trim(),
+    bodyHtml: bodyHtml.output,
+    bodyText: bodyText.output,
+    missing: Array.from(new Set([...subject.missing, ...bodyHtml.missing, ...bodyText.missing])),
+  }
+}
@@ -0,0 +1,212 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { Prisma } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import type { TrackingEventType, TrackingSettings, TrackingStats, TrackingTarget } from '@/types/tracking'
+
+const DEFAULT_SETTINGS: TrackingSettings = { trackOpens: true, trackClicks: true }
+
+/** Transparent 1x1 GIF served for open tracking. */
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64')
+
+/**
+ * Public origin that recipients' mail clients can reach. Tracking is switched off entirely
+ * when neither variable is set, since localhost links would only break the email.
+ */
+export function getTrackingBaseUrl(): string | null {
+  const base = process.env.TRACKING_BASE_URL || process.env.NEXTJS_URL
+  return base ? base.replace(/\/+$/, '') : null
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.TRACKING_SECRET || process.env.JWT_SECRET
+  if (!secret) {
+    throw new Error('TRACKING_SECRET or JWT_SECRET must be set to sign tracking links')
+  }
+  return secret
+}
+
+export function signTrackingValue(value: string): string {
+  return createHmac('sha256', getSigningSecret()).update(value).digest('base64url')
+}
+
+export function verifyTrackingSignature(value: string, signature: string | null | undefined): boolean {
+  if (!signature) return false
+  const expected = Buffer.from(signTrackingValue(value))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+const targetWhere = (target: TrackingTarget) =>
+  target.campaignId ? { campaignId: target.campaignId } : { manualCampaignId: target.manualCampaignId }
+
+/**
+ * Tracking preferences for a campaign. Campaigns without saved settings track both opens
+ * and clicks; jobs without a campaign use the defaults too.
+ */
+export async function resolveTrackingSettings(
+  userId: string,
+  target: { campaignId?: string | null; manualCampaignId?: string | null },
+): Promise<TrackingSettings> {
+  if (!getTrackingBaseUrl()) {
+    return { trackOpens: false, trackClicks: false }
+  }
+  if (!target.campaignId && !target.manualCampaignId) {
+    return DEFAULT_SETTINGS
+  }
+
+  const setting = await prisma.trackingSetting.findFirst({
+    where: {
+      userId,
+      ...(target.campaignId ? { campaignId: target.campaignId } : { manualCampaignId: target.manualCampaignId }),
+    },
+    orderBy: { updatedAt: 'desc' },
+    select: { trackOpens: true, trackClicks: true },
+  })
+  return setting ?? DEFAULT_SETTINGS
+}
+
+export async function findTrackingSetting(userId: string, target: TrackingTarget) {
+  return prisma.trackingSetting.findFirst({
+    where: { userId, ...targetWhere(target) },
+    orderBy: { updatedAt: 'desc' },
+  })
+}
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+
+const decodeAttribute = (value: string) =>
+  value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'")
+
+export function buildClickTrackingUrl(jobId: string, url: string): string {
+  const encoded = Buffer.from(url, 'utf8').toString('base64url')
+  return `${getTrackingBaseUrl()}/api/track/click/${jobId}?u=${encoded}&s=${signTrackingValue(`${jobId}:${url}`)}`
+}
+
+export function buildOpenTrackingUrl(jobId: string): string {
+  return `${getTrackingBaseUrl()}/api/track/open/${jobId}?s=${signTrackingValue(jobId)}`
+}
+
+/**
+ * Rewrites http(s) links through the click redirect and appends the open pixel. Only the
+ * copy handed to the transport is rewritten; the stored body keeps the original links.
+ */
+export function applyEmailTracking(html: string, jobId: string, settings: TrackingSettings): string {
+  if (!getTrackingBaseUrl()) {
+    return html
+  }
+
+  let tracked = html
+  if (settings.trackClicks) {
+    tracked = tracked.replace(
+      /(<a\b[^>]*?\shref\s*=\s*)(["'])(.*?)\2/gi,
+      (match, prefix: string, quote: string, href: string) => {
+        const url = decodeAttribute(href.trim())
+        if (!/^https?:\/\//i.test(url)) {
+          return match
+        }
+        return `${prefix}${quote}${escapeAttribute(buildClickTrackingUrl(jobId, url))}${quote}`
+      },
+    )
+  }
+
+  if (settings.trackOpens) {
+    const pixel = `<img src="${escapeAttribute(buildOpenTrackingUrl(jobId))}" width="1" height="1" alt="" style="display:none;border:0;" />`
+    tracked = /<\/body>/i.test(tracked) ? tracked.replace(/<\/body>/i, `${pixel}</body>`) : `${tracked}${pixel}`
+  }
+
+  return tracked
+}
+
+/**
+ * Reads the destination out of a click-tracking URL, returning null unless the signature
+ * matches so the redirect cannot be used to bounce visitors to arbitrary sites.
+ */
+export function resolveClickDestination(jobId: string, encoded: string | null, signature: string | null): string | null {
+  if (!encoded) return null
+  let url: string
+  try {
+    url = Buffer.from(encoded, 'base64url').toString('utf8')
+  } catch {
+    return null
+  }
+  if (!/^https?:\/\//i.test(url) || !verifyTrackingSignature(`${jobId}:${url}`, signature)) {
+    return null
+  }
+  return url
+}
+
+type TrackingEventDetails = {
+  url?: string | null
+  userAgent?: string | null
+  ipAddress?: string | null
+}
+
+/**
+ * Stores a raw open or click and bumps the counters on the send job. Unknown jobs are
+ * ignored, since a deleted campaign can still have emails sitting in inboxes.
+ */
+export async function recordTrackingEvent(
+  jobId: string,
+  type: TrackingEventType,
+  details: TrackingEventDetails = {},
+): Promise<boolean> {
+  const job = await prisma.emailSendJob.findUnique({
+    where: { id: jobId },
+    select: { id: true, firstOpenedAt: true, firstClickedAt: true },
+  })
+  if (!job) {
+    return false
+  }
+
+  const now = new Date()
+  const data: Prisma.EmailSendJobUpdateInput =
+    type === 'open'
+      ? { openCount: { increment: 1 }, ...(job.firstOpenedAt ? {} : { firstOpenedAt: now }) }
+      : {
+          clickCount: { increment: 1 },
+          ...(job.firstClickedAt ? {} : { firstClickedAt: now }),
+          // A click proves the email was opened even when images were blocked.
+          ...(job.firstOpenedAt ? {} : { firstOpenedAt: now }),
+        }
+
+  await prisma.$transaction([
+    prisma.emailTrackingEvent.create({
+      data: {
+        emailSendJobId: job.id,
+        type,
+        url: details.url ?? null,
+        userAgent: details.userAgent?.slice(0, 500) ?? null,
+        ipAddress: details.ipAddress ?? null,
+        createdAt: now,
+      },
+    }),
+    prisma.emailSendJob.update({ where: { id: job.id }, data }),
+  ])
+  return true
+}
+
+const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : null)
+
+/**
+ * Open and click rates over sent emails matching `where`. Rates only count emails that
+ * carried the pixel or rewritten links, so campaigns with tracking off do not dilute them.
+ */
+export async function getTrackingStats(where: Prisma.EmailSendJobWhereInput): Promise<TrackingStats> {
+  const sent: Prisma.EmailSendJobWhereInput = { ...where, status: { in: ['SENT', 'BOUNCED'] } }
+  const [openTrackedSends, clickTrackedSends, opened, clicked] = await Promise.all([
+    prisma.emailSendJob.count({ where: { ...sent, trackOpens: true } }),
+    prisma.emailSendJob.count({ where: { ...sent, trackClicks: true } }),
+    prisma.emailSendJob.count({ where: { ...sent, trackOpens: true, firstOpenedAt: { not: null } } }),
+    prisma.emailSendJob.count({ where: { ...sent, trackClicks: true, firstClickedAt: { not: null } } }),
+  ])
+
+  return {
+    openTrackedSends,
+    clickTrackedSends,
+    opened,
+    clicked,
+    openRate: rate(opened, openTrackedSends),
+    clickRate: rate(clicked, clickTrackedSends),
+  }
+}
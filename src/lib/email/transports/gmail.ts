@@ -0,0 +1,12 @@
+import type { GmailAccount } from '@prisma/client'
+
+import { sendGmailMessage } from '@/lib/google-gmail'
+
+import type { EmailTransport } from './types'
+
+export function createGmailTransport(account: GmailAccount): EmailTransport {
+  return {
+    kind: 'gmail',
+    send: (message) => sendGmailMessage(account, message),
+  }
+}
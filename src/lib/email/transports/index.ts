@@ -0,0 +1,62 @@
+import type { GmailAccount } from '@prisma/client'
+
+import { createGmailTransport } from './gmail'
+import { createSmtpTransport, isSmtpSecurity, type SmtpSettings } from './smtp'
+import type { EmailTransport, EmailTransportKind } from './types'
+
+export function getTransportKind(account: Pick<GmailAccount, 'transport'>): EmailTransportKind {
+  return account.transport === 'smtp' ? 'smtp' : 'gmail'
+}
+
+export function getSmtpSettings(
+  account: Pick<GmailAccount, 'smtpHost' | 'smtpPort' | 'smtpSecurity' | 'smtpUsername' | 'smtpPassword'>,
+): SmtpSettings | null {
+  if (!account.smtpHost || !account.smtpPort) {
+    return null
+  }
+  return {
+    host: account.smtpHost,
+    port: account.smtpPort,
+    security: isSmtpSecurity(account.smtpSecurity) ? account.smtpSecurity : 'starttls',
+    username: account.smtpUsername,
+    password: account.smtpPassword,
+  }
+}
+
+/**
+ * Whether the mailbox holds what its transport needs to send: OAuth tokens for Gmail, a
+ * server address for SMTP.
+ */
+export function hasSendingCredentials(
+  account: Pick<GmailAccount, 'transport' | 'accessToken' | 'refreshToken' | 'smtpHost' | 'smtpPort'>,
+): boolean {
+  if (getTransportKind(account) === 'smtp') {
+    return Boolean(account.smtpHost && account.smtpPort)
+  }
+  return Boolean(account.accessToken && account.refreshToken)
+}
+
+/**
+ * Picks the transport a mailbox sends through. Every caller that sends mail goes through
+ * here rather than talking to Gmail directly.
+ */
+export function getEmailTransport(account: GmailAccount): EmailTransport {
+  if (getTransportKind(account) === 'smtp') {
+    const settings = getSmtpSettings(account)
+    if (!settings) {
+      throw new Error(`SMTP settings are incomplete for ${account.emailAddress}`)
+    }
+    return createSmtpTransport(account.emailAddress, settings)
+  }
+  return createGmailTransport(account)
+}
+
+export type { EmailTransport, EmailTransportKind, SentEmail } from './types'
+export type { SmtpSecurity, SmtpSettings } from './smtp'
+export {
+  SMTP_SECURITY_MODES,
+  SmtpError,
+  SmtpSettingsValidationError,
+  parseSmtpSettings,
+  verifySmtpSettings,
+} from './smtp'
@@ -0,0 +1,356 @@
+import net from 'net'
+import os from 'os'
+import tls from 'tls'
+
+import { buildMimeMessage, createRfcMessageId, type OutboundEmail } from '@/lib/email/mime'
+import { assertPublicHost, PrivateNetworkError, publicOnlyLookup } from '@/lib/network'
+
+import type { EmailTransport, SentEmail } from './types'
+
+export type SmtpSecurity = 'tls' | 'starttls' | 'none'
+
+export const SMTP_SECURITY_MODES: SmtpSecurity[] = ['tls', 'starttls', 'none']
+
+export type SmtpSettings = {
+  host: string
+  port: number
+  security: SmtpSecurity
+  username: string | null
+  password: string | null
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000
+const PROBE_TIMEOUT_MS = 10_000
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public code?: number,
+  ) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+
+  /** 5xx replies are permanent; anything else (4xx, dropped sockets) may succeed on retry. */
+  get isPermanent(): boolean {
+    return typeof this.code === 'number' && this.code >= 500
+  }
+}
+
+export class SmtpSettingsValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SmtpSettingsValidationError'
+  }
+}
+
+export function isSmtpSecurity(value: unknown): value is SmtpSecurity {
+  return typeof value === 'string' && (SMTP_SECURITY_MODES as string[]).includes(value)
+}
+
+/**
+ * Validates SMTP settings from a request body. The port defaults from the security mode
+ * (465 for implicit TLS, 587 otherwise) when it is left out.
+ */
+export function parseSmtpSettings(input: Record<string, unknown>): SmtpSettings {
+  const host = typeof input.host === 'string' ? input.host.trim() : ''
+  if (!host || /\s/.test(host)) {
+    throw new SmtpSettingsValidationError('Enter the SMTP server host name.')
+  }
+
+  const security = input.security ?? 'starttls'
+  if (!isSmtpSecurity(security)) {
+    throw new SmtpSettingsValidationError('Security must be tls, starttls or none.')
+  }
+
+  const port = input.port === undefined || input.port === null || input.port === ''
+    ? security === 'tls' ? 465 : 587
+    : Number(input.port)
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new SmtpSettingsValidationError('Port must be a whole number between 1 and 65535.')
+  }
+
+  const username = typeof input.username === 'string' && input.username.trim() ? input.username.trim() : null
+  const password = typeof input.password === 'string' && input.password ? input.password : null
+  if (password && !username) {
+    throw new SmtpSettingsValidationError('A username is required when a password is set.')
+  }
+
+  return { host, port, security, username, password }
+}
+
+type SmtpReply = {
+  code: number
+  lines: string[]
+}
+
+/**
+ * A single SMTP session over a plain or TLS socket. Replies are read strictly in order, so
+ * every command waits for its reply before the next one is written.
+ */
+class SmtpSession {
+  private socket: net.Socket
+  private buffer = ''
+  private replies: SmtpReply[] = []
+  private pendingLines: string[] = []
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  private constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket
+    this.attach(socket)
+  }
+
+  /**
+   * Hosts come from users, so only public addresses are dialled; anything else throws
+   * PrivateNetworkError before a connection is attempted.
+   */
+  static async open(settings: SmtpSettings, timeoutMs: number): Promise<SmtpSession> {
+    await assertPublicHost(settings.host).catch((error: unknown) => {
+      if (error instanceof PrivateNetworkError) throw error
+      throw new SmtpError(`Could not connect to ${settings.host}:${settings.port}: ${error instanceof Error ? error.message : 'lookup failed'}`)
+    })
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onError = (error: Error) =>
+        reject(error instanceof PrivateNetworkError ? error : new SmtpError(`Could not connect to ${settings.host}:${settings.port}: ${error.message}`))
+      const connected =
+        settings.security === 'tls'
+          ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host, lookup: publicOnlyLookup }, () => resolve(connected))
+          : net.connect({ host: settings.host, port: settings.port, lookup: publicOnlyLookup }, () => resolve(connected))
+      connected.once('error', onError)
+      connected.setTimeout(timeoutMs, () => {
+        connected.destroy()
+        reject(new SmtpError(`Timed out connecting to ${settings.host}:${settings.port}`))
+      })
+    })
+    return new SmtpSession(socket, timeoutMs)
+  }
+
+  private attach(socket: net.Socket) {
+    socket.removeAllListeners('timeout')
+    socket.setTimeout(this.timeoutMs, () => this.fail(new SmtpError('SMTP server stopped responding')))
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')))
+    socket.on('error', (error: Error) => this.fail(new SmtpError(error.message)))
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed unexpectedly')))
+  }
+
+  private detach(socket: net.Socket) {
+    socket.removeAllListeners('data')
+    socket.removeAllListeners('error')
+    socket.removeAllListeners('close')
+    socket.removeAllListeners('timeout')
+    socket.setTimeout(0)
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk
+    let newline = this.buffer.indexOf('\n')
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(newline + 1)
+      this.pendingLines.push(line.slice(4))
+      // "250-" continues a multi-line reply; "250 " ends it.
+      if (line.charAt(3) !== '-') {
+        this.push({ code: Number(line.slice(0, 3)), lines: this.pendingLines })
+        this.pendingLines = []
+      }
+      newline = this.buffer.indexOf('\n')
+    }
+  }
+
+  private push(reply: SmtpReply) {
+    if (this.waiter) {
+      const { resolve } = this.waiter
+      this.waiter = null
+      resolve(reply)
+    } else {
+      this.replies.push(reply)
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return
+    this.failure = error
+    if (this.waiter) {
+      const { reject } = this.waiter
+      this.waiter = null
+      reject(error)
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift()
+    if (queued) return Promise.resolve(queued)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject }
+    })
+  }
+
+  async expect(expected: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`${context} failed: ${reply.code} ${reply.lines.join(' ')}`.trim(), reply.code)
+    }
+    return reply
+  }
+
+  async command(line: string, expected: number[], context: string = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected, context)
+  }
+
+  async upgradeToTls(host: string): Promise<void> {
+    const plain = this.socket
+    this.detach(plain)
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secured = tls.connect({ socket: plain, servername: host }, () => resolve(secured))
+      secured.once('error', (error: Error) => reject(new SmtpError(`TLS negotiation failed: ${error.message}`)))
+    })
+    this.attach(this.socket)
+  }
+
+  writeData(data: string) {
+    this.socket.write(data)
+  }
+
+  async close(): Promise<void> {
+    if (!this.failure) {
+      await this.command('QUIT', [221]).catch(() => undefined)
+    }
+    this.detach(this.socket)
+    this.socket.destroy()
+  }
+}
+
+const parseCapabilities = (reply: SmtpReply) => reply.lines.slice(1).map((line) => line.toUpperCase())
+
+async function greetAndAuthenticate(session: SmtpSession, settings: SmtpSettings): Promise<void> {
+  await session.expect([220], 'Greeting')
+  const clientName = os.hostname() || 'localhost'
+  let capabilities = parseCapabilities(await session.command(`EHLO ${clientName}`, [250]))
+
+  if (settings.security === 'starttls') {
+    if (!capabilities.includes('STARTTLS')) {
+      throw new SmtpError(`${settings.host} does not offer STARTTLS; choose TLS or none instead`)
+    }
+    await session.command('STARTTLS', [220])
+    await session.upgradeToTls(settings.host)
+    capabilities = parseCapabilities(await session.command(`EHLO ${clientName}`, [250]))
+  }
+
+  if (!settings.username) {
+    return
+  }
+
+  const mechanisms = capabilities.find((line) => line.startsWith('AUTH'))?.split(/[\s=]+/).slice(1) ?? []
+  if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+    const token = Buffer.from(`\u0000${settings.username}\u0000${settings.password ?? ''}`, 'utf8').toString('base64')
+    await session.command(`AUTH PLAIN ${token}`, [235], 'Authentication')
+    return
+  }
+
+  await session.command('AUTH LOGIN', [334], 'Authentication')
+  await session.command(Buffer.from(settings.username, 'utf8').toString('base64'), [334], 'Authentication')
+  await session.command(Buffer.from(settings.password ?? '', 'utf8').toString('base64'), [235], 'Authentication')
+}
+
+/**
+ * Normalises line endings to CRLF and dot-stuffs lines so a body line starting with "."
+ * cannot end the DATA section early.
+ */
+function encodeDataSection(lines: string[]): string {
+  const body = lines
+    .join('\r\n')
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n')
+  return `${body}\r\n.\r\n`
+}
+
+/**
+ * Connects, negotiates TLS and authenticates without sending anything, so settings can be
+ * checked before they are saved.
+ */
+export async function verifySmtpSettings(settings: SmtpSettings, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<void> {
+  const session = await SmtpSession.open(settings, timeoutMs)
+  try {
+    await greetAndAuthenticate(session, settings)
+  } finally {
+    await session.close()
+  }
+}
+
+export async function sendSmtpMessage(
+  settings: SmtpSettings,
+  from: string,
+  message: OutboundEmail,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): Promise<SentEmail> {
+  const rfcMessageId = createRfcMessageId(from)
+  // Relays aren't guaranteed to support 8BITMIME, so the message is sent as 7-bit.
+  const lines = buildMimeMessage(from, message, { messageId: rfcMessageId, date: new Date(), sevenBit: true })
+
+  const session = await SmtpSession.open(settings, timeoutMs)
+  try {
+    await greetAndAuthenticate(session, settings)
+    await session.command(`MAIL FROM:<${from}>`, [250], 'MAIL FROM')
+    await session.command(`RCPT TO:<${message.to}>`, [250, 251], 'RCPT TO')
+    await session.command('DATA', [354])
+    session.writeData(encodeDataSection(lines))
+    await session.expect([250], 'Message delivery')
+  } finally {
+    await session.close()
+  }
+
+  // Plain SMTP has no server-side ids or threads; the RFC Message-ID is what replies and
+  // bounces reference, so it doubles as the message id.
+  return { id: rfcMessageId, threadId: null, messageId: rfcMessageId }
+}
+
+/**
+ * Asks a mail exchanger whether it would accept each recipient, without sending anything: the
+ * session ends after the RCPT TO commands. Returns the reply code per recipient, or null for
+ * every recipient when the server could not be reached or refused the sender.
+ */
+export async function probeSmtpRecipients(
+  host: string,
+  recipients: string[],
+  timeoutMs = PROBE_TIMEOUT_MS,
+): Promise<Array<number | null>> {
+  const settings: SmtpSettings = { host, port: 25, security: 'none', username: null, password: null }
+  let session: SmtpSession
+  try {
+    session = await SmtpSession.open(settings, timeoutMs)
+  } catch {
+    return recipients.map(() => null)
+  }
+
+  try {
+    await greetAndAuthenticate(session, settings)
+    await session.command('MAIL FROM:<>', [250], 'MAIL FROM')
+    const codes: Array<number | null> = []
+    for (const recipient of recipients) {
+      const reply = await session.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO').catch((error: unknown) => {
+        if (error instanceof SmtpError && typeof error.code === 'number') {
+          return { code: error.code, lines: [] }
+        }
+        throw error
+      })
+      codes.push(reply.code)
+    }
+    return codes
+  } catch {
+    return recipients.map(() => null)
+  } finally {
+    await session.close()
+  }
+}
+
+export function createSmtpTransport(from: string, settings: SmtpSettings): EmailTransport {
+  return {
+    kind: 'smtp',
+    send: (message) => sendSmtpMessage(settings, from, message),
+  }
+}
@@ -0,0 +1,16 @@
+import type { OutboundEmail } from '@/lib/email/mime'
+
+export type EmailTransportKind = 'gmail' | 'smtp'
+
+export type SentEmail = {
+  /** Provider message id: the Gmail API id, or the RFC Message-ID for SMTP. */
+  id: string
+  threadId: string | null
+  /** RFC 5322 Message-ID header, referenced by replies and bounce reports. */
+  messageId: string
+}
+
+export interface EmailTransport {
+  kind: EmailTransportKind
+  send(message: OutboundEmail): Promise<SentEmail>
+}
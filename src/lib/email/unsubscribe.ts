@@ -0,0 +1,134 @@
+import { prisma } from '@/lib/prisma'
+import { triggerAlertEvent } from '@/lib/alerts'
+import { getTrackingBaseUrl, signTrackingValue, verifyTrackingSignature } from '@/lib/email/tracking'
+import { addSuppressionEntries, normalizeSuppressionValue } from '@/lib/suppression'
+import { stripHtml, type ListUnsubscribe } from '@/lib/email/mime'
+
+const UNSUBSCRIBE_REASON = 'Unsubscribed via link'
+
+export type UnsubscribeRecipient = {
+  userId: string
+  email: string
+}
+
+/**
+ * Encodes the sender and recipient into a signed token. The token never expires: people
+ * unsubscribe from emails that are months old, and the link must keep working.
+ */
+export function createUnsubscribeToken(recipient: UnsubscribeRecipient): string {
+  const payload = Buffer.from(
+    JSON.stringify({ u: recipient.userId, e: recipient.email.trim().toLowerCase() }),
+    'utf8',
+  ).toString('base64url')
+  return `${payload}.${signTrackingValue(`unsubscribe:${payload}`)}`
+}
+
+export function parseUnsubscribeToken(token: string | null | undefined): UnsubscribeRecipient | null {
+  const [payload, signature, ...rest] = (token ?? '').split('.')
+  if (!payload || !signature || rest.length > 0 || !verifyTrackingSignature(`unsubscribe:${payload}`, signature)) {
+    return null
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as { u?: unknown; e?: unknown }
+    if (typeof decoded.u !== 'string' || typeof decoded.e !== 'string') {
+      return null
+    }
+    return { userId: decoded.u, email: decoded.e }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The List-Unsubscribe target for a recipient, or null when the app has no public URL
+ * for mail providers to post to.
+ */
+export function buildListUnsubscribe(recipient: UnsubscribeRecipient): ListUnsubscribe | null {
+  const base = getTrackingBaseUrl()
+  if (!base) {
+    return null
+  }
+  const token = createUnsubscribeToken(recipient)
+  return {
+    url: `${base}/api/unsubscribe/${token}`,
+    pageUrl: `${base}/unsubscribe/${token}`,
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Appends a small opt-out line to both bodies. Added after click tracking so the link goes
+ * straight to the unsubscribe page rather than through the redirect.
+ */
+export function appendUnsubscribeFooter(
+  message: { htmlBody: string; textBody?: string },
+  pageUrl: string,
+): { htmlBody: string; textBody: string } {
+  const footer = `<p style="margin-top:24px;font-size:12px;color:#888888;">Don&#39;t want to hear from me again? <a href="${escapeHtml(pageUrl)}" style="color:#888888;">Unsubscribe</a></p>`
+  const htmlBody = /<\/body>/i.test(message.htmlBody)
+    ? message.htmlBody.replace(/<\/body>/i, `${footer}</body>`)
+    : `${message.htmlBody}${footer}`
+  const textBody = `${message.textBody || stripHtml(message.htmlBody)}\n\n--\nUnsubscribe: ${pageUrl}`
+  return { htmlBody, textBody }
+}
+
+/**
+ * Suppresses the recipient for the sender who emailed them and cancels anything still
+ * queued to that address. Safe to call repeatedly; mail providers may retry the POST.
+ */
+export async function unsubscribeRecipient(recipient: UnsubscribeRecipient): Promise<{ cancelled: number }> {
+  const target = normalizeSuppressionValue(recipient.email)
+  if (!target || target.type !== 'EMAIL') {
+    return { cancelled: 0 }
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: recipient.userId }, select: { id: true } })
+  if (!user) {
+    return { cancelled: 0 }
+  }
+
+  const suppression = await addSuppressionEntries([{ ...target, reason: UNSUBSCRIBE_REASON }], {
+    userId: user.id,
+    source: 'unsubscribe',
+  })
+
+  // Counted like an UNSUB reply so unsubscribe alert rules see it; a retried POST finds the
+  // entry already in place and is not counted twice.
+  if (suppression.created > 0) {
+    const lastJob = await prisma.emailSendJob.findFirst({
+      where: {
+        userId: user.id,
+        leadEmail: { equals: target.value, mode: 'insensitive' },
+        status: { in: ['SENT', 'BOUNCED'] },
+      },
+      orderBy: { sentAt: 'desc' },
+      select: { campaignId: true },
+    })
+    triggerAlertEvent({
+      userId: user.id,
+      event: 'REPLY_RECEIVED',
+      disposition: 'UNSUB',
+      campaignId: lastJob?.campaignId ?? null,
+    })
+  }
+
+  const cancelled = await prisma.emailSendJob.updateMany({
+    where: {
+      userId: user.id,
+      leadEmail: { equals: target.value, mode: 'insensitive' },
+      status: { in: ['PENDING', 'QUEUED'] },
+    },
+    data: {
+      status: 'CANCELLED',
+      error: UNSUBSCRIBE_REASON,
+    },
+  })
+
+  if (cancelled.count > 0) {
+    console.log(`Cancelled ${cancelled.count} pending email(s) to ${target.value}: ${UNSUBSCRIBE_REASON}`)
+  }
+  return { cancelled: cancelled.count }
+}
@@ -0,0 +1,151 @@
+import type { EmailVariant, VariantExperiment } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import { formatEmailBody } from '@/lib/email/format'
+import { resolveSpintax, stableHash } from '@/lib/email/spintax'
+import type { VariantMetric, VariantStats } from '@/types/variant'
+
+export const VARIANT_METRICS: VariantMetric[] = ['reply', 'positive']
+
+export type ExperimentWithVariants = VariantExperiment & { variants: EmailVariant[] }
+
+export function isVariantMetric(value: unknown): value is VariantMetric {
+  return typeof value === 'string' && (VARIANT_METRICS as string[]).includes(value)
+}
+
+export async function findActiveExperiment(
+  userId: string,
+  target: { campaignId?: string | null; manualCampaignId?: string | null },
+): Promise<ExperimentWithVariants | null> {
+  if (!target.campaignId && !target.manualCampaignId) {
+    return null
+  }
+
+  return prisma.variantExperiment.findFirst({
+    where: {
+      userId,
+      isActive: true,
+      variants: { some: { isActive: true } },
+      OR: [
+        ...(target.campaignId ? [{ campaignId: target.campaignId }] : []),
+        ...(target.manualCampaignId ? [{ manualCampaignId: target.manualCampaignId }] : []),
+      ],
+    },
+    orderBy: { updatedAt: 'desc' },
+    include: { variants: { orderBy: { createdAt: 'asc' } } },
+  })
+}
+
+/**
+ * Picks the variant for a lead. Hashing the experiment and address keeps the choice stable
+ * across retries and re-sends; once a winner is promoted every new lead gets it.
+ */
+export function assignVariant(experiment: ExperimentWithVariants, email: string): EmailVariant | null {
+  const active = experiment.variants.filter((variant) => variant.isActive)
+  const winner = active.find((variant) => variant.id === experiment.winnerVariantId)
+  if (winner) {
+    return winner
+  }
+  if (active.length === 0) {
+    return null
+  }
+  return active[stableHash(`${experiment.id}:${email.trim().toLowerCase()}`) % active.length]
+}
+
+/**
+ * Resolves the variant's spintax for one lead. Merge fields are left in place for the
+ * template engine to fill in afterwards.
+ */
+export function renderVariant(
+  variant: Pick<EmailVariant, 'id' | 'subjectTemplate' | 'bodyTemplate'>,
+  email: string,
+): { subject: string; bodyHtml: string; bodyText: string } {
+  const seed = `${variant.id}:${email.trim().toLowerCase()}`
+  const subject = resolveSpintax(variant.subjectTemplate, `${seed}:subject`).replace(/\s+/g, ' ').trim()
+  const body = formatEmailBody(resolveSpintax(variant.bodyTemplate, `${seed}:body`))
+  return { subject, bodyHtml: body.html, bodyText: body.text }
+}
+
+const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : null)
+
+/**
+ * Reply and positive-reply rates per variant. Only first-touch sends count towards the
+ * sample; replies to follow-ups are credited to the variant that opened the conversation.
+ */
+export async function getVariantStats(experiment: ExperimentWithVariants): Promise<VariantStats[]> {
+  const variantIds = experiment.variants.map((variant) => variant.id)
+  if (variantIds.length === 0) {
+    return []
+  }
+
+  const [sentRows, replies] = await Promise.all([
+    prisma.emailSendJob.groupBy({
+      by: ['variantId'],
+      where: {
+        variantId: { in: variantIds },
+        status: { in: ['SENT', 'BOUNCED'] },
+        OR: [{ sequenceStep: null }, { sequenceStep: 0 }],
+      },
+      _count: { _all: true },
+    }),
+    prisma.emailReply.findMany({
+      where: {
+        emailSendJob: { variantId: { in: variantIds } },
+        disposition: { not: 'BOUNCED' },
+      },
+      select: { disposition: true, emailSendJob: { select: { variantId: true, leadEmail: true } } },
+    }),
+  ])
+
+  return experiment.variants.map((variant) => {
+    const sent = sentRows.find((row) => row.variantId === variant.id)?._count._all ?? 0
+    const variantReplies = replies.filter((reply) => reply.emailSendJob?.variantId === variant.id)
+    const replied = new Set(variantReplies.map((reply) => reply.emailSendJob?.leadEmail.toLowerCase())).size
+    const positive = new Set(
+      variantReplies
+        .filter((reply) => reply.disposition === 'POSITIVE')
+        .map((reply) => reply.emailSendJob?.leadEmail.toLowerCase()),
+    ).size
+
+    return {
+      variantId: variant.id,
+      label: variant.label,
+      isActive: variant.isActive,
+      sent,
+      replied,
+      positive,
+      replyRate: rate(replied, sent),
+      positiveRate: rate(positive, sent),
+    }
+  })
+}
+
+/**
+ * Promotes the best variant once every active variant has reached the minimum sample.
+ * Ties are left running; a winner needs a strictly better rate on the chosen metric.
+ */
+export async function maybePromoteWinner(experiment: ExperimentWithVariants): Promise<ExperimentWithVariants> {
+  if (!experiment.autoPromote || experiment.winnerVariantId) {
+    return experiment
+  }
+
+  const stats = (await getVariantStats(experiment)).filter((row) => row.isActive)
+  if (stats.length < 2 || stats.some((row) => row.sent < experiment.minSampleSize)) {
+    return experiment
+  }
+
+  const metric = isVariantMetric(experiment.metric) ? experiment.metric : 'reply'
+  const score = (row: VariantStats) => (metric === 'positive' ? row.positiveRate : row.replyRate) ?? 0
+  const ranked = [...stats].sort((a, b) => score(b) - score(a))
+  if (score(ranked[0]) <= score(ranked[1])) {
+    return experiment
+  }
+
+  const promotedAt = new Date()
+  await prisma.variantExperiment.update({
+    where: { id: experiment.id },
+    data: { winnerVariantId: ranked[0].variantId, promotedAt },
+  })
+  console.log(`Variant experiment ${experiment.id} promoted "${ranked[0].label}" on ${metric} rate`)
+  return { ...experiment, winnerVariantId: ranked[0].variantId, promotedAt }
+}
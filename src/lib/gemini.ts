@@ -1,5 +1,6 @@
 // src/lib/gemini.ts
 import { generateLeadSummary } from './utils'
+import { buildMergeFields, renderTemplate } from './email/templates'
 import { GoogleGenAI } from '@google/genai'
 import type { GenerateContentParameters, GenerateContentResponse } from '@google/genai'
 
@@ -37,32 +38,22 @@ export interface OutreachEmailDraft {
   body: string
 }
 
-function buildFallbackOutreachEmail(input: OutreachEmailInput): OutreachEmailDraft {
-  const greeting = input.leadFirstName ? `Hi ${input.leadFirstName},` : 'Hello,'
-  const company = input.leadCompany || 'your team'
-  const summaryLine = input.leadSummary
-    ? `I noticed ${input.leadSummary}`
-    : `I've been following the work happening at ${company}.`
-  const valueProp = input.senderValueProp || 'We help operators scale outbound while staying personal.'
-  const callToAction =
-    input.callToAction || 'Would you be open to a quick 15-minute chat next week to see if this could help?'
-  const sender = input.senderName || 'Our team'
-  const customAngle = input.customInstructions
-    ? `<p>${input.customInstructions}</p>`
-    : undefined
-
-  const subjectTarget = input.leadCompany || input.leadFirstName || 'you'
+const FALLBACK_OUTREACH_TEMPLATE = {
+  subject: 'Quick idea for {{#if leadCompany}}{{leadCompany}}{{else}}{{leadFirstName | "you"}}{{/if}}',
+  body: [
+    '<p>{{#if leadFirstName}}Hi {{leadFirstName}},{{else}}Hello,{{/if}}</p>',
+    "<p>{{#if leadSummary}}I noticed {{leadSummary}}{{else}}I've been following the work happening at {{leadCompany | \"your team\"}}.{{/if}}</p>",
+    '<p>{{senderValueProp | "We help operators scale outbound while staying personal."}}</p>',
+    '{{#if customInstructions}}<p>{{customInstructions}}</p>\n{{/if}}<p>{{callToAction | "Would you be open to a quick 15-minute chat next week to see if this could help?"}}</p>',
+    '<p>Best,<br />{{senderName | "Our team"}}</p>',
+  ].join('\n'),
+}
 
+function buildFallbackOutreachEmail(input: OutreachEmailInput): OutreachEmailDraft {
+  const fields = buildMergeFields({ ...input })
   return {
-    subject: `Quick idea for ${subjectTarget}`,
-    body: [
-      `<p>${greeting}</p>`,
-      `<p>${summaryLine}</p>`,
-      `<p>${valueProp}</p>`,
-      ...(customAngle ? [customAngle] : []),
-      `<p>${callToAction}</p>`,
-      `<p>Best,<br />${sender}</p>`,
-    ].join('\n'),
+    subject: renderTemplate(FALLBACK_OUTREACH_TEMPLATE.subject, fields).output,
+    body: renderTemplate(FALLBACK_OUTREACH_TEMPLATE.body, fields, { html: true }).output,
   }
 }
 
@@ -0,0 +1,160 @@
+import type { GmailAccount } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import { getDailyQuota, getMailboxQuotaStatus } from '@/lib/email/mailbox-quota'
+import { getTransportKind, hasSendingCredentials } from '@/lib/email/transports'
+import type { MailboxHealth, MailboxRotationStrategy } from '@/types/gmail'
+
+export type { MailboxRotationStrategy }
+
+export const MAILBOX_ROTATION_STRATEGIES: MailboxRotationStrategy[] = ['round_robin', 'least_used']
+
+const INACTIVITY_TIMEOUT_MS = 3 * 24 * 60 * 60 * 1000
+
+export function isMailboxRotationStrategy(value: unknown): value is MailboxRotationStrategy {
+  return typeof value === 'string' && (MAILBOX_ROTATION_STRATEGIES as string[]).includes(value)
+}
+
+/**
+ * A mailbox needs reconnecting when its credentials are gone or, for Gmail, nobody has
+ * checked on it for a few days. Mirrors the heartbeat rule the Gmail status endpoint applies.
+ */
+export function mailboxRequiresReauth(account: GmailAccount): boolean {
+  if (!hasSendingCredentials(account)) {
+    return true
+  }
+  if (getTransportKind(account) === 'smtp') {
+    return false
+  }
+  const lastActiveMs = account.connectedAt ? new Date(account.connectedAt).getTime() : 0
+  return Date.now() - lastActiveMs > INACTIVITY_TIMEOUT_MS
+}
+
+export async function listGmailAccounts(userId: string): Promise<GmailAccount[]> {
+  return prisma.gmailAccount.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+/**
+ * The mailbox used for one-off messages (alerts, calendar invites, replies without a
+ * known thread): the oldest active account, falling back to any connected one.
+ */
+export async function getDefaultGmailAccount(userId: string): Promise<GmailAccount | null> {
+  const accounts = await listGmailAccounts(userId)
+  return accounts.find((account) => account.isActive) ?? accounts[0] ?? null
+}
+
+const HEALTH_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Per-mailbox health for the settings panel: connection state, today's quota and the
+ * failures and bounces recorded over the last week.
+ */
+export async function getMailboxHealth(userId: string): Promise<MailboxHealth[]> {
+  const accounts = await listGmailAccounts(userId)
+  if (accounts.length === 0) return []
+
+  const since = new Date(Date.now() - HEALTH_LOOKBACK_MS)
+  const outcomes = await prisma.emailSendJob.groupBy({
+    by: ['gmailAccountId', 'status'],
+    where: {
+      gmailAccountId: { in: accounts.map((account) => account.id) },
+      status: { in: ['FAILED', 'BOUNCED'] },
+      updatedAt: { gte: since },
+    },
+    _count: { _all: true },
+  })
+  const countFor = (accountId: string, status: string) =>
+    outcomes.find((row) => row.gmailAccountId === accountId && row.status === status)?._count._all ?? 0
+
+  return Promise.all(
+    accounts.map(async (account) => ({
+      id: account.id,
+      emailAddress: account.emailAddress,
+      transport: getTransportKind(account),
+      isActive: account.isActive,
+      requiresReauth: mailboxRequiresReauth(account),
+      connectedAt: account.connectedAt.toISOString(),
+      lastUsedAt: account.lastUsedAt?.toISOString() ?? null,
+      watchExpiresAt: account.watchExpiresAt?.toISOString() ?? null,
+      failedLast7Days: countFor(account.id, 'FAILED'),
+      bouncedLast7Days: countFor(account.id, 'BOUNCED'),
+      quota: await getMailboxQuotaStatus(account),
+    })),
+  )
+}
+
+async function countUsageToday(accountIds: string[]): Promise<Map<string, number>> {
+  const startOfDay = new Date()
+  startOfDay.setUTCHours(0, 0, 0, 0)
+
+  const rows = await prisma.emailSendJob.groupBy({
+    by: ['gmailAccountId'],
+    where: {
+      gmailAccountId: { in: accountIds },
+      OR: [
+        { status: { in: ['SENT', 'BOUNCED'] }, sentAt: { gte: startOfDay } },
+        { status: { in: ['PENDING', 'QUEUED', 'SENDING'] } },
+      ],
+    },
+    _count: { _all: true },
+  })
+  return new Map(rows.map((row) => [row.gmailAccountId, row._count._all]))
+}
+
+/**
+ * Returns a picker that hands out a sending mailbox per job.
+ * `round_robin` continues after the mailbox used most recently; `least_used` always picks
+ * the mailbox with the most room left today, counting sends already queued.
+ */
+export async function createMailboxRotation(
+  accounts: GmailAccount[],
+  strategy: MailboxRotationStrategy,
+): Promise<() => GmailAccount> {
+  if (accounts.length === 0) {
+    throw new Error('No active Gmail account available for sending')
+  }
+
+  if (strategy === 'least_used') {
+    const usage = await countUsageToday(accounts.map((account) => account.id))
+    const remaining = (account: GmailAccount) => getDailyQuota(account) - (usage.get(account.id) ?? 0)
+    return () => {
+      const account = accounts.reduce((best, candidate) => (remaining(candidate) > remaining(best) ? candidate : best))
+      usage.set(account.id, (usage.get(account.id) ?? 0) + 1)
+      return account
+    }
+  }
+
+  const lastUsed = accounts.reduce<GmailAccount | null>((latest, account) => {
+    if (!account.lastUsedAt) return latest
+    return !latest?.lastUsedAt || account.lastUsedAt > latest.lastUsedAt ? account : latest
+  }, null)
+  let index = lastUsed ? accounts.findIndex((account) => account.id === lastUsed.id) : -1
+  return () => {
+    index = (index + 1) % accounts.length
+    return accounts[index]
+  }
+}
+
+/**
+ * Records the order mailboxes were handed out in, so the next round-robin batch picks up
+ * after the last one used.
+ */
+export async function markMailboxesUsed(accountIds: string[], usedAt: Date = new Date()): Promise<void> {
+  const ordered: string[] = []
+  for (const id of [...accountIds].reverse()) {
+    if (!ordered.includes(id)) ordered.unshift(id)
+  }
+  if (ordered.length === 0) return
+
+  await prisma.$transaction(
+    ordered.map((id, index) =>
+      prisma.gmailAccount.update({
+        where: { id },
+        data: { lastUsedAt: new Date(usedAt.getTime() - (ordered.length - 1 - index)) },
+      }),
+    ),
+  )
+}
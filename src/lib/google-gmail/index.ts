@@ -4,6 +4,7 @@ import type { GmailAccount } from '@prisma/client';
 
 import { newOAuth2Client } from '@/lib/google-sheet/google-auth';
 import { prisma } from '@/lib/prisma';
+import { buildMimeMessage, createRfcMessageId, type OutboundEmail } from '@/lib/email/mime';
 
 export const GMAIL_SCOPES = [
   'https://www.googleapis.com/auth/gmail.send',
@@ -92,16 +93,16 @@ export async function ensureFreshGmailToken(
   return gmailAccount
 }
 
+export type SentGmailMessage = {
+  id: string
+  threadId: string | null
+  messageId: string
+}
+
 export async function sendGmailMessage(
   gmailAccount: GmailAccount,
-  opts: {
-    to: string
-    subject: string
-    htmlBody: string
-    textBody?: string
-    replyTo?: string
-  },
-): Promise<string> {
+  opts: OutboundEmail,
+): Promise<SentGmailMessage> {
   const refreshed = await ensureFreshGmailToken(gmailAccount)
   const oauth2Client = await createAuthorizedGmailClient(
     refreshed.accessToken,
@@ -109,27 +110,8 @@ export async function sendGmailMessage(
   )
   const gmail = google.gmail({ version: 'v1', auth: oauth2Client })
 
-  const mimeParts: string[] = []
-  mimeParts.push(`From: ${refreshed.emailAddress}`)
-  mimeParts.push(`To: ${opts.to}`)
-  mimeParts.push(`Subject: ${opts.subject}`)
-  if (opts.replyTo) {
-    mimeParts.push(`Reply-To: ${opts.replyTo}`)
-  }
-  mimeParts.push('MIME-Version: 1.0')
-  mimeParts.push('Content-Type: multipart/alternative; boundary="boundary"')
-  mimeParts.push('')
-  mimeParts.push('--boundary')
-  mimeParts.push('Content-Type: text/plain; charset="UTF-8"')
-  mimeParts.push('')
-  mimeParts.push(opts.textBody || stripHtml(opts.htmlBody))
-  mimeParts.push('--boundary')
-  mimeParts.push('Content-Type: text/html; charset="UTF-8"')
-  mimeParts.push('')
-  mimeParts.push(opts.htmlBody)
-  mimeParts.push('--boundary--')
-
-  const rawMessage = mimeParts.join('\n')
+  const rfcMessageId = createRfcMessageId(refreshed.emailAddress)
+  const rawMessage = buildMimeMessage(refreshed.emailAddress, opts, { messageId: rfcMessageId }).join('\n')
   const encodedMessage = Buffer.from(rawMessage, 'utf-8')
     .toString('base64')
     .replace(/\+/g, '-')
@@ -140,6 +122,8 @@ export async function sendGmailMessage(
     userId: 'me',
     requestBody: {
       raw: encodedMessage,
+      // Gmail only threads a message when the thread id, the reply headers and the subject all line up.
+      ...(opts.threadId ? { threadId: opts.threadId } : {}),
     },
   })
 
@@ -147,11 +131,11 @@ export async function sendGmailMessage(
   if (!messageId) {
     throw new Error('Gmail API did not return a message id')
   }
-  return messageId
-}
-
-function stripHtml(html: string): string {
-  return html.replace(/<[^>]+>/g, '')
+  return {
+    id: messageId,
+    threadId: response.data.threadId ?? null,
+    messageId: rfcMessageId,
+  }
 }
 
 interface GoogleApiErrorShape {
@@ -0,0 +1,238 @@
+import { apollo, ApolloClient, ApolloError } from '@/lib/apollo/apollo'
+import type { LeadSearchPage, LeadSearchQuery, ProviderLead } from '@/types/lead-provider'
+import type { LeadProvider } from './index'
+
+const asNonEmptyString = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null
+  }
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+const isLockedEmail = (email: string | null | undefined) => !email || email.includes('not_unlocked')
+
+const toBareDomain = (domain: string | null | undefined): string | undefined => {
+  const value = domain?.trim().toLowerCase()
+  if (!value) {
+    return undefined
+  }
+  try {
+    return new URL(value.includes('://') ? value : `https://${value}`).hostname.replace(/^www\./, '') || undefined
+  } catch {
+    return value.replace(/^https?:\/\//, '').split('/')[0].replace(/^www\./, '') || undefined
+  }
+}
+
+export class ApolloLeadProvider implements LeadProvider {
+  readonly id = 'apollo' as const
+  readonly label = 'Apollo'
+
+  constructor(private client: ApolloClient = apollo) {}
+
+  checkConnection(): Promise<boolean> {
+    return this.client.checkConnection()
+  }
+
+  async search(query: LeadSearchQuery): Promise<LeadSearchPage> {
+    const response = await this.client.searchLeads({
+      person_titles: query.titles,
+      person_locations: query.locations,
+      keywords: query.keywords.length > 0 ? query.keywords : undefined,
+      page: query.page,
+      per_page: query.perPage,
+    })
+
+    return {
+      leads: this.client.processLeads(response.people),
+      totalPages: response.pagination?.total_pages || query.page,
+    }
+  }
+
+  async enrich(leads: ProviderLead[]): Promise<void> {
+    const targets = leads.filter(lead => isLockedEmail(lead.email?.toLowerCase()) || !lead.phone)
+
+    if (targets.length === 0) {
+      return
+    }
+
+    const payload = targets.map(lead => ({
+      identifier: lead.id,
+      first_name: lead.first_name || undefined,
+      last_name: lead.last_name || undefined,
+      title: lead.title || undefined,
+      organization_name: lead.company_name || undefined,
+      domain: toBareDomain(lead.domain),
+      linkedin_url: lead.linkedin_url || undefined,
+      email: isLockedEmail(lead.email) ? undefined : lead.email,
+      city: lead.city || undefined,
+      state: lead.state || undefined,
+      country: lead.country || undefined,
+    }))
+
+    const response = await this.client.bulkMatchPeople(payload, {
+      revealPersonalEmails: true,
+      revealPhoneNumber: false,
+    })
+
+    const leadMap = new Map<string, ProviderLead>()
+    leads.forEach(lead => {
+      leadMap.set(lead.id, lead)
+    })
+
+    const matches = Array.isArray(response.matches) ? response.matches : []
+
+    matches.forEach(rawMatch => {
+      if (!rawMatch || typeof rawMatch !== 'object') {
+        return
+      }
+
+      const match = rawMatch as Record<string, unknown>
+      const identifier =
+        asNonEmptyString(match.client_identifier) ?? asNonEmptyString(match.id)
+      if (!identifier) {
+        return
+      }
+
+      const lead = leadMap.get(identifier)
+      if (!lead) {
+        return
+      }
+
+      const emailCandidates = new Set<string>()
+      const baseEmail = asNonEmptyString(match.email)
+      if (baseEmail) {
+        emailCandidates.add(baseEmail)
+      }
+
+      const nestedEmails = Array.isArray(match.emails) ? match.emails : []
+      nestedEmails.forEach(entry => {
+        if (typeof entry === 'string') {
+          const candidate = asNonEmptyString(entry)
+          if (candidate) {
+            emailCandidates.add(candidate)
+          }
+          return
+        }
+
+        if (!entry || typeof entry !== 'object') {
+          return
+        }
+
+        const entryRecord = entry as Record<string, unknown>
+        const fromValue = asNonEmptyString(entryRecord.value)
+        if (fromValue) {
+          emailCandidates.add(fromValue)
+        }
+        const fromEmail = asNonEmptyString(entryRecord.email)
+        if (fromEmail) {
+          emailCandidates.add(fromEmail)
+        }
+      })
+
+      const rawEmails = Array.isArray(match.emails_raw) ? match.emails_raw : []
+      rawEmails.forEach(entry => {
+        const candidate = asNonEmptyString(entry)
+        if (candidate) {
+          emailCandidates.add(candidate)
+        }
+      })
+
+      const unlockedEmail = [...emailCandidates].find(
+        candidate => !candidate.includes('not_unlocked'),
+      )
+      if (unlockedEmail) {
+        lead.email = unlockedEmail.toLowerCase().trim()
+      }
+
+      const phoneCandidates = new Set<string>()
+      ;[match.phone_number, match.mobile_number].forEach(value => {
+        const candidate = asNonEmptyString(value)
+        if (candidate) {
+          phoneCandidates.add(candidate)
+        }
+      })
+
+      const phoneNumbers = Array.isArray(match.phone_numbers) ? match.phone_numbers : []
+      phoneNumbers.forEach(entry => {
+        if (typeof entry === 'string') {
+          const candidate = asNonEmptyString(entry)
+          if (candidate) {
+            phoneCandidates.add(candidate)
+          }
+          return
+        }
+
+        if (!entry || typeof entry !== 'object') {
+          return
+        }
+
+        const entryRecord = entry as Record<string, unknown>
+        const candidate = asNonEmptyString(entryRecord.number)
+        if (candidate) {
+          phoneCandidates.add(candidate)
+        }
+      })
+
+      const selectedPhone = [...phoneCandidates].find(candidate => candidate.length > 0)
+      if (selectedPhone) {
+        lead.phone = selectedPhone.trim()
+      }
+
+      const linkedin = asNonEmptyString(match.linkedin_url)
+      if (linkedin) {
+        lead.linkedin_url = linkedin
+      }
+
+      const organizationRaw = match.organization
+      if (organizationRaw && typeof organizationRaw === 'object') {
+        const organization = organizationRaw as Record<string, unknown>
+        const name = asNonEmptyString(organization.name)
+        if (name) {
+          lead.company_name = name
+        }
+        const website = asNonEmptyString(organization.website_url)
+        if (website) {
+          lead.domain = website
+        }
+        const industry = asNonEmptyString(organization.industry)
+        if (industry) {
+          lead.industry = industry
+        }
+      }
+
+      const streetAddress = asNonEmptyString(match.street_address)
+      if (streetAddress) {
+        lead.street_address = streetAddress
+      }
+      const city = asNonEmptyString(match.city)
+      if (city) {
+        lead.city = city
+      }
+      const state = asNonEmptyString(match.state)
+      if (state) {
+        lead.state = state
+      }
+      const country = asNonEmptyString(match.country)
+      if (country) {
+        lead.country = country
+      }
+      const postalCode = asNonEmptyString(match.postal_code)
+      if (postalCode) {
+        lead.postal_code = postalCode
+      }
+      const formattedAddress = asNonEmptyString(match.formatted_address)
+      if (formattedAddress) {
+        lead.formatted_address = formattedAddress
+      }
+    })
+  }
+
+  revealEmail(lead: ProviderLead): Promise<string | null> {
+    return this.client.revealEmail(lead.id)
+  }
+
+  isRetryable(error: unknown): boolean {
+    return error instanceof ApolloError && error.shouldRetry
+  }
+}
@@ -0,0 +1,50 @@
+import type { Prisma } from '@prisma/client'
+
+import type { LeadProviderId, LeadSearchPage, LeadSearchQuery, ProviderLead } from '@/types/lead-provider'
+import { ApolloLeadProvider } from './apollo-provider'
+import { RestLeadProvider, parseRestLeadProviderConfig } from './rest-provider'
+
+/**
+ * A source of leads for the lead fetch worker. Campaigns pick one through `Campaign.source`;
+ * the worker only talks to this interface.
+ */
+export interface LeadProvider {
+  readonly id: LeadProviderId
+  /** Shown in lead summaries and logs. */
+  readonly label: string
+  checkConnection(): Promise<boolean>
+  search(query: LeadSearchQuery): Promise<LeadSearchPage>
+  /** Fills in missing emails and contact details on the given leads in place. */
+  enrich(leads: ProviderLead[]): Promise<void>
+  /** Unlocks the email for a lead returned without one. Returns null when it stays locked. */
+  revealEmail(lead: ProviderLead): Promise<string | null>
+  /** Whether a failed search is worth retrying, e.g. rate limits and server errors. */
+  isRetryable(error: unknown): boolean
+}
+
+export const LEAD_PROVIDER_IDS: LeadProviderId[] = ['apollo', 'rest']
+
+export function isLeadProviderId(value: unknown): value is LeadProviderId {
+  return typeof value === 'string' && (LEAD_PROVIDER_IDS as string[]).includes(value)
+}
+
+export function createLeadProvider(campaign: {
+  source: string
+  providerConfig: Prisma.JsonValue | null
+}): LeadProvider {
+  switch (campaign.source) {
+    case 'apollo':
+      return new ApolloLeadProvider()
+    case 'rest': {
+      const config = parseRestLeadProviderConfig(campaign.providerConfig)
+      if (!config) {
+        throw new Error('The REST lead provider is missing a valid configuration')
+      }
+      return new RestLeadProvider(config)
+    }
+    default:
+      throw new Error(`Unknown lead provider "${campaign.source}"`)
+  }
+}
+
+export { ApolloLeadProvider, RestLeadProvider }
@@ -0,0 +1,273 @@
+import http from 'http'
+import https from 'https'
+import axios from 'axios'
+import type { Prisma } from '@prisma/client'
+import { z } from 'zod'
+
+import {
+  LEAD_FIELD_KEYS,
+  type LeadFieldKey,
+  type LeadSearchPage,
+  type LeadSearchQuery,
+  type ProviderLead,
+  type RestLeadProviderConfig,
+} from '@/types/lead-provider'
+import { assertPublicHost, PrivateNetworkError, publicOnlyLookup } from '@/lib/network'
+import type { LeadProvider } from './index'
+
+const REQUEST_TIMEOUT_MS = 30000
+
+// The URLs come from users, so connections are only made to public addresses.
+const httpAgent = new http.Agent({ lookup: publicOnlyLookup })
+const httpsAgent = new https.Agent({ lookup: publicOnlyLookup })
+
+const httpUrl = z
+  .string()
+  .trim()
+  .url()
+  .max(2000)
+  .refine(value => /^https?:\/\//i.test(value), 'Must be an http(s) URL')
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).optional().transform(value => value || undefined)
+
+export const restLeadProviderConfigSchema = z.object({
+  searchUrl: httpUrl,
+  method: z.enum(['GET', 'POST']).default('GET'),
+  apiKeyHeader: optionalText(100),
+  apiKey: optionalText(500),
+  resultsPath: z.string().trim().max(200).default(''),
+  totalPagesPath: optionalText(200),
+  nextCursorPath: optionalText(200),
+  fieldMap: z
+    .object(
+      Object.fromEntries(LEAD_FIELD_KEYS.map(key => [key, optionalText(200)])) as Record<
+        LeadFieldKey,
+        ReturnType<typeof optionalText>
+      >,
+    )
+    .refine(map => Boolean(map.id), 'Map the id field so leads can be told apart'),
+  enrichUrl: httpUrl.optional(),
+  revealUrl: httpUrl.optional(),
+  revealEmailPath: optionalText(200),
+})
+
+export function parseRestLeadProviderConfig(
+  value: Prisma.JsonValue | null | undefined,
+): RestLeadProviderConfig | null {
+  const parsed = restLeadProviderConfigSchema.safeParse(value)
+  return parsed.success ? parsed.data : null
+}
+
+export class RestProviderError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = 'RestProviderError'
+  }
+
+  get shouldRetry(): boolean {
+    return this.status === 429 || this.status >= 500
+  }
+}
+
+/** Resolves a dot-notation path such as `organization.name` or `emails.0`. */
+function getPath(source: unknown, path: string | undefined): unknown {
+  if (!path) {
+    return source
+  }
+  return path.split('.').reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') {
+      return undefined
+    }
+    return (current as Record<string, unknown>)[segment]
+  }, source)
+}
+
+const asText = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value.trim()
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value)
+  }
+  return ''
+}
+
+export class RestLeadProvider implements LeadProvider {
+  readonly id = 'rest' as const
+  readonly label = 'your lead source'
+
+  constructor(private config: RestLeadProviderConfig) {}
+
+  private async request(method: 'GET' | 'POST', url: string, options: { params?: Record<string, string>; body?: unknown } = {}) {
+    const headers: Record<string, string> = { Accept: 'application/json' }
+    if (this.config.apiKeyHeader && this.config.apiKey) {
+      headers[this.config.apiKeyHeader] = this.config.apiKey
+    }
+
+    try {
+      await assertPublicHost(new URL(url).hostname)
+      const response = await axios.request<unknown>({
+        method,
+        url,
+        headers,
+        params: options.params,
+        data: options.body,
+        timeout: REQUEST_TIMEOUT_MS,
+        httpAgent,
+        httpsAgent,
+        // A redirect could point anywhere, including the internal network.
+        maxRedirects: 0,
+        validateStatus: () => true,
+      })
+
+      if (response.status >= 300 && response.status < 400) {
+        throw new RestProviderError(response.status, 'Lead source redirected the request; use the final URL instead')
+      }
+      if (response.status < 200 || response.status >= 300) {
+        throw new RestProviderError(response.status, `Lead source responded with ${response.status} ${response.statusText}`)
+      }
+
+      return response.data
+    } catch (error) {
+      if (error instanceof RestProviderError) {
+        throw error
+      }
+      if (error instanceof PrivateNetworkError || (error as { cause?: unknown })?.cause instanceof PrivateNetworkError) {
+        throw new RestProviderError(400, 'Lead source URLs must point to a public address')
+      }
+      const message = error instanceof Error ? error.message : 'Lead source request failed'
+      // Network failures and timeouts are treated like server errors so the worker retries them.
+      throw new RestProviderError(503, message)
+    }
+  }
+
+  private mapRecord(record: unknown): ProviderLead | null {
+    const value = (key: LeadFieldKey) => asText(getPath(record, this.config.fieldMap[key]))
+    const mappedValue = (key: LeadFieldKey) => (this.config.fieldMap[key] ? value(key) : '')
+
+    const id = value('id')
+    if (!id) {
+      return null
+    }
+
+    return {
+      id,
+      email: mappedValue('email').toLowerCase(),
+      first_name: mappedValue('first_name'),
+      last_name: mappedValue('last_name'),
+      title: mappedValue('title'),
+      headline: mappedValue('headline') || null,
+      company_name: mappedValue('company_name'),
+      domain: mappedValue('domain'),
+      linkedin_url: mappedValue('linkedin_url'),
+      phone: mappedValue('phone'),
+      industry: mappedValue('industry'),
+      street_address: mappedValue('street_address'),
+      city: mappedValue('city'),
+      state: mappedValue('state'),
+      country: mappedValue('country'),
+      postal_code: mappedValue('postal_code'),
+      formatted_address: mappedValue('formatted_address'),
+      raw_person: record,
+    }
+  }
+
+  private mapResults(payload: unknown): ProviderLead[] {
+    const results = getPath(payload, this.config.resultsPath || undefined)
+    if (!Array.isArray(results)) {
+      throw new RestProviderError(502, `Lead source response has no array at "${this.config.resultsPath || '(root)'}"`)
+    }
+    return results
+      .map(record => this.mapRecord(record))
+      .filter((lead): lead is ProviderLead => Boolean(lead))
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.search({ titles: [], locations: [], keywords: [], page: 1, perPage: 1 })
+      return true
+    } catch (error) {
+      console.error('Lead source connection test failed:', error)
+      return false
+    }
+  }
+
+  async search(query: LeadSearchQuery): Promise<LeadSearchPage> {
+    const payload = this.config.method === 'POST'
+      ? await this.request('POST', this.config.searchUrl, { body: query })
+      : await this.request('GET', this.config.searchUrl, {
+          params: {
+            titles: query.titles.join(','),
+            locations: query.locations.join(','),
+            keywords: query.keywords.join(','),
+            page: String(query.page),
+            per_page: String(query.perPage),
+            ...(query.cursor ? { cursor: query.cursor } : {}),
+          },
+        })
+
+    const leads = this.mapResults(payload)
+    const nextCursor = this.config.nextCursorPath ? asText(getPath(payload, this.config.nextCursorPath)) || null : null
+    const reportedPages = Number(getPath(payload, this.config.totalPagesPath))
+    // Without a page count, a missing cursor or a short page is taken as the last one.
+    const totalPages = this.config.totalPagesPath && Number.isFinite(reportedPages) && reportedPages > 0
+      ? Math.floor(reportedPages)
+      : this.config.nextCursorPath
+        ? nextCursor ? query.page + 1 : query.page
+        : leads.length < query.perPage ? query.page : query.page + 1
+
+    return { leads, totalPages, nextCursor }
+  }
+
+  async enrich(leads: ProviderLead[]): Promise<void> {
+    if (!this.config.enrichUrl || leads.length === 0) {
+      return
+    }
+
+    const payload = await this.request('POST', this.config.enrichUrl, {
+      body: {
+        leads: leads.map(lead => Object.fromEntries(
+          LEAD_FIELD_KEYS.map(key => [key, lead[key] || undefined]),
+        )),
+      },
+    })
+
+    const leadMap = new Map(leads.map(lead => [lead.id, lead]))
+
+    this.mapResults(payload).forEach(match => {
+      const lead = leadMap.get(match.id)
+      if (!lead) {
+        return
+      }
+      LEAD_FIELD_KEYS.forEach(key => {
+        const enriched = match[key]
+        if (key !== 'id' && enriched) {
+          lead[key] = enriched
+        }
+      })
+    })
+  }
+
+  async revealEmail(lead: ProviderLead): Promise<string | null> {
+    if (!this.config.revealUrl) {
+      return null
+    }
+
+    try {
+      const url = this.config.revealUrl.replace('{id}', encodeURIComponent(lead.id))
+      const payload = await this.request('GET', url)
+      return asText(getPath(payload, this.config.revealEmailPath || 'email')) || null
+    } catch (error) {
+      console.warn(`⚠️ Lead source could not reveal email for ${lead.id}:`, error)
+      return null
+    }
+  }
+
+  isRetryable(error: unknown): boolean {
+    return error instanceof RestProviderError && error.shouldRetry
+  }
+}
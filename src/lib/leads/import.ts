@@ -0,0 +1,318 @@
+import type { Prisma } from '@prisma/client'
+import * as XLSX from 'xlsx'
+
+import { prisma } from '@/lib/prisma'
+import { linkCampaignLeadsToContacts } from '@/lib/contacts'
+import { EmailVerifier } from '@/lib/email-verification'
+import { getSuppressedEmails } from '@/lib/suppression'
+import { chunkArray, isValidEmail, sanitizeEmailForSheet } from '@/lib/utils'
+import type {
+  LeadImportField,
+  LeadImportMapping,
+  LeadImportPreview,
+  LeadImportRejection,
+  LeadImportResult,
+} from '@/types/lead-import'
+
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024
+export const MAX_IMPORT_ROWS = 10000
+const PREVIEW_ROWS = 5
+const VERIFICATION_CONCURRENCY = 10
+
+// Lower-cased, punctuation-free header names recognised for each field.
+const HEADER_ALIASES: Record<LeadImportField, string[]> = {
+  email: ['email', 'emailaddress', 'workemail', 'businessemail', 'mail'],
+  firstName: ['firstname', 'first', 'givenname', 'forename'],
+  lastName: ['lastname', 'last', 'surname', 'familyname'],
+  company: ['company', 'companyname', 'organization', 'organisation', 'account', 'accountname', 'employer'],
+  jobTitle: ['jobtitle', 'title', 'role', 'position'],
+  website: ['website', 'companywebsite', 'url', 'domain', 'companydomain'],
+  linkedinUrl: ['linkedin', 'linkedinurl', 'linkedinprofile', 'personlinkedinurl'],
+  industry: ['industry', 'sector', 'vertical'],
+  location: ['location', 'formattedaddress', 'address', 'city', 'country', 'region'],
+  summary: ['summary', 'notes', 'bio', 'description'],
+}
+
+export class LeadImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LeadImportError'
+  }
+}
+
+export type ParsedLeadFile = {
+  sheetName: string
+  headers: string[]
+  rows: string[][]
+}
+
+/** Reads the first sheet of a CSV, XLSX or XLS file. The first row is treated as the header. */
+export function readLeadImportFile(content: ArrayBuffer): ParsedLeadFile {
+  let workbook: XLSX.WorkBook
+  try {
+    workbook = XLSX.read(Buffer.from(content), { type: 'buffer', raw: true })
+  } catch {
+    throw new LeadImportError('The file could not be read as CSV or Excel')
+  }
+
+  const sheetName = workbook.SheetNames[0]
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined
+  if (!sheet) {
+    throw new LeadImportError('No sheets were found in that file')
+  }
+
+  const rawRows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false, defval: '', raw: false })
+  const [headerRow, ...rows] = rawRows.map(row => (Array.isArray(row) ? row.map(cell => String(cell ?? '').trim()) : []))
+
+  if (!headerRow || rows.length === 0) {
+    throw new LeadImportError('The file needs a header row and at least one lead')
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new LeadImportError(`Imports are limited to ${MAX_IMPORT_ROWS.toLocaleString()} rows per file`)
+  }
+
+  return { sheetName, headers: headerRow, rows }
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+export function suggestLeadImportMapping(headers: string[]): LeadImportMapping {
+  const normalized = headers.map(normalizeHeader)
+  const used = new Set<number>()
+  const mapping: LeadImportMapping = {}
+
+  ;(Object.keys(HEADER_ALIASES) as LeadImportField[]).forEach(field => {
+    // Exact matches first, so "Company Website" doesn't claim the company column.
+    for (const alias of HEADER_ALIASES[field]) {
+      const index = normalized.findIndex((header, position) => header === alias && !used.has(position))
+      if (index !== -1) {
+        mapping[field] = index
+        used.add(index)
+        return
+      }
+    }
+  })
+
+  if (mapping.email === undefined) {
+    const index = normalized.findIndex((header, position) => header.includes('email') && !used.has(position))
+    if (index !== -1) {
+      mapping.email = index
+    }
+  }
+
+  return mapping
+}
+
+export function buildLeadImportPreview(fileName: string, parsed: ParsedLeadFile): LeadImportPreview {
+  return {
+    fileName,
+    sheetName: parsed.sheetName,
+    headers: parsed.headers,
+    sampleRows: parsed.rows.slice(0, PREVIEW_ROWS),
+    rowCount: parsed.rows.length,
+    suggestedMapping: suggestLeadImportMapping(parsed.headers),
+  }
+}
+
+/** Keeps only in-range column indexes so a stale mapping can't read past the row. */
+export function parseLeadImportMapping(value: unknown, columnCount: number): LeadImportMapping {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {}
+  }
+  const mapping: LeadImportMapping = {}
+  ;(Object.keys(HEADER_ALIASES) as LeadImportField[]).forEach(field => {
+    const index = (value as Record<string, unknown>)[field]
+    if (typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < columnCount) {
+      mapping[field] = index
+    }
+  })
+  return mapping
+}
+
+const cleanUrl = (value: string): string | null => {
+  if (!value) return null
+  const candidate = /^https?:\/\//i.test(value) ? value : `https://${value}`
+  try {
+    return new URL(candidate).toString().replace(/\/$/, '')
+  } catch {
+    return null
+  }
+}
+
+const domainFromUrl = (url: string | null): string | null => {
+  if (!url) return null
+  try {
+    return new URL(url).hostname.replace(/^www\./, '') || null
+  } catch {
+    return null
+  }
+}
+
+export function buildLeadImportErrorCsv(headers: string[], rows: string[][], rejected: LeadImportRejection[]): string {
+  const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+  const header = ['Row', 'Reason', ...headers].map(escape).join(',')
+  const lines = rejected.map(rejection =>
+    [rejection.row, rejection.reason, ...(rows[rejection.row - 2] ?? [])].map(escape).join(','),
+  )
+  return [header, ...lines].join('\n')
+}
+
+/**
+ * Validates mapped rows and creates `Lead` records under the campaign. Rows are rejected for a
+ * missing, malformed, placeholder or disposable email, for repeating an earlier row, when the
+ * address is already one of the user's leads, or when verification finds it INVALID. Risky and
+ * suppressed addresses are imported but flagged.
+ */
+export async function importLeadRows(options: {
+  userId: string
+  campaignId: string
+  parsed: ParsedLeadFile
+  mapping: LeadImportMapping
+}): Promise<LeadImportResult> {
+  const { userId, campaignId, parsed, mapping } = options
+  if (mapping.email === undefined) {
+    throw new LeadImportError('Map a column to Email before importing')
+  }
+
+  const cell = (row: string[], field: LeadImportField) => {
+    const index = mapping[field]
+    return index === undefined ? '' : (row[index] ?? '').trim()
+  }
+  const orNull = (value: string) => value || null
+
+  const rejected: LeadImportRejection[] = []
+  const seen = new Map<string, number>()
+  const candidates: Array<{ row: number; data: Prisma.LeadCreateManyInput }> = []
+
+  parsed.rows.forEach((row, offset) => {
+    const rowNumber = offset + 2
+    const rawEmail = cell(row, 'email').toLowerCase().replace(/^mailto:/, '')
+
+    if (!rawEmail) {
+      rejected.push({ row: rowNumber, email: '', reason: 'Missing email' })
+      return
+    }
+    if (!isValidEmail(rawEmail)) {
+      rejected.push({ row: rowNumber, email: rawEmail, reason: 'Invalid email address' })
+      return
+    }
+    const email = sanitizeEmailForSheet(rawEmail)
+    if (!email) {
+      rejected.push({ row: rowNumber, email: rawEmail, reason: 'Placeholder or disposable email address' })
+      return
+    }
+    const firstRow = seen.get(email)
+    if (firstRow !== undefined) {
+      rejected.push({ row: rowNumber, email, reason: `Duplicate of row ${firstRow}` })
+      return
+    }
+    seen.set(email, rowNumber)
+
+    const website = cleanUrl(cell(row, 'website'))
+    candidates.push({
+      row: rowNumber,
+      data: {
+        userId,
+        campaignId,
+        email,
+        firstName: orNull(cell(row, 'firstName')),
+        lastName: orNull(cell(row, 'lastName')),
+        company: orNull(cell(row, 'company')),
+        jobTitle: orNull(cell(row, 'jobTitle')),
+        website,
+        domain: domainFromUrl(website) ?? email.split('@')[1],
+        linkedinUrl: cleanUrl(cell(row, 'linkedinUrl')),
+        industry: orNull(cell(row, 'industry')),
+        location: orNull(cell(row, 'location')),
+        summary: orNull(cell(row, 'summary')),
+        tags: [],
+        source: 'import',
+        isValid: true,
+        isSuppressed: false,
+      },
+    })
+  })
+
+  let duplicates = rejected.filter(rejection => rejection.reason.startsWith('Duplicate')).length
+
+  // Same scope as the lead fetch worker: an address already held in any of the user's campaigns is skipped.
+  const existing = new Map<string, string>()
+  for (const chunk of chunkArray(candidates.map(candidate => candidate.data.email), 500)) {
+    const matches = await prisma.lead.findMany({
+      where: { userId, email: { in: chunk } },
+      select: { email: true, campaignId: true },
+    })
+    matches.forEach(match => existing.set(match.email, match.campaignId))
+  }
+
+  const newCandidates = candidates.filter(candidate => {
+    const existingCampaignId = existing.get(candidate.data.email)
+    if (existingCampaignId === undefined) {
+      return true
+    }
+    duplicates += 1
+    rejected.push({
+      row: candidate.row,
+      email: candidate.data.email,
+      reason: existingCampaignId === campaignId ? 'Already a lead in this campaign' : 'Already a lead in another campaign',
+    })
+    return false
+  })
+
+  // The same checks leads from a provider go through before they are stored.
+  const verifier = new EmailVerifier()
+  const toInsert: typeof candidates = []
+  for (const chunk of chunkArray(newCandidates, VERIFICATION_CONCURRENCY)) {
+    const results = await Promise.all(
+      chunk.map(candidate =>
+        verifier.verify(candidate.data.email).catch(error => {
+          console.warn(`⚠️ Email verification failed for ${candidate.data.email}, leaving it unverified:`, error)
+          return null
+        }),
+      ),
+    )
+    chunk.forEach((candidate, index) => {
+      const verification = results[index]
+      if (verification?.status === 'INVALID') {
+        rejected.push({
+          row: candidate.row,
+          email: candidate.data.email,
+          reason: `Email failed verification (${verification.reasons.map(reason => reason.replace(/_/g, ' ')).join(', ')})`,
+        })
+        return
+      }
+      candidate.data.emailVerificationStatus = verification?.status ?? 'UNVERIFIED'
+      candidate.data.emailVerificationReasons = verification?.reasons ?? []
+      candidate.data.emailVerifiedAt = verification ? new Date() : null
+      toInsert.push(candidate)
+    })
+  }
+
+  const suppressed = await getSuppressedEmails(userId, toInsert.map(candidate => candidate.data.email))
+  toInsert.forEach(candidate => {
+    candidate.data.isSuppressed = suppressed.has(candidate.data.email)
+  })
+
+  let imported = 0
+  for (const batch of chunkArray(toInsert, 500)) {
+    const result = await prisma.lead.createMany({
+      data: batch.map(candidate => candidate.data),
+      skipDuplicates: true,
+    })
+    imported += result.count
+    // Rows skipped here were inserted by a concurrent fetch or import after the check above.
+    duplicates += batch.length - result.count
+  }
+
+  await linkCampaignLeadsToContacts(userId, campaignId, toInsert.map(candidate => candidate.data.email))
+
+  rejected.sort((a, b) => a.row - b.row)
+
+  return {
+    imported,
+    duplicates,
+    suppressed: suppressed.size,
+    rejected,
+    errorReport: rejected.length > 0 ? buildLeadImportErrorCsv(parsed.headers, parsed.rows, rejected) : null,
+  }
+}
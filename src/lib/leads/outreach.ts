@@ -1,13 +1,15 @@
 import { SpreadsheetData } from "@/types/google-sheet"
 import { LEAD_SHEET_COLUMNS } from "../utils"
 import { DraftStatus, SheetLead } from "@/types/outreach"
+import { buildMergeFields, type MergeFields } from "@/lib/email/templates"
 
 
 
 export function parseSheet(sheet: SpreadsheetData): SheetLead[] {
   const rows = sheet.data || []
   if (rows.length < 2) return []
-  const headerRow = rows[0]?.map((cell) => cell?.toString().trim().toLowerCase()) ?? []
+  const originalHeaders = rows[0]?.map((cell) => cell?.toString().trim() ?? '') ?? []
+  const headerRow = originalHeaders.map((header) => header.toLowerCase())
   const indexFor = (key: string) => headerRow.findIndex((value) => value === key.toLowerCase())
 
   const emailIndex = findEmailIndex(headerRow)
@@ -24,6 +26,12 @@ export function parseSheet(sheet: SpreadsheetData): SheetLead[] {
     if (!email) return
     if (!email.includes('@')) return
 
+    const fields: Record<string, string> = {}
+    originalHeaders.forEach((header, index) => {
+      const value = row[index]?.toString().trim()
+      if (header && value) fields[header] = value
+    })
+
     leads.push({
       rowIndex: offset + 1,
       email,
@@ -33,12 +41,24 @@ export function parseSheet(sheet: SpreadsheetData): SheetLead[] {
       summary: summaryIndex >= 0 ? row[summaryIndex]?.toString().trim() : undefined,
       role: roleIndex >= 0 ? row[roleIndex]?.toString().trim() : undefined,
       sourceRowRef: String(offset + 2),
+      fields,
     })
   })
 
   return leads
 }
 
+export function sheetLeadMergeFields(lead: SheetLead): MergeFields {
+  return buildMergeFields(lead.fields, {
+    email: lead.email,
+    firstName: lead.firstName,
+    lastName: lead.lastName,
+    company: lead.company,
+    summary: lead.summary,
+    jobTitle: lead.role,
+  })
+}
+
 export function findEmailIndex(headers: string[]): number {
   const normalizedColumns = LEAD_SHEET_COLUMNS.map((col) => col.toLowerCase())
   const emailVariants = new Set(['email', 'email address', 'e-mail'])
@@ -70,6 +90,7 @@ export function jobStatusVariant(status: string): "default" | "outline" | "posit
       return 'neutral'
     case 'SENT':
       return 'positive'
+    case 'BOUNCED':
     case 'FAILED':
       return 'destructive'
     default:
@@ -99,6 +120,11 @@ export function jobStatusBadgeProps(
         label: 'Processing',
         className: 'border-transparent bg-sky-500 text-white hover:bg-sky-500/90',
       }
+    case 'BOUNCED':
+      return {
+        label: 'Bounced',
+        className: 'border-transparent bg-destructive text-destructive-foreground hover:bg-destructive/80',
+      }
     case 'FAILED':
       return {
         label: 'Failed',
@@ -0,0 +1,54 @@
+import { Worker } from 'bullmq'
+
+import { campaignRefreshQueue, redis } from '@/lib/queue'
+
+import { runDueCampaignRefreshes } from './refresh'
+
+const SWEEP_JOB_NAME = 'campaign-refresh-sweep'
+
+export class CampaignRefreshWorker {
+  private worker: Worker
+
+  constructor() {
+    this.worker = new Worker(
+      campaignRefreshQueue.name,
+      async () => {
+        const queued = await runDueCampaignRefreshes()
+        if (queued > 0) {
+          console.log(`🔁 Queued ${queued} scheduled campaign refresh(es)`)
+        }
+      },
+      { connection: redis, concurrency: 1 },
+    )
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`🔁 Campaign refresh sweep ${job?.id} failed:`, err?.message)
+    })
+  }
+
+  async schedule(): Promise<void> {
+    // Schedules are daily at the finest, so an hourly sweep keeps runs within the hour they're due.
+    await campaignRefreshQueue.add(SWEEP_JOB_NAME, {}, {
+      repeat: { pattern: '30 * * * *' },
+      jobId: SWEEP_JOB_NAME,
+    })
+  }
+
+  async close(): Promise<void> {
+    console.log('Closing campaign refresh worker...')
+    await this.worker.close()
+  }
+}
+
+let campaignRefreshWorker: CampaignRefreshWorker | null = null
+
+export function startCampaignRefreshWorker(): CampaignRefreshWorker {
+  if (!campaignRefreshWorker) {
+    console.log('Starting campaign refresh worker...')
+    campaignRefreshWorker = new CampaignRefreshWorker()
+    void campaignRefreshWorker.schedule().catch((error: unknown) => {
+      console.error('Failed to schedule campaign refreshes:', error)
+    })
+  }
+  return campaignRefreshWorker
+}
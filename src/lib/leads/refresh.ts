@@ -0,0 +1,121 @@
+import { prisma } from '@/lib/prisma'
+import { enqueueJob } from '@/lib/queue'
+import { generateIdempotencyKey } from '@/lib/utils'
+import type { CampaignRefreshSummary, RefreshSchedule } from '@/types/campaign-refresh'
+
+export const REFRESH_SCHEDULES: RefreshSchedule[] = ['daily', 'weekly', 'monthly']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const SCHEDULE_INTERVAL_DAYS: Record<RefreshSchedule, number> = { daily: 1, weekly: 7, monthly: 30 }
+
+export function isRefreshSchedule(value: unknown): value is RefreshSchedule {
+  return typeof value === 'string' && (REFRESH_SCHEDULES as string[]).includes(value)
+}
+
+export function getNextRefreshAt(schedule: RefreshSchedule, from: Date = new Date()): Date {
+  return new Date(from.getTime() + SCHEDULE_INTERVAL_DAYS[schedule] * DAY_MS)
+}
+
+/**
+ * Creates a refresh job for the campaign and queues it. Returns null when a pull is already
+ * queued or running, so a slow run never has another stacked behind it. Jobs stuck pending
+ * for over a day are ignored.
+ */
+export async function enqueueCampaignRefresh(campaign: { id: string; userId: string }): Promise<string | null> {
+  const inFlight = await prisma.campaignJob.findFirst({
+    where: {
+      campaignId: campaign.id,
+      status: { in: ['PENDING', 'RUNNING'] },
+      createdAt: { gte: new Date(Date.now() - DAY_MS) },
+    },
+    select: { id: true },
+  })
+  if (inFlight) {
+    return null
+  }
+
+  const campaignJob = await prisma.campaignJob.create({
+    data: {
+      campaignId: campaign.id,
+      idempotencyKey: generateIdempotencyKey(campaign.id, 'refresh', Date.now().toString()),
+      mode: 'refresh',
+      nextRunAt: new Date(),
+    },
+  })
+
+  await enqueueJob('lead-fetch', {
+    campaignId: campaign.id,
+    jobId: campaignJob.id,
+    userId: campaign.userId,
+    mode: 'refresh',
+  })
+
+  return campaignJob.id
+}
+
+/**
+ * Queues a refresh for every active campaign whose scheduled time has passed. A campaign
+ * with a pull already in flight keeps its due time and is picked up on the next sweep.
+ */
+export async function runDueCampaignRefreshes(now: Date = new Date()): Promise<number> {
+  const due = await prisma.campaign.findMany({
+    where: { isActive: true, refreshSchedule: { not: null }, nextRefreshAt: { lte: now } },
+    select: { id: true, userId: true, refreshSchedule: true },
+  })
+
+  let queued = 0
+  for (const campaign of due) {
+    if (!isRefreshSchedule(campaign.refreshSchedule)) {
+      continue
+    }
+    const jobId = await enqueueCampaignRefresh(campaign)
+    if (!jobId) {
+      continue
+    }
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: { nextRefreshAt: getNextRefreshAt(campaign.refreshSchedule, now) },
+    })
+    queued += 1
+  }
+  return queued
+}
+
+export async function getCampaignRefreshSummary(campaignId: string): Promise<CampaignRefreshSummary | null> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { refreshSchedule: true, nextRefreshAt: true, lastRefreshedAt: true },
+  })
+  if (!campaign) {
+    return null
+  }
+
+  const [latestRefresh, inFlight] = await Promise.all([
+    findLatestRefreshJob(campaignId),
+    prisma.campaignJob.count({
+      where: {
+        campaignId,
+        status: { in: ['PENDING', 'RUNNING'] },
+        createdAt: { gte: new Date(Date.now() - DAY_MS) },
+      },
+    }),
+  ])
+  const newLeads = latestRefresh ? await prisma.lead.count({ where: { campaignJobId: latestRefresh.id } }) : 0
+
+  return {
+    schedule: isRefreshSchedule(campaign.refreshSchedule) ? campaign.refreshSchedule : null,
+    nextRefreshAt: campaign.nextRefreshAt?.toISOString() ?? null,
+    lastRefreshedAt: campaign.lastRefreshedAt?.toISOString() ?? null,
+    newLeads,
+    isRunning: inFlight > 0,
+  }
+}
+
+/** The most recent refresh run that finished successfully; its leads count as new. */
+export async function findLatestRefreshJob(campaignId: string): Promise<{ id: string } | null> {
+  return prisma.campaignJob.findFirst({
+    where: { campaignId, mode: 'refresh', status: 'SUCCEEDED' },
+    orderBy: { finishedAt: 'desc' },
+    select: { id: true },
+  })
+}
@@ -0,0 +1,91 @@
+import dns from 'dns'
+import net from 'net'
+
+/**
+ * Thrown when a user-supplied host resolves to loopback, private, link-local or otherwise
+ * internal addresses. The server must not be usable to reach its own network.
+ */
+export class PrivateNetworkError extends Error {
+  constructor(host: string) {
+    super(`${host} resolves to a private or internal address`)
+    this.name = 'PrivateNetworkError'
+  }
+}
+
+const BLOCKED_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+]
+
+const BLOCKED_ADDRESSES = new net.BlockList()
+for (const [address, prefix, type] of BLOCKED_SUBNETS) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, type)
+}
+
+// Self-hosted setups may point at a relay or lead source on their own network on purpose.
+const allowPrivateNetwork = () => process.env.ALLOW_PRIVATE_NETWORK_HOSTS === 'true'
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) reaches the IPv4 address.
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  const candidate = mapped ? mapped[1] : address
+  const family = net.isIP(candidate)
+  if (family === 0) {
+    return true
+  }
+  return BLOCKED_ADDRESSES.check(candidate, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Resolves a host name (or takes an IP literal as is) and throws PrivateNetworkError unless
+ * every address it resolves to is public.
+ */
+export async function assertPublicHost(host: string): Promise<void> {
+  if (allowPrivateNetwork()) {
+    return
+  }
+  const hostname = host.replace(/^\[|\]$/g, '')
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.promises.lookup(hostname, { all: true })).map((entry) => entry.address)
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new PrivateNetworkError(hostname)
+  }
+}
+
+/**
+ * A drop-in for `dns.lookup` on sockets and HTTP agents that refuses private addresses. The
+ * check runs on the address actually connected to, so a host that changes its DNS answer
+ * after `assertPublicHost` still can't reach the internal network.
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', undefined)
+      return
+    }
+    if (!allowPrivateNetwork() && (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address)))) {
+      callback(new PrivateNetworkError(hostname), '', undefined)
+      return
+    }
+    if (options.all) {
+      callback(null, addresses)
+      return
+    }
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
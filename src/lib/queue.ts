@@ -5,6 +5,9 @@ import Redis from 'ioredis'
 
 const isBuildPhase = process.env.NEXT_PHASE === 'phase-production-build'
 
+// Gives the running sync time to finish so the follow-up rarely overlaps it.
+const REPLY_SYNC_FOLLOW_UP_DELAY_MS = 30 * 1000
+
 class NoopQueue {
   name: string
   constructor(name: string) {
@@ -16,6 +19,9 @@ class NoopQueue {
   async getJobs() {
     return [] as Job[]
   }
+  async getJob() {
+    return undefined
+  }
   async clean() {
     return []
   }
@@ -29,6 +35,8 @@ const createRedisClient = () => {
       ping: async () => 'OK',
       eval: async () => null,
       hmget: async () => [],
+      get: async () => null,
+      exists: async () => 0,
       set: async () => null,
     } as unknown as Redis
   }
@@ -41,11 +49,15 @@ const createRedisClient = () => {
 // Redis connection
 const redis = createRedisClient()
 
+export type LeadFetchMode = 'full' | 'refresh'
+
 export interface LeadFetchJobData {
   campaignId: string
   jobId: string
   userId: string
   isRetry?: boolean
+  /** Refresh runs resume from the saved search position and only keep net-new people. */
+  mode?: LeadFetchMode
 }
 
 export interface EmailSendQueueData {
@@ -54,6 +66,13 @@ export interface EmailSendQueueData {
   gmailAccountId: string
 }
 
+export interface ReplySyncJobData {
+  userId?: string
+  gmailAccountId?: string
+  historyId?: string
+  reason: 'schedule' | 'push' | 'manual'
+}
+
 // Job queue for lead fetching
 export const leadFetchQueue = isBuildPhase
   ? (new NoopQueue('lead-fetch') as unknown as Queue)
@@ -81,6 +100,43 @@ export const emailSendQueue = isBuildPhase
       },
     })
 
+export const alertQueue = isBuildPhase
+  ? (new NoopQueue('alerts') as unknown as Queue)
+  : new Queue('alerts', {
+      connection: redis,
+      defaultJobOptions: {
+        removeOnComplete: 24,
+        removeOnFail: 50,
+        attempts: 1,
+      },
+    })
+
+export const replySyncQueue = isBuildPhase
+  ? (new NoopQueue('reply-sync') as unknown as Queue)
+  : new Queue('reply-sync', {
+      connection: redis,
+      defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: true,
+        attempts: 2,
+        backoff: {
+          type: 'exponential',
+          delay: 10000,
+        },
+      },
+    })
+
+export const campaignRefreshQueue = isBuildPhase
+  ? (new NoopQueue('campaign-refresh') as unknown as Queue)
+  : new Queue('campaign-refresh', {
+      connection: redis,
+      defaultJobOptions: {
+        removeOnComplete: 24,
+        removeOnFail: 50,
+        attempts: 1,
+      },
+    })
+
 // Enqueue a job
 export async function enqueueJob(
   jobName: string,
@@ -104,6 +160,32 @@ export async function enqueueEmailSendJob(
   })
 }
 
+/**
+ * Queues a reply sync for one mailbox, or for all of the user's mailboxes when no account
+ * is given. The job id collapses bursts of push notifications into a single pending sync.
+ * A running sync may already be past the changes a new notification reports, so in that
+ * case a delayed follow-up sync is queued instead.
+ */
+export async function enqueueReplySync(
+  data: ReplySyncJobData & { userId: string },
+  options: JobsOptions = {},
+): Promise<Job> {
+  const jobId = `reply-sync-${data.gmailAccountId ?? data.userId}`
+  const existing = await replySyncQueue.getJob(jobId)
+  if (existing && (await existing.getState()) === 'active') {
+    return replySyncQueue.add('reply-sync', data, {
+      jobId: `${jobId}-followup`,
+      delay: REPLY_SYNC_FOLLOW_UP_DELAY_MS,
+      ...options,
+    })
+  }
+
+  return replySyncQueue.add('reply-sync', data, {
+    jobId,
+    ...options,
+  })
+}
+
 export async function removePendingCampaignJobs(campaignId: string): Promise<number> {
   const jobStates: JobType[] = ['wait', 'delayed', 'paused', 'prioritized', 'waiting-children']
   const jobs = await leadFetchQueue.getJobs(jobStates)
@@ -0,0 +1,148 @@
+import { ReplyDisposition } from "@prisma/client"
+
+import { prisma } from "@/lib/prisma"
+import { triggerAlertEvent } from "@/lib/alerts"
+
+import { describeBounce, type DeliveryStatusReport } from "./dsn"
+import { syncReplySuppression } from "./suppression"
+
+export type BounceNotice = {
+  userId: string
+  gmailAccountId: string | null
+  report: DeliveryStatusReport
+  gmailMessageId: string
+  gmailThreadId: string | null
+  rfcMessageId: string | null
+  subject: string | null
+  snippet: string | null
+  bodyPlain: string | null
+  receivedAt: Date
+}
+
+async function findBouncedJob(notice: BounceNotice) {
+  const { userId, report } = notice
+  const select = { id: true, campaignId: true, leadEmail: true, bounceType: true } as const
+
+  if (report.originalMessageId) {
+    const job = await prisma.emailSendJob.findFirst({
+      where: { userId, rfcMessageId: report.originalMessageId },
+      select,
+    })
+    if (job) return job
+  }
+
+  const recipientFilter = {
+    userId,
+    leadEmail: { equals: report.recipient, mode: "insensitive" as const },
+    status: { in: ["SENT" as const, "BOUNCED" as const] },
+  }
+
+  if (notice.gmailThreadId) {
+    const job = await prisma.emailSendJob.findFirst({
+      // Thread ids are only unique within one mailbox.
+      where: {
+        ...recipientFilter,
+        gmailThreadId: notice.gmailThreadId,
+        ...(notice.gmailAccountId ? { gmailAccountId: notice.gmailAccountId } : {}),
+      },
+      orderBy: { sentAt: "desc" },
+      select,
+    })
+    if (job) return job
+  }
+
+  return prisma.emailSendJob.findFirst({
+    where: { ...recipientFilter, sentAt: { lte: notice.receivedAt } },
+    orderBy: { sentAt: "desc" },
+    select,
+  })
+}
+
+/**
+ * Applies a parsed delivery status notification: the send job is marked BOUNCED with the
+ * hard/soft detail, and hard bounces also invalidate the lead and are stored as a BOUNCED
+ * reply so the existing auto-suppression and sequence halting take over. A hard bounce that
+ * matches none of the user's sends still invalidates and suppresses the failed recipient.
+ * Returns true when the notice matched one of the user's sends.
+ */
+export async function recordBounceNotice(notice: BounceNotice): Promise<boolean> {
+  const { userId, report } = notice
+  const job = await findBouncedJob(notice)
+  const detail = describeBounce(report)
+
+  // A later soft bounce must not downgrade a hard one.
+  if (job && job.bounceType !== "hard") {
+    await prisma.emailSendJob.update({
+      where: { id: job.id },
+      data: {
+        status: "BOUNCED",
+        bounceType: report.bounceType,
+        bounceStatus: report.status,
+        bounceDiagnostic: report.diagnosticCode,
+        bouncedAt: notice.receivedAt,
+        error: detail,
+      },
+    })
+  }
+
+  if (report.bounceType !== "hard") {
+    return Boolean(job)
+  }
+
+  const recipient = job?.leadEmail ?? report.recipient
+  await prisma.lead.updateMany({
+    where: { userId, email: { equals: recipient, mode: "insensitive" } },
+    data: { isValid: false },
+  })
+
+  const lead = await prisma.lead.findFirst({
+    where: {
+      userId,
+      email: { equals: recipient, mode: "insensitive" },
+      ...(job?.campaignId ? { campaignId: job.campaignId } : {}),
+    },
+    orderBy: { updatedAt: "desc" },
+    select: { id: true, campaignId: true },
+  })
+
+  const reply = await prisma.emailReply.upsert({
+    where: { userId_gmailMessageId: { userId, gmailMessageId: notice.gmailMessageId } },
+    create: {
+      userId,
+      gmailAccountId: notice.gmailAccountId,
+      leadEmail: recipient,
+      subject: notice.subject,
+      snippet: notice.snippet ?? detail,
+      bodyPlain: notice.bodyPlain,
+      receivedAt: notice.receivedAt,
+      gmailMessageId: notice.gmailMessageId,
+      gmailThreadId: notice.gmailThreadId,
+      rfcMessageId: notice.rfcMessageId,
+      leadId: lead?.id ?? null,
+      campaignId: job?.campaignId ?? lead?.campaignId ?? null,
+      emailSendJobId: job?.id ?? null,
+      disposition: ReplyDisposition.BOUNCED,
+      summary: detail,
+      classificationModel: "dsn",
+      classificationConfidence: 1,
+      classifiedAt: new Date(),
+    },
+    update: {},
+    select: { id: true },
+  })
+
+  await syncReplySuppression(reply.id)
+
+  if (!job) {
+    return false
+  }
+
+  triggerAlertEvent({
+    userId,
+    event: "EMAIL_FAILED",
+    campaignId: job.campaignId,
+    referenceId: job.id,
+  })
+
+  return true
+}
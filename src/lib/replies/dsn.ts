@@ -0,0 +1,160 @@
+import type { gmail_v1 } from "googleapis"
+
+export type BounceType = "hard" | "soft"
+
+export type DeliveryStatusReport = {
+  recipient: string
+  action: string
+  status: string | null
+  diagnosticCode: string | null
+  bounceType: BounceType
+  originalMessageId: string | null
+}
+
+export type DeliveryReportParts = {
+  statusPart: gmail_v1.Schema$MessagePart
+  originalPart: gmail_v1.Schema$MessagePart | null
+}
+
+const ORIGINAL_MESSAGE_TYPES = new Set(["message/rfc822", "text/rfc822-headers", "message/global", "message/global-headers"])
+
+/**
+ * Locates the machine-readable parts of an RFC 3464 delivery status notification: the
+ * `message/delivery-status` block and, when present, the returned original message.
+ */
+export function findDeliveryReportParts(payload: gmail_v1.Schema$MessagePart | null | undefined): DeliveryReportParts | null {
+  if (!payload) {
+    return null
+  }
+
+  let statusPart: gmail_v1.Schema$MessagePart | null = null
+  let originalPart: gmail_v1.Schema$MessagePart | null = null
+  const stack: gmail_v1.Schema$MessagePart[] = [payload]
+
+  while (stack.length > 0) {
+    const part = stack.pop()
+    if (!part) continue
+
+    const mimeType = part.mimeType?.toLowerCase() ?? ""
+    if (!statusPart && (mimeType === "message/delivery-status" || mimeType === "message/global-delivery-status")) {
+      statusPart = part
+    } else if (!originalPart && ORIGINAL_MESSAGE_TYPES.has(mimeType)) {
+      originalPart = part
+    }
+    if (part.parts?.length) {
+      stack.push(...part.parts)
+    }
+  }
+
+  return statusPart ? { statusPart, originalPart } : null
+}
+
+/**
+ * Splits a DSN body into its header-style field groups, unfolding continuation lines.
+ * The first group describes the reporting MTA; the rest describe one recipient each.
+ */
+function parseFieldGroups(text: string): Array<Map<string, string>> {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => {
+      const fields = new Map<string, string>()
+      let lastKey: string | null = null
+      for (const line of block.split("\n")) {
+        if (/^\s/.test(line) && lastKey) {
+          fields.set(lastKey, `${fields.get(lastKey) ?? ""} ${line.trim()}`)
+          continue
+        }
+        const separator = line.indexOf(":")
+        if (separator <= 0) continue
+        lastKey = line.slice(0, separator).trim().toLowerCase()
+        fields.set(lastKey, line.slice(separator + 1).trim())
+      }
+      return fields
+    })
+    .filter((fields) => fields.size > 0)
+}
+
+const stripAddressType = (value: string | undefined): string | null => {
+  if (!value) return null
+  const address = value.includes(";") ? value.slice(value.indexOf(";") + 1) : value
+  const trimmed = address.trim().replace(/^<|>$/g, "")
+  return trimmed.includes("@") ? trimmed.toLowerCase() : null
+}
+
+const extractStatusCode = (value: string | null | undefined): string | null =>
+  value?.match(/\b([245])\.(\d{1,3})\.(\d{1,3})\b/)?.[0] ?? null
+
+/**
+ * Permanent (5.x.x) failures are hard bounces. Transient (4.x.x) failures the remote MTA
+ * gave up retrying are soft bounces. When the status is missing, the SMTP reply code in the
+ * diagnostic decides.
+ */
+const resolveBounceType = (status: string | null, diagnosticCode: string | null): BounceType => {
+  if (status) {
+    return status.startsWith("5") ? "hard" : "soft"
+  }
+  const smtpCode = diagnosticCode?.match(/\b([45])\d\d\b/)?.[1]
+  return smtpCode === "4" ? "soft" : "hard"
+}
+
+const extractMessageId = (headersText: string | null | undefined): string | null =>
+  headersText?.replace(/\r\n/g, "\n").match(/^message-id:\s*(<[^>]+>)/im)?.[1] ?? null
+
+/**
+ * Parses the failed recipient from a delivery status notification. Reports that only
+ * announce delays or successful deliveries return null.
+ */
+export function parseDeliveryStatus(
+  statusText: string,
+  originalHeadersText?: string | null,
+): DeliveryStatusReport | null {
+  const groups = parseFieldGroups(statusText)
+  const recipientGroups = groups.filter((fields) => fields.has("final-recipient") || fields.has("original-recipient"))
+
+  const failed = recipientGroups.find((fields) => (fields.get("action") ?? "").toLowerCase().startsWith("failed"))
+  if (!failed) {
+    return null
+  }
+
+  const recipient = stripAddressType(failed.get("original-recipient")) ?? stripAddressType(failed.get("final-recipient"))
+  if (!recipient) {
+    return null
+  }
+
+  const diagnosticCode = failed.get("diagnostic-code")?.replace(/^smtp;\s*/i, "").slice(0, 500) ?? null
+  const status = extractStatusCode(failed.get("status")) ?? extractStatusCode(diagnosticCode)
+
+  return {
+    recipient,
+    action: "failed",
+    status,
+    diagnosticCode,
+    bounceType: resolveBounceType(status, diagnosticCode),
+    originalMessageId: extractMessageId(originalHeadersText),
+  }
+}
+
+export function findOriginalMessageId(part: gmail_v1.Schema$MessagePart | null): string | null {
+  if (!part) return null
+  const stack: gmail_v1.Schema$MessagePart[] = [part]
+  while (stack.length > 0) {
+    const current = stack.pop()
+    if (!current) continue
+    const header = current.headers?.find((entry) => entry.name?.toLowerCase() === "message-id")
+    if (header?.value && current !== part) {
+      return header.value.trim()
+    }
+    if (current.parts?.length) {
+      stack.push(...current.parts)
+    }
+  }
+  return null
+}
+
+export function describeBounce(report: Pick<DeliveryStatusReport, "bounceType" | "status" | "diagnosticCode">): string {
+  const label = report.bounceType === "hard" ? "Hard bounce" : "Soft bounce"
+  const status = report.status ? ` ${report.status}` : ""
+  const diagnostic = report.diagnosticCode ? `: ${report.diagnosticCode}` : ""
+  return `${label}${status}${diagnostic}`.slice(0, 500)
+}
@@ -1,10 +1,15 @@
-import { Prisma, ReplyDisposition } from "@prisma/client"
+import { Prisma, ReplyDisposition, type GmailAccount } from "@prisma/client"
 import { google, gmail_v1 } from "googleapis"
 
 import { prisma } from "@/lib/prisma"
 import { ensureFreshGmailToken, createAuthorizedGmailClient } from "@/lib/google-gmail"
+import { triggerAlertEvent } from "@/lib/alerts"
+import { enqueueReplySync } from "@/lib/queue"
 
+import { recordBounceNotice } from "./bounces"
 import { classifyReplyContent, createExtractedSummary } from "./classifier"
+import { findDeliveryReportParts, findOriginalMessageId, parseDeliveryStatus } from "./dsn"
+import { isSuppressingDisposition, syncReplySuppression } from "./suppression"
 import type { ReplyRecord } from "./types"
 
 const DISPOSITION_LABEL_MAP: Record<ReplyDisposition, ReplyRecord["disposition"]> = {
@@ -62,8 +67,9 @@ function ensurePlainBody(reply: {
   return null
 }
 
-function normalizeClassifier(model: string | null): "openai" | "heuristic" | null {
+function normalizeClassifier(model: string | null): ReplyRecord["classificationSource"] {
   if (!model) return null
+  if (model === "manual") return "manual"
   if (model.startsWith("openai:")) return "openai"
   if (model.startsWith("heuristic")) return "heuristic"
   return null
@@ -164,6 +170,7 @@ async function classifyIfNeeded(reply: RawEmailReply): Promise<void> {
     return
   }
 
+  const previousDisposition = reply.disposition
   const fallbackSummary = createExtractedSummary(plainBody)
   const summary = classification.summary || fallbackSummary.summary
   const snippet = classification.snippet ?? reply.snippet ?? fallbackSummary.snippet
@@ -188,6 +195,55 @@ async function classifyIfNeeded(reply: RawEmailReply): Promise<void> {
   reply.classifiedAt = new Date()
   reply.snippet = snippet
   reply.bodyPlain = reply.bodyPlain ?? plainBody
+
+  if (isSuppressingDisposition(classification.disposition) || isSuppressingDisposition(previousDisposition)) {
+    await syncReplySuppression(reply.id)
+  }
+
+  if (previousDisposition === ReplyDisposition.NO_RESPONSE) {
+    triggerAlertEvent({
+      userId: reply.userId,
+      event: "REPLY_RECEIVED",
+      campaignId: reply.campaignId,
+      disposition: classification.disposition,
+      referenceId: reply.id,
+    })
+  }
+}
+
+const DISPOSITION_BY_LABEL = Object.fromEntries(
+  Object.entries(DISPOSITION_LABEL_MAP).map(([disposition, label]) => [label, disposition as ReplyDisposition]),
+) as Record<ReplyRecord["disposition"], ReplyDisposition>
+
+/**
+ * Manually overrides a reply's disposition. Suppression caused by an earlier UNSUB/BOUNCED label
+ * is re-evaluated so a corrected reply no longer blocks the lead.
+ */
+export async function reclassifyReply(
+  userId: string,
+  replyId: string,
+  label: ReplyRecord["disposition"],
+): Promise<boolean> {
+  const disposition = DISPOSITION_BY_LABEL[label]
+  if (!disposition) {
+    return false
+  }
+
+  const updated = await prisma.emailReply.updateMany({
+    where: { id: replyId, userId },
+    data: {
+      disposition,
+      classificationModel: "manual",
+      classificationConfidence: 1,
+      classifiedAt: new Date(),
+    },
+  })
+  if (updated.count === 0) {
+    return false
+  }
+
+  await syncReplySuppression(replyId)
+  return true
 }
 
 function getHeaderValue(headers: gmail_v1.Schema$MessagePartHeader[] | undefined, name: string): string | null {
@@ -262,6 +318,16 @@ function extractMessageBodies(payload: gmail_v1.Schema$MessagePart | undefined |
   return result
 }
 
+/**
+ * Returns the Message-IDs a reply points at, In-Reply-To first and then References from
+ * the most recent ancestor backwards.
+ */
+function extractReferencedMessageIds(headers: gmail_v1.Schema$MessagePartHeader[] | undefined): string[] {
+  const inReplyTo = getHeaderValue(headers, "In-Reply-To")?.match(/<[^>]+>/g) ?? []
+  const references = (getHeaderValue(headers, "References")?.match(/<[^>]+>/g) ?? []).reverse()
+  return Array.from(new Set([...inReplyTo, ...references]))
+}
+
 function parseInternalDate(internalDate: string | null | undefined): Date {
   if (!internalDate) {
     return new Date()
@@ -273,18 +339,155 @@ function parseInternalDate(internalDate: string | null | undefined): Date {
   return new Date()
 }
 
-async function syncRepliesForUser(userId: string): Promise<void> {
-  const gmailAccount = await prisma.gmailAccount.findUnique({ where: { userId } })
-  if (!gmailAccount) {
-    return
+const HISTORY_PAGE_LIMIT = 10
+const HISTORY_EXCLUDED_LABELS = new Set(["SENT", "DRAFT", "SPAM", "TRASH", "CATEGORY_SOCIAL", "CATEGORY_PROMOTIONS"])
+
+type ReplyCandidates = {
+  mode: "history" | "full"
+  messageIds: string[]
+  historyId: string | null
+}
+
+export type ReplySyncResult = {
+  mode: ReplyCandidates["mode"]
+  created: number
+  historyId: string | null
+}
+
+function isHistoryExpiredError(error: unknown): boolean {
+  const status = (error as { code?: unknown; response?: { status?: unknown } })?.code ??
+    (error as { response?: { status?: unknown } })?.response?.status
+  return status === 404 || status === "404"
+}
+
+function isNewerHistoryId(candidate: string | null | undefined, current: string | null | undefined): boolean {
+  if (!candidate) return false
+  if (!current) return true
+  try {
+    return BigInt(candidate) > BigInt(current)
+  } catch {
+    return candidate !== current
+  }
+}
+
+/**
+ * Lists inbox messages added since the stored history id. Gmail only keeps history for
+ * about a week, so an expired id surfaces as a 404 and the caller falls back to a full list.
+ * When the page limit cuts the listing short, the cursor only advances to the last record
+ * read so the next sync picks up the remaining pages.
+ */
+async function listHistoryCandidates(gmail: gmail_v1.Gmail, startHistoryId: string): Promise<ReplyCandidates> {
+  const messageIds = new Set<string>()
+  let latestHistoryId: string | null = startHistoryId
+  let lastRecordId: string | null = startHistoryId
+  let pageToken: string | undefined
+
+  for (let page = 0; page < HISTORY_PAGE_LIMIT; page++) {
+    const response = await gmail.users.history.list({
+      userId: "me",
+      startHistoryId,
+      historyTypes: ["messageAdded"],
+      labelId: "INBOX",
+      pageToken,
+    })
+
+    for (const record of response.data.history ?? []) {
+      if (isNewerHistoryId(record.id, lastRecordId)) {
+        lastRecordId = record.id ?? lastRecordId
+      }
+      for (const added of record.messagesAdded ?? []) {
+        const message = added.message
+        const labels = message?.labelIds ?? []
+        if (!message?.id || labels.some((label) => HISTORY_EXCLUDED_LABELS.has(label))) {
+          continue
+        }
+        messageIds.add(message.id)
+      }
+    }
+
+    if (isNewerHistoryId(response.data.historyId, latestHistoryId)) {
+      latestHistoryId = response.data.historyId ?? latestHistoryId
+    }
+    pageToken = response.data.nextPageToken ?? undefined
+    if (!pageToken) break
+  }
+
+  if (pageToken) {
+    // The mailbox's current id would skip the unread pages for good.
+    return { mode: "history", messageIds: Array.from(messageIds), historyId: lastRecordId }
+  }
+  return { mode: "history", messageIds: Array.from(messageIds), historyId: latestHistoryId }
+}
+
+async function listRecentInboxCandidates(gmail: gmail_v1.Gmail, emailAddress: string): Promise<ReplyCandidates> {
+  // Read the mailbox history id before listing so nothing that arrives mid-sync is skipped next time.
+  const profile = await gmail.users.getProfile({ userId: "me" })
+
+  const queryParts = [
+    "in:inbox",
+    `newer_than:${REPLY_SYNC_LOOKBACK_DAYS}d`,
+    "-from:me",
+    `-from:${emailAddress}`,
+    "-category:social",
+    "-category:promotions",
+  ]
+
+  const listResponse = await gmail.users.messages.list({
+    userId: "me",
+    q: queryParts.join(" "),
+    labelIds: ["INBOX"],
+    maxResults: REPLY_SYNC_MAX_RESULTS,
+  })
+
+  return {
+    mode: "full",
+    messageIds: (listResponse.data.messages ?? []).map((meta) => meta.id).filter((id): id is string => Boolean(id)),
+    historyId: profile.data.historyId ?? null,
   }
+}
+
+type SyncAccount = Pick<GmailAccount, "id" | "userId" | "emailAddress">
+
+/**
+ * Pulls new replies for every Gmail account the user has connected, one mailbox at a time.
+ * SMTP senders have no mailbox API to read from and are skipped.
+ * Returns null when none of the mailboxes could be synced.
+ */
+export async function syncRepliesForUser(userId: string): Promise<ReplySyncResult | null> {
+  const accounts = await prisma.gmailAccount.findMany({ where: { userId }, orderBy: { createdAt: "asc" } })
+  const ownAddresses = accounts.map((account) => account.emailAddress)
+
+  const results: ReplySyncResult[] = []
+  for (const gmailAccount of accounts.filter((account) => account.transport === "gmail")) {
+    const result = await syncRepliesForAccount(gmailAccount, ownAddresses)
+    if (result) results.push(result)
+  }
+  if (results.length === 0) {
+    return null
+  }
+
+  return {
+    mode: results.some((result) => result.mode === "full") ? "full" : "history",
+    created: results.reduce((total, result) => total + result.created, 0),
+    historyId: results[results.length - 1].historyId,
+  }
+}
 
+/**
+ * Pulls new replies for one Gmail account. After the first run only the mailbox history
+ * since `GmailAccount.historyId` is read, so each sync costs a handful of API calls.
+ * `ownAddresses` lists the user's other mailboxes so mail between them is never taken for a reply.
+ */
+export async function syncRepliesForAccount(
+  gmailAccount: GmailAccount,
+  ownAddresses: string[] = [gmailAccount.emailAddress],
+): Promise<ReplySyncResult | null> {
   let refreshedAccount
   try {
     refreshedAccount = await ensureFreshGmailToken(gmailAccount)
   } catch (error) {
     console.error("Failed to refresh Gmail token for reply sync", error)
-    return
+    return null
   }
 
   let authClient
@@ -292,41 +495,67 @@ async function syncRepliesForUser(userId: string): Promise<void> {
     authClient = await createAuthorizedGmailClient(refreshedAccount.accessToken, refreshedAccount.refreshToken)
   } catch (error) {
     console.error("Failed to create Gmail client for reply sync", error)
-    return
+    return null
   }
 
   const gmail = google.gmail({ version: "v1", auth: authClient })
-  let messageMetas: gmail_v1.Schema$Message[] = []
-
-  const queryParts = [
-    "in:inbox",
-    `newer_than:${REPLY_SYNC_LOOKBACK_DAYS}d`,
-    "-from:me",
-    `-from:${refreshedAccount.emailAddress}`,
-    "-category:social",
-    "-category:promotions",
-  ]
 
+  let candidates: ReplyCandidates
   try {
-    const listResponse = await gmail.users.messages.list({
-      userId: "me",
-      q: queryParts.join(" "),
-      labelIds: ["INBOX"],
-      maxResults: REPLY_SYNC_MAX_RESULTS,
-    })
-    messageMetas = listResponse.data.messages ?? []
+    candidates = refreshedAccount.historyId
+      ? await listHistoryCandidates(gmail, refreshedAccount.historyId).catch((error: unknown) => {
+          if (!isHistoryExpiredError(error)) throw error
+          console.warn(`Gmail history ${refreshedAccount.historyId} expired for ${refreshedAccount.emailAddress}, running a full sync`)
+          return listRecentInboxCandidates(gmail, refreshedAccount.emailAddress)
+        })
+      : await listRecentInboxCandidates(gmail, refreshedAccount.emailAddress)
   } catch (error) {
     console.error("Failed to list Gmail messages during reply sync", error)
-    return
+    return null
   }
 
-  if (messageMetas.length === 0) {
-    return
+  let createdIds: string[]
+  try {
+    createdIds = await ingestReplyMessages(gmail, refreshedAccount, ownAddresses, candidates.messageIds)
+  } catch (error) {
+    // Keep the old history id so the next run retries the same window.
+    console.error("Failed to persist Gmail replies", error)
+    return null
   }
 
-  const messageIds = messageMetas.map((meta) => meta.id).filter((id): id is string => Boolean(id))
+  if (isNewerHistoryId(candidates.historyId, refreshedAccount.historyId)) {
+    await prisma.gmailAccount.update({
+      where: { id: refreshedAccount.id },
+      data: { historyId: candidates.historyId },
+    })
+  }
+
+  if (createdIds.length > 0) {
+    await classifyNewReplies(gmailAccount.userId, createdIds)
+  }
+
+  return {
+    mode: candidates.mode,
+    created: createdIds.length,
+    historyId: candidates.historyId ?? refreshedAccount.historyId,
+  }
+}
+
+/**
+ * Fetches the given messages, keeps the ones sent by known leads and stores them as replies.
+ * Returns the Gmail ids of the replies that were created.
+ */
+async function ingestReplyMessages(
+  gmail: gmail_v1.Gmail,
+  account: SyncAccount,
+  ownAddresses: string[],
+  messageIds: string[],
+): Promise<string[]> {
+  const { userId } = account
+  const ownEmails = new Set([account.emailAddress, ...ownAddresses].map((address) => address.toLowerCase()))
+
   if (messageIds.length === 0) {
-    return
+    return []
   }
 
   const existingReplies = await prisma.emailReply.findMany({
@@ -342,7 +571,7 @@ async function syncRepliesForUser(userId: string): Promise<void> {
   const pendingIds = messageIds.filter((id) => !existingIds.has(id))
 
   if (pendingIds.length === 0) {
-    return
+    return []
   }
 
   const detailedMessages: gmail_v1.Schema$Message[] = []
@@ -371,130 +600,310 @@ async function syncRepliesForUser(userId: string): Promise<void> {
   }
 
   if (detailedMessages.length === 0) {
-    return
+    return []
+  }
+
+  // Delivery status notifications come from the mailer daemon, not the lead, so they are
+  // applied to the bounced send job instead of going through reply matching.
+  const bounceIds = new Set<string>()
+  for (const message of detailedMessages) {
+    if (message.id && (await handleDeliveryReport(gmail, account, message))) {
+      bounceIds.add(message.id)
+    }
   }
 
-  const emailTuples = detailedMessages
+  const parsedMessages = detailedMessages
+    .filter((message) => !message.id || !bounceIds.has(message.id))
     .map((message) => {
-      const email = extractEmailAddress(getHeaderValue(message.payload?.headers, "From"))
-      if (!email) return null
-      const trimmed = email.trim()
-      if (!trimmed) return null
+      const headers = message.payload?.headers
+      const fromEmail = extractEmailAddress(getHeaderValue(headers, "From"))?.trim()
+      if (!message.id || !fromEmail || ownEmails.has(fromEmail.toLowerCase())) {
+        return null
+      }
       return {
-        original: trimmed,
-        normalized: trimmed.toLowerCase(),
+        message,
+        gmailMessageId: message.id,
+        fromEmail,
+        threadId: message.threadId ?? null,
+        receivedAt: parseInternalDate(message.internalDate),
+        referencedIds: extractReferencedMessageIds(headers),
       }
     })
-    .filter((tuple): tuple is { original: string; normalized: string } => Boolean(tuple))
+    .filter((parsed): parsed is NonNullable<typeof parsed> => Boolean(parsed))
 
-  if (emailTuples.length === 0) {
-    return
+  if (parsedMessages.length === 0) {
+    return []
   }
 
-  const queryEmails = Array.from(new Set(emailTuples.flatMap((tuple) => [tuple.original, tuple.normalized])))
+  const threadIds = Array.from(new Set(parsedMessages.map((parsed) => parsed.threadId).filter((id): id is string => Boolean(id))))
+  const referencedIds = Array.from(new Set(parsedMessages.flatMap((parsed) => parsed.referencedIds)))
+  const senderEmails = Array.from(
+    new Set(parsedMessages.flatMap((parsed) => [parsed.fromEmail, parsed.fromEmail.toLowerCase()])),
+  )
 
-  const leads = await prisma.lead.findMany({
-    where: {
-      userId,
-      email: { in: queryEmails },
-    },
-    select: {
-      id: true,
-      email: true,
-      campaignId: true,
-    },
+  const sendJobSelect = {
+    id: true,
+    leadEmail: true,
+    campaignId: true,
+    sentAt: true,
+    gmailThreadId: true,
+    rfcMessageId: true,
+  } satisfies Prisma.EmailSendJobSelect
+
+  const [threadJobs, senderJobs] = await Promise.all([
+    threadIds.length > 0 || referencedIds.length > 0
+      ? prisma.emailSendJob.findMany({
+          where: {
+            userId,
+            gmailAccountId: account.id,
+            status: { in: ["SENT", "BOUNCED"] },
+            OR: [
+              ...(threadIds.length > 0 ? [{ gmailThreadId: { in: threadIds } }] : []),
+              ...(referencedIds.length > 0 ? [{ rfcMessageId: { in: referencedIds } }] : []),
+            ],
+          },
+          orderBy: { sentAt: "desc" },
+          select: sendJobSelect,
+        })
+      : Promise.resolve([]),
+    prisma.emailSendJob.findMany({
+      where: {
+        userId,
+        leadEmail: { in: senderEmails },
+        status: "SENT",
+      },
+      orderBy: {
+        sentAt: "desc",
+      },
+      select: sendJobSelect,
+    }),
+  ])
+
+  type MatchedJob = (typeof senderJobs)[number]
+
+  const jobsByRfcId = new Map<string, MatchedJob>()
+  const jobsByThread = new Map<string, MatchedJob[]>()
+  for (const job of threadJobs) {
+    if (job.rfcMessageId) {
+      jobsByRfcId.set(job.rfcMessageId, job)
+    }
+    if (job.gmailThreadId) {
+      jobsByThread.set(job.gmailThreadId, [...(jobsByThread.get(job.gmailThreadId) ?? []), job])
+    }
+  }
+
+  const jobsBySender = new Map<string, MatchedJob>()
+  for (const job of senderJobs) {
+    const key = job.leadEmail.toLowerCase()
+    if (!jobsBySender.has(key)) {
+      jobsBySender.set(key, job)
+    }
+  }
+
+  /**
+   * Thread evidence wins over the sender address: In-Reply-To names the exact message being
+   * answered, References covers clients that drop it, and the Gmail thread picks the latest
+   * email sent in that conversation before the reply arrived.
+   */
+  const matchThreadJob = (parsed: (typeof parsedMessages)[number]): MatchedJob | null => {
+    for (const id of parsed.referencedIds) {
+      const job = jobsByRfcId.get(id)
+      if (job) return job
+    }
+    if (parsed.threadId) {
+      const candidates = jobsByThread.get(parsed.threadId) ?? []
+      return candidates.find((job) => !job.sentAt || job.sentAt <= parsed.receivedAt) ?? candidates[0] ?? null
+    }
+    return null
+  }
+
+  const matches = parsedMessages.map((parsed) => {
+    const threadJob = matchThreadJob(parsed)
+    return {
+      parsed,
+      job: threadJob ?? jobsBySender.get(parsed.fromEmail.toLowerCase()) ?? null,
+      matchedByThread: Boolean(threadJob),
+    }
   })
-  const leadMap = new Map(leads.map((lead) => [lead.email.toLowerCase(), lead]))
 
-  const sendJobs = await prisma.emailSendJob.findMany({
+  const leadEmails = Array.from(
+    new Set(
+      matches.flatMap(({ parsed, job }) => [
+        parsed.fromEmail,
+        parsed.fromEmail.toLowerCase(),
+        ...(job ? [job.leadEmail, job.leadEmail.toLowerCase()] : []),
+      ]),
+    ),
+  )
+
+  const leads = await prisma.lead.findMany({
     where: {
       userId,
-      leadEmail: { in: queryEmails },
-      status: "SENT",
-    },
-    orderBy: {
-      sentAt: "desc",
+      email: { in: leadEmails },
     },
     select: {
       id: true,
-      leadEmail: true,
+      email: true,
       campaignId: true,
     },
   })
 
-  const jobMap = new Map<string, (typeof sendJobs)[number]>()
-  for (const job of sendJobs) {
-    const key = job.leadEmail.toLowerCase()
-    if (!jobMap.has(key)) {
-      jobMap.set(key, job)
+  type MatchedLead = (typeof leads)[number]
+  const leadsByEmail = new Map<string, MatchedLead>()
+  const leadsByCampaignEmail = new Map<string, MatchedLead>()
+  for (const lead of leads) {
+    const email = lead.email.toLowerCase()
+    if (!leadsByEmail.has(email)) {
+      leadsByEmail.set(email, lead)
     }
+    leadsByCampaignEmail.set(`${lead.campaignId}:${email}`, lead)
   }
 
   const createPayloads: Prisma.EmailReplyCreateManyInput[] = []
 
-  for (const message of detailedMessages) {
-    const gmailMessageId = message.id
-    if (!gmailMessageId || existingIds.has(gmailMessageId)) {
-      continue
-    }
-
-    const fromEmail = extractEmailAddress(getHeaderValue(message.payload?.headers, "From"))
-    if (!fromEmail) {
+  for (const { parsed, job, matchedByThread } of matches) {
+    if (existingIds.has(parsed.gmailMessageId)) {
       continue
     }
 
-    const normalizedEmail = fromEmail.toLowerCase()
-    const associatedLead = leadMap.get(normalizedEmail) ?? null
-    const associatedJob = jobMap.get(normalizedEmail) ?? null
+    // A thread match means the reply belongs to the job's lead even when a colleague or alias
+    // answered; without one the sender must be a known lead.
+    const leadEmail = matchedByThread && job ? job.leadEmail.toLowerCase() : parsed.fromEmail.toLowerCase()
+    const associatedLead =
+      (job?.campaignId ? leadsByCampaignEmail.get(`${job.campaignId}:${leadEmail}`) : undefined) ??
+      leadsByEmail.get(leadEmail) ??
+      null
 
-    if (!associatedLead && !associatedJob) {
+    if (!associatedLead && !job) {
       continue
     }
 
+    const { message } = parsed
     const subject = getHeaderValue(message.payload?.headers, "Subject")
     const bodies = extractMessageBodies(message.payload)
-    const receivedAt = parseInternalDate(message.internalDate)
 
     createPayloads.push({
       userId,
-      leadEmail: fromEmail,
+      gmailAccountId: account.id,
+      leadEmail: parsed.fromEmail,
       subject: subject ?? null,
       snippet: message.snippet ?? bodies.plain ?? bodies.html ?? null,
       bodyPlain: bodies.plain,
       bodyHtml: bodies.html,
-      receivedAt,
-      gmailMessageId,
-      gmailThreadId: message.threadId ?? null,
+      receivedAt: parsed.receivedAt,
+      gmailMessageId: parsed.gmailMessageId,
+      gmailThreadId: parsed.threadId,
+      rfcMessageId: getHeaderValue(message.payload?.headers, "Message-ID"),
       leadId: associatedLead?.id ?? null,
-      campaignId: associatedLead?.campaignId ?? associatedJob?.campaignId ?? null,
-      emailSendJobId: associatedJob?.id ?? null,
+      campaignId: job?.campaignId ?? associatedLead?.campaignId ?? null,
+      emailSendJobId: job?.id ?? null,
     })
   }
 
   if (createPayloads.length === 0) {
-    return
+    return []
   }
 
-  try {
-    await prisma.emailReply.createMany({
-      data: createPayloads,
-      skipDuplicates: true,
-    })
-  } catch (error) {
-    console.error("Failed to persist Gmail replies", error)
+  await prisma.emailReply.createMany({
+    data: createPayloads,
+    skipDuplicates: true,
+  })
+
+  return createPayloads.map((payload) => payload.gmailMessageId).filter((id): id is string => Boolean(id))
+}
+
+async function readPartText(
+  gmail: gmail_v1.Gmail,
+  messageId: string,
+  part: gmail_v1.Schema$MessagePart | null,
+): Promise<string | null> {
+  if (!part?.body) {
+    return null
   }
+  if (part.body.data || !part.body.attachmentId) {
+    return decodePartBody(part.body)
+  }
+  const attachment = await gmail.users.messages.attachments.get({
+    userId: "me",
+    messageId,
+    id: part.body.attachmentId,
+  })
+  return decodePartBody(attachment.data)
 }
 
-export async function fetchRepliesForUser(userId: string): Promise<ReplyRecord[]> {
-  // Kick off sync in the background so the page is not blocked by Gmail/network latency.
-  syncRepliesForUser(userId).catch((error) => {
-    console.error("Failed to sync Gmail replies", error)
+/**
+ * Records a bounce when the message is a failed delivery status notification. Returns true
+ * when the message was handled here and should be kept out of reply matching.
+ */
+async function handleDeliveryReport(
+  gmail: gmail_v1.Gmail,
+  account: SyncAccount,
+  message: gmail_v1.Schema$Message,
+): Promise<boolean> {
+  const reportParts = findDeliveryReportParts(message.payload)
+  if (!message.id || !reportParts) {
+    return false
+  }
+
+  // Read failures propagate so the sync keeps its history id and retries this notice.
+  const statusText = await readPartText(gmail, message.id, reportParts.statusPart)
+  const originalHeaders = await readPartText(gmail, message.id, reportParts.originalPart)
+
+  // Delay and relay notices carry no failure worth recording.
+  const report = statusText ? parseDeliveryStatus(statusText, originalHeaders) : null
+  if (!report) {
+    return true
+  }
+
+  const headers = message.payload?.headers
+  const bodies = extractMessageBodies(message.payload)
+  await recordBounceNotice({
+    userId: account.userId,
+    gmailAccountId: account.id,
+    report: {
+      ...report,
+      originalMessageId: findOriginalMessageId(reportParts.originalPart) ?? report.originalMessageId,
+    },
+    gmailMessageId: message.id,
+    gmailThreadId: message.threadId ?? null,
+    rfcMessageId: getHeaderValue(headers, "Message-ID"),
+    subject: getHeaderValue(headers, "Subject"),
+    snippet: message.snippet ?? null,
+    bodyPlain: bodies.plain,
+    receivedAt: parseInternalDate(message.internalDate),
   })
+  return true
+}
 
+/**
+ * Classifies freshly synced replies right away so alert rules and auto-suppression react
+ * without waiting for someone to open the replies page.
+ */
+async function classifyNewReplies(userId: string, gmailMessageIds: string[]): Promise<void> {
+  const replies = await prisma.emailReply.findMany({
+    where: { userId, gmailMessageId: { in: gmailMessageIds } },
+    include: {
+      emailSendJob: { include: { campaign: true } },
+      lead: true,
+      campaign: true,
+    },
+  })
+
+  const results = await Promise.allSettled(replies.map((reply) => classifyIfNeeded(reply)))
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      console.error("Failed to classify synced reply", result.reason)
+    }
+  })
+}
+
+export async function fetchRepliesForUser(userId: string): Promise<ReplyRecord[]> {
   const replies = await prisma.emailReply.findMany({
     where: { userId },
     select: {
       id: true,
+      userId: true,
+      campaignId: true,
       leadEmail: true,
       subject: true,
       snippet: true,
@@ -548,7 +957,7 @@ export async function fetchRepliesForUser(userId: string): Promise<ReplyRecord[]
 }
 
 export function triggerReplySync(userId: string): void {
-  void syncRepliesForUser(userId).catch((error) => {
+  void enqueueReplySync({ userId, reason: "manual" }).catch((error) => {
     console.error("Failed to trigger reply sync", error)
   })
 }
@@ -0,0 +1,120 @@
+import { google } from "googleapis"
+import type { GmailAccount } from "@prisma/client"
+
+import { prisma } from "@/lib/prisma"
+import { ensureFreshGmailToken, createAuthorizedGmailClient } from "@/lib/google-gmail"
+
+const WATCH_RENEWAL_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export type GmailPushNotification = {
+  emailAddress: string
+  historyId: string
+}
+
+type PubSubPushEnvelope = {
+  message?: {
+    data?: string
+    messageId?: string
+  }
+  subscription?: string
+}
+
+/**
+ * Decodes the Pub/Sub push envelope Gmail sends for `users.watch` subscriptions. The
+ * message data is base64 JSON of the form `{ emailAddress, historyId }`.
+ */
+export function parseGmailPushNotification(body: unknown): GmailPushNotification | null {
+  const data = (body as PubSubPushEnvelope | null)?.message?.data
+  if (!data) {
+    return null
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(data, "base64").toString("utf8")) as {
+      emailAddress?: unknown
+      historyId?: unknown
+    }
+    if (typeof decoded.emailAddress !== "string" || !decoded.emailAddress.includes("@")) {
+      return null
+    }
+    const historyId = typeof decoded.historyId === "number" ? String(decoded.historyId) : decoded.historyId
+    if (typeof historyId !== "string" || !historyId) {
+      return null
+    }
+    return { emailAddress: decoded.emailAddress.toLowerCase(), historyId }
+  } catch {
+    return null
+  }
+}
+
+export function buildGmailPushEnvelope(notification: GmailPushNotification): PubSubPushEnvelope {
+  return {
+    message: {
+      data: Buffer.from(JSON.stringify(notification), "utf8").toString("base64"),
+      messageId: `local-${Date.now()}`,
+    },
+    subscription: "projects/local/subscriptions/gmail-push",
+  }
+}
+
+/**
+ * Push endpoints are public, so Pub/Sub is configured to call them with a shared token in
+ * the query string. Without a configured token only non-production environments accept pushes.
+ */
+export function isValidPushToken(token: string | null): boolean {
+  const expected = process.env.GMAIL_PUSH_VERIFICATION_TOKEN
+  if (!expected) {
+    return process.env.NODE_ENV !== "production"
+  }
+  return token === expected
+}
+
+async function startGmailWatch(account: GmailAccount, topicName: string): Promise<void> {
+  const refreshed = await ensureFreshGmailToken(account)
+  const authClient = await createAuthorizedGmailClient(refreshed.accessToken, refreshed.refreshToken)
+  const gmail = google.gmail({ version: "v1", auth: authClient })
+
+  const response = await gmail.users.watch({
+    userId: "me",
+    requestBody: {
+      topicName,
+      labelIds: ["INBOX"],
+      labelFilterBehavior: "include",
+    },
+  })
+
+  const expiration = Number(response.data.expiration)
+  await prisma.gmailAccount.update({
+    where: { id: account.id },
+    data: { watchExpiresAt: Number.isFinite(expiration) ? new Date(expiration) : null },
+  })
+}
+
+/**
+ * Gmail watches lapse after seven days; renew any that expire within the next day.
+ * Does nothing unless `GMAIL_PUBSUB_TOPIC` is configured.
+ */
+export async function renewGmailWatches(): Promise<number> {
+  const topicName = process.env.GMAIL_PUBSUB_TOPIC
+  if (!topicName) {
+    return 0
+  }
+
+  const accounts = await prisma.gmailAccount.findMany({
+    where: {
+      transport: "gmail",
+      OR: [{ watchExpiresAt: null }, { watchExpiresAt: { lt: new Date(Date.now() + WATCH_RENEWAL_WINDOW_MS) } }],
+    },
+  })
+
+  let renewed = 0
+  for (const account of accounts) {
+    try {
+      await startGmailWatch(account, topicName)
+      renewed += 1
+    } catch (error) {
+      console.error(`Failed to renew Gmail watch for ${account.emailAddress}:`, error)
+    }
+  }
+  return renewed
+}
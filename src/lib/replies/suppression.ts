@@ -0,0 +1,113 @@
+import { ReplyDisposition } from "@prisma/client"
+
+import { prisma } from "@/lib/prisma"
+import { enqueueEmailSendJob } from "@/lib/queue"
+import { addSuppressionEntries, normalizeSuppressionValue, removeSuppressionEntry } from "@/lib/suppression"
+
+const SUPPRESSION_REASONS: Partial<Record<ReplyDisposition, string>> = {
+  [ReplyDisposition.UNSUB]: "Unsubscribed via reply",
+  [ReplyDisposition.BOUNCED]: "Email bounced",
+}
+
+export function isSuppressingDisposition(disposition: ReplyDisposition): boolean {
+  return Boolean(SUPPRESSION_REASONS[disposition])
+}
+
+type ReplyForSuppression = {
+  id: string
+  userId: string
+  leadEmail: string
+  disposition: ReplyDisposition
+  emailSendJob: { leadEmail: string } | null
+}
+
+async function applyReplySuppression(reply: ReplyForSuppression, reason: string): Promise<void> {
+  // Bounce notices come from the mailer daemon, so prefer the address we actually emailed.
+  const target = normalizeSuppressionValue(reply.emailSendJob?.leadEmail ?? reply.leadEmail)
+  if (!target || target.type !== "EMAIL") {
+    return
+  }
+
+  const existing = await prisma.suppressionEntry.findFirst({ where: { replyId: reply.id } })
+  if (existing) {
+    await prisma.suppressionEntry.update({ where: { id: existing.id }, data: { reason } })
+  } else {
+    await addSuppressionEntries([{ ...target, reason, replyId: reply.id }], {
+      userId: reply.userId,
+      source: "reply",
+    })
+  }
+
+  const cancelled = await prisma.emailSendJob.updateMany({
+    where: {
+      userId: reply.userId,
+      leadEmail: { equals: target.value, mode: "insensitive" },
+      status: { in: ["PENDING", "QUEUED"] },
+    },
+    data: {
+      status: "CANCELLED",
+      error: reason,
+      cancelledByReplyId: reply.id,
+    },
+  })
+
+  if (cancelled.count > 0) {
+    console.log(`Cancelled ${cancelled.count} pending email(s) to ${target.value}: ${reason}`)
+  }
+}
+
+async function releaseReplySuppression(reply: ReplyForSuppression): Promise<void> {
+  const entries = await prisma.suppressionEntry.findMany({ where: { replyId: reply.id } })
+  for (const entry of entries) {
+    await removeSuppressionEntry(entry)
+  }
+
+  const jobs = await prisma.emailSendJob.findMany({
+    where: { cancelledByReplyId: reply.id, status: "CANCELLED" },
+    select: { id: true, userId: true, gmailAccountId: true, scheduledAt: true },
+  })
+  if (jobs.length === 0) {
+    return
+  }
+
+  await prisma.emailSendJob.updateMany({
+    where: { id: { in: jobs.map((job) => job.id) } },
+    data: { status: "QUEUED", error: null, cancelledByReplyId: null },
+  })
+
+  await Promise.all(
+    jobs.map((job) =>
+      enqueueEmailSendJob(
+        { jobId: job.id, userId: job.userId, gmailAccountId: job.gmailAccountId },
+        { delay: Math.max(0, (job.scheduledAt?.getTime() ?? 0) - Date.now()) },
+      ),
+    ),
+  )
+}
+
+/**
+ * Brings suppression state in line with the reply's current disposition. UNSUB and BOUNCED replies
+ * suppress the lead and cancel pending sends; any other disposition reverts what this reply caused.
+ */
+export async function syncReplySuppression(replyId: string): Promise<void> {
+  const reply = await prisma.emailReply.findUnique({
+    where: { id: replyId },
+    select: {
+      id: true,
+      userId: true,
+      leadEmail: true,
+      disposition: true,
+      emailSendJob: { select: { leadEmail: true } },
+    },
+  })
+  if (!reply) {
+    return
+  }
+
+  const reason = SUPPRESSION_REASONS[reply.disposition]
+  if (reason) {
+    await applyReplySuppression(reply, reason)
+  } else {
+    await releaseReplySuppression(reply)
+  }
+}
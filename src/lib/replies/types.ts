@@ -14,7 +14,7 @@ export type ReplyRecord = {
   subject: string | null
   confidence: number | null
   classificationModel: string | null
-  classificationSource: "openai" | "heuristic" | null
+  classificationSource: "openai" | "heuristic" | "manual" | null
   gmailMessageId: string | null
   gmailThreadId: string | null
 }
@@ -0,0 +1,97 @@
+import { Worker, Job } from "bullmq"
+
+import { prisma } from "@/lib/prisma"
+import { enqueueReplySync, redis, replySyncQueue, type ReplySyncJobData } from "@/lib/queue"
+
+import { syncRepliesForAccount, syncRepliesForUser } from "./index"
+import { renewGmailWatches } from "./push"
+
+const SWEEP_JOB_NAME = "reply-sync-sweep"
+const DEFAULT_SYNC_INTERVAL_MINUTES = 5
+
+const SYNC_INTERVAL_MINUTES = (() => {
+  const parsed = Number(process.env.REPLY_SYNC_INTERVAL_MINUTES ?? "")
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : DEFAULT_SYNC_INTERVAL_MINUTES
+})()
+
+export class ReplySyncWorker {
+  private worker: Worker
+
+  constructor() {
+    this.worker = new Worker(replySyncQueue.name, this.processJob.bind(this), {
+      connection: redis,
+      concurrency: Number(process.env.REPLY_SYNC_CONCURRENCY || "2"),
+    })
+
+    this.worker.on("failed", (job, err) => {
+      console.error(`📭 Reply sync job ${job?.id} failed:`, err?.message)
+    })
+  }
+
+  private async processJob(job: Job<ReplySyncJobData>) {
+    if (job.name === SWEEP_JOB_NAME) {
+      await this.sweep()
+      return
+    }
+
+    const { userId, gmailAccountId, reason } = job.data
+    if (!userId) {
+      return
+    }
+
+    const result = gmailAccountId ? await this.syncAccount(userId, gmailAccountId) : await syncRepliesForUser(userId)
+    if (result && result.created > 0) {
+      console.log(`📬 Synced ${result.created} repl${result.created === 1 ? "y" : "ies"} for user ${userId} (${result.mode}, ${reason})`)
+    }
+  }
+
+  private async syncAccount(userId: string, gmailAccountId: string) {
+    const accounts = await prisma.gmailAccount.findMany({ where: { userId } })
+    const account = accounts.find((candidate) => candidate.id === gmailAccountId)
+    if (!account || account.transport !== "gmail") {
+      return null
+    }
+    return syncRepliesForAccount(account, accounts.map((candidate) => candidate.emailAddress))
+  }
+
+  /**
+   * Fallback for missed or disabled push notifications: queue a sync for every connected
+   * account and keep the Gmail watches alive.
+   */
+  private async sweep() {
+    const renewed = await renewGmailWatches()
+    if (renewed > 0) {
+      console.log(`📡 Renewed ${renewed} Gmail watch(es)`)
+    }
+
+    const accounts = await prisma.gmailAccount.findMany({ where: { transport: "gmail" }, select: { id: true, userId: true } })
+    for (const account of accounts) {
+      await enqueueReplySync({ userId: account.userId, gmailAccountId: account.id, reason: "schedule" })
+    }
+  }
+
+  async schedule(): Promise<void> {
+    await replySyncQueue.add(SWEEP_JOB_NAME, { reason: "schedule" }, {
+      repeat: { every: SYNC_INTERVAL_MINUTES * 60 * 1000 },
+      jobId: SWEEP_JOB_NAME,
+    })
+  }
+
+  async close(): Promise<void> {
+    console.log("Closing reply sync worker...")
+    await this.worker.close()
+  }
+}
+
+let replySyncWorker: ReplySyncWorker | null = null
+
+export function startReplySyncWorker(): ReplySyncWorker {
+  if (!replySyncWorker) {
+    console.log("Starting reply sync worker...")
+    replySyncWorker = new ReplySyncWorker()
+    void replySyncWorker.schedule().catch((error: unknown) => {
+      console.error("Failed to schedule reply sync sweep:", error)
+    })
+  }
+  return replySyncWorker
+}
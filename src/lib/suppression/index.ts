@@ -0,0 +1,230 @@
+import type { SuppressionEntry as SuppressionEntryRecord, SuppressionType } from '@prisma/client'
+import * as XLSX from 'xlsx'
+
+import { prisma } from '@/lib/prisma'
+import { chunkArray, isValidEmail } from '@/lib/utils'
+import type { SuppressionEntry, SuppressionSource } from '@/types/suppression'
+
+const DOMAIN_REGEX = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/
+
+export type SuppressionCandidate = {
+  type: SuppressionType
+  value: string
+  reason?: string | null
+  replyId?: string | null
+}
+
+/**
+ * Turns user input into a suppression candidate. `@acme.com` and `acme.com` block the whole domain,
+ * anything with a local part blocks a single address.
+ */
+export function normalizeSuppressionValue(raw: string): Pick<SuppressionCandidate, 'type' | 'value'> | null {
+  const trimmed = raw.trim().toLowerCase().replace(/^mailto:/, '')
+  if (!trimmed) {
+    return null
+  }
+
+  if (trimmed.startsWith('@') || !trimmed.includes('@')) {
+    const domain = trimmed.replace(/^@/, '')
+    return DOMAIN_REGEX.test(domain) ? { type: 'DOMAIN', value: domain } : null
+  }
+
+  return isValidEmail(trimmed) ? { type: 'EMAIL', value: trimmed } : null
+}
+
+const getEmailDomain = (email: string) => email.split('@')[1] ?? ''
+
+export const toSuppressionEntry = (entry: SuppressionEntryRecord): SuppressionEntry => ({
+  id: entry.id,
+  type: entry.type,
+  value: entry.value,
+  reason: entry.reason,
+  source: entry.source,
+  scope: entry.userId ? 'user' : 'org',
+  replyId: entry.replyId,
+  createdAt: entry.createdAt.toISOString(),
+})
+
+/**
+ * Returns the subset of `emails` (lower-cased) blocked for this user, either by their own
+ * entries or by org-wide ones, and either as an address or through its domain.
+ */
+export async function getSuppressedEmails(userId: string, emails: string[]): Promise<Set<string>> {
+  const normalized = Array.from(new Set(emails.map((email) => email.trim().toLowerCase()).filter(Boolean)))
+  const suppressed = new Set<string>()
+  if (normalized.length === 0) {
+    return suppressed
+  }
+
+  for (const chunk of chunkArray(normalized, 500)) {
+    const domains = Array.from(new Set(chunk.map(getEmailDomain).filter(Boolean)))
+    const matches = await prisma.suppressionEntry.findMany({
+      where: {
+        OR: [{ userId }, { userId: null }],
+        AND: {
+          OR: [
+            { type: 'EMAIL', value: { in: chunk } },
+            { type: 'DOMAIN', value: { in: domains } },
+          ],
+        },
+      },
+      select: { type: true, value: true },
+    })
+
+    const blockedEmails = new Set(matches.filter((match) => match.type === 'EMAIL').map((match) => match.value))
+    const blockedDomains = new Set(matches.filter((match) => match.type === 'DOMAIN').map((match) => match.value))
+
+    chunk.forEach((email) => {
+      if (blockedEmails.has(email) || blockedDomains.has(getEmailDomain(email))) {
+        suppressed.add(email)
+      }
+    })
+  }
+
+  return suppressed
+}
+
+export async function isEmailSuppressed(userId: string, email: string): Promise<boolean> {
+  const suppressed = await getSuppressedEmails(userId, [email])
+  return suppressed.size > 0
+}
+
+/**
+ * Re-derives `Lead.isSuppressed` for every lead touched by the given entries. Runs after entries are
+ * added or removed so the flag always reflects what is left on the list.
+ */
+export async function refreshLeadSuppression(
+  scopeUserId: string | null,
+  entries: Array<Pick<SuppressionCandidate, 'type' | 'value'>>,
+): Promise<void> {
+  if (entries.length === 0) {
+    return
+  }
+
+  const emailValues = entries.filter((entry) => entry.type === 'EMAIL').map((entry) => entry.value)
+  const domainValues = entries.filter((entry) => entry.type === 'DOMAIN').map((entry) => entry.value)
+
+  const leads = await prisma.lead.findMany({
+    where: {
+      ...(scopeUserId ? { userId: scopeUserId } : {}),
+      OR: [
+        ...(emailValues.length ? [{ email: { in: emailValues, mode: 'insensitive' as const } }] : []),
+        ...domainValues.map((domain) => ({ email: { endsWith: `@${domain}`, mode: 'insensitive' as const } })),
+      ],
+    },
+    select: { id: true, userId: true, email: true, isSuppressed: true },
+  })
+
+  const leadsByUser = new Map<string, typeof leads>()
+  leads.forEach((lead) => {
+    leadsByUser.set(lead.userId, [...(leadsByUser.get(lead.userId) ?? []), lead])
+  })
+
+  for (const [userId, userLeads] of leadsByUser) {
+    const suppressed = await getSuppressedEmails(userId, userLeads.map((lead) => lead.email))
+    const toSuppress = userLeads.filter((lead) => !lead.isSuppressed && suppressed.has(lead.email.toLowerCase()))
+    const toRelease = userLeads.filter((lead) => lead.isSuppressed && !suppressed.has(lead.email.toLowerCase()))
+
+    if (toSuppress.length) {
+      await prisma.lead.updateMany({
+        where: { id: { in: toSuppress.map((lead) => lead.id) } },
+        data: { isSuppressed: true },
+      })
+    }
+    if (toRelease.length) {
+      await prisma.lead.updateMany({
+        where: { id: { in: toRelease.map((lead) => lead.id) } },
+        data: { isSuppressed: false },
+      })
+    }
+  }
+}
+
+/**
+ * Adds entries for a user (or org-wide when `userId` is null). Existing entries are left untouched.
+ */
+export async function addSuppressionEntries(
+  candidates: SuppressionCandidate[],
+  options: { userId: string | null; source: SuppressionSource; createdById?: string | null },
+): Promise<{ created: number; skipped: number }> {
+  const unique = new Map<string, SuppressionCandidate>()
+  candidates.forEach((candidate) => unique.set(`${candidate.type}:${candidate.value}`, candidate))
+  const entries = Array.from(unique.values())
+
+  if (entries.length === 0) {
+    return { created: 0, skipped: candidates.length }
+  }
+
+  const result = await prisma.suppressionEntry.createMany({
+    data: entries.map((entry) => ({
+      userId: options.userId,
+      type: entry.type,
+      value: entry.value,
+      reason: entry.reason?.trim().slice(0, 200) || null,
+      source: options.source,
+      createdById: options.createdById ?? null,
+      replyId: entry.replyId ?? null,
+    })),
+    skipDuplicates: true,
+  })
+
+  await refreshLeadSuppression(options.userId, entries)
+
+  return { created: result.count, skipped: candidates.length - result.count }
+}
+
+export async function removeSuppressionEntry(entry: SuppressionEntryRecord): Promise<void> {
+  await prisma.suppressionEntry.delete({ where: { id: entry.id } })
+  await refreshLeadSuppression(entry.userId, [entry])
+}
+
+/**
+ * Reads a suppression CSV. The first column holds the email or domain and an optional second
+ * column the reason; a header row is skipped automatically.
+ */
+export function parseSuppressionCsv(content: string): { candidates: SuppressionCandidate[]; invalid: string[] } {
+  const workbook = XLSX.read(content, { type: 'string', raw: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  const rows = sheet
+    ? XLSX.utils.sheet_to_json<(string | number | null)[]>(sheet, { header: 1, blankrows: false, defval: null })
+    : []
+
+  const candidates: SuppressionCandidate[] = []
+  const invalid: string[] = []
+
+  rows.forEach((row, index) => {
+    const rawValue = String(row[0] ?? '').trim()
+    if (!rawValue) {
+      return
+    }
+    const normalized = normalizeSuppressionValue(rawValue)
+    if (!normalized) {
+      if (index > 0) {
+        invalid.push(rawValue)
+      }
+      return
+    }
+    const reason = row[1] === null || row[1] === undefined ? null : String(row[1]).trim()
+    candidates.push({ ...normalized, reason })
+  })
+
+  return { candidates, invalid }
+}
+
+export function buildSuppressionCsv(entries: SuppressionEntry[]): string {
+  const escape = (value: string | null | undefined) => `"${(value ?? '').replace(/"/g, '""')}"`
+  const header = ['Value', 'Reason', 'Type', 'Scope', 'Source', 'Added At'].map(escape).join(',')
+  const rows = entries.map((entry) =>
+    [
+      entry.type === 'DOMAIN' ? `@${entry.value}` : entry.value,
+      entry.reason,
+      entry.type,
+      entry.scope,
+      entry.source,
+      entry.createdAt,
+    ]
+      .map(escape)
+      .join(','),
+  )
+  return [header, ...rows].join('\n')
+}
@@ -2,7 +2,8 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import crypto from 'crypto'
-import { ApolloLead } from '@/types/apollo'
+import type { ProviderLead } from '@/types/lead-provider'
+import { isDisposableEmailDomain } from '@/lib/email-verification/domains'
 
 export const LEAD_SHEET_COLUMNS = [
   'Email',
@@ -29,7 +30,7 @@ export function formatLocation(location: { city?: string; state?: string; countr
   return parts.join(', ')
 }
 
-export function generateLeadSummary(lead: ApolloLead): string {
+export function generateLeadSummary(lead: ProviderLead): string {
   const lines: string[] = []
 
   const name = `${lead.first_name || ''} ${lead.last_name || ''}`.trim() || 'This contact'
@@ -62,14 +63,6 @@ export function generateLeadSummary(lead: ApolloLead): string {
 
 const GENERIC_EMAIL_LOCALS = new Set(['example', 'test', 'testing', 'demo', 'sample', 'unknown', 'noemail'])
 const GENERIC_EMAIL_DOMAINS = new Set(['example.com', 'test.com'])
-const DISPOSABLE_EMAIL_DOMAINS = new Set([
-  'mailinator.com',
-  'tempmail.com',
-  '10minutemail.com',
-  'guerrillamail.com',
-  'fakemail.com'
-])
-
 export function sanitizeEmailForSheet(email?: string | null): string {
   if (!email) return ''
 
@@ -93,7 +86,7 @@ export function sanitizeEmailForSheet(email?: string | null): string {
     return ''
   }
 
-  if (DISPOSABLE_EMAIL_DOMAINS.has(domain) || domain.includes('mailinator')) {
+  if (isDisposableEmailDomain(domain)) {
     return ''
   }
 
@@ -122,7 +115,7 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 // Generate idempotency key for campaigns
-export function generateIdempotencyKey(campaignId: string, type: 'initial' | 'retry' = 'initial', suffix?: string): string {
+export function generateIdempotencyKey(campaignId: string, type: 'initial' | 'retry' | 'refresh' = 'initial', suffix?: string): string {
   const parts = [campaignId, type]
   if (suffix) {
     parts.push(suffix)
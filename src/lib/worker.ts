@@ -3,8 +3,8 @@ import { Worker, Job } from 'bullmq'
 import type { Lead, Prisma, JobStatus } from '@prisma/client'
 import { redis, LeadFetchJobData } from './queue'
 import { prisma } from './prisma'
-import { apollo, ApolloError } from './apollo/apollo'
-import { ApolloLead, ApolloSearchFilters, ApolloSearchResponse } from '@/types/apollo'
+import { createLeadProvider, type LeadProvider } from './lead-providers'
+import type { LeadSearchPage, LeadSearchQuery, ProviderLead } from '@/types/lead-provider'
 import { generateSmartLeadSummary } from './gemini'
 import { generateLeadSummary, SheetLeadRow, sanitizeEmailForSheet, chunkArray } from './utils'
 import {
@@ -17,6 +17,10 @@ import {
 import { createAuthorizedClient, getSpreadsheetInfo } from './google-sheet/google-sheet'
 import type { OAuth2Client } from 'google-auth-library'
 import { writeLeadsToSheet } from './google-sheet/google-sheet-writer'
+import { getSuppressedEmails } from './suppression'
+import { getRecentlyContactedEmails, linkCampaignLeadsToContacts, normalizeContactEmail } from './contacts'
+import { EmailVerifier } from './email-verification'
+import { triggerAlertEvent } from './alerts'
 
 const parsedPreparationConcurrency = Number(process.env.LEAD_PREPARATION_CONCURRENCY || '5')
 const LEAD_PREPARATION_CONCURRENCY = Number.isFinite(parsedPreparationConcurrency) && parsedPreparationConcurrency > 0
@@ -27,22 +31,20 @@ const LEAD_INSERT_BATCH_SIZE = Number.isFinite(parsedInsertBatchSize) && parsedI
   ? Math.floor(parsedInsertBatchSize)
   : 500
 
+type SearchPosition = {
+  page: number
+  cursor: string | null
+}
+
 type PreparedLead = {
   lookupKey: string
   dbData: Prisma.LeadCreateManyInput
   sheetRow: SheetLeadRow
 }
 
-const asNonEmptyString = (value: unknown): string | null => {
-  if (typeof value !== 'string') {
-    return null
-  }
-  const trimmed = value.trim()
-  return trimmed.length > 0 ? trimmed : null
-}
-
 export class LeadFetchWorker {
   private worker: Worker
+  private emailVerifier = new EmailVerifier()
 
   constructor() {
     this.worker = new Worker('lead-fetch', this.processJob.bind(this), {
@@ -65,19 +67,26 @@ export class LeadFetchWorker {
 
   private async processJob(job: Job<LeadFetchJobData>): Promise<void> {
     const { campaignId, jobId, userId, isRetry } = job.data
+    const isRefresh = job.data.mode === 'refresh'
     
-    console.log(`🚀 Starting lead fetch job ${jobId} for campaign ${campaignId}${isRetry ? ' (RETRY)' : ''}`)
+    console.log(`🚀 Starting lead fetch job ${jobId} for campaign ${campaignId}${isRetry ? ' (RETRY)' : ''}${isRefresh ? ' (REFRESH)' : ''}`)
 
-    // Test connection to Apollo API
+    // Test connection to the campaign's lead provider
+    const providerSettings = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { source: true, providerConfig: true },
+    })
+    let provider: LeadProvider
     try {
-      const connected = await apollo.checkConnection()
+      provider = createLeadProvider(providerSettings ?? { source: 'apollo', providerConfig: null })
+      const connected = await provider.checkConnection()
       if (!connected) {
-        throw new Error('Failed to connect to Apollo API')
+        throw new Error(`Failed to connect to ${provider.label}`)
       }
-      console.log('✅ Connected to Apollo API')
+      console.log(`✅ Connected to lead provider: ${provider.id}`)
     } catch (error) {
-      console.error('❌ Apollo API connection failed:', error)
-      throw new Error(`Apollo API connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      console.error('❌ Lead provider connection failed:', error)
+      throw new Error(`Lead provider connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
 
     // Acquire distributed lock to prevent concurrent execution
@@ -182,6 +191,14 @@ export class LeadFetchWorker {
         ? ['conserve', 'balanced']
         : ['balanced']
 
+      // Where each search mode stopped on the last successful run. Refresh runs resume there,
+      // so they reach people the provider added since instead of re-reading known pages.
+      const savedCursors = new Map(
+        (await prisma.campaignSearchCursor.findMany({ where: { campaignId } }))
+          .map(saved => [saved.searchMode, saved] as const)
+      )
+      const reachedCursors = new Map<string, SearchPosition>()
+
       for (const mode of modes) {
         const requestedPageSize = Math.max(1, Math.min(campaign.pageSize || 25, 100))
         const perPage = mode === 'conserve' ? Math.min(requestedPageSize, 15) : requestedPageSize
@@ -195,11 +212,21 @@ export class LeadFetchWorker {
         const attemptLeads: Lead[] = []
         const attemptRows: SheetLeadRow[] = []
 
-        let currentPage = 1
+        const saved = isRefresh ? savedCursors.get(mode) : undefined
+        const startPage = saved?.page ?? 1
+        let currentPage = startPage
+        let currentCursor = saved?.cursor ?? null
+        let nextCursor: string | null = null
+        let wrapped = startPage === 1
+        let resumeAt: SearchPosition = { page: 1, cursor: null }
         let consecutiveEmptyPages = 0
         let attemptPagesProcessed = 0
         let attemptTotalPagesReported = 0
 
+        if (startPage > 1) {
+          console.log(`🔁 Refresh resuming ${mode} search at page ${startPage}`)
+        }
+
         console.log(`🎯 Fetching up to ${campaign.maxLeads} leads with page size ${perPage}`)
         console.log(`🛡️ Page fetch ceiling set to ${maxPagesToFetch} pages (${mode === 'conserve' ? 'credit saver' : 'balanced'} mode)`)
 
@@ -211,29 +238,39 @@ export class LeadFetchWorker {
 
           await this.checkRateLimits([userRateLimit, campaignRateLimit])
 
-          const searchFilters: ApolloSearchFilters = {
-            person_titles: jobTitles,
-            person_locations: locations,
+          const searchQuery: LeadSearchQuery = {
+            titles: jobTitles,
+            locations,
             keywords: campaign.keywords 
               ? campaign.keywords.split(',').map(k => k.trim()).filter(k => k.length > 0)
-              : undefined,
+              : [],
             page: currentPage,
-            per_page: perPage,
+            perPage,
+            cursor: currentCursor,
           }
 
-          console.log(`🔍 Apollo search (page ${currentPage}):`, JSON.stringify(searchFilters))
+          console.log(`🔍 ${provider.id} search (page ${currentPage}):`, JSON.stringify(searchQuery))
 
-          const searchResponse = await this.executeApolloSearchWithRetry(searchFilters)
-          const totalPages = searchResponse.pagination?.total_pages || currentPage
+          const searchResponse = await this.executeSearchWithRetry(provider, searchQuery)
+          const totalPages = searchResponse.totalPages || currentPage
+          nextCursor = searchResponse.nextCursor ?? null
           attemptTotalPagesReported = Math.max(attemptTotalPagesReported, totalPages)
           attemptPagesProcessed += 1
 
-          const leads = apollo.processLeads(searchResponse.people)
-          console.log(`📊 Apollo returned ${leads.length} leads on page ${currentPage}`)
+          const leads = searchResponse.leads
+          console.log(`📊 ${provider.id} returned ${leads.length} leads on page ${currentPage}`)
 
           if (leads.length === 0) {
             consecutiveEmptyPages += 1
             if (currentPage >= totalPages) {
+              if (!wrapped) {
+                console.log(`🔁 Saved position is past the last page (${totalPages}); refreshing from page 1.`)
+                wrapped = true
+                currentPage = 1
+                currentCursor = null
+                consecutiveEmptyPages = 0
+                continue
+              }
               console.log(`⚠️ No more leads returned (page ${currentPage}), stopping pagination.`)
               break
             }
@@ -242,6 +279,7 @@ export class LeadFetchWorker {
               break
             }
             currentPage += 1
+            currentCursor = nextCursor
             continue
           }
 
@@ -266,7 +304,7 @@ export class LeadFetchWorker {
           }
 
           const remainingCapacity = Math.max(0, campaign.maxLeads - attemptLeads.length)
-          const uniqueLeads = [] as ApolloLead[]
+          const uniqueLeads = [] as ProviderLead[]
 
           for (const lead of filteredByDomain) {
             const rawEmail = lead.email?.toLowerCase().trim() || ''
@@ -288,8 +326,16 @@ export class LeadFetchWorker {
           } else {
             console.log(`🚀 Processing ${uniqueLeads.length} unique leads from page ${currentPage}`)
             const allowCrossCampaignDuplicates = mode === 'balanced' && modes.length > 1
-            await this.enrichLeadsWithBulkMatch(uniqueLeads)
-            const processedLeads = await this.processLeads(uniqueLeads, campaign.id, userId, allowCrossCampaignDuplicates)
+            await this.enrichLeads(provider, uniqueLeads)
+            const processedLeads = await this.processLeads(
+              provider,
+              uniqueLeads,
+              campaign.id,
+              userId,
+              allowCrossCampaignDuplicates,
+              campaign.skipContactedWithinDays,
+              jobId,
+            )
             processedLeads.forEach(result => {
               attemptLeads.push(result.record)
               attemptRows.push(result.sheet)
@@ -300,22 +346,41 @@ export class LeadFetchWorker {
 
           if (attemptLeads.length >= campaign.maxLeads) {
             console.log(`✅ Reached requested max leads (${campaign.maxLeads}).`)
+            // The page may hold more people than fit this run, so the next refresh re-reads it.
+            resumeAt = { page: currentPage, cursor: currentCursor }
             break
           }
 
           if (currentPage >= totalPages) {
+            if (!wrapped) {
+              console.log(`🔁 Reached last available page (${totalPages}); continuing from page 1.`)
+              wrapped = true
+              currentPage = 1
+              currentCursor = null
+              continue
+            }
             console.log(`🏁 Reached last available page (${totalPages}).`)
             break
           }
 
-          if (currentPage >= maxPagesToFetch) {
+          if (attemptPagesProcessed >= maxPagesToFetch) {
             console.log(`🛑 Hit configured page limit of ${maxPagesToFetch}. Ending search to conserve credits.`)
+            resumeAt = { page: currentPage + 1, cursor: nextCursor }
+            break
+          }
+
+          if (startPage > 1 && wrapped && currentPage + 1 >= startPage) {
+            console.log(`🏁 Refresh covered every page since page ${startPage}.`)
+            resumeAt = { page: currentPage + 1, cursor: nextCursor }
             break
           }
 
           currentPage += 1
+          currentCursor = nextCursor
         }
 
+        reachedCursors.set(mode, resumeAt)
+
         if (attemptLeads.length > 0) {
           aggregatedLeads = attemptLeads
           aggregatedSheetRows = attemptRows
@@ -355,7 +420,10 @@ export class LeadFetchWorker {
           leadsWritten: 0,
         })
 
+        await this.recordSearchProgress(campaignId, reachedCursors, isRefresh)
+
         console.log('🏁 Campaign completed with zero leads found. User will see "No leads found" message.')
+        triggerAlertEvent({ userId, event: 'LEAD_FETCH_SUCCEEDED', campaignId, referenceId: jobId })
         return
       }
 
@@ -402,6 +470,8 @@ export class LeadFetchWorker {
 
       console.log(`🏁 Campaign completed: ${totalLeadsProcessed} leads processed, ${totalLeadsWritten} written to sheet`)
 
+      await this.recordSearchProgress(campaignId, reachedCursors, isRefresh)
+
       await this.updateJobStatus(jobId, 'SUCCEEDED', {
         finishedAt: new Date(),
         totalPages: totalPagesReported,
@@ -416,6 +486,8 @@ export class LeadFetchWorker {
         leadsWritten: totalLeadsWritten,
       })
 
+      triggerAlertEvent({ userId, event: 'LEAD_FETCH_SUCCEEDED', campaignId, referenceId: jobId })
+
     } catch (error) {
       console.error(`❌ Job ${jobId} failed:`, error)
       
@@ -440,6 +512,8 @@ export class LeadFetchWorker {
         })
       }
 
+      triggerAlertEvent({ userId, event: 'LEAD_FETCH_FAILED', campaignId, referenceId: jobId })
+
       await job.discard()
 
       throw error // Re-throw to mark job as failed in BullMQ
@@ -461,206 +535,30 @@ export class LeadFetchWorker {
     }
   }
 
-  private async executeApolloSearchWithRetry(filters: ApolloSearchFilters, attempt: number = 1): Promise<ApolloSearchResponse> {
+  private async executeSearchWithRetry(
+    provider: LeadProvider,
+    query: LeadSearchQuery,
+    attempt: number = 1
+  ): Promise<LeadSearchPage> {
     try {
-      return await apollo.searchLeads(filters)
+      return await provider.search(query)
     } catch (error) {
-      if (error instanceof ApolloError && error.shouldRetry && attempt < 5) {
+      if (provider.isRetryable(error) && attempt < 5) {
         const waitTime = Math.min(15000, attempt * 2000)
-        console.warn(`⚠️ Apollo rate limit/server issue (attempt ${attempt}). Retrying in ${waitTime}ms...`)
+        console.warn(`⚠️ ${provider.id} rate limit/server issue (attempt ${attempt}). Retrying in ${waitTime}ms...`)
         await this.delay(waitTime)
-        return this.executeApolloSearchWithRetry(filters, attempt + 1)
+        return this.executeSearchWithRetry(provider, query, attempt + 1)
       }
 
       throw error
     }
   }
 
-  private async enrichLeadsWithBulkMatch(leads: ApolloLead[]): Promise<void> {
-    const targets = leads.filter(lead => {
-      const email = lead.email ? lead.email.toLowerCase() : ''
-      const needsEmail = !email || email.includes('not_unlocked')
-      const needsPhone = !lead.phone
-      return needsEmail || needsPhone
-    })
-
-    if (targets.length === 0) {
-      return
-    }
-
+  private async enrichLeads(provider: LeadProvider, leads: ProviderLead[]): Promise<void> {
     try {
-      const payload = targets.map(lead => ({
-        identifier: lead.id,
-        first_name: lead.first_name || undefined,
-        last_name: lead.last_name || undefined,
-        title: lead.title || undefined,
-        organization_name: lead.company_name || undefined,
-        domain: this.cleanDomain(lead.domain) || undefined,
-        linkedin_url: lead.linkedin_url || undefined,
-        email: lead.email && !lead.email.includes('not_unlocked') ? lead.email : undefined,
-        city: lead.city || undefined,
-        state: lead.state || undefined,
-        country: lead.country || undefined,
-      }))
-
-      const response = await apollo.bulkMatchPeople(payload, {
-        revealPersonalEmails: true,
-        revealPhoneNumber: false,
-      })
-
-      const leadMap = new Map<string, ApolloLead>()
-      leads.forEach(lead => {
-        leadMap.set(lead.id, lead)
-      })
-
-      const matches = Array.isArray(response.matches) ? response.matches : []
-
-      matches.forEach(rawMatch => {
-        if (!rawMatch || typeof rawMatch !== 'object') {
-          return
-        }
-
-        const match = rawMatch as Record<string, unknown>
-        const identifier =
-          asNonEmptyString(match.client_identifier) ?? asNonEmptyString(match.id)
-        if (!identifier) {
-          return
-        }
-
-        const lead = leadMap.get(identifier)
-        if (!lead) {
-          return
-        }
-
-        const emailCandidates = new Set<string>()
-        const baseEmail = asNonEmptyString(match.email)
-        if (baseEmail) {
-          emailCandidates.add(baseEmail)
-        }
-
-        const nestedEmails = Array.isArray(match.emails) ? match.emails : []
-        nestedEmails.forEach(entry => {
-          if (typeof entry === 'string') {
-            const candidate = asNonEmptyString(entry)
-            if (candidate) {
-              emailCandidates.add(candidate)
-            }
-            return
-          }
-
-          if (!entry || typeof entry !== 'object') {
-            return
-          }
-
-          const entryRecord = entry as Record<string, unknown>
-          const fromValue = asNonEmptyString(entryRecord.value)
-          if (fromValue) {
-            emailCandidates.add(fromValue)
-          }
-          const fromEmail = asNonEmptyString(entryRecord.email)
-          if (fromEmail) {
-            emailCandidates.add(fromEmail)
-          }
-        })
-
-        const rawEmails = Array.isArray(match.emails_raw) ? match.emails_raw : []
-        rawEmails.forEach(entry => {
-          const candidate = asNonEmptyString(entry)
-          if (candidate) {
-            emailCandidates.add(candidate)
-          }
-        })
-
-        const unlockedEmail = [...emailCandidates].find(
-          candidate => !candidate.includes('not_unlocked'),
-        )
-        if (unlockedEmail) {
-          lead.email = unlockedEmail.toLowerCase().trim()
-        }
-
-        const phoneCandidates = new Set<string>()
-        ;[match.phone_number, match.mobile_number].forEach(value => {
-          const candidate = asNonEmptyString(value)
-          if (candidate) {
-            phoneCandidates.add(candidate)
-          }
-        })
-
-        const phoneNumbers = Array.isArray(match.phone_numbers) ? match.phone_numbers : []
-        phoneNumbers.forEach(entry => {
-          if (typeof entry === 'string') {
-            const candidate = asNonEmptyString(entry)
-            if (candidate) {
-              phoneCandidates.add(candidate)
-            }
-            return
-          }
-
-          if (!entry || typeof entry !== 'object') {
-            return
-          }
-
-          const entryRecord = entry as Record<string, unknown>
-          const candidate = asNonEmptyString(entryRecord.number)
-          if (candidate) {
-            phoneCandidates.add(candidate)
-          }
-        })
-
-        const selectedPhone = [...phoneCandidates].find(candidate => candidate.length > 0)
-        if (selectedPhone) {
-          lead.phone = selectedPhone.trim()
-        }
-
-        const linkedin = asNonEmptyString(match.linkedin_url)
-        if (linkedin) {
-          lead.linkedin_url = linkedin
-        }
-
-        const organizationRaw = match.organization
-        if (organizationRaw && typeof organizationRaw === 'object') {
-          const organization = organizationRaw as Record<string, unknown>
-          const name = asNonEmptyString(organization.name)
-          if (name) {
-            lead.company_name = name
-          }
-          const website = asNonEmptyString(organization.website_url)
-          if (website) {
-            lead.domain = website
-          }
-          const industry = asNonEmptyString(organization.industry)
-          if (industry) {
-            lead.industry = industry
-          }
-        }
-
-        const streetAddress = asNonEmptyString(match.street_address)
-        if (streetAddress) {
-          lead.street_address = streetAddress
-        }
-        const city = asNonEmptyString(match.city)
-        if (city) {
-          lead.city = city
-        }
-        const state = asNonEmptyString(match.state)
-        if (state) {
-          lead.state = state
-        }
-        const country = asNonEmptyString(match.country)
-        if (country) {
-          lead.country = country
-        }
-        const postalCode = asNonEmptyString(match.postal_code)
-        if (postalCode) {
-          lead.postal_code = postalCode
-        }
-        const formattedAddress = asNonEmptyString(match.formatted_address)
-        if (formattedAddress) {
-          lead.formatted_address = formattedAddress
-        }
-      })
+      await provider.enrich(leads)
     } catch (error) {
-      console.error('❌ Bulk match enrichment failed:', error)
+      console.error('❌ Lead enrichment failed:', error)
     }
   }
 
@@ -724,16 +622,19 @@ export class LeadFetchWorker {
   }
 
   private async processLeads(
-    leads: ApolloLead[],
+    provider: LeadProvider,
+    leads: ProviderLead[],
     campaignId: string,
     userId: string,
-    allowCrossCampaignDuplicates: boolean = false
+    allowCrossCampaignDuplicates: boolean = false,
+    skipContactedWithinDays: number | null = null,
+    campaignJobId: string | null = null
   ): Promise<Array<{ record: Lead; sheet: SheetLeadRow }>> {
     if (leads.length === 0) {
       return []
     }
 
-    const prepared = await this.prepareLeads(leads, campaignId, userId, allowCrossCampaignDuplicates)
+    const prepared = await this.prepareLeads(provider, leads, campaignId, userId, allowCrossCampaignDuplicates)
 
     if (prepared.length === 0) {
       console.log('ℹ️ No leads passed preparation after enrichment and validation checks.')
@@ -741,17 +642,25 @@ export class LeadFetchWorker {
     }
 
     const deduped = this.dedupePreparedLeads(prepared)
-    const toInsert = await this.filterExistingLeads(deduped, campaignId, userId, allowCrossCampaignDuplicates)
+    const toInsert = await this.filterExistingLeads(
+      deduped,
+      campaignId,
+      userId,
+      allowCrossCampaignDuplicates,
+      skipContactedWithinDays
+    )
 
     if (toInsert.length === 0) {
       console.log('ℹ️ All prepared leads already exist for this user/campaign. Skipping insert.')
       return []
     }
 
+    await this.markSuppressedLeads(toInsert, userId)
+
     const insertedEmailSet = new Set<string>()
 
     for (const batch of chunkArray(toInsert, LEAD_INSERT_BATCH_SIZE)) {
-      const payload = batch.map(item => ({ ...item.dbData }))
+      const payload = batch.map(item => ({ ...item.dbData, campaignJobId }))
       const result = await prisma.lead.createMany({
         data: payload,
         skipDuplicates: true,
@@ -774,6 +683,9 @@ export class LeadFetchWorker {
     }
 
     const insertedEmails = Array.from(insertedEmailSet)
+    await linkCampaignLeadsToContacts(userId, campaignId, insertedEmails).catch(error => {
+      console.error('⚠️ Failed to link new leads to contacts:', error)
+    })
     const persistedRecords = await this.fetchLeadsByEmails(insertedEmails, campaignId)
     const recordMap = new Map(persistedRecords.map(record => [record.email, record]))
 
@@ -797,7 +709,8 @@ export class LeadFetchWorker {
   }
 
   private async prepareLeads(
-    leads: ApolloLead[],
+    provider: LeadProvider,
+    leads: ProviderLead[],
     campaignId: string,
     userId: string,
     allowCrossCampaignDuplicates: boolean
@@ -807,7 +720,7 @@ export class LeadFetchWorker {
       LEAD_PREPARATION_CONCURRENCY,
       async (lead) => {
         try {
-          return await this.prepareLead(lead, campaignId, userId, allowCrossCampaignDuplicates)
+          return await this.prepareLead(provider, lead, campaignId, userId, allowCrossCampaignDuplicates)
         } catch (error) {
           console.error(`❌ Error preparing lead ${lead.id}:`, error)
           return null
@@ -845,7 +758,8 @@ export class LeadFetchWorker {
     prepared: PreparedLead[],
     campaignId: string,
     userId: string,
-    allowCrossCampaignDuplicates: boolean
+    allowCrossCampaignDuplicates: boolean,
+    skipContactedWithinDays: number | null = null
   ): Promise<PreparedLead[]> {
     if (prepared.length === 0) {
       return []
@@ -882,17 +796,81 @@ export class LeadFetchWorker {
       matches.forEach(match => existingEmails.add(match.email))
     }
 
-    if (existingEmails.size === 0) {
-      return prepared
-    }
-
-    const filtered = prepared.filter(item => !existingEmails.has(item.dbData.email || ''))
+    const filtered = existingEmails.size === 0
+      ? prepared
+      : prepared.filter(item => !existingEmails.has(item.dbData.email || ''))
 
     if (filtered.length !== prepared.length) {
       console.log(`ℹ️ Skipped ${prepared.length - filtered.length} database duplicate lead(s).`)
     }
 
-    return filtered
+    if (!skipContactedWithinDays || skipContactedWithinDays <= 0) {
+      return filtered
+    }
+
+    // People emailed from any campaign within the window are left out, even when this campaign
+    // allows cross-campaign duplicates.
+    const recentlyContacted = await getRecentlyContactedEmails(
+      userId,
+      filtered.map(item => item.dbData.email),
+      skipContactedWithinDays
+    )
+
+    if (recentlyContacted.size === 0) {
+      return filtered
+    }
+
+    const uncontacted = filtered.filter(item => {
+      const normalized = normalizeContactEmail(item.dbData.email)
+      return !normalized || !recentlyContacted.has(normalized)
+    })
+
+    console.log(
+      `⏭️ Skipped ${filtered.length - uncontacted.length} lead(s) contacted in the last ${skipContactedWithinDays} day(s).`
+    )
+
+    return uncontacted
+  }
+
+  /** Saves where each search mode stopped so the next refresh run can pick up from there. */
+  private async recordSearchProgress(
+    campaignId: string,
+    positions: Map<string, SearchPosition>,
+    isRefresh: boolean
+  ): Promise<void> {
+    for (const [searchMode, position] of positions) {
+      await prisma.campaignSearchCursor.upsert({
+        where: { campaignId_searchMode: { campaignId, searchMode } },
+        create: { campaignId, searchMode, ...position },
+        update: position,
+      })
+    }
+
+    if (isRefresh) {
+      await prisma.campaign.update({
+        where: { id: campaignId },
+        data: { lastRefreshedAt: new Date() },
+      })
+    }
+  }
+
+  private async markSuppressedLeads(prepared: PreparedLead[], userId: string): Promise<void> {
+    const emails = prepared
+      .filter(item => item.dbData.isValid !== false && item.dbData.email)
+      .map(item => item.dbData.email)
+    const suppressed = await getSuppressedEmails(userId, emails)
+
+    if (suppressed.size === 0) {
+      return
+    }
+
+    prepared.forEach(item => {
+      if (suppressed.has(item.dbData.email.toLowerCase())) {
+        item.dbData.isSuppressed = true
+      }
+    })
+
+    console.log(`🚫 Marked ${suppressed.size} lead(s) as suppressed.`)
   }
 
   private async fetchLeadsByEmails(emails: string[], campaignId: string): Promise<Lead[]> {
@@ -947,7 +925,8 @@ export class LeadFetchWorker {
   }
 
   private async prepareLead(
-    lead: ApolloLead,
+    provider: LeadProvider,
+    lead: ProviderLead,
     campaignId: string,
     userId: string,
     allowCrossCampaignDuplicates: boolean
@@ -955,7 +934,7 @@ export class LeadFetchWorker {
     let rawEmail = lead.email ? lead.email.toLowerCase().trim() : ''
 
     if (!rawEmail || rawEmail.includes('not_unlocked')) {
-      const revealed = await apollo.revealEmail(lead.id)
+      const revealed = await provider.revealEmail(lead)
       if (revealed) {
         rawEmail = revealed.toLowerCase().trim()
         lead.email = rawEmail
@@ -964,12 +943,26 @@ export class LeadFetchWorker {
     }
 
     const hasValidEmail = !!rawEmail && this.isValidEmail(rawEmail) && !rawEmail.includes('not_unlocked')
-    const normalizedEmail = hasValidEmail ? rawEmail : `${lead.id.toLowerCase()}@locked.apollo`
+    const normalizedEmail = hasValidEmail ? rawEmail : `${lead.id.toLowerCase()}@locked.${provider.id}`
 
     if (!hasValidEmail) {
       console.log(`⚠️ Email marked as locked or invalid, will blank in sheet output: ${lead.email}`)
     }
 
+    // Addresses that fail verification keep their record but are blanked in the sheet and
+    // never emailed; risky ones are written and flagged.
+    const verification = hasValidEmail
+      ? await this.emailVerifier.verify(rawEmail).catch((error) => {
+          console.warn(`⚠️ Email verification failed for ${rawEmail}, leaving it unverified:`, error)
+          return null
+        })
+      : null
+    const isDeliverable = hasValidEmail && verification?.status !== 'INVALID'
+
+    if (verification && verification.status !== 'VALID') {
+      console.log(`🔎 Email ${rawEmail} verified as ${verification.status}: ${verification.reasons.join(', ')}`)
+    }
+
     const streetAddress = lead.street_address ? lead.street_address.toString().trim() : ''
     const city = lead.city ? lead.city.toString().trim() : ''
     const state = lead.state ? lead.state.toString().trim() : ''
@@ -979,7 +972,7 @@ export class LeadFetchWorker {
     const summary = (await this.createLeadSummary(lead)).trim() || 'Summary unavailable.'
     const finalSummary = hasValidEmail
       ? summary
-      : `${summary}\nEmail address is locked in Apollo. Unlock the contact to access the email.`
+      : `${summary}\nEmail address is locked in ${provider.label}. Unlock the contact to access the email.`
 
     const website = this.cleanUrl(lead.domain)
     const linkedinUrl = this.cleanUrl(lead.linkedin_url)
@@ -1003,15 +996,18 @@ export class LeadFetchWorker {
       industry: this.cleanString(lead.industry || null) ?? null,
       domain: domain ?? null,
       tags: [],
-      source: 'apollo',
-      isValid: hasValidEmail,
+      source: provider.id,
+      isValid: isDeliverable,
       isSuppressed: false,
+      emailVerificationStatus: verification?.status ?? 'UNVERIFIED',
+      emailVerificationReasons: verification?.reasons ?? [],
+      emailVerifiedAt: verification ? new Date() : null,
     }
 
     const sheetJobTitle = this.cleanString(lead.headline) ?? dbData.jobTitle ?? ''
 
     const sheetRow: SheetLeadRow = {
-      email: sanitizeEmailForSheet(hasValidEmail ? rawEmail : null),
+      email: sanitizeEmailForSheet(isDeliverable ? rawEmail : null),
       firstName: dbData.firstName || '',
       lastName: dbData.lastName || '',
       company: dbData.company || '',
@@ -1079,7 +1075,7 @@ export class LeadFetchWorker {
     return allowCrossCampaignDuplicates ? `${campaignId}:${email}` : `${userId}:${email}`
   }
 
-  private async createLeadSummary(lead: ApolloLead): Promise<string> {
+  private async createLeadSummary(lead: ProviderLead): Promise<string> {
     try {
       const rawPayload: Record<string, unknown> =
         (lead.raw_person as Record<string, unknown> | null | undefined) ?? {
@@ -0,0 +1,40 @@
+// src/scripts/simulate-gmail-push.ts
+// Local stand-in for Google Pub/Sub: posts a Gmail push envelope to the webhook so the
+// push → queue → history sync path can be exercised without a Google Cloud topic.
+import dotenv from 'dotenv'
+import path from 'path'
+
+dotenv.config({ path: path.resolve(process.cwd(), '.env') })
+
+import { buildGmailPushEnvelope } from '@/lib/replies/push'
+
+async function main() {
+  const [emailAddress, historyId = String(Date.now())] = process.argv.slice(2)
+  if (!emailAddress) {
+    console.error('Usage: npm run gmail:push -- <connected-gmail-address> [historyId]')
+    process.exit(1)
+  }
+
+  const baseUrl = process.env.NEXTJS_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  const url = new URL('/api/gmail/push', baseUrl)
+  if (process.env.GMAIL_PUSH_VERIFICATION_TOKEN) {
+    url.searchParams.set('token', process.env.GMAIL_PUSH_VERIFICATION_TOKEN)
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(buildGmailPushEnvelope({ emailAddress, historyId })),
+  })
+
+  console.log(`📨 Push for ${emailAddress} (history ${historyId}) → ${response.status} ${response.statusText}`)
+  if (!response.ok) {
+    console.error(await response.text())
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to simulate Gmail push:', error)
+  process.exit(1)
+})
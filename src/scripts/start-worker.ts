@@ -46,6 +46,9 @@ console.log(`   - REDIS_URL: ${process.env.REDIS_URL ? 'set' : 'not set'}`)
 // Now import and start the worker
 import { startWorker } from '@/lib/worker'
 import { startEmailWorker } from '@/lib/email/email-worker'
+import { startAlertWorker } from '@/lib/alerts/worker'
+import { startReplySyncWorker } from '@/lib/replies/worker'
+import { startCampaignRefreshWorker } from '@/lib/leads/refresh-worker'
 
 console.log('\n🚀 Starting lead fetch worker...')
 
@@ -113,8 +116,14 @@ async function main() {
     // Start the worker
     const leadWorker = startWorker()
     const emailWorker = startEmailWorker()
+    const alertWorker = startAlertWorker()
+    const replySyncWorker = startReplySyncWorker()
+    const campaignRefreshWorker = startCampaignRefreshWorker()
     console.log('✅ Lead fetch worker started successfully')
     console.log('✅ Email send worker started successfully')
+    console.log('✅ Alert worker started successfully')
+    console.log('✅ Reply sync worker started successfully')
+    console.log('✅ Campaign refresh worker started successfully')
     console.log('📊 Workers are now listening for jobs...')
     console.log('📋 Press Ctrl+C to stop the worker')
 
@@ -125,6 +134,9 @@ async function main() {
       try {
         await leadWorker.close()
         await emailWorker.close()
+        await alertWorker.close()
+        await replySyncWorker.close()
+        await campaignRefreshWorker.close()
         console.log('✅ Workers shut down successfully')
         
         // Close Redis connection
@@ -0,0 +1,41 @@
+export type AlertEventType =
+  | "REPLY_RECEIVED"
+  | "EMAIL_SENT"
+  | "EMAIL_FAILED"
+  | "LEAD_FETCH_SUCCEEDED"
+  | "LEAD_FETCH_FAILED"
+
+export type AlertAction = "PAUSE_CAMPAIGN" | "FORWARD_REPLY" | "SEND_DIGEST"
+
+export type AlertReplyDisposition = "NO_RESPONSE" | "POSITIVE" | "NEUTRAL" | "NOT_INTERESTED" | "UNSUB" | "BOUNCED"
+
+export type AlertRule = {
+  id: string
+  name: string
+  event: AlertEventType | null
+  action: AlertAction
+  disposition: AlertReplyDisposition | null
+  campaignId: string | null
+  threshold: number
+  windowHours: number
+  recipient: string | null
+  digestHour: number | null
+  timezone: string
+  isActive: boolean
+  lastFiredAt: string | null
+  createdAt: string
+}
+
+export type AlertRuleInput = Omit<AlertRule, "id" | "lastFiredAt" | "createdAt">
+
+export type AlertRuleFiring = {
+  id: string
+  ruleId: string
+  ruleName: string
+  event: AlertEventType | null
+  action: AlertAction
+  status: "success" | "failed"
+  detail: string | null
+  campaignId: string | null
+  createdAt: string
+}
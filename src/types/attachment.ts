@@ -0,0 +1,11 @@
+export type EmailAttachment = {
+  id: string
+  filename: string
+  contentType: string
+  /** Size in bytes. */
+  size: number
+  createdAt: string
+}
+
+/** What an email send job records about each file it carried. */
+export type EmailAttachmentRef = Pick<EmailAttachment, 'id' | 'filename' | 'contentType' | 'size'>
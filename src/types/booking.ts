@@ -0,0 +1,37 @@
+export type BookingStatus = "SCHEDULED" | "CONFIRMED" | "COMPLETED" | "NO_SHOW" | "CANCELLED"
+
+export type Booking = {
+  id: string
+  leadId: string | null
+  campaignId: string | null
+  campaignName: string | null
+  replyId: string | null
+  leadName: string
+  leadEmail: string
+  company: string | null
+  meetingType: string
+  startsAt: string
+  endsAt: string
+  meetingLink: string | null
+  notes: string | null
+  status: BookingStatus
+  inviteSentAt: string | null
+  createdAt: string
+}
+
+export type BookingInput = {
+  replyId?: string | null
+  leadId?: string | null
+  campaignId?: string | null
+  leadName?: string
+  leadEmail?: string
+  company?: string | null
+  meetingType?: string
+  startsAt: string
+  endsAt?: string | null
+  durationMinutes?: number
+  meetingLink?: string | null
+  notes?: string | null
+  status?: BookingStatus
+  sendInvite?: boolean
+}
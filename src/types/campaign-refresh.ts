@@ -0,0 +1,11 @@
+export type RefreshSchedule = 'daily' | 'weekly' | 'monthly'
+
+export type CampaignRefreshSummary = {
+  schedule: RefreshSchedule | null
+  nextRefreshAt: string | null
+  lastRefreshedAt: string | null
+  /** Leads added by the latest successful refresh; these are flagged as new in the leads list. */
+  newLeads: number
+  /** True while a lead pull for the campaign is queued or running. */
+  isRunning: boolean
+}
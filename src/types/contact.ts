@@ -0,0 +1,81 @@
+import type { EmailVerificationReason, EmailVerificationStatus } from './email-verification'
+
+export type ContactLeadEntry = {
+  id: string
+  campaignId: string
+  campaignName: string
+  source: string
+  createdAt: string
+}
+
+export type ContactEmailEntry = {
+  id: string
+  subject: string
+  status: string
+  /** Lead campaign or manual outreach campaign the email was sent from. */
+  campaignName: string | null
+  sequenceStep: number | null
+  sentAt: string | null
+  createdAt: string
+  openCount: number
+  clickCount: number
+}
+
+export type ContactReplyEntry = {
+  id: string
+  subject: string | null
+  snippet: string | null
+  disposition: string
+  campaignName: string | null
+  receivedAt: string
+}
+
+export type LeadHistory = {
+  lead: {
+    id: string
+    email: string
+    firstName: string | null
+    lastName: string | null
+    company: string | null
+    jobTitle: string | null
+    website: string | null
+    linkedinUrl: string | null
+    location: string | null
+    summary: string | null
+    source: string
+    isValid: boolean
+    isSuppressed: boolean
+    emailVerificationStatus: EmailVerificationStatus
+    emailVerificationReasons: EmailVerificationReason[]
+    emailVerifiedAt: string | null
+    campaignId: string
+    campaignName: string
+    createdAt: string
+  }
+  contact: {
+    id: string
+    email: string
+    lastContactedAt: string | null
+  } | null
+  /** Every lead record for this person across the user's campaigns, newest first. */
+  leads: ContactLeadEntry[]
+  emails: ContactEmailEntry[]
+  replies: ContactReplyEntry[]
+}
+
+export type CampaignLeadListItem = {
+  id: string
+  email: string
+  name: string | null
+  company: string | null
+  jobTitle: string | null
+  isValid: boolean
+  isSuppressed: boolean
+  emailVerificationStatus: EmailVerificationStatus
+  lastContactedAt: string | null
+  /** Number of the user's campaigns this person appears in, including this one. */
+  campaignCount: number
+  /** Added by the campaign's most recent refresh run. */
+  isNew: boolean
+  createdAt: string
+}
@@ -1,3 +1,6 @@
+import type { MailboxQuotaStatus } from "./gmail"
+import type { TrackingStats } from "./tracking"
+
 export type DashboardTrendPoint = {
   date: string
   count: number
@@ -13,16 +16,26 @@ export type DashboardActivityItem = {
   occurredAt: string
 }
 
+export type DashboardCampaignBookings = {
+  campaignId: string | null
+  campaignName: string
+  count: number
+}
+
 export type DashboardAnalyticsResponse = {
   metrics: {
     leadsWritten: number
     outreachEmailsSent: number
     userCount: number | null
     repliesCount?: number
+    bookedMeetings?: number
   }
   trends: {
     leadWrites: DashboardTrendPoint[]
     outreachSends: DashboardTrendPoint[]
   }
   activity: DashboardActivityItem[]
+  bookingsByCampaign?: DashboardCampaignBookings[]
+  mailboxQuotas?: MailboxQuotaStatus[]
+  engagement?: TrackingStats
 }
@@ -0,0 +1,30 @@
+export type DeliverabilitySeverity = 'warning' | 'error'
+
+export type DeliverabilityCheck =
+  | 'spam_phrases'
+  | 'links'
+  | 'images'
+  | 'subject_caps'
+  | 'subject_punctuation'
+  | 'plain_text'
+  | 'html'
+  | 'length'
+
+export type DeliverabilityWarning = {
+  check: DeliverabilityCheck
+  severity: DeliverabilitySeverity
+  message: string
+  /** Points taken off the score for this finding. */
+  penalty: number
+}
+
+export type DeliverabilityReport = {
+  /** 0–100, higher is better. */
+  score: number
+  warnings: DeliverabilityWarning[]
+}
+
+export type DeliverabilitySettings = {
+  /** Emails scoring below this are not queued. Null disables blocking. */
+  blockThreshold: number | null
+}
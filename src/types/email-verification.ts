@@ -0,0 +1,17 @@
+export type EmailVerificationStatus = 'UNVERIFIED' | 'VALID' | 'RISKY' | 'INVALID'
+
+export type EmailVerificationReason =
+  | 'syntax'
+  | 'disposable'
+  | 'no_mx'
+  | 'mailbox_not_found'
+  | 'role_account'
+  | 'catch_all'
+  | 'dns_error'
+
+export type EmailVerificationResult = {
+  status: Exclude<EmailVerificationStatus, 'UNVERIFIED'>
+  reasons: EmailVerificationReason[]
+  /** Mail exchangers for the domain, most preferred first. Empty when the lookup failed. */
+  mxHosts: string[]
+}
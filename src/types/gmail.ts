@@ -6,4 +6,45 @@ export interface GmailConnectionStatus {
   requiresReauth?: boolean
   lastActiveAt?: string | Date | null
   inactiveSince?: string | Date | null
+  accountCount?: number
+}
+
+export interface MailboxQuotaSettings {
+  dailySendCap: number
+  warmupEnabled: boolean
+  warmupStartVolume: number
+  warmupIncreasePercent: number
+}
+
+export interface MailboxQuotaStatus extends MailboxQuotaSettings {
+  gmailAccountId: string
+  emailAddress: string
+  sentToday: number
+  quota: number
+  warmupDay: number
+  warmupStartedAt: string
+  resetsAt: string
+}
+
+export type MailboxRotationStrategy = 'round_robin' | 'least_used'
+
+export interface MailboxHealth {
+  id: string
+  emailAddress: string
+  transport: 'gmail' | 'smtp'
+  isActive: boolean
+  requiresReauth: boolean
+  connectedAt: string
+  lastUsedAt: string | null
+  watchExpiresAt: string | null
+  failedLast7Days: number
+  bouncedLast7Days: number
+  quota: MailboxQuotaStatus
+}
+
+export interface MailboxAccountsResponse {
+  accounts: MailboxHealth[]
+  rotation: MailboxRotationStrategy
+  /** Appends an unsubscribe link to outreach emails, on top of the List-Unsubscribe header. */
+  unsubscribeFooter: boolean
 }
@@ -0,0 +1,39 @@
+export type LeadImportField =
+  | "email"
+  | "firstName"
+  | "lastName"
+  | "company"
+  | "jobTitle"
+  | "website"
+  | "linkedinUrl"
+  | "industry"
+  | "location"
+  | "summary"
+
+/** Import field to the zero-based index of the file column that feeds it. */
+export type LeadImportMapping = Partial<Record<LeadImportField, number>>
+
+export type LeadImportPreview = {
+  fileName: string
+  sheetName: string
+  headers: string[]
+  sampleRows: string[][]
+  rowCount: number
+  suggestedMapping: LeadImportMapping
+}
+
+export type LeadImportRejection = {
+  /** Row number as shown in a spreadsheet, counting the header as row 1. */
+  row: number
+  email: string
+  reason: string
+}
+
+export type LeadImportResult = {
+  imported: number
+  duplicates: number
+  suppressed: number
+  rejected: LeadImportRejection[]
+  /** CSV of the rejected rows with their original columns and the reason, or null when none were rejected. */
+  errorReport: string | null
+}
@@ -0,0 +1,89 @@
+export type LeadProviderId = 'apollo' | 'rest'
+
+/** Normalised lead shape every provider returns to the lead fetch worker. */
+export interface ProviderLead {
+  id: string
+  first_name: string
+  last_name: string
+  title: string
+  company_name: string
+  domain: string
+  email: string
+  linkedin_url: string
+  phone?: string
+  industry?: string
+  street_address?: string
+  city?: string
+  state?: string
+  country?: string
+  postal_code?: string
+  formatted_address?: string
+  summary?: string
+  /** The provider's original record, passed to the summary generator as context. */
+  raw_person?: unknown
+  headline?: string | null
+}
+
+export type LeadSearchQuery = {
+  titles: string[]
+  locations: string[]
+  keywords: string[]
+  page: number
+  perPage: number
+  /** Opaque position returned by the previous page, for providers that paginate by cursor. */
+  cursor?: string | null
+}
+
+export type LeadSearchPage = {
+  leads: ProviderLead[]
+  totalPages: number
+  /** Cursor for the following page, when the provider paginates by cursor. */
+  nextCursor?: string | null
+}
+
+export const LEAD_FIELD_KEYS = [
+  'id',
+  'email',
+  'first_name',
+  'last_name',
+  'title',
+  'headline',
+  'company_name',
+  'domain',
+  'linkedin_url',
+  'phone',
+  'industry',
+  'street_address',
+  'city',
+  'state',
+  'country',
+  'postal_code',
+  'formatted_address',
+] as const
+
+export type LeadFieldKey = (typeof LEAD_FIELD_KEYS)[number]
+
+/**
+ * Settings for the generic REST/JSON provider. Paths use dot notation (`data.people`,
+ * `organization.name`) and are resolved against the JSON response.
+ */
+export type RestLeadProviderConfig = {
+  searchUrl: string
+  method: 'GET' | 'POST'
+  apiKeyHeader?: string
+  apiKey?: string
+  /** Where the array of people sits in the search response. Empty means the response is the array. */
+  resultsPath: string
+  /** Where the total page count sits in the search response. Without it, pagination stops on a short page. */
+  totalPagesPath?: string
+  /** Where the next-page cursor sits in the search response. It is sent back as `cursor` on the next request. */
+  nextCursorPath?: string
+  /** Lead field to the path of its value inside each result. `id` is required. */
+  fieldMap: Partial<Record<LeadFieldKey, string>>
+  /** Optional endpoint that receives `{ leads }` and returns matches in the same shape as search results. */
+  enrichUrl?: string
+  /** Optional endpoint for unlocking an email; `{id}` is replaced with the lead id. */
+  revealUrl?: string
+  /** Where the email sits in the reveal response. Defaults to `email`. */
+  revealEmailPath?: string
+}
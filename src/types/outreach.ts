@@ -9,6 +9,8 @@ export type SheetLead = {
   summary?: string
   role?: string
   sourceRowRef?: string
+  /** Every non-empty column of the sheet row keyed by header, for merge fields. */
+  fields?: Record<string, string>
 }
 
 export type DraftStatus = "pending" | "queued" | "sent" | "failed"
@@ -36,6 +38,8 @@ export type OutreachedJob = {
   status: string
   sheetRowRef?: string | null
   sentAt?: string | null
+  scheduledAt?: string | null
+  leadTimeZone?: string | null
   createdAt: string
   manualCampaignId?: string | null
   manualCampaignName?: string | null
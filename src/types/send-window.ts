@@ -0,0 +1,26 @@
+import type { OutreachSequenceTarget } from './sequence'
+
+export type SendWindow = {
+  id: string
+  campaignId: string | null
+  manualCampaignId: string | null
+  isActive: boolean
+  days: number[]
+  startMinute: number
+  endMinute: number
+  timeZone: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type SendWindowTarget = OutreachSequenceTarget
+
+export type SendTimeZoneSource = 'lead' | 'location' | 'fallback'
+
+export type ScheduledSendPreview = {
+  email: string
+  timeZone: string
+  timeZoneSource: SendTimeZoneSource
+  scheduledAt: string
+  deferred: boolean
+}
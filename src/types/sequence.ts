@@ -0,0 +1,22 @@
+export type OutreachSequenceStep = {
+  id?: string
+  stepNumber: number
+  delayHours: number
+  subjectTemplate: string | null
+  bodyTemplate: string
+}
+
+export type OutreachSequence = {
+  id: string
+  name: string
+  campaignId: string | null
+  manualCampaignId: string | null
+  isActive: boolean
+  steps: OutreachSequenceStep[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type OutreachSequenceTarget =
+  | { campaignId: string; manualCampaignId?: undefined }
+  | { manualCampaignId: string; campaignId?: undefined }
@@ -0,0 +1,22 @@
+export type SuppressionType = "EMAIL" | "DOMAIN"
+
+export type SuppressionScope = "user" | "org"
+
+export type SuppressionSource = "manual" | "import" | "reply" | "unsubscribe"
+
+export type SuppressionEntry = {
+  id: string
+  type: SuppressionType
+  value: string
+  reason: string | null
+  source: string
+  scope: SuppressionScope
+  replyId: string | null
+  createdAt: string
+}
+
+export type SuppressionImportResult = {
+  imported: number
+  skipped: number
+  invalid: string[]
+}
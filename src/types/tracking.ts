@@ -0,0 +1,28 @@
+import type { OutreachSequenceTarget } from './sequence'
+
+export type TrackingTarget = OutreachSequenceTarget
+
+export type TrackingSettings = {
+  trackOpens: boolean
+  trackClicks: boolean
+}
+
+export type TrackingEventType = 'open' | 'click'
+
+export type TrackingStats = {
+  /** Sent emails that carried the open pixel. */
+  openTrackedSends: number
+  /** Sent emails whose links were rewritten for click tracking. */
+  clickTrackedSends: number
+  opened: number
+  clicked: number
+  openRate: number | null
+  clickRate: number | null
+}
+
+export type CampaignTracking = {
+  settings: TrackingSettings
+  /** False when no public base URL is configured, so tracking cannot be embedded at all. */
+  available: boolean
+  stats: TrackingStats
+}
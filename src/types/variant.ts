@@ -0,0 +1,47 @@
+import type { OutreachSequenceTarget } from './sequence'
+
+export type VariantExperimentTarget = OutreachSequenceTarget
+
+/** What "winning" means when comparing variants. */
+export type VariantMetric = 'reply' | 'positive'
+
+export type EmailVariant = {
+  id?: string
+  label: string
+  subjectTemplate: string
+  bodyTemplate: string
+  isActive: boolean
+}
+
+export type VariantExperiment = {
+  id: string
+  campaignId: string | null
+  manualCampaignId: string | null
+  isActive: boolean
+  metric: VariantMetric
+  autoPromote: boolean
+  minSampleSize: number
+  winnerVariantId: string | null
+  promotedAt: string | null
+  variants: EmailVariant[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type VariantStats = {
+  variantId: string
+  label: string
+  isActive: boolean
+  /** First-touch emails sent with this variant; follow-ups are not counted. */
+  sent: number
+  /** Distinct leads who replied (bounces excluded). */
+  replied: number
+  positive: number
+  replyRate: number | null
+  positiveRate: number | null
+}
+
+export type VariantExperimentReport = {
+  experiment: VariantExperiment
+  stats: VariantStats[]
+}